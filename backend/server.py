@@ -1,22 +1,25 @@
-from fastapi import FastAPI, APIRouter, HTTPException, Depends, WebSocket, WebSocketDisconnect
+from fastapi import FastAPI, APIRouter, HTTPException, Depends, Header, WebSocket, WebSocketDisconnect
 from fastapi.security import HTTPBearer, HTTPAuthorizationCredentials
 from fastapi.staticfiles import StaticFiles
 from fastapi.responses import FileResponse
 from dotenv import load_dotenv
 from starlette.middleware.cors import CORSMiddleware
 from motor.motor_asyncio import AsyncIOMotorClient
+from pymongo.errors import DuplicateKeyError
 import os
 import logging
 from pathlib import Path
 from pydantic import BaseModel, Field
-from typing import List, Optional, Dict, Set
+from typing import List, Literal, Optional, Dict, Set, Callable, Awaitable
 import uuid
 from datetime import datetime, timedelta, timezone
+from zoneinfo import ZoneInfo
 import jwt
 import hashlib
 import math
 import json
 import asyncio
+import time
 
 ROOT_DIR = Path(__file__).parent
 load_dotenv(ROOT_DIR / '.env')
@@ -78,8 +81,30 @@ class SkipMeal(BaseModel):
     meal_type: str
 
 class DeliveryStatusUpdate(BaseModel):
-    status: str
+    status: Literal["delivered", "failed"]
     photo_base64: Optional[str] = None
+    # Delivery id read off the dabba label at the door, when the driver scanned one
+    scanned_delivery_id: Optional[str] = None
+    # When the driver acted - differs from the request time for actions replayed from the offline queue
+    occurred_at: Optional[str] = None
+
+class DeliveryFailure(BaseModel):
+    reason: str  # customer_unavailable, wrong_address, access_issue, refused, other
+    notes: Optional[str] = None
+    photo_base64: Optional[str] = None
+    left_with: Optional[str] = None  # neighbour, concierge
+    left_with_name: Optional[str] = None
+    occurred_at: Optional[str] = None
+
+class FailedDeliveryResolution(BaseModel):
+    action: str  # redeliver, refund, credit
+    note: Optional[str] = None
+    redeliver_date: Optional[str] = None  # YYYY-MM-DD, defaults to today
+    amount: Optional[float] = None  # defaults to one meal credit
+
+class DabbaScan(BaseModel):
+    delivery_id: str
+    stage: str  # load, deliver
 
 class DriverLocationUpdate(BaseModel):
     latitude: float
@@ -89,6 +114,14 @@ class DriverLocationQuery(BaseModel):
     latitude: float
     longitude: float
 
+class ShiftPickup(BaseModel):
+    # Dabbas the driver scanned into the car before leaving the kitchen
+    loaded_delivery_ids: List[str] = []
+
+class RouteOrderUpdate(BaseModel):
+    # The driver's remaining stops, first stop first
+    delivery_ids: List[str]
+
 class MarkReadyForDelivery(BaseModel):
     order_ids: List[str]
 
@@ -170,6 +203,52 @@ async def get_current_user(credentials: HTTPAuthorizationCredentials = Depends(s
         raise HTTPException(status_code=401, detail="User not found")
     return user
 
+# Idempotency keys only need to outlive the driver app's offline queue
+IDEMPOTENCY_KEY_TTL_SECONDS = 7 * 24 * 60 * 60
+
+async def run_idempotent(key: Optional[str], user_id: str, action: Callable[[], Awaitable[dict]]) -> dict:
+    """
+    Apply a request at most once per Idempotency-Key. The key is reserved before the action
+    runs (unique on key + user_id), so parallel replays can't both apply it; a replay after
+    it finished gets the stored response, and a failed action gives the key back for the retry.
+    """
+    if not key:
+        return await action()
+    try:
+        await db.idempotency_keys.insert_one({"key": key, "user_id": user_id, "created_at": datetime.utcnow()})
+    except DuplicateKeyError:
+        record = await db.idempotency_keys.find_one({"key": key, "user_id": user_id})
+        if record and "response" in record:
+            return record["response"]
+        raise HTTPException(status_code=429, detail="This action is still being processed - try again shortly")
+    
+    try:
+        response = await action()
+    except Exception:
+        await db.idempotency_keys.delete_one({"key": key, "user_id": user_id})
+        raise
+    await db.idempotency_keys.update_one({"key": key, "user_id": user_id}, {"$set": {"response": response}})
+    return response
+
+def parse_utc(value: Optional[str]) -> Optional[datetime]:
+    """ISO timestamp from the app or the database as naive UTC, like datetime.utcnow()"""
+    if not value:
+        return None
+    try:
+        parsed = datetime.fromisoformat(value.replace("Z", "+00:00"))
+    except ValueError:
+        return None
+    return parsed.astimezone(timezone.utc).replace(tzinfo=None) if parsed.tzinfo else parsed
+
+def clamp_occurred_at(occurred_at: Optional[str], started_at: Optional[str]) -> str:
+    """When the driver says they acted, kept between the stop's start and now"""
+    now = datetime.utcnow()
+    when = min(parse_utc(occurred_at) or now, now)
+    earliest = parse_utc(started_at)
+    if earliest and earliest <= now:
+        when = max(when, earliest)
+    return when.isoformat()
+
 # ==================== REAL-TIME WEBSOCKET MANAGER ====================
 
 class ConnectionManager:
@@ -253,6 +332,75 @@ class ConnectionManager:
         }
         await self.broadcast_to_role(event, "kitchen")
         await self.broadcast_to_role(event, "driver")
+    
+    async def notify_driver_location(self, driver_id: str, latitude: float, longitude: float, customer_ids: List[str] = None):
+        """Notify kitchen (and customers awaiting this driver) of a driver position change"""
+        event = {
+            "event": "driver_location",
+            "data": {
+                "driver_id": driver_id,
+                "latitude": latitude,
+                "longitude": longitude,
+                "timestamp": datetime.now(timezone.utc).isoformat()
+            }
+        }
+        await self.broadcast_to_role(event, "kitchen")
+        for customer_id in customer_ids or []:
+            await self.send_personal_message(event, customer_id, "customer")
+    
+    async def notify_menu_update(self, date: str):
+        """Notify customers and kitchen that the menu for a date changed"""
+        event = {
+            "event": "menu_update",
+            "data": {
+                "date": date,
+                "timestamp": datetime.now(timezone.utc).isoformat()
+            }
+        }
+        await self.broadcast_to_role(event, "customer")
+        await self.broadcast_to_role(event, "kitchen")
+    
+    async def notify_sold_out(self, date: str, item_name: str, sold_out: bool):
+        """Notify customers and kitchen that an item was marked sold out or restocked"""
+        event = {
+            "event": "sold_out_update",
+            "data": {
+                "date": date,
+                "item_name": item_name,
+                "sold_out": sold_out,
+                "timestamp": datetime.now(timezone.utc).isoformat()
+            }
+        }
+        await self.broadcast_to_role(event, "customer")
+        await self.broadcast_to_role(event, "kitchen")
+    
+    async def notify_weather_update(self, weather: dict):
+        """Tell every app the service status changed so banners and ETAs refresh"""
+        event = {
+            "event": "weather_update",
+            "data": {
+                "condition": weather.get("condition"),
+                "status": weather.get("status"),
+                "message": weather.get("message"),
+                "delay_minutes": weather.get("delay_minutes", 0),
+                "revert_at": weather.get("revert_at"),
+                "timestamp": datetime.now(timezone.utc).isoformat()
+            }
+        }
+        await self.broadcast_all(event)
+    
+    async def notify_cook_sheet_update(self, item_id: str, batch_index: int, done: bool):
+        """Keep every kitchen screen's cook sheet in step"""
+        event = {
+            "event": "cook_sheet_update",
+            "data": {
+                "item_id": item_id,
+                "batch_index": batch_index,
+                "done": done,
+                "timestamp": datetime.now(timezone.utc).isoformat()
+            }
+        }
+        await self.broadcast_to_role(event, "kitchen")
 
 # Global connection manager
 ws_manager = ConnectionManager()
@@ -270,8 +418,12 @@ async def reindex_delivery_sequence(date_str: str):
         "status": {"$ne": "skipped"}
     }).sort("sequence_number", 1).to_list(1000)
     
-    # Re-assign sequence numbers
-    for idx, delivery in enumerate(deliveries, start=1):
+    # Re-assign sequence numbers; published routes are numbered per driver
+    positions = {}
+    for delivery in deliveries:
+        driver_key = delivery.get("driver_id")
+        positions[driver_key] = positions.get(driver_key, 0) + 1
+        idx = positions[driver_key]
         if delivery.get("sequence_number") != idx:
             await db.deliveries.update_one(
                 {"id": delivery["id"]},
@@ -482,15 +634,6 @@ async def skip_meal(skip_data: SkipMeal, current_user: dict = Depends(get_curren
     
     return {"message": "Meal skipped successfully", "credit": credit_amount}
 
-# ==================== WALLET ROUTES ====================
-
-@api_router.get("/wallet")
-async def get_wallet(current_user: dict = Depends(get_current_user)):
-    wallet = await db.wallets.find_one({"user_id": current_user["id"]})
-    if not wallet:
-        return {"balance": 0, "transactions": []}
-    return {"balance": wallet.get("balance", 0), "transactions": wallet.get("transactions", [])}
-
 # ==================== DRIVER ROUTES ====================
 
 # Haversine formula to calculate distance between two coordinates
@@ -596,20 +739,64 @@ async def get_driver_deliveries(
     return {"deliveries": deliveries}
 
 @api_router.put("/driver/delivery/{delivery_id}/status")
-async def update_delivery_status(delivery_id: str, status_data: DeliveryStatusUpdate, current_user: dict = Depends(get_current_user)):
+async def update_delivery_status(
+    delivery_id: str,
+    status_data: DeliveryStatusUpdate,
+    idempotency_key: Optional[str] = Header(None, alias="Idempotency-Key"),
+    current_user: dict = Depends(get_current_user)
+):
     if current_user.get("role") != "driver":
         raise HTTPException(status_code=403, detail="Access denied. Driver role required.")
     
+    # A dabba only counts as delivered once its label has been scanned at the door
+    if status_data.status == "delivered" and not status_data.scanned_delivery_id:
+        raise HTTPException(status_code=400, detail="Scan the dabba label to complete this delivery")
+    if status_data.scanned_delivery_id and status_data.scanned_delivery_id != delivery_id:
+        raise HTTPException(status_code=409, detail="Scanned dabba belongs to a different stop")
+    
+    # The driver app replays queued actions after losing signal; a resend must not overwrite newer state
+    return await run_idempotent(
+        idempotency_key,
+        current_user["id"],
+        lambda: apply_delivery_status(delivery_id, status_data, current_user)
+    )
+
+async def apply_delivery_status(delivery_id: str, status_data: DeliveryStatusUpdate, current_user: dict) -> dict:
+    delivery = await db.deliveries.find_one({"id": delivery_id})
+    if not delivery:
+        raise HTTPException(status_code=404, detail="Delivery not found")
+    if stop_driver_id(delivery) not in (None, current_user["id"]):
+        raise HTTPException(status_code=403, detail="This stop belongs to another driver's route")
+    if delivery.get("status") in CLOSED_STOP_STATUSES:
+        raise HTTPException(status_code=409, detail=f"This stop is already {delivery['status']}")
+    
     # Store delivery completion in DB
     delivery_record = {
         "id": delivery_id,
         "status": status_data.status,
         "driver_id": current_user["id"],
         "driver_name": current_user.get("name", "Unknown"),
-        "completed_at": datetime.utcnow().isoformat(),
-        "photo_base64": status_data.photo_base64 if status_data.photo_base64 else None
+        # Feeds shift summaries and ETA learning, so a phone clock can't put it outside the stop
+        "completed_at": clamp_occurred_at(status_data.occurred_at, delivery.get("started_at")),
+        "synced_at": datetime.utcnow().isoformat(),
+        "photo_base64": status_data.photo_base64 if status_data.photo_base64 else None,
+        # Only a door scan the server recorded counts, not what the app says it scanned
+        "scan_verified": bool(delivery.get("door_scanned_at"))
     }
     
+    # Close the stop only if it is still open; a different queued action for the same stop
+    # (another key, so no replay) must not flip it or move its completed_at
+    closed = await db.deliveries.update_one(
+        {"id": delivery_id, "status": {"$nin": CLOSED_STOP_STATUSES}},
+        {"$set": {
+            "status": status_data.status,
+            "completed_at": delivery_record["completed_at"],
+            **driver_stamp(db.deliveries, current_user)
+        }}
+    )
+    if not closed.modified_count:
+        raise HTTPException(status_code=409, detail="This stop was already closed")
+    
     # Upsert into completed_deliveries collection
     await db.completed_deliveries.update_one(
         {"id": delivery_id},
@@ -617,6 +804,13 @@ async def update_delivery_status(delivery_id: str, status_data: DeliveryStatusUp
         upsert=True
     )
     
+    await ws_manager.notify_delivery_update(
+        delivery_id=delivery_id,
+        status=status_data.status,
+        customer_id=delivery.get("customer_id"),
+        driver_id=current_user["id"]
+    )
+    
     return {
         "message": f"Delivery {delivery_id} marked as {status_data.status}",
         "has_photo": status_data.photo_base64 is not None
@@ -767,6 +961,8 @@ async def set_menu_day(menu_data: MenuDaySet, current_user: dict = Depends(get_k
         upsert=True
     )
     
+    await ws_manager.notify_menu_update(menu_data.date)
+    
     return {"message": f"Dinner menu set for {menu_data.date}", "item_count": len(menu_data.dinner_item_ids)}
 
 # ==================== CUSTOMER MANAGEMENT ====================
@@ -855,6 +1051,15 @@ async def get_kitchen_orders(current_user: dict = Depends(get_kitchen_user)):
 
 # ==================== SMART DELIVERY SYSTEM ====================
 
+async def get_label_delivery_ids(user_ids: list) -> dict:
+    """Manifest delivery id per customer for today; label QR codes carry this so the driver app can match it"""
+    today = datetime.now(timezone.utc).strftime("%Y-%m-%d")
+    deliveries = await db.deliveries.find({
+        "customer_id": {"$in": user_ids},
+        "delivery_date": today
+    }).to_list(len(user_ids) or 1)
+    return {d["customer_id"]: d["id"] for d in deliveries}
+
 @api_router.post("/kitchen/mark-ready")
 async def mark_orders_ready(data: MarkReadyForDelivery, current_user: dict = Depends(get_kitchen_user)):
     """Mark orders as ready for delivery and auto-generate delivery numbers"""
@@ -868,15 +1073,20 @@ async def mark_orders_ready(data: MarkReadyForDelivery, current_user: dict = Dep
     next_number = (last_delivery.get("delivery_number", 0) if last_delivery else 0) + 1
     
     ready_orders = []
+    subs = await db.subscriptions.find({"id": {"$in": data.order_ids}}).to_list(len(data.order_ids) or 1)
+    spice_levels = await get_spice_levels([sub["user_id"] for sub in subs])
+    label_ids = await get_label_delivery_ids([sub["user_id"] for sub in subs])
     for order_id in data.order_ids:
         sub = await db.subscriptions.find_one({"id": order_id})
         if sub:
             user = await db.users.find_one({"id": sub["user_id"]})
             address = sub.get("delivery_address", user.get("address", "") if user else "")
             coords = get_coords_for_address(address)
+            # Keep the id stable on re-marks so printed label QR codes stay valid
+            existing = await db.delivery_queue.find_one({"subscription_id": order_id, "date": today})
             
             delivery_item = {
-                "id": str(uuid.uuid4()),
+                "id": existing["id"] if existing else str(uuid.uuid4()),
                 "subscription_id": order_id,
                 "user_id": sub["user_id"],
                 "date": today,
@@ -899,10 +1109,13 @@ async def mark_orders_ready(data: MarkReadyForDelivery, current_user: dict = Dep
             )
             
             ready_orders.append({
+                "delivery_id": label_ids.get(sub["user_id"], delivery_item["id"]),
                 "delivery_number": next_number,
                 "customer_name": delivery_item["customer_name"],
+                "phone": delivery_item["customer_phone"],
                 "address": address,
-                "plan": delivery_item["plan"]
+                "plan": delivery_item["plan"],
+                "spice_level": spice_levels.get(sub["user_id"], "medium")
             })
             next_number += 1
     
@@ -918,18 +1131,168 @@ async def get_print_labels(current_user: dict = Depends(get_kitchen_user)):
         "status": "ready"
     }).sort("delivery_number", 1).to_list(200)
     
+    spice_levels = await get_spice_levels([order.get("user_id") for order in ready_orders])
+    label_ids = await get_label_delivery_ids([order.get("user_id") for order in ready_orders])
     labels = []
     for order in ready_orders:
         labels.append({
+            "delivery_id": label_ids.get(order.get("user_id"), order.get("id")),
             "delivery_number": order.get("delivery_number"),
             "customer_name": order.get("customer_name"),
             "address": order.get("address"),
             "plan": order.get("plan"),
-            "phone": order.get("customer_phone", "")
+            "phone": order.get("customer_phone", ""),
+            "spice_level": spice_levels.get(order.get("user_id"), "medium")
         })
     
     return {"labels": labels, "date": today}
 
+# ==================== DRIVER SHIFTS ====================
+
+async def get_active_shift(driver_id: str) -> Optional[dict]:
+    return await db.driver_shifts.find_one({"driver_id": driver_id, "status": {"$ne": "off_shift"}})
+
+# Stops that are finished or off today's run; nothing moves them again
+CLOSED_STOP_STATUSES = ["delivered", "failed", "skipped", "cancelled"]
+
+def stop_driver_id(delivery: dict) -> Optional[str]:
+    """The driver carrying a stop: whoever started it, else the driver the published route gave it"""
+    return delivery.get("handled_by") or delivery.get("driver_id")
+
+def ensure_stop_driver(delivery: dict, driver: dict):
+    if stop_driver_id(delivery) not in (None, driver["id"]):
+        raise HTTPException(status_code=403, detail="This stop belongs to another driver's route")
+
+async def customers_on_run(driver_id: str, date_str: str) -> List[str]:
+    """Customers whose open stops today are on this driver's run"""
+    stops = await db.deliveries.find(
+        {
+            "delivery_date": date_str,
+            "status": {"$nin": CLOSED_STOP_STATUSES},
+            "$or": [{"driver_id": driver_id}, {"handled_by": driver_id}]
+        },
+        {"_id": 0, "customer_id": 1}
+    ).to_list(500)
+    return [s["customer_id"] for s in stops if s.get("customer_id")]
+
+async def find_driver_delivery(delivery_id: str):
+    """Manifest stops live in deliveries, kitchen-generated ones in delivery_queue"""
+    delivery = await db.deliveries.find_one({"id": delivery_id})
+    if delivery:
+        return delivery, db.deliveries
+    delivery = await db.delivery_queue.find_one({"id": delivery_id})
+    if delivery:
+        return delivery, db.delivery_queue
+    raise HTTPException(status_code=404, detail="Delivery not found")
+
+def driver_stamp(collection, driver: dict) -> dict:
+    """
+    Queue stops belong to whichever driver starts them. Manifest stops keep the
+    driver the route plan gave them; the driver who worked the stop is handled_by.
+    """
+    if collection.name == "delivery_queue":
+        return {"driver_id": driver["id"], "driver_name": driver.get("name")}
+    return {"handled_by": driver["id"], "handled_by_name": driver.get("name")}
+
+async def build_shift_summary(shift: dict, ended_at: str) -> dict:
+    """Stops closed out between clock in and clock out"""
+    driver_id = shift["driver_id"]
+    started_at = shift["clocked_in_at"]
+    window = {"$gte": started_at, "$lte": ended_at}
+    
+    delivered = await db.completed_deliveries.count_documents({
+        "driver_id": driver_id, "status": "delivered", "completed_at": window
+    })
+    exceptions = await db.failed_deliveries.find(
+        {"driver_id": driver_id, "failed_at": window},
+        {"_id": 0, "left_with": 1}
+    ).to_list(500)
+    left_with = len([e for e in exceptions if e.get("left_with")])
+    failed = len(exceptions) - left_with
+    
+    minutes = int((datetime.fromisoformat(ended_at) - datetime.fromisoformat(started_at)).total_seconds() // 60)
+    stops = delivered + left_with + failed
+    return {
+        "delivered": delivered + left_with,
+        "left_with": left_with,
+        "failed": failed,
+        "loaded": shift.get("loaded_count", 0),
+        "duration_minutes": minutes,
+        "minutes_per_stop": round(minutes / stops, 1) if stops else None
+    }
+
+def shift_response(shift: Optional[dict]) -> Optional[dict]:
+    return {k: v for k, v in shift.items() if k != "_id"} if shift else None
+
+@api_router.get("/driver/shift")
+async def get_driver_shift(current_user: dict = Depends(get_current_user)):
+    """The driver's current shift, or null when off shift"""
+    if current_user.get("role") != "driver":
+        raise HTTPException(status_code=403, detail="Driver role required")
+    return {"shift": shift_response(await get_active_shift(current_user["id"]))}
+
+@api_router.post("/driver/shift/clock-in")
+async def clock_in(current_user: dict = Depends(get_current_user)):
+    if current_user.get("role") != "driver":
+        raise HTTPException(status_code=403, detail="Driver role required")
+    
+    existing = await get_active_shift(current_user["id"])
+    if existing:
+        return {"message": "Already clocked in", "shift": shift_response(existing)}
+    
+    shift = {
+        "id": str(uuid.uuid4()),
+        "driver_id": current_user["id"],
+        "driver_name": current_user.get("name", "Driver"),
+        "status": "clocked_in",  # clocked_in -> en_route -> off_shift
+        "clocked_in_at": datetime.utcnow().isoformat(),
+        "picked_up_at": None,
+        "clocked_out_at": None
+    }
+    await db.driver_shifts.insert_one(shift)
+    return {"message": "Clocked in", "shift": shift_response(shift)}
+
+@api_router.post("/driver/shift/pickup")
+async def confirm_pickup(pickup: ShiftPickup, current_user: dict = Depends(get_current_user)):
+    """Driver has the dabbas and is leaving the kitchen"""
+    if current_user.get("role") != "driver":
+        raise HTTPException(status_code=403, detail="Driver role required")
+    
+    shift = await get_active_shift(current_user["id"])
+    if not shift:
+        raise HTTPException(status_code=409, detail="Clock in before picking up")
+    if shift["status"] == "en_route":
+        return {"message": "Already picked up", "shift": shift_response(shift)}
+    
+    update = {
+        "status": "en_route",
+        "picked_up_at": datetime.utcnow().isoformat(),
+        "loaded_count": len(pickup.loaded_delivery_ids),
+        "loaded_delivery_ids": pickup.loaded_delivery_ids
+    }
+    await db.driver_shifts.update_one({"id": shift["id"]}, {"$set": update})
+    return {"message": "Picked up", "shift": shift_response({**shift, **update})}
+
+@api_router.post("/driver/shift/clock-out")
+async def clock_out(current_user: dict = Depends(get_current_user)):
+    """End the shift, stop sharing location and return the end-of-shift summary"""
+    if current_user.get("role") != "driver":
+        raise HTTPException(status_code=403, detail="Driver role required")
+    
+    shift = await get_active_shift(current_user["id"])
+    if not shift:
+        raise HTTPException(status_code=409, detail="You're not clocked in")
+    
+    ended_at = datetime.utcnow().isoformat()
+    summary = await build_shift_summary(shift, ended_at)
+    update = {"status": "off_shift", "clocked_out_at": ended_at, "summary": summary}
+    await db.driver_shifts.update_one({"id": shift["id"]}, {"$set": update})
+    
+    # Off shift means off the map for the kitchen and customers
+    await db.driver_locations.delete_one({"driver_id": current_user["id"]})
+    
+    return {"message": "Clocked out", "shift": shift_response({**shift, **update}), "summary": summary}
+
 # ==================== DRIVER REAL-TIME TRACKING ====================
 
 @api_router.post("/driver/update-location")
@@ -937,6 +1300,9 @@ async def update_driver_location(location: DriverLocationUpdate, current_user: d
     """Update driver's real-time location"""
     if current_user.get("role") != "driver":
         raise HTTPException(status_code=403, detail="Driver role required")
+    shift = await get_active_shift(current_user["id"])
+    if not shift:
+        raise HTTPException(status_code=409, detail="Clock in to share your location")
     
     location_data = {
         "driver_id": current_user["id"],
@@ -952,77 +1318,193 @@ async def update_driver_location(location: DriverLocationUpdate, current_user: d
         upsert=True
     )
     
+    # Push the new position to the kitchen, and to customers on this driver's run once they've left the kitchen
+    customer_ids = []
+    if shift["status"] == "en_route":
+        customer_ids = await customers_on_run(current_user["id"], datetime.now(timezone.utc).strftime("%Y-%m-%d"))
+    await ws_manager.notify_driver_location(
+        current_user["id"],
+        location.latitude,
+        location.longitude,
+        customer_ids=customer_ids
+    )
+    
     return {"message": "Location updated", "location": location_data}
 
 @api_router.get("/driver/optimized-route")
 async def get_optimized_route(
     lat: float,
     lon: float,
+    reoptimize: bool = False,
     current_user: dict = Depends(get_current_user)
 ):
-    """Get deliveries sorted by optimized route from driver's current location"""
+    """
+    Remaining stops re-ordered from the driver's current position: priority
+    stops first, then nearest-neighbour. Once the driver has saved an order
+    today it is kept as-is unless reoptimize is set. Nothing changes on the
+    manifest until the driver accepts an order with PUT /driver/route-order.
+    """
     if current_user.get("role") != "driver":
         raise HTTPException(status_code=403, detail="Driver role required")
     
-    today = datetime.now().date().isoformat()
+    today = datetime.now(timezone.utc).strftime("%Y-%m-%d")
+    query = await driver_manifest_query(current_user["id"], today)
+    query["status"] = {"$nin": ["skipped", "cancelled", "delivered", "failed"]}
+    deliveries = await db.deliveries.find(query).sort("sequence_number", 1).to_list(1000)
+    deliveries = await apply_driver_route_order(deliveries, current_user["id"], today, query)
     
-    # Get all ready deliveries
-    deliveries = await db.delivery_queue.find({
-        "date": today,
-        "status": {"$in": ["ready", "out_for_delivery"]}
-    }).to_list(200)
+    customer_ids = [d.get("customer_id") for d in deliveries]
+    customers = await db.users.find({"id": {"$in": customer_ids}}).to_list(1000)
+    customer_map = {c["id"]: c for c in customers}
     
-    # Calculate distances and sort
+    stops = []
     for delivery in deliveries:
-        distance = calculate_distance(
-            lat, lon,
-            delivery.get("latitude", 0),
-            delivery.get("longitude", 0)
-        )
-        delivery["distance"] = distance
-        delivery["estimated_time"] = max(5, int(distance * 3))  # ~3 mins per km
+        customer = customer_map.get(delivery.get("customer_id"), {})
+        stops.append({
+            "delivery_id": delivery["id"],
+            "sequence": delivery.get("sequence_number"),
+            "customer_name": customer.get("name", "Unknown"),
+            "phone": customer.get("phone", ""),
+            "address": delivery.get("delivery_address", customer.get("address", "")),
+            "latitude": delivery.get("latitude", ADDRESS_COORDS["default"]["lat"]),
+            "longitude": delivery.get("longitude", ADDRESS_COORDS["default"]["lon"]),
+            "status": delivery.get("status"),
+            "is_priority": delivery.get("is_priority", False)
+        })
     
-    # Sort by distance (nearest first)
-    deliveries.sort(key=lambda x: x["distance"])
+    saved = await db.driver_route_orders.find_one({"driver_id": current_user["id"], "date": today})
+    optimized = reoptimize or not saved
+    if optimized:
+        priority = order_stops_nearest([s for s in stops if s["is_priority"]], lat, lon)
+        start_lat, start_lon = (priority[-1]["latitude"], priority[-1]["longitude"]) if priority else (lat, lon)
+        ordered = priority + order_stops_nearest([s for s in stops if not s["is_priority"]], start_lat, start_lon)
+    else:
+        ordered = stops
     
-    # Assign route order
+    # Each leg is timed from the previous stop; arrival times run on from there
+    weather_delay = await get_weather_delay_minutes()
+    elapsed = weather_delay
+    prev_lat, prev_lon = lat, lon
     route = []
-    for idx, delivery in enumerate(deliveries):
+    for idx, stop in enumerate(ordered):
+        leg_km = calculate_distance_km(prev_lat, prev_lon, stop["latitude"], stop["longitude"])
+        leg_minutes = calculate_eta_minutes(leg_km)
+        elapsed += leg_minutes
         route.append({
+            **stop,
             "route_order": idx + 1,
-            "delivery_id": delivery.get("id"),
-            "delivery_number": delivery.get("delivery_number"),
-            "customer_name": delivery.get("customer_name"),
-            "customer_phone": delivery.get("customer_phone"),
-            "address": delivery.get("address"),
-            "plan": delivery.get("plan"),
-            "latitude": delivery.get("latitude"),
-            "longitude": delivery.get("longitude"),
-            "distance": delivery.get("distance"),
-            "estimated_time": delivery.get("estimated_time"),
-            "status": delivery.get("status")
+            "leg_km": leg_km,
+            "leg_minutes": leg_minutes,
+            "arrive_in_minutes": elapsed
         })
+        prev_lat, prev_lon = stop["latitude"], stop["longitude"]
+    
+    return {
+        "route": route,
+        "optimized": optimized,
+        "current_order": [s["delivery_id"] for s in stops],
+        "total_km": round(sum(r["leg_km"] for r in route), 2),
+        "total_minutes": elapsed,
+        "weather_delay_minutes": weather_delay,
+        "total_deliveries": len(route)
+    }
+
+@api_router.put("/driver/route-order")
+async def update_route_order(order: RouteOrderUpdate, current_user: dict = Depends(get_current_user)):
+    """
+    Save the driver's own stop order. On a published route the remaining stops
+    swap sequence numbers among themselves, so finished stops keep theirs and
+    numbers stay unique. Before publishing the manifest is shared, so the order
+    is only kept for this driver.
+    """
+    if current_user.get("role") != "driver":
+        raise HTTPException(status_code=403, detail="Driver role required")
+    
+    today = datetime.now(timezone.utc).strftime("%Y-%m-%d")
+    query = await driver_manifest_query(current_user["id"], today)
+    query["status"] = {"$nin": ["skipped", "cancelled", "delivered", "failed"]}
+    remaining = await db.deliveries.find(query).to_list(1000)
+    
+    remaining_ids = {d["id"] for d in remaining}
+    if set(order.delivery_ids) != remaining_ids or len(order.delivery_ids) != len(remaining_ids):
+        raise HTTPException(status_code=409, detail="Your route changed - refresh and try again")
+    
+    await db.driver_route_orders.update_one(
+        {"driver_id": current_user["id"], "date": today},
+        {"$set": {"delivery_ids": order.delivery_ids, "saved_at": datetime.utcnow().isoformat()}},
+        upsert=True
+    )
+    if query.get("driver_id"):
+        slots = sorted(d.get("sequence_number") or 0 for d in remaining)
+        for delivery_id, sequence in zip(order.delivery_ids, slots):
+            await db.deliveries.update_one(
+                {"id": delivery_id, "driver_id": current_user["id"]},
+                {"$set": {"sequence_number": sequence, "updated_at": datetime.now(timezone.utc)}}
+            )
+        await ws_manager.notify_manifest_update()
     
-    return {"route": route, "total_deliveries": len(route)}
+    return {"message": "Route order saved", "total_deliveries": len(remaining)}
 
 @api_router.put("/driver/start-delivery/{delivery_id}")
 async def start_delivery(delivery_id: str, current_user: dict = Depends(get_current_user)):
     """Mark delivery as out for delivery"""
     if current_user.get("role") != "driver":
         raise HTTPException(status_code=403, detail="Driver role required")
-    
-    result = await db.delivery_queue.update_one(
-        {"id": delivery_id},
+    if not await get_active_shift(current_user["id"]):
+        raise HTTPException(status_code=409, detail="Clock in before starting a stop")
+    
+    delivery, collection = await find_driver_delivery(delivery_id)
+    ensure_stop_driver(delivery, current_user)
+    if delivery.get("status") == "out_for_delivery":
+        # A second tap keeps the first start time, which ETA learning measures from
+        return {"message": "Delivery already started", "delivery_id": delivery_id}
+    if delivery.get("status") in CLOSED_STOP_STATUSES:
+        raise HTTPException(status_code=409, detail=f"This stop is already {delivery['status']}")
+    
+    # Only a stop that is still waiting, and unassigned or on this driver's route, can be started
+    started = await collection.update_one(
+        {
+            "id": delivery_id,
+            "status": {"$nin": CLOSED_STOP_STATUSES + ["out_for_delivery"]},
+            "driver_id": {"$in": [None, current_user["id"]]}
+        },
         {"$set": {
             "status": "out_for_delivery",
-            "driver_id": current_user["id"],
-            "driver_name": current_user.get("name"),
+            **driver_stamp(collection, current_user),
             "started_at": datetime.utcnow().isoformat()
         }}
     )
+    if not started.modified_count:
+        raise HTTPException(status_code=409, detail="This stop was just started or closed")
+    await ws_manager.notify_delivery_update(
+        delivery_id=delivery_id,
+        status="out_for_delivery",
+        customer_id=delivery.get("customer_id") or delivery.get("user_id"),
+        driver_id=current_user["id"]
+    )
     
     return {"message": "Delivery started", "delivery_id": delivery_id}
 
+@api_router.put("/driver/arrive/{delivery_id}")
+async def arrive_at_delivery(delivery_id: str, current_user: dict = Depends(get_current_user)):
+    """Driver is at the door. The stop stays out for delivery until it's completed or failed."""
+    if current_user.get("role") != "driver":
+        raise HTTPException(status_code=403, detail="Driver role required")
+    if not await get_active_shift(current_user["id"]):
+        raise HTTPException(status_code=409, detail="Clock in before arriving at a stop")
+    
+    delivery, collection = await find_driver_delivery(delivery_id)
+    ensure_stop_driver(delivery, current_user)
+    if delivery.get("status") in CLOSED_STOP_STATUSES:
+        raise HTTPException(status_code=409, detail=f"This stop is already {delivery['status']}")
+    arrived_at = datetime.utcnow().isoformat()
+    await collection.update_one(
+        {"id": delivery_id, "status": {"$nin": CLOSED_STOP_STATUSES}},
+        {"$set": {"arrived_at": arrived_at}}
+    )
+    
+    return {"message": "Arrived", "delivery_id": delivery_id, "arrived_at": arrived_at}
+
 @api_router.put("/driver/complete-delivery/{delivery_id}")
 async def complete_delivery(
     delivery_id: str,
@@ -1067,88 +1549,280 @@ async def complete_delivery(
 # Constants for credit system
 MEAL_CREDIT_VALUE_CAD = 12.00  # Per meal credit value in CAD
 
+FAILURE_REASONS = ["customer_unavailable", "wrong_address", "access_issue", "refused", "other"]
+# A failed stop is one meal, so that is the most a resolution can pay out
+FAILED_DELIVERY_MAX_AMOUNT_CAD = MEAL_CREDIT_VALUE_CAD
+
+async def credit_failed_delivery(failure: dict, amount: float, kind: str) -> str:
+    """Wallet credit or refund for a failed delivery, charged back against the kitchen payout"""
+    customer_id = failure["customer_id"]
+    reason = failure.get("reason", "other")
+    transaction = {
+        "id": str(uuid.uuid4()),
+        "user_id": customer_id,
+        "type": "credit",
+        "amount": amount,
+        "description": f"Failed delivery {kind} ({reason})",
+        "delivery_id": failure["delivery_id"],
+        "reference_id": failure["id"],
+        "created_at": datetime.utcnow().isoformat()
+    }
+    
+    if kind == "credit":
+        await db.wallets.update_one(
+            {"user_id": customer_id},
+            {
+                "$inc": {"balance": amount},
+                "$set": {"updated_at": datetime.utcnow().isoformat()},
+                "$setOnInsert": {"currency": "CAD", "created_at": datetime.utcnow().isoformat()}
+            },
+            upsert=True
+        )
+        await db.wallet_transactions.insert_one(transaction)
+    else:
+        # Refunds go back to the original payment method, so they're queued for payments rather than the wallet
+        await db.refunds.insert_one({
+            "id": transaction["id"],
+            "user_id": customer_id,
+            "amount": amount,
+            "reason": transaction["description"],
+            "delivery_id": failure["delivery_id"],
+            "failure_id": failure["id"],
+            "status": "pending",
+            "created_at": transaction["created_at"]
+        })
+    
+    await db.kitchen_deductions.insert_one({
+        "date": datetime.now().date().isoformat(),
+        "amount": amount,
+        "reason": f"Failed delivery: {reason}",
+        "delivery_id": failure["delivery_id"],
+        "customer_id": customer_id,
+        "created_at": datetime.utcnow().isoformat()
+    })
+    return transaction["id"]
+
 @api_router.put("/driver/fail-delivery/{delivery_id}")
 async def fail_delivery(
     delivery_id: str,
-    reason: str = "customer_unavailable",
+    failure: DeliveryFailure,
+    idempotency_key: Optional[str] = Header(None, alias="Idempotency-Key"),
     current_user: dict = Depends(get_current_user)
 ):
-    """Mark delivery as failed and auto-credit customer wallet"""
+    """
+    Record a stop the driver couldn't hand over - reason, notes and photo go to the kitchen's
+    failed-deliveries queue. A dabba left with a neighbour or concierge counts as delivered.
+    """
     if current_user.get("role") != "driver":
         raise HTTPException(status_code=403, detail="Driver role required")
+    if failure.reason not in FAILURE_REASONS:
+        raise HTTPException(status_code=400, detail=f"Reason must be one of: {', '.join(FAILURE_REASONS)}")
+    if failure.left_with and failure.left_with not in ("neighbour", "concierge"):
+        raise HTTPException(status_code=400, detail="Left with must be neighbour or concierge")
+    
+    return await run_idempotent(
+        idempotency_key,
+        current_user["id"],
+        lambda: record_delivery_failure(delivery_id, failure, current_user)
+    )
+
+async def record_delivery_failure(delivery_id: str, failure: DeliveryFailure, current_user: dict) -> dict:
+    delivery, collection = await find_driver_delivery(delivery_id)
+    if delivery.get("driver_id") and delivery["driver_id"] != current_user["id"]:
+        raise HTTPException(status_code=403, detail="This stop belongs to another driver's route")
+    if delivery.get("status") in ("delivered", "failed", "skipped", "cancelled"):
+        raise HTTPException(status_code=409, detail=f"This stop is already {delivery['status']}")
+    
+    customer_id = delivery.get("customer_id") or delivery.get("user_id")
+    customer = await db.users.find_one({"id": customer_id}) if customer_id else None
+    status = "delivered" if failure.left_with else "failed"
+    occurred_at = clamp_occurred_at(failure.occurred_at, delivery.get("started_at"))
+    
+    update = {
+        "status": status,
+        "failure_reason": failure.reason,
+        "failure_notes": failure.notes,
+        "left_with": failure.left_with,
+        "left_with_name": failure.left_with_name,
+        **driver_stamp(collection, current_user)
+    }
+    update["delivered_at" if failure.left_with else "failed_at"] = occurred_at
+    if failure.photo_base64:
+        update["proof_photo"] = failure.photo_base64
+    await collection.update_one({"id": delivery_id}, {"$set": update})
     
-    delivery = await db.delivery_queue.find_one({"id": delivery_id})
-    if not delivery:
-        raise HTTPException(status_code=404, detail="Delivery not found")
+    record = {
+        "id": str(uuid.uuid4()),
+        "delivery_id": delivery_id,
+        "delivery_date": delivery.get("delivery_date") or delivery.get("date"),
+        "customer_id": customer_id,
+        "customer_name": (customer.get("name") if customer else None) or delivery.get("customer_name", "Unknown"),
+        "customer_phone": (customer.get("phone") if customer else None) or delivery.get("customer_phone", ""),
+        "address": delivery.get("delivery_address") or delivery.get("address", ""),
+        "driver_id": current_user["id"],
+        "driver_name": current_user.get("name", "Unknown"),
+        "reason": failure.reason,
+        "notes": failure.notes,
+        "photo_base64": failure.photo_base64,
+        "left_with": failure.left_with,
+        "left_with_name": failure.left_with_name,
+        "failed_at": occurred_at,
+        # Left-with stops need no follow-up, everything else waits for the kitchen
+        "status": "resolved" if failure.left_with else "open",
+        "resolution": "left_with" if failure.left_with else None,
+        "created_at": datetime.utcnow().isoformat()
+    }
+    await db.failed_deliveries.insert_one(record)
     
-    # Update delivery status
-    await db.delivery_queue.update_one(
-        {"id": delivery_id},
-        {"$set": {
-            "status": "failed",
-            "failed_at": datetime.utcnow().isoformat(),
-            "failure_reason": reason,
-            "driver_id": current_user["id"]
-        }}
+    await ws_manager.notify_delivery_update(
+        delivery_id=delivery_id,
+        status=status,
+        customer_id=customer_id,
+        driver_id=current_user["id"]
     )
     
-    # Auto-credit customer wallet
-    customer_id = delivery.get("customer_id")
-    if customer_id:
-        # Get current wallet balance
-        wallet = await db.wallets.find_one({"user_id": customer_id})
-        current_balance = wallet.get("balance", 0) if wallet else 0
-        new_balance = current_balance + MEAL_CREDIT_VALUE_CAD
-        
-        await db.wallets.update_one(
-            {"user_id": customer_id},
-            {"$set": {
-                "balance": new_balance,
-                "updated_at": datetime.utcnow().isoformat()
-            }},
-            upsert=True
-        )
-        
-        # Record transaction
-        transaction = {
-            "id": str(uuid.uuid4()),
-            "user_id": customer_id,
-            "type": "credit",
-            "amount": MEAL_CREDIT_VALUE_CAD,
-            "description": f"Failed delivery credit ({reason})",
-            "delivery_id": delivery_id,
-            "created_at": datetime.utcnow().isoformat()
-        }
-        await db.wallet_transactions.insert_one(transaction)
-        
-        # Deduct from kitchen payout (track separately)
-        today = datetime.now().date().isoformat()
-        await db.kitchen_deductions.insert_one({
-            "date": today,
-            "amount": MEAL_CREDIT_VALUE_CAD,
-            "reason": f"Failed delivery: {reason}",
-            "delivery_id": delivery_id,
-            "customer_id": customer_id,
-            "created_at": datetime.utcnow().isoformat()
-        })
+    return {
+        "message": f"Left with {failure.left_with}" if failure.left_with else "Delivery marked as failed",
+        "status": status,
+        "failure_id": record["id"],
+        "reason": failure.reason
+    }
+
+@api_router.get("/kitchen/failed-deliveries")
+async def get_failed_deliveries(
+    status: str = "open",  # open, resolved, all
+    current_user: dict = Depends(get_kitchen_user)
+):
+    """Failed stops waiting for the kitchen to redeliver, refund or credit"""
+    query = {} if status == "all" else {"status": status}
+    failures = await db.failed_deliveries.find(query).sort("failed_at", -1).to_list(200)
     
     return {
-        "message": "Delivery marked as failed",
-        "customer_credited": MEAL_CREDIT_VALUE_CAD,
-        "reason": reason
+        "failures": [
+            {
+                **{k: v for k, v in f.items() if k not in ("_id", "photo_base64")},
+                "has_photo": bool(f.get("photo_base64"))
+            }
+            for f in failures
+        ],
+        "open": await db.failed_deliveries.count_documents({"status": "open"})
     }
 
-# ==================== CUSTOMER TRACKING ====================
+@api_router.get("/kitchen/failed-deliveries/{failure_id}/photo")
+async def get_failed_delivery_photo(failure_id: str, current_user: dict = Depends(get_kitchen_user)):
+    failure = await db.failed_deliveries.find_one({"id": failure_id})
+    if not failure or not failure.get("photo_base64"):
+        raise HTTPException(status_code=404, detail="No photo for this delivery")
+    return {"photo_base64": failure["photo_base64"]}
 
-@api_router.get("/customer/delivery-status")
-async def get_customer_delivery_status(current_user: dict = Depends(get_current_user)):
-    """Get real-time delivery status for customer"""
-    if current_user.get("role") != "customer":
-        raise HTTPException(status_code=403, detail="Customer role required")
-    
-    today = datetime.now().date().isoformat()
+async def apply_failed_delivery_resolution(failure: dict, resolution: FailedDeliveryResolution, amount: Optional[float]) -> dict:
+    """Put the stop back on a manifest, or pay it out; returns the fields to record on the failure"""
+    if resolution.action != "redeliver":
+        return {
+            "amount": amount,
+            "transaction_id": await credit_failed_delivery(failure, amount, resolution.action)
+        }
     
-    # Find customer's subscription
+    redeliver_date = resolution.redeliver_date or datetime.now(timezone.utc).strftime("%Y-%m-%d")
+    original = await db.deliveries.find_one({"id": failure["delivery_id"]}) or {}
+    # On a published day it joins the failing driver's route, otherwise the shared manifest;
+    # either way it goes on the end and the route planner can move it
+    driver_id = failure.get("driver_id") if await is_route_plan_published(redeliver_date) else None
+    route_query = {"delivery_date": redeliver_date, "sequence_number": {"$ne": None}}
+    if driver_id:
+        route_query["driver_id"] = driver_id
+    last = await db.deliveries.find(route_query).sort("sequence_number", -1).to_list(1)
+    redelivery = {
+        "id": str(uuid.uuid4()),
+        "customer_id": failure["customer_id"],
+        "delivery_date": redeliver_date,
+        "delivery_address": failure.get("address", ""),
+        "items": original.get("items", []),
+        "special_instructions": resolution.note or original.get("special_instructions", ""),
+        "sequence_number": (last[0].get("sequence_number") or 0) + 1 if last else 1,
+        "status": "pending",
+        "is_priority": True,
+        "driver_id": driver_id,
+        "redelivery_of": failure["delivery_id"],
+        "created_at": datetime.now(timezone.utc)
+    }
+    await db.deliveries.insert_one(redelivery)
+    if driver_id:
+        # Keep the planner's copy of the route in step with what the driver sees
+        added = await db.route_plans.update_one(
+            {"date": redeliver_date, "routes.driver_id": driver_id},
+            {"$push": {"routes.$.delivery_ids": redelivery["id"]}}
+        )
+        if not added.modified_count:
+            await db.route_plans.update_one(
+                {"date": redeliver_date},
+                {"$push": {"routes": {"driver_id": driver_id, "delivery_ids": [redelivery["id"]]}}}
+            )
+    await ws_manager.notify_manifest_update()
+    return {"redelivery_id": redelivery["id"], "redeliver_date": redeliver_date}
+
+@api_router.post("/kitchen/failed-deliveries/{failure_id}/resolve")
+async def resolve_failed_delivery(
+    failure_id: str,
+    resolution: FailedDeliveryResolution,
+    current_user: dict = Depends(get_kitchen_user)
+):
+    """Close out a failed stop: put it back on a manifest, refund it, or credit the wallet"""
+    if resolution.action not in ("redeliver", "refund", "credit"):
+        raise HTTPException(status_code=400, detail="Action must be redeliver, refund or credit")
+    amount = None
+    if resolution.action != "redeliver":
+        amount = round(resolution.amount if resolution.amount is not None else MEAL_CREDIT_VALUE_CAD, 2)
+        if amount <= 0 or amount > FAILED_DELIVERY_MAX_AMOUNT_CAD:
+            raise HTTPException(
+                status_code=400,
+                detail=f"Amount must be between $0.01 and ${FAILED_DELIVERY_MAX_AMOUNT_CAD:.2f}"
+            )
+    
+    # Claim the failure before paying anything out, so a double tap or retry can't resolve it twice
+    failure = await db.failed_deliveries.find_one_and_update(
+        {"id": failure_id, "status": "open"},
+        {"$set": {"status": "resolving", "resolving_by": current_user["id"]}}
+    )
+    if not failure:
+        if not await db.failed_deliveries.count_documents({"id": failure_id}, limit=1):
+            raise HTTPException(status_code=404, detail="Failed delivery not found")
+        raise HTTPException(status_code=400, detail="This delivery has already been resolved")
+    
+    try:
+        update = await apply_failed_delivery_resolution(failure, resolution, amount)
+    except Exception:
+        await db.failed_deliveries.update_one({"id": failure_id}, {"$set": {"status": "open"}})
+        raise
+    update.update({
+        "status": "resolved",
+        "resolution": resolution.action,
+        "resolution_note": resolution.note,
+        "resolved_by": current_user["id"],
+        "resolved_by_name": current_user.get("name"),
+        "resolved_at": datetime.utcnow().isoformat()
+    })
+    
+    await db.failed_deliveries.update_one({"id": failure_id}, {"$set": update})
+    
+    messages = {
+        "redeliver": f"Redelivery scheduled for {update.get('redeliver_date')}",
+        "refund": f"${update.get('amount', 0):.2f} refund queued",
+        "credit": f"${update.get('amount', 0):.2f} credited to the customer's wallet"
+    }
+    return {"message": messages[resolution.action], **{k: v for k, v in update.items() if k != "resolved_by"}}
+
+# ==================== CUSTOMER TRACKING ====================
+
+@api_router.get("/customer/delivery-status")
+async def get_customer_delivery_status(current_user: dict = Depends(get_current_user)):
+    """Get real-time delivery status for customer"""
+    if current_user.get("role") != "customer":
+        raise HTTPException(status_code=403, detail="Customer role required")
+    
+    today = datetime.now().date().isoformat()
+    
+    # Find customer's subscription
     subscription = await db.subscriptions.find_one({
         "user_id": current_user["id"],
         "status": "active"
@@ -1219,7 +1893,8 @@ async def track_driver(current_user: dict = Depends(get_current_user)):
     if current_user.get("role") != "customer":
         raise HTTPException(status_code=403, detail="Customer role required")
     
-    today = datetime.now().date().isoformat()
+    # Manifest dates are UTC
+    today = datetime.now(timezone.utc).strftime("%Y-%m-%d")
     
     subscription = await db.subscriptions.find_one({
         "user_id": current_user["id"],
@@ -1229,22 +1904,52 @@ async def track_driver(current_user: dict = Depends(get_current_user)):
     if not subscription:
         raise HTTPException(status_code=404, detail="No active subscription")
     
-    delivery = await db.delivery_queue.find_one({
-        "subscription_id": subscription["id"],
-        "date": today,
-        "status": "out_for_delivery"
+    delivery = await db.deliveries.find_one({
+        "customer_id": current_user["id"],
+        "delivery_date": today,
+        "status": {"$nin": ["skipped", "cancelled"]}
     })
+    driver_id = stop_driver_id(delivery) if delivery else None
+    shift = await get_active_shift(driver_id) if driver_id else None
+    # On the road once the driver has left the kitchen with the dabbas, or has started this stop
+    on_the_way = bool(delivery) and delivery.get("status") not in CLOSED_STOP_STATUSES and (
+        delivery.get("status") == "out_for_delivery" or (shift is not None and shift["status"] == "en_route")
+    )
     
-    if not delivery:
-        return {"tracking": False, "message": "Driver not dispatched yet"}
+    if not on_the_way:
+        return {
+            "tracking": False,
+            "status": delivery.get("status") if delivery else "preparing",
+            "delivery_number": delivery.get("sequence_number") if delivery else None,
+            "message": "Driver not dispatched yet"
+        }
     
-    driver_loc = await db.driver_locations.find_one({"driver_id": delivery.get("driver_id")})
+    driver_loc = await db.driver_locations.find_one({"driver_id": driver_id})
     
     if not driver_loc:
-        return {"tracking": False, "message": "Driver location not available"}
+        return {
+            "tracking": False,
+            "status": "out_for_delivery",
+            "delivery_number": delivery.get("sequence_number"),
+            "message": "Driver location not available"
+        }
+    
+    # Open stops ahead of this one on the driver's published route
+    stops_before = 0
+    if delivery.get("driver_id") == driver_id and delivery.get("sequence_number") is not None:
+        stops_before = await db.deliveries.count_documents({
+            "delivery_date": today,
+            "driver_id": driver_id,
+            "status": {"$nin": CLOSED_STOP_STATUSES},
+            "sequence_number": {"$lt": delivery["sequence_number"]}
+        })
     
     # Calculate distance to customer
-    customer_coords = get_coords_for_address(delivery.get("address", ""))
+    address = delivery.get("delivery_address", "")
+    if delivery.get("latitude") is not None and delivery.get("longitude") is not None:
+        customer_coords = {"lat": delivery["latitude"], "lon": delivery["longitude"]}
+    else:
+        customer_coords = get_coords_for_address(address)
     distance = calculate_distance(
         driver_loc["latitude"], driver_loc["longitude"],
         customer_coords["lat"], customer_coords["lon"]
@@ -1252,7 +1957,13 @@ async def track_driver(current_user: dict = Depends(get_current_user)):
     
     return {
         "tracking": True,
-        "driver_name": delivery.get("driver_name"),
+        "status": "out_for_delivery",
+        "delivery_id": delivery.get("id"),
+        "delivery_number": delivery.get("sequence_number"),
+        "stops_before": stops_before,
+        "address": address,
+        "driver_id": driver_id,
+        "driver_name": driver_loc.get("driver_name"),
         "driver_location": {
             "latitude": driver_loc["latitude"],
             "longitude": driver_loc["longitude"]
@@ -1262,13 +1973,21 @@ async def track_driver(current_user: dict = Depends(get_current_user)):
             "longitude": customer_coords["lon"]
         },
         "distance_km": distance,
-        "estimated_minutes": max(3, int(distance * 3)),
+        "estimated_minutes": max(3, int(distance * 3)) + stops_before * 4 + await get_weather_delay_minutes(),  # ~4 min per drop-off ahead
         "updated_at": driver_loc.get("updated_at")
     }
 
 # ==================== PLATINUM TIFFIN FEATURES ====================
 
 # Spice Preferences
+SPICE_LEVELS = ["mild", "medium", "spicy"]
+
+async def get_spice_levels(user_ids: list) -> dict:
+    """Saved spice level per customer; anyone who never picked one gets medium"""
+    prefs = await db.customer_preferences.find({"user_id": {"$in": user_ids}}).to_list(len(user_ids) or 1)
+    saved = {p["user_id"]: p.get("spice_level", "medium") for p in prefs}
+    return {user_id: saved.get(user_id, "medium") for user_id in user_ids}
+
 @api_router.get("/customer/preferences")
 async def get_customer_preferences(current_user: dict = Depends(get_current_user)):
     """Get customer's spice and dietary preferences"""
@@ -1290,6 +2009,8 @@ async def update_customer_preferences(
     """Update customer's spice preference"""
     if current_user.get("role") != "customer":
         raise HTTPException(status_code=403, detail="Customer role required")
+    if preferences.level not in SPICE_LEVELS:
+        raise HTTPException(status_code=400, detail="Spice level must be mild, medium or spicy")
     
     await db.customer_preferences.update_one(
         {"user_id": current_user["id"]},
@@ -1309,15 +2030,23 @@ async def rate_meal(rating: MealRating, current_user: dict = Depends(get_current
     if current_user.get("role") != "customer":
         raise HTTPException(status_code=403, detail="Customer role required")
     
-    rating_data = {
-        "id": str(uuid.uuid4()),
-        "user_id": current_user["id"],
-        "date": rating.date,
-        "rating": rating.rating,  # yummy, good, bad
-        "feedback": rating.feedback,
-        "created_at": datetime.utcnow().isoformat()
-    }
-    await db.meal_ratings.insert_one(rating_data)
+    if rating.rating not in RATING_VALUES:
+        raise HTTPException(status_code=400, detail="Rating must be yummy, good or bad")
+    
+    # One rating per dinner - the follow-up feedback prompt updates the same entry
+    await db.meal_ratings.update_one(
+        {"user_id": current_user["id"], "date": rating.date},
+        {
+            "$set": {
+                "rating": rating.rating,  # yummy, good, bad
+                "feedback": rating.feedback,
+                "updated_at": datetime.utcnow().isoformat()
+            },
+            # Feedback added later is an edit, so the rating keeps its place in the ratings list
+            "$setOnInsert": {"id": str(uuid.uuid4()), "created_at": datetime.utcnow().isoformat()}
+        },
+        upsert=True
+    )
     
     # If bad rating, could trigger automatic follow-up
     if rating.rating == "bad" and not rating.feedback:
@@ -1337,47 +2066,140 @@ HALIFAX_WEATHER_ALERTS = {
     "blizzard": {"status": "severe", "message": "Blizzard warning: All deliveries cancelled today. Full credits issued.", "delay_minutes": -1}
 }
 
-@api_router.get("/weather-status")
-async def get_weather_status():
-    """Get current Halifax weather status for delivery alerts"""
-    # In production, this would integrate with Environment Canada API
-    # For now, check our mock weather status
-    weather = await db.system_settings.find_one({"key": "weather_status"})
-    
-    if weather and weather.get("value") in HALIFAX_WEATHER_ALERTS:
-        alert = HALIFAX_WEATHER_ALERTS[weather["value"]]
+WEATHER_LEVELS = ["normal", "caution", "warning", "severe"]
+
+class WeatherStatusUpdate(BaseModel):
+    status: str  # normal, caution, warning, severe
+    condition: Optional[str] = None  # preset key from HALIFAX_WEATHER_ALERTS, or custom
+    message: Optional[str] = None
+    delay_minutes: int = 0  # -1 means deliveries are paused
+    revert_at: Optional[str] = None  # UTC ISO time to go back to normal
+
+# Pending auto-revert, so a newer status can cancel it
+weather_revert_task: Optional[asyncio.Task] = None
+
+def build_weather_status(setting: Optional[dict]) -> dict:
+    if not setting or setting.get("status", setting.get("value")) == "normal":
         return {
-            "condition": weather["value"],
-            **alert,
+            "condition": "normal",
+            **HALIFAX_WEATHER_ALERTS["normal"],
+            "revert_at": None,
             "region": "Halifax Regional Municipality",
-            "updated_at": weather.get("updated_at", datetime.utcnow().isoformat())
+            "updated_at": (setting or {}).get("updated_at", datetime.utcnow().isoformat())
         }
-    
+    # Older settings only stored a preset key under "value"
+    preset = HALIFAX_WEATHER_ALERTS.get(setting.get("value"), {})
     return {
-        "condition": "normal",
-        **HALIFAX_WEATHER_ALERTS["normal"],
+        "condition": setting.get("value", "custom"),
+        "status": setting.get("status", preset.get("status", "caution")),
+        "message": setting.get("message") or preset.get("message", ""),
+        "delay_minutes": setting.get("delay_minutes", preset.get("delay_minutes", 0)),
+        "revert_at": setting.get("revert_at"),
         "region": "Halifax Regional Municipality",
-        "updated_at": datetime.utcnow().isoformat()
+        "updated_at": setting.get("updated_at", datetime.utcnow().isoformat())
     }
 
+async def save_weather_status(values: dict, updated_by: str) -> dict:
+    setting = {
+        "key": "weather_status",
+        **values,
+        "updated_at": datetime.utcnow().isoformat(),
+        "updated_by": updated_by
+    }
+    await db.system_settings.update_one({"key": "weather_status"}, {"$set": setting}, upsert=True)
+    weather = build_weather_status(setting)
+    await ws_manager.notify_weather_update(weather)
+    return weather
+
+async def load_weather_status() -> dict:
+    """Current status; an expired auto-revert is applied on read in case the server restarted"""
+    setting = await db.system_settings.find_one({"key": "weather_status"})
+    revert_at = setting.get("revert_at") if setting else None
+    now = datetime.utcnow().isoformat()
+    if revert_at and revert_at <= now:
+        # Many readers can hit the expiry together; only the one whose update lands broadcasts it
+        reverted = {
+            "key": "weather_status",
+            "value": "normal",
+            "status": "normal",
+            "message": None,
+            "delay_minutes": 0,
+            "revert_at": None,
+            "updated_at": now,
+            "updated_by": "auto-revert"
+        }
+        result = await db.system_settings.update_one(
+            {"key": "weather_status", "revert_at": {"$lte": now}},
+            {"$set": reverted}
+        )
+        if result.modified_count:
+            weather = build_weather_status(reverted)
+            await ws_manager.notify_weather_update(weather)
+            return weather
+        setting = await db.system_settings.find_one({"key": "weather_status"})
+    return build_weather_status(setting)
+
+async def revert_weather_later(revert_at: str):
+    delay = (datetime.fromisoformat(revert_at) - datetime.utcnow()).total_seconds()
+    await asyncio.sleep(max(0, delay))
+    await load_weather_status()
+
+async def get_weather_delay_minutes() -> int:
+    """Extra minutes to add to ETAs; paused deliveries (-1) don't move the ETA"""
+    weather = await load_weather_status()
+    return max(0, weather.get("delay_minutes", 0))
+
+@api_router.get("/weather-status")
+async def get_weather_status():
+    """Get current Halifax weather status for delivery alerts"""
+    # In production, this would integrate with Environment Canada API
+    # For now, the kitchen sets it from the service status panel
+    return await load_weather_status()
+
+@api_router.get("/kitchen/weather-presets")
+async def get_weather_presets(current_user: dict = Depends(get_kitchen_user)):
+    """Preset conditions the kitchen can start from"""
+    return {"presets": [{"condition": key, **alert} for key, alert in HALIFAX_WEATHER_ALERTS.items()]}
+
 @api_router.put("/kitchen/weather-status")
-async def set_weather_status(status: str, current_user: dict = Depends(get_kitchen_user)):
-    """Kitchen admin can set weather status manually"""
-    if status not in HALIFAX_WEATHER_ALERTS:
-        raise HTTPException(status_code=400, detail=f"Invalid status. Use: {list(HALIFAX_WEATHER_ALERTS.keys())}")
+async def set_weather_status(update: WeatherStatusUpdate, current_user: dict = Depends(get_kitchen_user)):
+    """Kitchen sets the service status; customers and drivers are told straight away"""
+    global weather_revert_task
+    if update.status not in WEATHER_LEVELS:
+        raise HTTPException(status_code=400, detail=f"Invalid status. Use: {WEATHER_LEVELS}")
+    if update.delay_minutes < -1 or update.delay_minutes > 240:
+        raise HTTPException(status_code=400, detail="Delay must be between 0 and 240 minutes, or -1 to pause")
+    
+    revert_at = None
+    if update.revert_at and update.status != "normal":
+        try:
+            revert_dt = datetime.fromisoformat(update.revert_at.replace("Z", "+00:00"))
+        except ValueError:
+            raise HTTPException(status_code=400, detail="revert_at must be an ISO date-time")
+        if revert_dt.tzinfo:
+            revert_dt = revert_dt.astimezone(timezone.utc).replace(tzinfo=None)
+        if revert_dt <= datetime.utcnow():
+            raise HTTPException(status_code=400, detail="Auto-revert time must be in the future")
+        revert_at = revert_dt.isoformat()
+    
+    preset = HALIFAX_WEATHER_ALERTS.get(update.condition or "", {})
+    if update.status == "normal":
+        values = {"value": "normal", "status": "normal", "message": None, "delay_minutes": 0, "revert_at": None}
+    else:
+        values = {
+            "value": update.condition or "custom",
+            "status": update.status,
+            "message": (update.message or "").strip() or preset.get("message") or "Deliveries may be delayed",
+            "delay_minutes": update.delay_minutes,
+            "revert_at": revert_at
+        }
+    weather = await save_weather_status(values, current_user["id"])
     
-    await db.system_settings.update_one(
-        {"key": "weather_status"},
-        {"$set": {
-            "key": "weather_status",
-            "value": status,
-            "updated_at": datetime.utcnow().isoformat(),
-            "updated_by": current_user["id"]
-        }},
-        upsert=True
-    )
+    if weather_revert_task and not weather_revert_task.done():
+        weather_revert_task.cancel()
+    weather_revert_task = asyncio.create_task(revert_weather_later(revert_at)) if revert_at else None
     
-    return {"message": f"Weather status set to: {status}", "alert": HALIFAX_WEATHER_ALERTS[status]}
+    return {"message": f"Service status set to: {weather['status']}", "alert": weather}
 
 # 7-Day Dinner Discovery
 @api_router.get("/customer/weekly-plan")
@@ -1400,6 +2222,24 @@ async def get_weekly_dinner_plan(current_user: dict = Depends(get_current_user))
     today = datetime.now().date()
     days = []
     
+    swaps_by_date = {}
+    week_swaps = await db.meal_swaps.find({
+        "subscription_id": subscription["id"],
+        "date": {"$gte": today.isoformat(), "$lte": (today + timedelta(days=6)).isoformat()}
+    }).to_list(100)
+    for sw in week_swaps:
+        swaps_by_date.setdefault(sw["date"], []).append({
+            "original_meal": sw.get("original_meal"),
+            "replacement_meal": sw.get("replacement_meal")
+        })
+    
+    sold_out_by_date = {}
+    week_sold_out = await db.sold_out_items.find({
+        "date": {"$gte": today.isoformat(), "$lte": (today + timedelta(days=6)).isoformat()}
+    }).to_list(200)
+    for item in week_sold_out:
+        sold_out_by_date.setdefault(item["date"], []).append(item.get("item_name"))
+    
     for i in range(7):
         date = today + timedelta(days=i)
         date_str = date.isoformat()
@@ -1443,7 +2283,9 @@ async def get_weekly_dinner_plan(current_user: dict = Depends(get_current_user))
             "cutoff_time": cutoff_time.isoformat(),
             "dinner_items": dinner_items,
             "item_summary": ", ".join([f"{d['quantity']}x {d['name']}" for d in dinner_items[:3]]) if dinner_items else "Menu not set",
-            "add_ons": [{"name": a.get("item_name"), "price": a.get("price", 0)} for a in add_ons]
+            "add_ons": [{"name": a.get("item_name"), "price": a.get("price", 0)} for a in add_ons],
+            "swaps": swaps_by_date.get(date_str, []),
+            "sold_out": sold_out_by_date.get(date_str, [])
         })
     
     return {
@@ -1487,6 +2329,9 @@ async def add_extra_to_day(addon: AddOnOrder, current_user: dict = Depends(get_c
     if not extra:
         raise HTTPException(status_code=404, detail="Extra item not found")
     
+    if await db.sold_out_items.find_one({"date": addon.date, "item_name": extra["name"]}):
+        raise HTTPException(status_code=400, detail=f"{extra['name']} is sold out")
+    
     # Add to customer's order for that day
     order_data = {
         "id": str(uuid.uuid4()),
@@ -1506,17 +2351,45 @@ async def add_extra_to_day(addon: AddOnOrder, current_user: dict = Depends(get_c
     }
 
 # Ingredient Forecast for Kitchen
+
+# Rough raw-ingredient yields per unit of cooked dish, by category. "per" is
+# the dish unit the amounts are quoted against.
+RAW_INGREDIENT_RECIPES = {
+    "roti": {"per": "pieces", "ingredients": [("Whole wheat flour (atta)", 0.035, "kg"), ("Ghee / oil", 0.003, "L")]},
+    "sabji": {"per": "grams", "ingredients": [("Mixed vegetables", 0.0009, "kg"), ("Onion", 0.0002, "kg"), ("Tomato", 0.00015, "kg"), ("Cooking oil", 0.00004, "L")]},
+    "dal": {"per": "ml", "ingredients": [("Lentils (dal)", 0.0003, "kg"), ("Onion", 0.00005, "kg"), ("Tomato", 0.00005, "kg"), ("Ghee / oil", 0.00002, "L")]},
+    "rice": {"per": "portion", "ingredients": [("Basmati rice", 0.08, "kg")]},
+    "salad": {"per": "portion", "ingredients": [("Salad vegetables", 0.06, "kg")]},
+    "dessert": {"per": "portion", "ingredients": [("Milk", 0.1, "L"), ("Sugar", 0.02, "kg")]},
+}
+RECIPE_ALIASES = {"bread": "roti", "breads": "roti", "sabzi": "sabji", "curry": "sabji", "sweet": "dessert", "sweets": "dessert"}
+# Size of one portion in each dish unit, used to convert between units
+PORTION_SIZES = {"grams": 150, "ml": 150, "pieces": 2, "portion": 1}
+
+def to_recipe_basis(quantity: float, unit: str, basis: str) -> float:
+    if unit == basis:
+        return quantity
+    return quantity / PORTION_SIZES.get(unit, 1) * PORTION_SIZES.get(basis, 1)
+
+def find_recipe(category: Optional[str]) -> Optional[dict]:
+    key = (category or "").strip().lower()
+    key = RECIPE_ALIASES.get(key, key)
+    return RAW_INGREDIENT_RECIPES.get(key) or RAW_INGREDIENT_RECIPES.get(key.rstrip("s"))
+
 @api_router.get("/kitchen/ingredient-forecast")
-async def get_ingredient_forecast(current_user: dict = Depends(get_kitchen_user)):
-    """Generate 7-day procurement list based on upcoming menu and subscriptions"""
+async def get_ingredient_forecast(days: int = 7, current_user: dict = Depends(get_kitchen_user)):
+    """Generate an N-day procurement list based on upcoming menu and subscriptions"""
+    days = max(1, min(days, 14))
     today = datetime.now().date()
     forecast = {}
+    raw_ingredients = {}
+    unmapped = {}
     daily_breakdown = []
     
     # Get active subscriptions count
     active_subs = await db.subscriptions.find({"status": "active"}).to_list(500)
     
-    for i in range(7):
+    for i in range(days):
         date = today + timedelta(days=i)
         date_str = date.isoformat()
         
@@ -1562,6 +2435,19 @@ async def get_ingredient_forecast(current_user: dict = Depends(get_kitchen_user)
             if key not in forecast:
                 forecast[key] = {"name": dish["name"], "unit": unit, "total": 0, "category": dish.get("category")}
             forecast[key]["total"] += total
+            
+            # Break the cooked quantity down into raw ingredients
+            recipe = find_recipe(dish.get("category"))
+            if not recipe:
+                unmapped.setdefault(key, {"name": dish["name"], "unit": unit, "total": 0, "category": dish.get("category")})
+                unmapped[key]["total"] += total
+                continue
+            basis_qty = to_recipe_basis(total, unit, recipe["per"])
+            for name, per_unit, raw_unit in recipe["ingredients"]:
+                entry = raw_ingredients.setdefault(name, {"name": name, "unit": raw_unit, "quantity": 0, "used_in": []})
+                entry["quantity"] += basis_qty * per_unit
+                if dish["name"] not in entry["used_in"]:
+                    entry["used_in"].append(dish["name"])
         
         daily_breakdown.append({
             "date": date_str,
@@ -1585,10 +2471,16 @@ async def get_ingredient_forecast(current_user: dict = Depends(get_kitchen_user)
         })
     
     return {
-        "period": f"{today.isoformat()} to {(today + timedelta(days=6)).isoformat()}",
+        "period": f"{today.isoformat()} to {(today + timedelta(days=days - 1)).isoformat()}",
+        "days": days,
         "total_active_subscriptions": len(active_subs),
         "weekly_forecast": list(forecast.values()),
         "by_category": by_category,
+        "raw_ingredients": sorted(
+            [{**item, "quantity": round(item["quantity"], 2)} for item in raw_ingredients.values()],
+            key=lambda item: item["name"]
+        ),
+        "unmapped_items": list(unmapped.values()),
         "daily_breakdown": daily_breakdown
     }
 
@@ -1599,12 +2491,13 @@ async def get_all_customer_preferences(current_user: dict = Depends(get_kitchen_
     prefs = await db.customer_preferences.find({}).to_list(500)
     
     # Get user names
+    users = await db.users.find({"id": {"$in": [p["user_id"] for p in prefs]}}).to_list(500)
+    names = {u["id"]: u.get("name") for u in users}
     result = []
     for pref in prefs:
-        user = await db.users.find_one({"id": pref["user_id"]})
-        if user:
+        if pref["user_id"] in names:
             result.append({
-                "customer_name": user.get("name"),
+                "customer_name": names[pref["user_id"]],
                 "customer_id": pref["user_id"],
                 "spice_level": pref.get("spice_level", "medium"),
                 "allergies": pref.get("allergies", []),
@@ -1614,36 +2507,98 @@ async def get_all_customer_preferences(current_user: dict = Depends(get_kitchen_
     return {"preferences": result}
 
 # Meal Ratings for Kitchen
+RATING_VALUES = ["yummy", "good", "bad"]
+MIN_RATINGS_FOR_RANKING = 3  # Fewer ratings than this is too noisy to rank a dish
+
+def summarize_ratings(ratings: list) -> dict:
+    counts = {value: sum(1 for r in ratings if r.get("rating") == value) for value in RATING_VALUES}
+    total = sum(counts.values())
+    return {
+        **counts,
+        "total": total,
+        "satisfaction_rate": round((counts["yummy"] + counts["good"]) / total * 100, 1) if total > 0 else 0
+    }
+
 @api_router.get("/kitchen/meal-ratings")
-async def get_meal_ratings(current_user: dict = Depends(get_kitchen_user)):
-    """Get recent meal ratings for quality improvement"""
-    ratings = await db.meal_ratings.find({}).sort("created_at", -1).to_list(50)
-    
-    # Aggregate ratings
-    total = len(ratings)
-    yummy = sum(1 for r in ratings if r.get("rating") == "yummy")
-    good = sum(1 for r in ratings if r.get("rating") == "good")
-    bad = sum(1 for r in ratings if r.get("rating") == "bad")
-    
-    # Get bad ratings with feedback for improvement
-    bad_feedback = [
+async def get_meal_ratings(days: int = 30, current_user: dict = Depends(get_kitchen_user)):
+    """Rating trends per day and per dish, plus the customer feedback stream"""
+    days = max(1, min(days, 90))
+    start_date = (datetime.now().date() - timedelta(days=days - 1)).isoformat()
+    ratings = await db.meal_ratings.find({"date": {"$gte": start_date}}).sort("created_at", -1).to_list(2000)
+    
+    # Ratings are per dinner, so map each date to the dishes that were served
+    dates = sorted({r.get("date") for r in ratings if r.get("date")})
+    menus = await db.menu_schedule.find({"date": {"$in": dates}}).to_list(len(dates) or 1)
+    dish_ids = {dish_id for menu in menus for dish_id in menu.get("dinner_item_ids", [])}
+    dishes = await db.dishes.find({"id": {"$in": list(dish_ids)}}).to_list(len(dish_ids) or 1)
+    dish_lookup = {d["id"]: d for d in dishes}
+    served_by_date = {
+        menu["date"]: [dish_lookup[i] for i in menu.get("dinner_item_ids", []) if i in dish_lookup]
+        for menu in menus
+    }
+    
+    by_date = {}
+    for r in ratings:
+        by_date.setdefault(r.get("date"), []).append(r)
+    daily_trend = [
+        {"date": date, "dishes": [d["name"] for d in served_by_date.get(date, [])], **summarize_ratings(by_date[date])}
+        for date in dates
+    ]
+    
+    by_dish = {}
+    for date, day_ratings in by_date.items():
+        for dish in served_by_date.get(date, []):
+            entry = by_dish.setdefault(dish["id"], {"dish": dish, "ratings": [], "dates": set()})
+            entry["ratings"].extend(day_ratings)
+            entry["dates"].add(date)
+    dish_stats = [
+        {
+            "dish_id": dish_id,
+            "name": entry["dish"]["name"],
+            "category": entry["dish"].get("category"),
+            "days_served": len(entry["dates"]),
+            "last_served": max(entry["dates"]),
+            **summarize_ratings(entry["ratings"])
+        }
+        for dish_id, entry in by_dish.items()
+    ]
+    dish_stats.sort(key=lambda d: (-d["total"], d["name"]))
+    low_rated = sorted(
+        [d for d in dish_stats if d["total"] >= MIN_RATINGS_FOR_RANKING],
+        key=lambda d: (d["satisfaction_rate"], -d["bad"])
+    )[:10]
+    
+    with_feedback = [r for r in ratings if r.get("feedback")]
+    user_ids = list({r.get("user_id") for r in with_feedback})
+    users = await db.users.find({"id": {"$in": user_ids}}).to_list(len(user_ids) or 1)
+    names = {u["id"]: u.get("name", "Customer") for u in users}
+    feedback = [
         {
+            "id": r.get("id"),
             "date": r.get("date"),
+            "rating": r.get("rating"),
             "feedback": r.get("feedback"),
-            "user_id": r.get("user_id")
+            "user_id": r.get("user_id"),
+            "customer_name": names.get(r.get("user_id"), "Customer"),
+            "dishes": [d["name"] for d in served_by_date.get(r.get("date"), [])],
+            "created_at": r.get("created_at")
         }
-        for r in ratings if r.get("rating") == "bad" and r.get("feedback")
+        for r in with_feedback[:50]
     ]
     
+    summary = summarize_ratings(ratings)
     return {
-        "total_ratings": total,
-        "summary": {
-            "yummy": yummy,
-            "good": good, 
-            "bad": bad,
-            "satisfaction_rate": round((yummy + good) / total * 100, 1) if total > 0 else 0
-        },
-        "recent_bad_feedback": bad_feedback[:10]
+        "days": days,
+        "total_ratings": summary["total"],
+        "summary": summary,
+        "daily_trend": daily_trend,
+        "dish_stats": dish_stats,
+        "low_rated_dishes": low_rated,
+        "feedback": feedback,
+        "recent_bad_feedback": [
+            {"date": f["date"], "feedback": f["feedback"], "user_id": f["user_id"]}
+            for f in feedback if f["rating"] == "bad"
+        ][:10]
     }
 
 # ==================== SEED DEFAULT DISHES ====================
@@ -1848,8 +2803,12 @@ class CategoryData(BaseModel):
     name: str
     description: Optional[str] = None
     icon: Optional[str] = None
+    color: Optional[str] = None
     sort_order: Optional[int] = 0
 
+class CategoryReorder(BaseModel):
+    category_ids: List[str]  # In display order
+
 @api_router.get("/categories")
 async def get_categories():
     """Get all dish categories (public endpoint)"""
@@ -1858,12 +2817,12 @@ async def get_categories():
     # If no categories exist, seed default categories
     if not categories:
         default_categories = [
-            {"id": str(uuid.uuid4()), "name": "Breads", "icon": "restaurant", "sort_order": 1},
-            {"id": str(uuid.uuid4()), "name": "Rice & Grains", "icon": "leaf", "sort_order": 2},
-            {"id": str(uuid.uuid4()), "name": "Main Dishes", "icon": "flame", "sort_order": 3},
-            {"id": str(uuid.uuid4()), "name": "Dals & Kathol", "icon": "water", "sort_order": 4},
-            {"id": str(uuid.uuid4()), "name": "Sides & Drinks", "icon": "cafe", "sort_order": 5},
-            {"id": str(uuid.uuid4()), "name": "Desserts", "icon": "ice-cream", "sort_order": 6},
+            {"id": str(uuid.uuid4()), "name": "Breads", "icon": "restaurant", "color": "#E65100", "sort_order": 1},
+            {"id": str(uuid.uuid4()), "name": "Rice & Grains", "icon": "leaf", "color": "#7B1FA2", "sort_order": 2},
+            {"id": str(uuid.uuid4()), "name": "Main Dishes", "icon": "flame", "color": "#2E7D32", "sort_order": 3},
+            {"id": str(uuid.uuid4()), "name": "Dals & Kathol", "icon": "water", "color": "#1565C0", "sort_order": 4},
+            {"id": str(uuid.uuid4()), "name": "Sides & Drinks", "icon": "cafe", "color": "#00838F", "sort_order": 5},
+            {"id": str(uuid.uuid4()), "name": "Desserts", "icon": "ice-cream", "color": "#C41E3A", "sort_order": 6},
         ]
         await db.categories.insert_many(default_categories)
         categories = default_categories
@@ -1872,9 +2831,16 @@ async def get_categories():
 
 @api_router.get("/kitchen/categories")
 async def get_kitchen_categories(current_user: dict = Depends(get_kitchen_user)):
-    """Get all categories for kitchen management"""
+    """Get all categories for kitchen management, with dish counts"""
     categories = await db.categories.find({}).sort("sort_order", 1).to_list(50)
-    return {"categories": [{k: v for k, v in c.items() if k != "_id"} for c in categories]}
+    dishes = await db.dishes.find({}, {"category": 1}).to_list(1000)
+    counts: Dict[str, int] = {}
+    for dish in dishes:
+        counts[dish.get("category")] = counts.get(dish.get("category"), 0) + 1
+    return {"categories": [
+        {**{k: v for k, v in c.items() if k != "_id"}, "dish_count": counts.get(c["name"], 0) + counts.get(c["id"], 0)}
+        for c in categories
+    ]}
 
 @api_router.post("/kitchen/categories")
 async def create_category(
@@ -1892,6 +2858,7 @@ async def create_category(
         "name": category_data.name,
         "description": category_data.description,
         "icon": category_data.icon or "restaurant",
+        "color": category_data.color,
         "sort_order": category_data.sort_order or 99,
         "created_at": datetime.utcnow().isoformat(),
         "created_by": current_user["id"]
@@ -1899,28 +2866,56 @@ async def create_category(
     await db.categories.insert_one(category)
     return {"message": "Category created", "category": {k: v for k, v in category.items() if k != "_id"}}
 
+@api_router.put("/kitchen/categories/reorder")
+async def reorder_categories(
+    reorder: CategoryReorder,
+    current_user: dict = Depends(get_kitchen_user)
+):
+    """Persist a new display order; sort_order follows the position in the list"""
+    now = datetime.utcnow().isoformat()
+    for index, category_id in enumerate(reorder.category_ids):
+        await db.categories.update_one(
+            {"id": category_id},
+            {"$set": {"sort_order": index + 1, "updated_at": now}}
+        )
+    return {"message": "Categories reordered"}
+
 @api_router.put("/kitchen/categories/{category_id}")
 async def update_category(
     category_id: str,
     category_data: CategoryData,
     current_user: dict = Depends(get_kitchen_user)
 ):
-    """Update a category"""
+    """Update a category; renaming also moves its dishes to the new name"""
+    category = await db.categories.find_one({"id": category_id})
+    if not category:
+        raise HTTPException(status_code=404, detail="Category not found")
+    
+    if category_data.name != category["name"]:
+        duplicate = await db.categories.find_one({"name": category_data.name, "id": {"$ne": category_id}})
+        if duplicate:
+            raise HTTPException(status_code=400, detail="Category already exists")
+    
     update_data = {
         "name": category_data.name,
         "description": category_data.description,
-        "icon": category_data.icon,
-        "sort_order": category_data.sort_order,
+        "icon": category_data.icon or category.get("icon"),
+        "color": category_data.color or category.get("color"),
+        "sort_order": category_data.sort_order or category.get("sort_order"),
         "updated_at": datetime.utcnow().isoformat()
     }
     
-    result = await db.categories.update_one(
+    await db.categories.update_one(
         {"id": category_id},
         {"$set": update_data}
     )
     
-    if result.matched_count == 0:
-        raise HTTPException(status_code=404, detail="Category not found")
+    # Dishes reference categories by name
+    if category_data.name != category["name"]:
+        await db.dishes.update_many(
+            {"category": category["name"]},
+            {"$set": {"category": category_data.name}}
+        )
     
     return {"message": "Category updated"}
 
@@ -1930,8 +2925,12 @@ async def delete_category(
     current_user: dict = Depends(get_kitchen_user)
 ):
     """Delete a category"""
-    # Check if category has dishes
-    dishes_count = await db.dishes.count_documents({"category": category_id})
+    category = await db.categories.find_one({"id": category_id})
+    if not category:
+        raise HTTPException(status_code=404, detail="Category not found")
+    
+    # Check if category has dishes (stored by name, older dishes by id)
+    dishes_count = await db.dishes.count_documents({"category": {"$in": [category_id, category["name"]]}})
     if dishes_count > 0:
         raise HTTPException(status_code=400, detail=f"Cannot delete category with {dishes_count} dishes. Move dishes first.")
     
@@ -1942,6 +2941,48 @@ async def delete_category(
 
 # ==================== KITCHEN PREPARATION LIST ====================
 
+# Default items per customer (can be customized per subscription)
+DEFAULT_MEAL_ITEMS = {
+    "roti": 6,
+    "sabji": 1,  # portions (227g each)
+    "dal": 1,    # portions (340g / 12oz each)
+    "rice": 1,   # portions
+    "salad": 1,  # portions
+    "bread": 0   # number of breads
+}
+MAX_ITEM_PORTIONS = 20
+
+class CustomerItemsUpdate(BaseModel):
+    roti: Optional[int] = None
+    sabji: Optional[int] = None
+    dal: Optional[int] = None
+    rice: Optional[int] = None
+    salad: Optional[int] = None
+    bread: Optional[int] = None
+    scope: str = "default"  # today (one-off override) or default (every day)
+    note: Optional[str] = None
+
+def compute_prep_totals(preparation_list: list) -> dict:
+    """Daily totals (Dal = 340g/12oz per portion, Sabji = 227g per portion)"""
+    return {
+        "total_customers": len(preparation_list),
+        "total_roti": sum(c["roti"] for c in preparation_list),
+        "total_sabji_portions": sum(c["sabji"] for c in preparation_list),
+        "total_sabji_grams": sum(c["sabji"] for c in preparation_list) * 227,
+        "total_sabji_kg": round(sum(c["sabji"] for c in preparation_list) * 227 / 1000, 2),
+        "total_dal_portions": sum(c["dal"] for c in preparation_list),
+        "total_dal_grams": sum(c["dal"] for c in preparation_list) * 340,
+        "total_dal_kg": round(sum(c["dal"] for c in preparation_list) * 340 / 1000, 2),
+        "total_rice_portions": sum(c["rice"] for c in preparation_list),
+        "total_salad_portions": sum(c["salad"] for c in preparation_list),
+        "total_bread": sum(c["bread"] for c in preparation_list),
+    }
+
+def resolve_meal_items(sub: dict, date_str: str) -> dict:
+    """Today's override wins over the customer's saved defaults"""
+    preferences = {**DEFAULT_MEAL_ITEMS, **sub.get("meal_preferences", {})}
+    return {**preferences, **sub.get("portion_overrides", {}).get(date_str, {})}
+
 @api_router.get("/kitchen/preparation-list")
 async def get_preparation_list(current_user: dict = Depends(get_kitchen_user)):
     """Get daily preparation list with customer-wise breakdown and totals"""
@@ -1952,16 +2993,6 @@ async def get_preparation_list(current_user: dict = Depends(get_kitchen_user)):
     
     preparation_list = []
     
-    # Default items per customer (can be customized per subscription)
-    default_items = {
-        "roti": 6,
-        "sabji": 1,  # portions (227g each)
-        "dal": 1,    # portions (340g / 12oz each)
-        "rice": 1,   # portions
-        "salad": 1,  # portions
-        "bread": 0   # number of breads
-    }
-    
     for sub in subscriptions:
         # Check if skipped today
         is_skipped = any(
@@ -1977,8 +3008,7 @@ async def get_preparation_list(current_user: dict = Depends(get_kitchen_user)):
         if not user:
             continue
         
-        # Get customer preferences if any
-        preferences = sub.get("meal_preferences", {})
+        items = resolve_meal_items(sub, today)
         
         # Get skip history for this customer
         skipped_meals = sub.get("skipped_meals", [])
@@ -1992,12 +3022,13 @@ async def get_preparation_list(current_user: dict = Depends(get_kitchen_user)):
             "address": sub.get("delivery_address", ""),
             "plan": sub.get("plan", "standard"),
             "plan_type": sub.get("plan_type", "weekly"),
-            "roti": preferences.get("roti", default_items["roti"]),
-            "sabji": preferences.get("sabji", default_items["sabji"]),
-            "dal": preferences.get("dal", default_items["dal"]),
-            "rice": preferences.get("rice", default_items["rice"]),
-            "salad": preferences.get("salad", default_items["salad"]),
-            "bread": preferences.get("bread", default_items["bread"]),
+            "roti": items["roti"],
+            "sabji": items["sabji"],
+            "dal": items["dal"],
+            "rice": items["rice"],
+            "salad": items["salad"],
+            "bread": items["bread"],
+            "has_override": today in sub.get("portion_overrides", {}),
             "notes": sub.get("special_notes", ""),
             "total_skips": len(skipped_meals),
             "recent_skips": len(recent_skips),
@@ -2007,34 +3038,25 @@ async def get_preparation_list(current_user: dict = Depends(get_kitchen_user)):
         
         preparation_list.append(customer_items)
     
-    # Calculate totals (Dal = 340g/12oz per portion, Sabji = 227g per portion)
-    totals = {
-        "total_customers": len(preparation_list),
-        "total_roti": sum(c["roti"] for c in preparation_list),
-        "total_sabji_portions": sum(c["sabji"] for c in preparation_list),
-        "total_sabji_grams": sum(c["sabji"] for c in preparation_list) * 227,
-        "total_sabji_kg": round(sum(c["sabji"] for c in preparation_list) * 227 / 1000, 2),
-        "total_dal_portions": sum(c["dal"] for c in preparation_list),
-        "total_dal_grams": sum(c["dal"] for c in preparation_list) * 340,
-        "total_dal_kg": round(sum(c["dal"] for c in preparation_list) * 340 / 1000, 2),
-        "total_rice_portions": sum(c["rice"] for c in preparation_list),
-        "total_salad_portions": sum(c["salad"] for c in preparation_list),
-        "total_bread": sum(c["bread"] for c in preparation_list),
-    }
-    
     return {
         "date": today,
         "preparation_list": preparation_list,
-        "totals": totals
+        "totals": compute_prep_totals(preparation_list)
     }
 
 @api_router.put("/kitchen/customer-items/{customer_id}")
 async def update_customer_items(
     customer_id: str,
-    items: dict,
+    items: CustomerItemsUpdate,
     current_user: dict = Depends(get_kitchen_user)
 ):
-    """Update meal preferences for a specific customer"""
+    """
+    Adjust a customer's portions, either for today only or as their new
+    default. Only the fields sent are changed; every change is audited.
+    """
+    if items.scope not in ("today", "default"):
+        raise HTTPException(status_code=400, detail="Scope must be 'today' or 'default'")
+    
     # Find subscription
     subscription = await db.subscriptions.find_one({
         "user_id": customer_id,
@@ -2044,22 +3066,97 @@ async def update_customer_items(
     if not subscription:
         raise HTTPException(status_code=404, detail="Active subscription not found")
     
-    # Update preferences
-    preferences = {
-        "roti": items.get("roti", 4),
-        "sabji": items.get("sabji", 1),
-        "dal": items.get("dal", 1),
-        "rice": items.get("rice", 1),
-        "salad": items.get("salad", 1),
-        "bread": items.get("bread", 0),
+    changes = {k: v for k, v in items.dict().items() if k in DEFAULT_MEAL_ITEMS and v is not None}
+    for key, value in changes.items():
+        if value < 0 or value > MAX_ITEM_PORTIONS:
+            raise HTTPException(status_code=400, detail=f"{key.title()} must be between 0 and {MAX_ITEM_PORTIONS}")
+    if not changes:
+        raise HTTPException(status_code=400, detail="No portion changes provided")
+    
+    today = datetime.now().date().isoformat()
+    before = resolve_meal_items(subscription, today)
+    
+    if items.scope == "today":
+        override = {**subscription.get("portion_overrides", {}).get(today, {}), **changes}
+        await db.subscriptions.update_one(
+            {"id": subscription["id"]},
+            {"$set": {f"portion_overrides.{today}": override}}
+        )
+        subscription.setdefault("portion_overrides", {})[today] = override
+    else:
+        preferences = {**DEFAULT_MEAL_ITEMS, **subscription.get("meal_preferences", {}), **changes}
+        await db.subscriptions.update_one(
+            {"id": subscription["id"]},
+            {"$set": {"meal_preferences": preferences}}
+        )
+        subscription["meal_preferences"] = preferences
+    
+    # A new default doesn't reach today while today's override is still in place
+    after = resolve_meal_items(subscription, today)
+    await db.portion_audit.insert_one({
+        "id": str(uuid.uuid4()),
+        "customer_id": customer_id,
+        "subscription_id": subscription["id"],
+        "scope": items.scope,
+        "date": today,
+        "before": {k: before[k] for k in changes},
+        "after": changes,
+        "note": items.note,
+        "changed_by": current_user["id"],
+        "changed_by_name": current_user.get("name", "Kitchen"),
+        "created_at": datetime.utcnow().isoformat()
+    })
+    
+    return {
+        "message": "Customer items updated",
+        "scope": items.scope,
+        "items": after,
+        "has_override": today in subscription.get("portion_overrides", {})
     }
+
+@api_router.delete("/kitchen/customer-items/{customer_id}/today")
+async def clear_customer_items_override(customer_id: str, current_user: dict = Depends(get_kitchen_user)):
+    """Drop today's one-off portions so the customer's defaults apply again"""
+    subscription = await db.subscriptions.find_one({"user_id": customer_id, "status": "active"})
+    if not subscription:
+        raise HTTPException(status_code=404, detail="Active subscription not found")
+    
+    today = datetime.now().date().isoformat()
+    override = subscription.get("portion_overrides", {}).get(today)
+    if not override:
+        raise HTTPException(status_code=400, detail="No override set for today")
     
     await db.subscriptions.update_one(
         {"id": subscription["id"]},
-        {"$set": {"meal_preferences": preferences}}
+        {"$unset": {f"portion_overrides.{today}": ""}}
     )
+    defaults = {**DEFAULT_MEAL_ITEMS, **subscription.get("meal_preferences", {})}
+    await db.portion_audit.insert_one({
+        "id": str(uuid.uuid4()),
+        "customer_id": customer_id,
+        "subscription_id": subscription["id"],
+        "scope": "reset",
+        "date": today,
+        "before": override,
+        "after": {k: defaults[k] for k in override},
+        "note": None,
+        "changed_by": current_user["id"],
+        "changed_by_name": current_user.get("name", "Kitchen"),
+        "created_at": datetime.utcnow().isoformat()
+    })
     
-    return {"message": "Customer items updated"}
+    return {"message": "Today's portions reset", "items": defaults}
+
+@api_router.get("/kitchen/portion-audit")
+async def get_portion_audit(
+    customer_id: Optional[str] = None,
+    limit: int = 50,
+    current_user: dict = Depends(get_kitchen_user)
+):
+    """Who changed which portions, newest first"""
+    query = {"customer_id": customer_id} if customer_id else {}
+    entries = await db.portion_audit.find(query, {"_id": 0}).sort("created_at", -1).to_list(min(limit, 200))
+    return {"entries": entries}
 
 # ==================== TRUST ENGINE - WALLET SYSTEM ====================
 
@@ -2069,19 +3166,93 @@ class WalletTransaction(BaseModel):
     reason: str
     reference_id: Optional[str] = None
 
+# Base64 length cap for issue photos (~3 MB of image data)
+ISSUE_PHOTO_MAX_CHARS = 4 * 1024 * 1024
+
 class IssueReport(BaseModel):
-    issue_type: str  # cold_food, spilled, missing_item, other
+    issue_type: str  # missing_item, late, spilled, wrong_dabba, never_arrived, cold_food, other
     description: Optional[str] = None
     date: Optional[str] = None
+    photo_base64: Optional[str] = None
 
 class VacationMode(BaseModel):
     start_date: str
     end_date: str
     active: bool = True
 
+class VacationUpdate(BaseModel):
+    # The booked window being replaced
+    old_start_date: str
+    old_end_date: str
+    start_date: str
+    end_date: str
+
+class WalletTopUp(BaseModel):
+    amount: float
+    payment_token: str
+    provider: str
+
+# Preset top-up amounts offered in the app (CAD)
+WALLET_TOP_UP_AMOUNTS = [25.0, 50.0, 100.0, 200.0]
+WALLET_TOP_UP_MAX_CAD = 500.00
+
+class PaymentError(Exception):
+    pass
+
+class PaymentProvider:
+    """Charges a client-side payment token. Real gateways subclass this."""
+    name = "base"
+
+    async def charge(self, amount: float, currency: str, token: str, user_id: str) -> dict:
+        raise NotImplementedError
+
+class FakePaymentProvider(PaymentProvider):
+    """Dev provider: approves every token except ones starting with 'fake_decline'"""
+    name = "fake"
+
+    async def charge(self, amount: float, currency: str, token: str, user_id: str) -> dict:
+        if token.startswith("fake_decline"):
+            raise PaymentError("Card declined")
+        return {"charge_id": f"fake_ch_{uuid.uuid4().hex[:12]}", "amount": amount, "currency": currency}
+
+PAYMENT_PROVIDERS: Dict[str, PaymentProvider] = {}
+
+# The fake provider approves everything, so a deployment has to opt in to it explicitly
+if os.environ.get("ENABLE_FAKE_PAYMENTS", "").lower() == "true":
+    PAYMENT_PROVIDERS["fake"] = FakePaymentProvider()
+
+def get_payment_provider(name: str) -> PaymentProvider:
+    # Only providers enabled for this deployment are accepted; nothing is enabled by default
+    enabled = [p.strip() for p in os.environ.get("PAYMENT_PROVIDERS", "").split(",") if p.strip()]
+    provider = PAYMENT_PROVIDERS.get(name)
+    if not provider or name not in enabled:
+        raise HTTPException(status_code=400, detail=f"Payment provider '{name}' is not available")
+    return provider
+
+def normalize_wallet_transaction(tx: dict) -> dict:
+    """Map legacy and current transaction shapes onto one signed-amount record"""
+    tx_type = tx.get("type", "credit")
+    amount = abs(tx.get("amount", 0))
+    return {
+        "id": tx.get("id"),
+        "type": tx_type,
+        "amount": -amount if tx_type == "debit" else amount,
+        "description": tx.get("description") or tx.get("reason") or tx_type.replace("_", " ").title(),
+        "date": tx.get("created_at") or tx.get("date"),
+        "reference_id": tx.get("reference_id") or tx.get("delivery_id"),
+    }
+
 @api_router.get("/wallet")
-async def get_wallet(current_user: dict = Depends(get_current_user)):
-    """Get customer wallet balance and transaction history"""
+async def get_wallet(
+    type: Optional[str] = None,
+    month: Optional[str] = None,
+    current_user: dict = Depends(get_current_user)
+):
+    """Get customer wallet balance and transaction history
+
+    Filter by transaction `type` and/or `month` (YYYY-MM). Each transaction
+    carries `balance_after`, the wallet balance right after it was applied.
+    """
     wallet = await db.wallets.find_one({"user_id": current_user["id"]})
     
     if not wallet:
@@ -2094,15 +3265,84 @@ async def get_wallet(current_user: dict = Depends(get_current_user)):
         }
         await db.wallets.insert_one(wallet)
     
-    # Get recent transactions
-    transactions = await db.wallet_transactions.find(
+    # Newest first, so a cap only ever drops the oldest rows; older skip credits live on the wallet doc
+    stored = await db.wallet_transactions.find(
         {"user_id": current_user["id"]}
-    ).sort("created_at", -1).to_list(50)
+    ).sort("created_at", -1).to_list(5000)
+    history = [normalize_wallet_transaction(t) for t in stored + wallet.get("transactions", [])]
+    history.sort(key=lambda t: t["date"] or "", reverse=True)
+    
+    # Walk back from the stored balance, newest first, rather than summing the list - a starting
+    # balance, capped history or an older $inc without a row can't skew the recent balances
+    running = wallet.get("balance", 0.0)
+    for tx in history:
+        tx["balance_after"] = round(running, 2)
+        running -= tx["amount"]
+    
+    filtered = [
+        t for t in history
+        if (not type or t["type"] == type) and (not month or (t["date"] or "").startswith(month))
+    ]
     
     return {
         "balance": wallet.get("balance", 0.0),
         "currency": wallet.get("currency", "CAD"),
-        "transactions": [{k: v for k, v in t.items() if k != "_id"} for t in transactions]
+        "transactions": filtered if (type or month) else filtered[:50],
+        "types": sorted({t["type"] for t in history}),
+        "months": sorted({(t["date"] or "")[:7] for t in history if t["date"]}, reverse=True),
+        "summary": {
+            "credits": round(sum(t["amount"] for t in filtered if t["amount"] > 0), 2),
+            "debits": round(-sum(t["amount"] for t in filtered if t["amount"] < 0), 2),
+            "opening_balance": round(filtered[-1]["balance_after"] - filtered[-1]["amount"], 2) if filtered else None,
+            "closing_balance": filtered[0]["balance_after"] if filtered else None,
+        },
+        "top_up_amounts": WALLET_TOP_UP_AMOUNTS,
+    }
+
+@api_router.post("/wallet/top-up")
+async def top_up_wallet(
+    top_up: WalletTopUp,
+    current_user: dict = Depends(get_current_user)
+):
+    """Charge the customer through a payment provider and add the amount to their wallet"""
+    if current_user.get("role") != "customer":
+        raise HTTPException(status_code=403, detail="Customer role required")
+    
+    if top_up.amount < 1 or top_up.amount > WALLET_TOP_UP_MAX_CAD:
+        raise HTTPException(status_code=400, detail=f"Top-up must be between $1 and ${WALLET_TOP_UP_MAX_CAD:.0f}")
+    
+    provider = get_payment_provider(top_up.provider)
+    try:
+        charge = await provider.charge(top_up.amount, "CAD", top_up.payment_token, current_user["id"])
+    except PaymentError as e:
+        raise HTTPException(status_code=402, detail=str(e))
+    
+    await db.wallets.update_one(
+        {"user_id": current_user["id"]},
+        {
+            "$inc": {"balance": top_up.amount},
+            "$setOnInsert": {"currency": "CAD", "created_at": datetime.utcnow().isoformat()}
+        },
+        upsert=True
+    )
+    
+    tx_record = {
+        "id": str(uuid.uuid4()),
+        "user_id": current_user["id"],
+        "amount": top_up.amount,
+        "type": "top_up",
+        "reason": f"Wallet top-up ({provider.name})",
+        "reference_id": charge["charge_id"],
+        "created_at": datetime.utcnow().isoformat()
+    }
+    await db.wallet_transactions.insert_one(tx_record)
+    
+    wallet = await db.wallets.find_one({"user_id": current_user["id"]})
+    
+    return {
+        "message": f"${top_up.amount:.2f} added to wallet",
+        "new_balance": wallet.get("balance", 0.0),
+        "transaction_id": tx_record["id"]
     }
 
 @api_router.post("/wallet/credit")
@@ -2147,10 +3387,41 @@ async def report_issue(
     report: IssueReport,
     current_user: dict = Depends(get_current_user)
 ):
-    """Report food quality issue - auto credits wallet on approval"""
+    """
+    Report a problem with a delivered dabba. The first auto-credit issue for a
+    day is credited straight away; anything after that waits for the kitchen.
+    """
     if current_user.get("role") != "customer":
         raise HTTPException(status_code=403, detail="Customer role required")
     
+    today = datetime.now().date()
+    issue_date = report.date or today.isoformat()
+    try:
+        if datetime.strptime(issue_date, "%Y-%m-%d").date() > today:
+            raise HTTPException(status_code=400, detail="You can't report a problem for a future delivery")
+    except ValueError:
+        raise HTTPException(status_code=400, detail="Date must be YYYY-MM-DD")
+    
+    if report.photo_base64 and len(report.photo_base64) > ISSUE_PHOTO_MAX_CHARS:
+        raise HTTPException(status_code=413, detail="Photo is too large - try a smaller picture")
+    
+    delivery = await db.deliveries.find_one({"customer_id": current_user["id"], "delivery_date": issue_date})
+    if not delivery:
+        raise HTTPException(status_code=400, detail="There was no delivery for you on that day")
+    if report.issue_type == "never_arrived" and delivery.get("status") == "delivered":
+        raise HTTPException(
+            status_code=400,
+            detail="This dabba was marked as delivered - choose another problem so our team can look into it"
+        )
+    
+    existing = await db.issue_reports.find_one({
+        "user_id": current_user["id"],
+        "date": issue_date,
+        "issue_type": report.issue_type
+    })
+    if existing:
+        raise HTTPException(status_code=400, detail="You've already reported this problem for that day")
+    
     # Create issue report
     issue = {
         "id": str(uuid.uuid4()),
@@ -2158,17 +3429,33 @@ async def report_issue(
         "user_name": current_user.get("name"),
         "issue_type": report.issue_type,
         "description": report.description,
-        "date": report.date or datetime.now().date().isoformat(),
+        "date": issue_date,
+        "photo_base64": report.photo_base64,
         "status": "pending",  # pending, approved, rejected
         "created_at": datetime.utcnow().isoformat()
     }
     await db.issue_reports.insert_one(issue)
     
     # Auto-credit for certain issues (can be made configurable)
-    auto_credit_issues = ["cold_food", "spilled", "missing_item"]
-    credit_amounts = {"cold_food": 5.00, "spilled": 10.00, "missing_item": 8.00, "other": 5.00}
+    auto_credit_issues = ["cold_food", "spilled", "missing_item", "never_arrived"]
+    credit_amounts = {
+        "cold_food": 5.00,
+        "spilled": 10.00,
+        "missing_item": 8.00,
+        "never_arrived": MEAL_CREDIT_VALUE_CAD,
+        "other": 5.00
+    }
     
+    # Only one auto-credit per delivery; the claim is atomic so parallel reports can't both win
+    claimed = False
     if report.issue_type in auto_credit_issues:
+        claim = await db.deliveries.update_one(
+            {"id": delivery["id"], "issue_credit_report_id": {"$exists": False}},
+            {"$set": {"issue_credit_report_id": issue["id"]}}
+        )
+        claimed = claim.modified_count == 1
+    
+    if claimed:
         credit_amount = credit_amounts.get(report.issue_type, 5.00)
         
         # Credit wallet
@@ -2193,30 +3480,139 @@ async def report_issue(
         })
         
         # Update issue status
+        resolution = f"${credit_amount:.2f} credited to your wallet"
         await db.issue_reports.update_one(
             {"id": issue["id"]},
-            {"$set": {"status": "approved", "credit_amount": credit_amount}}
+            {"$set": {
+                "status": "approved",
+                "credit_amount": credit_amount,
+                "resolution": resolution,
+                "resolved_at": datetime.utcnow().isoformat()
+            }}
         )
         
         return {
             "message": f"Issue reported. ${credit_amount:.2f} has been credited to your wallet.",
             "issue_id": issue["id"],
-            "credit_amount": credit_amount
+            "status": "approved",
+            "credit_amount": credit_amount,
+            "resolution": resolution
         }
     
     return {
         "message": "Issue reported. Our team will review and respond within 24 hours.",
-        "issue_id": issue["id"]
+        "issue_id": issue["id"],
+        "status": "pending"
+    }
+
+@api_router.get("/customer/issues")
+async def get_my_issues(current_user: dict = Depends(get_current_user)):
+    """Customer's reported issues, newest first"""
+    if current_user.get("role") != "customer":
+        raise HTTPException(status_code=403, detail="Customer role required")
+    
+    issues = await db.issue_reports.find(
+        {"user_id": current_user["id"]}
+    ).sort("created_at", -1).to_list(50)
+    
+    return {
+        "issues": [
+            {
+                **{k: v for k, v in i.items() if k not in ("_id", "photo_base64")},
+                "has_photo": bool(i.get("photo_base64"))
+            }
+            for i in issues
+        ]
     }
 
 # ==================== SMART PLANNER - VACATION MODE ====================
 
+def get_vacation_skip_dates(subscription: dict, start_date: str, end_date: str) -> List[str]:
+    """Weekday dates in range that a vacation would newly skip"""
+    start = datetime.strptime(start_date, "%Y-%m-%d").date()
+    end = datetime.strptime(end_date, "%Y-%m-%d").date()
+    
+    if end < start:
+        raise HTTPException(status_code=400, detail="End date must be after start date")
+    
+    existing = {s.get("date") for s in subscription.get("skipped_meals", [])}
+    dates = []
+    current = start
+    while current <= end:
+        # Skip weekends and days that are already skipped
+        if current.weekday() < 5 and current.isoformat() not in existing:
+            dates.append(current.isoformat())
+        current += timedelta(days=1)
+    return dates
+
+def get_vacation_windows(skipped_meals: list) -> list:
+    """
+    Group vacation skips into the windows they were booked as. Skips from before
+    bookings carried a vacation_id are grouped by bridging weekends between weekdays.
+    """
+    skips = sorted((s for s in skipped_meals if s.get("reason") == "vacation"), key=lambda s: s["date"])
+    windows = []
+    booked = {}
+    last_unbooked = None
+    for skip in skips:
+        date_str = skip["date"]
+        vacation_id = skip.get("vacation_id")
+        window = booked.get(vacation_id) if vacation_id else None
+        if not vacation_id and last_unbooked:
+            last = datetime.strptime(last_unbooked["end_date"], "%Y-%m-%d").date()
+            if (datetime.strptime(date_str, "%Y-%m-%d").date() - last).days <= 3:
+                window = last_unbooked
+        if window:
+            window["end_date"] = date_str
+            window["days"] += 1
+            continue
+        window = {"start_date": date_str, "end_date": date_str, "days": 1}
+        windows.append(window)
+        if vacation_id:
+            booked[vacation_id] = window
+        else:
+            last_unbooked = window
+    
+    today = datetime.now().date().isoformat()
+    for window in windows:
+        window["credit_amount"] = window["days"] * MEAL_CREDIT_VALUE_CAD
+        window["is_upcoming"] = window["start_date"] > today
+        window["is_active"] = window["start_date"] <= today <= window["end_date"]
+    return windows
+
+@api_router.get("/subscription/vacation/preview")
+async def preview_vacation_mode(
+    start_date: str,
+    end_date: str,
+    current_user: dict = Depends(get_current_user)
+):
+    """Preview meals skipped and credit earned for a vacation range"""
+    if current_user.get("role") != "customer":
+        raise HTTPException(status_code=403, detail="Customer role required")
+    
+    subscription = await db.subscriptions.find_one({
+        "user_id": current_user["id"],
+        "status": "active"
+    })
+    
+    if not subscription:
+        raise HTTPException(status_code=404, detail="No active subscription found")
+    
+    dates = get_vacation_skip_dates(subscription, start_date, end_date)
+    
+    return {
+        "dates": dates,
+        "dates_skipped": len(dates),
+        "credit_per_day": MEAL_CREDIT_VALUE_CAD,
+        "credit_amount": len(dates) * MEAL_CREDIT_VALUE_CAD
+    }
+
 @api_router.post("/subscription/vacation")
 async def set_vacation_mode(
     vacation: VacationMode,
     current_user: dict = Depends(get_current_user)
 ):
-    """Set vacation mode - pause all deliveries for date range"""
+    """Set vacation mode - pause all deliveries for date range (active=False cancels it)"""
     if current_user.get("role") != "customer":
         raise HTTPException(status_code=403, detail="Customer role required")
     
@@ -2228,77 +3624,194 @@ async def set_vacation_mode(
     if not subscription:
         raise HTTPException(status_code=404, detail="No active subscription found")
     
-    # Parse dates
-    start = datetime.strptime(vacation.start_date, "%Y-%m-%d").date()
-    end = datetime.strptime(vacation.end_date, "%Y-%m-%d").date()
+    if not vacation.active:
+        return await cancel_vacation_mode(vacation, subscription, current_user)
     
-    if end < start:
-        raise HTTPException(status_code=400, detail="End date must be after start date")
+    if vacation.start_date <= datetime.now().date().isoformat():
+        raise HTTPException(status_code=400, detail="Vacation must start from tomorrow")
     
-    # Generate all dates in range
-    vacation_dates = []
-    current = start
-    while current <= end:
-        vacation_dates.append(current.isoformat())
-        current += timedelta(days=1)
+    vacation_id = str(uuid.uuid4())
+    added = 0
+    for date in get_vacation_skip_dates(subscription, vacation.start_date, vacation.end_date):
+        # Each day is only added if it isn't skipped yet, so a double tap or retry can't credit it twice
+        result = await db.subscriptions.update_one(
+            {"id": subscription["id"], "skipped_meals.date": {"$ne": date}},
+            {"$push": {"skipped_meals": {"date": date, "meal_type": "all", "reason": "vacation", "vacation_id": vacation_id}}}
+        )
+        added += result.modified_count
     
-    # Add to skipped meals
-    existing_skips = subscription.get("skipped_meals", [])
-    new_skips = []
+    total_credit = added * MEAL_CREDIT_VALUE_CAD
     
-    for date in vacation_dates:
-        # Skip weekends
-        day_of_week = datetime.strptime(date, "%Y-%m-%d").weekday()
-        if day_of_week >= 5:  # Saturday=5, Sunday=6
-            continue
-            
-        # Check if already skipped
-        already_skipped = any(s.get("date") == date for s in existing_skips)
-        if not already_skipped:
-            new_skips.append({"date": date, "meal_type": "all", "reason": "vacation"})
+    if total_credit > 0:
+        # Credit wallet
+        await db.wallets.update_one(
+            {"user_id": current_user["id"]},
+            {
+                "$inc": {"balance": total_credit},
+                "$setOnInsert": {"currency": "CAD", "created_at": datetime.utcnow().isoformat()}
+            },
+            upsert=True
+        )
+        
+        # Record transaction
+        await db.wallet_transactions.insert_one({
+            "id": str(uuid.uuid4()),
+            "user_id": current_user["id"],
+            "amount": total_credit,
+            "type": "credit",
+            "reason": f"Vacation mode: {vacation.start_date} to {vacation.end_date}",
+            "created_at": datetime.utcnow().isoformat()
+        })
+    
+    if added:
+        await ws_manager.notify_manifest_update()
+    
+    return {
+        "message": f"Vacation mode set for {added} days",
+        "dates_skipped": added,
+        "credit_amount": total_credit,
+        "start_date": vacation.start_date,
+        "end_date": vacation.end_date
+    }
+
+def get_restorable_vacation_dates(subscription: dict, start_date: str, end_date: str) -> List[str]:
+    """Upcoming vacation days in range - days already past stay skipped and credited"""
+    today = datetime.now().date().isoformat()
+    return [
+        s["date"] for s in subscription.get("skipped_meals", [])
+        if s.get("reason") == "vacation"
+        and start_date <= s.get("date", "") <= end_date
+        and s["date"] > today
+    ]
+
+async def cancel_vacation_mode(vacation: VacationMode, subscription: dict, current_user: dict):
+    """Restore future vacation days in range and take back their credit"""
+    restored = 0
+    for date in get_restorable_vacation_dates(subscription, vacation.start_date, vacation.end_date):
+        # Only a day that is still paused comes back and is debited, so a retry can't debit it twice
+        result = await db.subscriptions.update_one(
+            {"id": subscription["id"], "skipped_meals": {"$elemMatch": {"date": date, "reason": "vacation"}}},
+            {"$pull": {"skipped_meals": {"date": date, "reason": "vacation"}}}
+        )
+        restored += result.modified_count
+    
+    if not restored:
+        raise HTTPException(status_code=400, detail="No upcoming vacation days in that range")
+    
+    total_debit = restored * MEAL_CREDIT_VALUE_CAD
+    
+    await db.wallets.update_one(
+        {"user_id": current_user["id"]},
+        {"$inc": {"balance": -total_debit}}
+    )
+    
+    await db.wallet_transactions.insert_one({
+        "id": str(uuid.uuid4()),
+        "user_id": current_user["id"],
+        "amount": -total_debit,
+        "type": "debit",
+        "reason": f"Vacation cancelled: {vacation.start_date} to {vacation.end_date}",
+        "created_at": datetime.utcnow().isoformat()
+    })
+    
+    await ws_manager.notify_manifest_update()
+    
+    return {
+        "message": f"Vacation cancelled for {restored} days",
+        "dates_restored": restored,
+        "debit_amount": total_debit,
+        "start_date": vacation.start_date,
+        "end_date": vacation.end_date
+    }
+
+@api_router.put("/subscription/vacation")
+async def update_vacation_mode(
+    update: VacationUpdate,
+    current_user: dict = Depends(get_current_user)
+):
+    """
+    Move or resize a booked vacation in one step. The old window's upcoming days
+    come back and the new range is paused in a single write, and the wallet is
+    settled by the difference, so a failure can't leave the customer unpaused.
+    """
+    if current_user.get("role") != "customer":
+        raise HTTPException(status_code=403, detail="Customer role required")
+    
+    subscription = await db.subscriptions.find_one({
+        "user_id": current_user["id"],
+        "status": "active"
+    })
+    
+    if not subscription:
+        raise HTTPException(status_code=404, detail="No active subscription found")
     
-    # Update subscription
-    await db.subscriptions.update_one(
-        {"id": subscription["id"]},
-        {"$push": {"skipped_meals": {"$each": new_skips}}}
+    if update.start_date <= datetime.now().date().isoformat():
+        raise HTTPException(status_code=400, detail="Vacation must start from tomorrow")
+    
+    current_skips = subscription.get("skipped_meals", [])
+    restored = set(get_restorable_vacation_dates(subscription, update.old_start_date, update.old_end_date))
+    if not restored:
+        raise HTTPException(status_code=400, detail="No upcoming vacation days in that range")
+    
+    kept = [s for s in current_skips if not (s.get("reason") == "vacation" and s.get("date") in restored)]
+    new_dates = get_vacation_skip_dates({**subscription, "skipped_meals": kept}, update.start_date, update.end_date)
+    # The moved days stay part of the same booking as any days of it already past
+    vacation_id = next(
+        (s["vacation_id"] for s in current_skips
+         if s.get("reason") == "vacation" and s.get("date") in restored and s.get("vacation_id")),
+        None
+    ) or str(uuid.uuid4())
+    new_skips = [{"date": date, "meal_type": "all", "reason": "vacation", "vacation_id": vacation_id} for date in new_dates]
+    
+    # Only applies if nothing else changed the skips since they were read
+    result = await db.subscriptions.update_one(
+        {"id": subscription["id"], "skipped_meals": current_skips},
+        {"$set": {"skipped_meals": kept + new_skips}}
     )
+    if not result.modified_count:
+        raise HTTPException(status_code=409, detail="Your plan changed - refresh and try again")
     
-    # Calculate credits (e.g., $12 per day)
-    credit_per_day = 12.00
-    total_credit = len(new_skips) * credit_per_day
-    
-    if total_credit > 0:
-        # Credit wallet
+    net_credit = (len(new_skips) - len(restored)) * MEAL_CREDIT_VALUE_CAD
+    if net_credit:
         await db.wallets.update_one(
             {"user_id": current_user["id"]},
             {
-                "$inc": {"balance": total_credit},
+                "$inc": {"balance": net_credit},
                 "$setOnInsert": {"currency": "CAD", "created_at": datetime.utcnow().isoformat()}
             },
             upsert=True
         )
-        
-        # Record transaction
         await db.wallet_transactions.insert_one({
             "id": str(uuid.uuid4()),
             "user_id": current_user["id"],
-            "amount": total_credit,
-            "type": "credit",
-            "reason": f"Vacation mode: {vacation.start_date} to {vacation.end_date}",
+            "amount": net_credit,
+            "type": "credit" if net_credit > 0 else "debit",
+            "reason": (
+                f"Vacation changed: {update.old_start_date} to {update.old_end_date} "
+                f"is now {update.start_date} to {update.end_date}"
+            ),
             "created_at": datetime.utcnow().isoformat()
         })
     
+    await ws_manager.notify_manifest_update()
+    
     return {
-        "message": f"Vacation mode set for {len(new_skips)} days",
+        "message": f"Vacation updated to {len(new_skips)} days",
         "dates_skipped": len(new_skips),
-        "credit_amount": total_credit,
-        "start_date": vacation.start_date,
-        "end_date": vacation.end_date
+        "dates_restored": len(restored),
+        "credit_amount": len(new_skips) * MEAL_CREDIT_VALUE_CAD,
+        "net_credit": net_credit,
+        "start_date": update.start_date,
+        "end_date": update.end_date
     }
 
 @api_router.get("/subscription/calendar")
-async def get_subscription_calendar(current_user: dict = Depends(get_current_user)):
-    """Get 7-day calendar with menu and delivery status"""
+async def get_subscription_calendar(
+    days: int = 7,
+    start: Optional[str] = None,
+    current_user: dict = Depends(get_current_user)
+):
+    """Get calendar (7 days from today by default) with menu, delivery status and vacation windows"""
     if current_user.get("role") != "customer":
         raise HTTPException(status_code=403, detail="Customer role required")
     
@@ -2307,12 +3820,34 @@ async def get_subscription_calendar(current_user: dict = Depends(get_current_use
         "status": "active"
     })
     
-    # Get next 7 days
+    days = max(1, min(days, 62))
+    skipped_meals = subscription.get("skipped_meals", []) if subscription else []
+    skip_reasons = {s.get("date"): s.get("reason") for s in skipped_meals}
+    
     today = datetime.now().date()
+    first_day = datetime.strptime(start, "%Y-%m-%d").date() if start else today
+    last_day = first_day + timedelta(days=days - 1)
+    
+    # Past days report what actually happened, future days any swaps
+    deliveries = {}
+    swaps = {}
+    if subscription:
+        range_query = {
+            "subscription_id": subscription["id"],
+            "date": {"$gte": first_day.isoformat(), "$lte": last_day.isoformat()}
+        }
+        for d in await db.delivery_queue.find(range_query).to_list(100):
+            deliveries[d["date"]] = d.get("status")
+        for sw in await db.meal_swaps.find(range_query).to_list(200):
+            swaps.setdefault(sw["date"], []).append({
+                "original_meal": sw.get("original_meal"),
+                "replacement_meal": sw.get("replacement_meal")
+            })
+    
     calendar = []
     
-    for i in range(7):
-        day = today + timedelta(days=i)
+    for i in range(days):
+        day = first_day + timedelta(days=i)
         day_str = day.isoformat()
         day_name = day.strftime("%A")
         
@@ -2320,18 +3855,22 @@ async def get_subscription_calendar(current_user: dict = Depends(get_current_use
         is_weekend = day.weekday() >= 5
         
         # Check if skipped
-        is_skipped = False
-        if subscription:
-            is_skipped = any(
-                s.get("date") == day_str 
-                for s in subscription.get("skipped_meals", [])
-            )
+        is_skipped = day_str in skip_reasons
         
         # Get menu for the day
         menu_entry = await db.menu_schedule.find_one({"date": day_str})
         menu_info = None
         
+        dinner_items = []
+        
         if menu_entry:
+            item_ids = menu_entry.get("dinner_item_ids", [])
+            if item_ids:
+                dishes = await db.dishes.find({"id": {"$in": item_ids}}).to_list(10)
+                dinner_items = [
+                    {"id": d["id"], "name": d["name"], "category": d.get("category", "sabji")}
+                    for d in dishes
+                ]
             lunch_dish = await db.dishes.find_one({"id": menu_entry.get("lunch_dish_id")})
             dinner_dish = await db.dishes.find_one({"id": menu_entry.get("dinner_dish_id")})
             menu_info = {
@@ -2350,21 +3889,31 @@ async def get_subscription_calendar(current_user: dict = Depends(get_current_use
         if is_weekend:
             status = "weekend"
         elif is_skipped:
-            status = "skipped"
+            status = "vacation" if skip_reasons[day_str] == "vacation" else "skipped"
         elif not subscription:
             status = "no_subscription"
+        elif deliveries.get(day_str) in ("delivered", "failed"):
+            status = deliveries[day_str]
+        elif day < today:
+            status = "no_record"
+        elif day_str in swaps:
+            status = "swapped"
         
         calendar.append({
             "date": day_str,
             "day": day_name,
             "is_weekend": is_weekend,
             "is_skipped": is_skipped,
+            "skip_reason": skip_reasons.get(day_str),
             "status": status,
+            "delivery_status": deliveries.get(day_str),
+            "swaps": swaps.get(day_str, []),
             "menu": menu_info,
-            "can_skip": i >= 1 and not is_weekend and not is_skipped  # Can skip future days only
+            "dinner_items": dinner_items,
+            "can_skip": day > today and not is_weekend and not is_skipped  # Can skip future days only
         })
     
-    return {"calendar": calendar}
+    return {"calendar": calendar, "vacations": get_vacation_windows(skipped_meals)}
 
 # ==================== KITCHEN BATCH TOTALS ====================
 
@@ -2431,35 +3980,117 @@ async def get_batch_totals(current_user: dict = Depends(get_kitchen_user)):
         "menu": menu
     }
 
+async def get_sold_out_impact(item_name: str, date_str: str) -> dict:
+    """Count customers whose order for a date includes the item (dabba, swap or extra)"""
+    subscriptions = await db.subscriptions.find({"status": "active"}).to_list(1000)
+    active = [
+        sub for sub in subscriptions
+        if date_str not in {s.get("date") for s in sub.get("skipped_meals", [])}
+    ]
+    sub_users = {sub["id"]: sub["user_id"] for sub in active}
+    
+    menu = await db.menu_schedule.find_one({"date": date_str})
+    on_menu = False
+    if menu and menu.get("dinner_item_ids"):
+        on_menu = await db.dishes.count_documents({"id": {"$in": menu["dinner_item_ids"]}, "name": item_name}) > 0
+    
+    swaps = await db.meal_swaps.find({
+        "date": date_str,
+        "$or": [{"original_meal": item_name}, {"replacement_meal": item_name}]
+    }).to_list(1000)
+    swapped_away = {sw["subscription_id"] for sw in swaps if sw.get("original_meal") == item_name}
+    swapped_in = {sw["subscription_id"] for sw in swaps if sw.get("replacement_meal") == item_name}
+    
+    dabba_users = {uid for sid, uid in sub_users.items() if sid not in swapped_away} if on_menu else set()
+    swap_users = {sub_users[sid] for sid in swapped_in if sid in sub_users}
+    
+    addons = await db.customer_addons.find({"date": date_str, "item_name": item_name}).to_list(1000)
+    extra_users = {a["user_id"] for a in addons}
+    
+    return {
+        "affected_customers": len(dabba_users | swap_users | extra_users),
+        "dabbas": len(dabba_users),
+        "swaps": len(swap_users),
+        "extras": len(extra_users),
+    }
+
+class SoldOutRequest(BaseModel):
+    item_name: str
+    date: Optional[str] = None  # YYYY-MM-DD, today when left out
+
+def sold_out_day(item: SoldOutRequest) -> str:
+    if not item.item_name.strip():
+        raise HTTPException(status_code=400, detail="Item name is required")
+    if not item.date:
+        return datetime.now().date().isoformat()
+    try:
+        return datetime.strptime(item.date, "%Y-%m-%d").date().isoformat()
+    except ValueError:
+        raise HTTPException(status_code=400, detail="Date must be YYYY-MM-DD")
+
+def describe_sold_out_day(day: str) -> str:
+    return "today" if day == datetime.now().date().isoformat() else day
+
 @api_router.post("/kitchen/mark-sold-out")
 async def mark_item_sold_out(
-    item_data: dict,
+    item: SoldOutRequest,
     current_user: dict = Depends(get_kitchen_user)
 ):
-    """Mark an item as sold out for today"""
-    today = datetime.now().date().isoformat()
+    """Mark an item as sold out for a date (today by default)"""
+    day = sold_out_day(item)
     
     sold_out_record = {
-        "date": today,
-        "item_name": item_data.get("item_name"),
+        "date": day,
+        "item_name": item.item_name,
         "marked_by": current_user["id"],
         "marked_at": datetime.utcnow().isoformat()
     }
     
     await db.sold_out_items.update_one(
-        {"date": today, "item_name": item_data.get("item_name")},
+        {"date": day, "item_name": item.item_name},
         {"$set": sold_out_record},
         upsert=True
     )
     
-    return {"message": f"{item_data.get('item_name')} marked as sold out for today"}
+    await ws_manager.notify_sold_out(day, item.item_name, True)
+    
+    return {"message": f"{item.item_name} marked as sold out for {describe_sold_out_day(day)}", "date": day}
+
+@api_router.post("/kitchen/restock")
+async def restock_item(
+    item: SoldOutRequest,
+    current_user: dict = Depends(get_kitchen_user)
+):
+    """Clear an item's sold-out flag for a date (today by default)"""
+    day = sold_out_day(item)
+    
+    result = await db.sold_out_items.delete_one({"date": day, "item_name": item.item_name})
+    if result.deleted_count == 0:
+        raise HTTPException(status_code=404, detail="Item is not marked sold out")
+    
+    await ws_manager.notify_sold_out(day, item.item_name, False)
+    
+    return {"message": f"{item.item_name} is back in stock for {describe_sold_out_day(day)}", "date": day}
 
 @api_router.get("/kitchen/sold-out")
-async def get_sold_out_items(current_user: dict = Depends(get_kitchen_user)):
-    """Get list of sold out items for today"""
-    today = datetime.now().date().isoformat()
-    items = await db.sold_out_items.find({"date": today}).to_list(50)
-    return {"sold_out": [item.get("item_name") for item in items]}
+async def get_sold_out_items(date: Optional[str] = None, current_user: dict = Depends(get_current_user)):
+    """Get list of sold out items for a date (today by default) - customers read it for swap pickers"""
+    day = date or datetime.now().date().isoformat()
+    items = await db.sold_out_items.find({"date": day}).sort("marked_at", -1).to_list(50)
+    response = {"date": day, "sold_out": [item.get("item_name") for item in items]}
+    
+    # Kitchen also gets the board: who is affected by each sold-out item
+    if current_user.get("role") in ["kitchen", "admin"]:
+        response["items"] = [
+            {
+                "item_name": item.get("item_name"),
+                "marked_at": item.get("marked_at"),
+                **(await get_sold_out_impact(item.get("item_name"), day))
+            }
+            for item in items
+        ]
+    
+    return response
 
 # ==================== HALIFAX TEST DATA SEEDING ====================
 
@@ -2596,15 +4227,11 @@ async def seed_halifax_data(current_user: dict = Depends(get_kitchen_user)):
         "total_deliveries_queued": len(HALIFAX_TEST_CUSTOMERS)
     }
 
-@api_router.get("/kitchen/modular-prep-list")
-async def get_modular_prep_list(current_user: dict = Depends(get_kitchen_user)):
-    """Get detailed preparation list based on modular menu items"""
-    today = datetime.now().date().isoformat()
-    
-    # Get today's menu
-    menu = await db.menu_schedule.find_one({"date": today})
+async def build_modular_prep_list(date_str: str) -> Optional[dict]:
+    """Per-dish quantities for a day's menu, or None when no menu is set"""
+    menu = await db.menu_schedule.find_one({"date": date_str})
     if not menu:
-        return {"error": "No menu set for today", "date": today}
+        return None
     
     dinner_ids = menu.get("dinner_item_ids", [])
     
@@ -2614,7 +4241,7 @@ async def get_modular_prep_list(current_user: dict = Depends(get_kitchen_user)):
     # Count active orders (not skipped)
     total_orders = 0
     for sub in subscriptions:
-        is_skipped = any(s.get("date") == today for s in sub.get("skipped_meals", []))
+        is_skipped = any(s.get("date") == date_str for s in sub.get("skipped_meals", []))
         if not is_skipped:
             total_orders += 1
     
@@ -2631,6 +4258,7 @@ async def get_modular_prep_list(current_user: dict = Depends(get_kitchen_user)):
         total_qty = qty * total_orders
         
         item = {
+            "id": dish["id"],
             "name": dish["name"],
             "category": category,
             "per_tiffin": qty,
@@ -2646,7 +4274,7 @@ async def get_modular_prep_list(current_user: dict = Depends(get_kitchen_user)):
         category_totals[category].append(item)
     
     return {
-        "date": today,
+        "date": date_str,
         "total_dinners": total_orders,
         "menu_items": len(dinner_ids),
         "prep_breakdown": prep_breakdown,
@@ -2659,6 +4287,102 @@ async def get_modular_prep_list(current_user: dict = Depends(get_kitchen_user)):
         }
     }
 
+@api_router.get("/kitchen/modular-prep-list")
+async def get_modular_prep_list(current_user: dict = Depends(get_kitchen_user)):
+    """Get detailed preparation list based on modular menu items"""
+    today = datetime.now().date().isoformat()
+    
+    prep_list = await build_modular_prep_list(today)
+    if not prep_list:
+        return {"error": "No menu set for today", "date": today}
+    return prep_list
+
+# ==================== COOK SHEET ====================
+
+class CookBatchUpdate(BaseModel):
+    item_id: str
+    batch_index: int
+    done: bool
+
+# Largest quantity cooked in one go, by dish unit
+COOK_BATCH_CAPACITY = {
+    "pieces": 60,
+    "grams": 5000,
+    "kg": 5,
+    "ml": 5000,
+    "portion": 30,
+}
+
+@api_router.get("/kitchen/cook-sheet")
+async def get_cook_sheet(current_user: dict = Depends(get_kitchen_user)):
+    """Today's production split into cookable batches, with completion ticks"""
+    today = datetime.now().date().isoformat()
+    
+    prep_list = await build_modular_prep_list(today)
+    if not prep_list:
+        return {"error": "No menu set for today", "date": today, "items": []}
+    
+    done_batches = await db.cook_batches.find({"date": today}).to_list(500)
+    done_lookup = {(b["item_id"], b["batch_index"]): b for b in done_batches}
+    
+    items = []
+    for prep in prep_list["prep_breakdown"]:
+        capacity = COOK_BATCH_CAPACITY.get(prep["unit"], COOK_BATCH_CAPACITY["portion"])
+        remaining = prep["total_quantity"]
+        batches = []
+        while remaining > 0:
+            quantity = min(capacity, remaining)
+            done = done_lookup.get((prep["id"], len(batches)))
+            batches.append({
+                "index": len(batches),
+                "quantity": round(quantity, 2),
+                "done": bool(done),
+                "done_at": done.get("done_at") if done else None
+            })
+            remaining -= quantity
+        
+        completed = sum(b["quantity"] for b in batches if b["done"])
+        items.append({
+            **prep,
+            "batch_capacity": capacity,
+            "batches": batches,
+            "completed_quantity": round(completed, 2),
+            "progress": round(completed / prep["total_quantity"], 3) if prep["total_quantity"] else 1.0
+        })
+    
+    total_batches = sum(len(i["batches"]) for i in items)
+    done_count = sum(1 for i in items for b in i["batches"] if b["done"])
+    
+    return {
+        "date": today,
+        "total_dinners": prep_list["total_dinners"],
+        "items": items,
+        "total_batches": total_batches,
+        "completed_batches": done_count
+    }
+
+@api_router.post("/kitchen/cook-sheet/batch")
+async def update_cook_batch(
+    update: CookBatchUpdate,
+    current_user: dict = Depends(get_kitchen_user)
+):
+    """Tick a batch off (or undo it) on today's cook sheet"""
+    today = datetime.now().date().isoformat()
+    key = {"date": today, "item_id": update.item_id, "batch_index": update.batch_index}
+    
+    if update.done:
+        await db.cook_batches.update_one(
+            key,
+            {"$set": {**key, "done_at": datetime.utcnow().isoformat(), "done_by": current_user["id"]}},
+            upsert=True
+        )
+    else:
+        await db.cook_batches.delete_one(key)
+    
+    await ws_manager.notify_cook_sheet_update(update.item_id, update.batch_index, update.done)
+    
+    return {"message": "Batch updated"}
+
 # ==================== MEAL SWAP FUNCTIONALITY ====================
 
 class MealSwap(BaseModel):
@@ -2666,6 +4390,24 @@ class MealSwap(BaseModel):
     original_meal: str
     replacement_meal: str  # "standard_dal", "standard_salad", "skip"
 
+@api_router.get("/menu/dishes")
+async def get_menu_dishes(category: Optional[str] = None, current_user: dict = Depends(get_current_user)):
+    """Dish catalogue for customers, e.g. swap candidates from the same category"""
+    query = {"category": category} if category else {}
+    dishes = await db.dishes.find(query).to_list(200)
+    return {
+        "dishes": [
+            {
+                "id": d["id"],
+                "name": d["name"],
+                "category": d.get("category", "sabji"),
+                "type": d.get("type"),
+                "description": d.get("description", "")
+            }
+            for d in dishes
+        ]
+    }
+
 @api_router.post("/subscription/swap-meal")
 async def swap_meal(
     swap: MealSwap,
@@ -2691,7 +4433,18 @@ async def swap_meal(
     if not subscription:
         raise HTTPException(status_code=404, detail="No active subscription")
     
-    # Record swap
+    swap_key = {"subscription_id": subscription["id"], "date": swap.date, "original_meal": swap.original_meal}
+    
+    # Swapping back to the original item removes the swap
+    if swap.replacement_meal == swap.original_meal:
+        await db.meal_swaps.delete_one(swap_key)
+        return {"message": f"{swap.original_meal} restored for {swap.date}", "swap_id": None}
+    
+    sold_out = await db.sold_out_items.find_one({"date": swap.date, "item_name": swap.replacement_meal})
+    if sold_out:
+        raise HTTPException(status_code=400, detail=f"{swap.replacement_meal} is sold out")
+    
+    # Record swap (one per original item per day)
     swap_record = {
         "id": str(uuid.uuid4()),
         "subscription_id": subscription["id"],
@@ -2703,7 +4456,7 @@ async def swap_meal(
     }
     
     await db.meal_swaps.update_one(
-        {"subscription_id": subscription["id"], "date": swap.date},
+        swap_key,
         {"$set": swap_record},
         upsert=True
     )
@@ -2907,7 +4660,7 @@ async def chat_with_concierge(
     subscription = await db.subscriptions.find_one({"user_id": user_id, "status": "active"})
     wallet = await db.wallets.find_one({"user_id": user_id})
     preferences = await db.customer_preferences.find_one({"user_id": user_id})
-    weather = await db.system_settings.find_one({"key": "weather_status"})
+    weather = await load_weather_status()
     
     # Build context
     context = f"""
@@ -2917,7 +4670,7 @@ async def chat_with_concierge(
 - Wallet Balance: ${wallet.get('balance', 0):.2f} CAD
 - Spice Preference: {preferences.get('spice_level', 'medium') if preferences else 'medium'}
 - Address: {subscription.get('delivery_address', 'Not set') if subscription else 'Not set'}
-- Weather Status: {weather.get('value', 'normal') if weather else 'normal'}
+- Weather Status: {weather['status']} - {weather['message']}
 - Today's Date: {datetime.now().strftime('%A, %B %d, %Y')}
 
 **Customer Message:** {chat_msg.message}
@@ -3067,7 +4820,7 @@ async def get_quality_alerts(current_user: dict = Depends(get_kitchen_user)):
     # Get recent bad ratings
     bad_ratings = await db.meal_ratings.find({
         "rating": "bad",
-        "created_at": {"$gte": datetime.utcnow() - timedelta(days=7)}
+        "created_at": {"$gte": (datetime.utcnow() - timedelta(days=7)).isoformat()}
     }).to_list(50)
     
     # Get human handover requests
@@ -3080,7 +4833,7 @@ async def get_quality_alerts(current_user: dict = Depends(get_kitchen_user)):
     # Summarize feedback
     feedback_counts = {}
     for rating in bad_ratings:
-        feedback = rating.get("feedback", "No details")
+        feedback = rating.get("feedback") or "No details"
         if feedback in feedback_counts:
             feedback_counts[feedback] += 1
         else:
@@ -3128,17 +4881,29 @@ async def get_menu_knowledge_base():
 # ==================== WEBSOCKET ENDPOINTS ====================
 
 @app.websocket("/ws/{role}/{user_id}")
-async def websocket_endpoint(websocket: WebSocket, role: str, user_id: str):
+async def websocket_endpoint(websocket: WebSocket, role: str, user_id: str, token: Optional[str] = None):
     """
     Real-time WebSocket connection for live updates.
     - /ws/customer/{user_id} - Customer portal updates
     - /ws/driver/{user_id} - Driver portal updates
     - /ws/kitchen/{user_id} - Kitchen portal updates
+    The login JWT goes in the `token` query parameter and must belong to the user and role in the path.
     """
     if role not in ["customer", "driver", "kitchen"]:
         await websocket.close(code=4001)
         return
     
+    try:
+        payload = verify_token(token or "")
+    except HTTPException:
+        await websocket.close(code=4401)
+        return
+    # Admins listen on the kitchen channel
+    token_role = "kitchen" if payload.get("role") == "admin" else payload.get("role")
+    if payload.get("user_id") != user_id or token_role != role:
+        await websocket.close(code=4403)
+        return
+    
     await ws_manager.connect(websocket, user_id, role)
     try:
         while True:
@@ -3156,6 +4921,36 @@ async def websocket_endpoint(websocket: WebSocket, role: str, user_id: str):
 
 # ==================== ENHANCED DRIVER PORTAL - FULL MANIFEST ====================
 
+async def is_route_plan_published(date_str: str) -> bool:
+    return await db.route_plans.count_documents({"date": date_str, "status": "published"}, limit=1) > 0
+
+async def driver_manifest_query(driver_id: str, date_str: str) -> dict:
+    query = {
+        "delivery_date": date_str,
+        "status": {"$nin": ["skipped", "cancelled"]}
+    }
+    # Once the kitchen publishes routes, a driver only sees their own stops - none if they weren't given any
+    if await is_route_plan_published(date_str):
+        query["driver_id"] = driver_id
+    return query
+
+async def apply_driver_route_order(deliveries: list, driver_id: str, date_str: str, query: dict) -> list:
+    """
+    Until routes are published every driver shares one manifest, so a driver's own
+    order is kept in driver_route_orders instead of the shared sequence numbers.
+    Stops missing from the saved order (already finished when it was saved) go first.
+    """
+    if query.get("driver_id"):
+        return deliveries
+    saved = await db.driver_route_orders.find_one({"driver_id": driver_id, "date": date_str})
+    if not saved:
+        return deliveries
+    rank = {delivery_id: idx for idx, delivery_id in enumerate(saved.get("delivery_ids", []))}
+    return sorted(
+        deliveries,
+        key=lambda d: (1, rank[d["id"]]) if d["id"] in rank else (0, d.get("sequence_number") or 0)
+    )
+
 @api_router.get("/driver/full-manifest")
 async def get_driver_full_manifest(
     lat: Optional[float] = None,
@@ -3172,12 +4967,13 @@ async def get_driver_full_manifest(
     today = datetime.now(timezone.utc).strftime("%Y-%m-%d")
     
     # Get all deliveries for today, sorted by sequence
-    deliveries = await db.deliveries.find({
-        "delivery_date": today,
-        "status": {"$nin": ["skipped", "cancelled"]}
-    }).sort("sequence_number", 1).to_list(1000)
+    query = await driver_manifest_query(current_user["id"], today)
+    deliveries = await db.deliveries.find(query).sort("sequence_number", 1).to_list(1000)
+    deliveries = await apply_driver_route_order(deliveries, current_user["id"], today, query)
     
     manifest = []
+    weather_delay = await get_weather_delay_minutes()
+    eta_corrections = await get_eta_corrections()
     driver_lat = lat or 44.6488  # Default: Halifax downtown
     driver_lon = lon or -63.5752
     
@@ -3189,7 +4985,9 @@ async def get_driver_full_manifest(
         dest_lat = delivery.get("latitude", 44.6488)
         dest_lon = delivery.get("longitude", -63.5752)
         distance_km = calculate_distance_km(driver_lat, driver_lon, dest_lat, dest_lon)
-        eta_minutes = calculate_eta_minutes(distance_km)
+        # Learned from how far off past stops in this area were
+        eta_adjustment = eta_corrections.get(get_neighbourhood(dest_lat, dest_lon), eta_corrections.get("*", 0))
+        eta_minutes = max(1, calculate_eta_minutes(distance_km) + weather_delay + eta_adjustment)
         
         manifest.append({
             "delivery_id": delivery.get("id"),
@@ -3200,13 +4998,16 @@ async def get_driver_full_manifest(
             "status": delivery.get("status"),
             "distance_km": distance_km,
             "eta_minutes": eta_minutes,
+            "eta_adjustment_minutes": eta_adjustment,
             "eta_time": (datetime.now(timezone.utc) + timedelta(minutes=eta_minutes)).strftime("%I:%M %p"),
             "items": delivery.get("items", []),
             "special_instructions": delivery.get("special_instructions", ""),
             "latitude": dest_lat,
             "longitude": dest_lon,
             "is_priority": delivery.get("is_priority", False),
-            "dabba_ready": delivery.get("dabba_ready", False)
+            "dabba_ready": delivery.get("dabba_ready", False),
+            "loaded": bool(delivery.get("loaded_at")),
+            "arrived": bool(delivery.get("arrived_at"))
         })
         
         # Update driver position for next calculation (cumulative route)
@@ -3235,6 +5036,10 @@ async def complete_delivery_with_photo(
     delivery = await db.deliveries.find_one({"id": delivery_id})
     if not delivery:
         raise HTTPException(status_code=404, detail="Delivery not found")
+    if status_update.status == "delivered" and not status_update.scanned_delivery_id:
+        raise HTTPException(status_code=400, detail="Scan the dabba label to complete this delivery")
+    if status_update.scanned_delivery_id and status_update.scanned_delivery_id != delivery_id:
+        raise HTTPException(status_code=409, detail="Scanned dabba belongs to a different stop")
     
     update_data = {
         "status": status_update.status,
@@ -3261,6 +5066,39 @@ async def complete_delivery_with_photo(
     
     return {"message": "Delivery updated", "status": status_update.status}
 
+@api_router.post("/driver/scan")
+async def scan_dabba(scan: DabbaScan, current_user: dict = Depends(get_current_user)):
+    """
+    Record a dabba label scan - at pickup (load) or at the customer's door (deliver).
+    Rejects labels that aren't on today's manifest or belong to another driver's route.
+    """
+    if current_user.get("role") != "driver":
+        raise HTTPException(status_code=403, detail="Driver access required")
+    if scan.stage not in ("load", "deliver"):
+        raise HTTPException(status_code=400, detail="Stage must be load or deliver")
+    
+    today = datetime.now(timezone.utc).strftime("%Y-%m-%d")
+    delivery = await db.deliveries.find_one({"id": scan.delivery_id, "delivery_date": today})
+    if not delivery:
+        raise HTTPException(status_code=404, detail="This dabba is not on today's manifest")
+    if delivery.get("driver_id") and delivery["driver_id"] != current_user["id"]:
+        raise HTTPException(status_code=409, detail="This dabba belongs to another driver's route")
+    
+    now = datetime.utcnow().isoformat()
+    update = {"loaded_at": delivery.get("loaded_at") or now, "loaded_by": current_user["id"]}
+    if scan.stage == "deliver":
+        update["door_scanned_at"] = now
+    await db.deliveries.update_one({"id": scan.delivery_id}, {"$set": update})
+    
+    customer = await db.users.find_one({"id": delivery.get("customer_id")})
+    return {
+        "delivery_id": scan.delivery_id,
+        "stage": scan.stage,
+        "sequence": delivery.get("sequence_number"),
+        "customer_name": customer.get("name") if customer else "Unknown",
+        "scanned_at": now
+    }
+
 # ==================== ENHANCED SKIP MEAL WITH REINDEXING ====================
 
 @api_router.post("/subscription/skip-with-reindex")
@@ -3323,33 +5161,43 @@ async def skip_meal_with_reindex(skip_data: SkipMeal, current_user: dict = Depen
 async def get_kitchen_clean_manifest(
     date: Optional[str] = None,
     filter_plan: Optional[str] = None,  # daily, weekly, monthly
-    current_user: dict = Depends(get_current_user)
+    current_user: dict = Depends(get_kitchen_user)
 ):
     """
     Kitchen manifest with NO PRICES - pure logistics view.
-    Includes toggle filters for Daily/Weekly/Monthly plans.
+    Includes toggle filters for Daily/Weekly/Monthly plans and the
+    assigned driver so packers can group dabbas by route.
     """
-    if current_user.get("role") != "kitchen":
-        raise HTTPException(status_code=403, detail="Kitchen access required")
-    
     target_date = date or datetime.now(timezone.utc).strftime("%Y-%m-%d")
     
     # Build query
     query = {"delivery_date": target_date, "status": {"$ne": "skipped"}}
     
     deliveries = await db.deliveries.find(query).sort("sequence_number", 1).to_list(1000)
+    spice_levels = await get_spice_levels([d.get("customer_id") for d in deliveries])
     
     manifest = []
+    driver_names = {}
+    # Counted before filtering so the plan toggles always show every plan's size
+    plan_counts = {"daily": 0, "weekly": 0, "monthly": 0}
     for delivery in deliveries:
         customer = await db.users.find_one({"id": delivery.get("customer_id")})
         subscription = await db.subscriptions.find_one({"user_id": delivery.get("customer_id"), "status": "active"})
         
-        plan_type = subscription.get("plan_type", "daily") if subscription else "daily"
+        # Subscriptions store the billing cycle under "plan"
+        plan_type = (subscription.get("plan") or "daily").lower() if subscription else "daily"
+        
+        plan_counts[plan_type] = plan_counts.get(plan_type, 0) + 1
         
         # Filter by plan type if specified
         if filter_plan and plan_type != filter_plan:
             continue
         
+        driver_id = delivery.get("driver_id")
+        if driver_id and driver_id not in driver_names:
+            driver = await db.users.find_one({"id": driver_id})
+            driver_names[driver_id] = driver.get("name", "Unknown") if driver else "Unknown"
+        
         manifest.append({
             "sequence": delivery.get("sequence_number"),
             "customer_name": customer.get("name") if customer else "Unknown",
@@ -3357,21 +5205,20 @@ async def get_kitchen_clean_manifest(
             "phone": customer.get("phone") if customer else "",
             "plan_type": plan_type,  # daily, weekly, monthly
             "items": delivery.get("items", []),
-            "spice_level": customer.get("spice_preference", "medium") if customer else "medium",
+            "spice_level": spice_levels.get(delivery.get("customer_id"), "medium"),
             "special_instructions": delivery.get("special_instructions", ""),
             "dabba_ready": delivery.get("dabba_ready", False),
-            "delivery_id": delivery.get("id")
+            "delivery_id": delivery.get("id"),
+            "driver_id": driver_id,
+            "driver_name": driver_names.get(driver_id) if driver_id else None
             # NO PRICE FIELDS
         })
     
     return {
         "date": target_date,
         "total": len(manifest),
-        "by_plan": {
-            "daily": len([m for m in manifest if m["plan_type"] == "daily"]),
-            "weekly": len([m for m in manifest if m["plan_type"] == "weekly"]),
-            "monthly": len([m for m in manifest if m["plan_type"] == "monthly"])
-        },
+        "ready": len([m for m in manifest if m["dabba_ready"]]),
+        "by_plan": plan_counts,
         "manifest": manifest
     }
 
@@ -3395,45 +5242,168 @@ async def mark_dabba_ready(delivery_id: str, current_user: dict = Depends(get_cu
     if result.modified_count == 0:
         raise HTTPException(status_code=404, detail="Delivery not found")
     
-    # Notify driver in real-time
-    await ws_manager.broadcast_to_role({
+    # Notify drivers and other kitchen screens in real-time
+    event = {
         "event": "dabba_ready",
         "data": {"delivery_id": delivery_id, "timestamp": datetime.now(timezone.utc).isoformat()}
-    }, "driver")
+    }
+    await ws_manager.broadcast_to_role(event, "driver")
+    await ws_manager.broadcast_to_role(event, "kitchen")
     
     return {"message": "Dabba marked as ready", "delivery_id": delivery_id}
 
 # ==================== PERFORMANCE METRICS FOR SELF-LEARNING ====================
 
+KITCHEN_TZ = ZoneInfo("America/Halifax")
+MIN_METRICS_FOR_CORRECTION = 5  # Fewer stops than this is too noisy to shift an ETA
+MAX_ETA_CORRECTION_MINUTES = 15
+ETA_LEARNING_DAYS = 14
+
+# Rough centres of the areas we deliver to; a stop belongs to the nearest one
+NEIGHBOURHOODS = {
+    "Downtown Halifax": (44.6488, -63.5752),
+    "South End": (44.6370, -63.5800),
+    "North End": (44.6620, -63.5940),
+    "West End": (44.6463, -63.5979),
+    "Fairview": (44.6640, -63.6310),
+    "Clayton Park": (44.6630, -63.6560),
+    "Bayers Lake": (44.6460, -63.6680),
+    "Dartmouth": (44.6717, -63.5732),
+    "Bedford": (44.7328, -63.6590),
+}
+NEIGHBOURHOOD_RADIUS_KM = 5
+
+TIME_OF_DAY_BANDS = [
+    (11, "Morning"),
+    (14, "Lunch"),
+    (17, "Afternoon"),
+    (20, "Dinner"),
+    (24, "Evening"),
+]
+
+def get_neighbourhood(lat: Optional[float], lon: Optional[float]) -> str:
+    if lat is None or lon is None:
+        return "Unknown"
+    name, (n_lat, n_lon) = min(
+        NEIGHBOURHOODS.items(),
+        key=lambda item: calculate_distance_km(lat, lon, item[1][0], item[1][1])
+    )
+    return name if calculate_distance_km(lat, lon, n_lat, n_lon) <= NEIGHBOURHOOD_RADIUS_KM else "Outside HRM"
+
+def get_time_of_day(timestamp: Optional[str]) -> str:
+    try:
+        moment = datetime.fromisoformat(timestamp.replace("Z", "+00:00")) if timestamp else datetime.now(timezone.utc)
+    except ValueError:
+        moment = datetime.now(timezone.utc)
+    if moment.tzinfo is None:
+        moment = moment.replace(tzinfo=timezone.utc)
+    hour = moment.astimezone(KITCHEN_TZ).hour
+    return next(label for end_hour, label in TIME_OF_DAY_BANDS if hour < end_hour)
+
+# Manifests ask for corrections on every refresh; they only move when a stop is logged
+ETA_CORRECTIONS_TTL_SECONDS = 300
+eta_corrections_cache: dict = {"corrections": None, "expires_at": 0.0}
+
+async def get_eta_corrections() -> dict:
+    """Learned corrections, recomputed at most every few minutes or after a new stop is logged"""
+    now = time.monotonic()
+    if eta_corrections_cache["corrections"] is None or now >= eta_corrections_cache["expires_at"]:
+        eta_corrections_cache["corrections"] = await compute_eta_corrections()
+        eta_corrections_cache["expires_at"] = now + ETA_CORRECTIONS_TTL_SECONDS
+    return eta_corrections_cache["corrections"]
+
+async def compute_eta_corrections() -> dict:
+    """
+    Average minutes the base ETA model has been off recently, per neighbourhood,
+    with "*" as the all-stops fallback. Learned from base_eta so corrections
+    already applied don't feed back into themselves.
+    """
+    since = datetime.now(timezone.utc) - timedelta(days=ETA_LEARNING_DAYS)
+    metrics = await db.delivery_metrics.find(
+        {"created_at": {"$gte": since}, "base_eta": {"$exists": True}},
+        {"_id": 0, "neighbourhood": 1, "base_eta": 1, "actual_time": 1}
+    ).to_list(5000)
+    
+    errors = {}
+    for m in metrics:
+        error = m["actual_time"] - m["base_eta"]
+        errors.setdefault(m.get("neighbourhood") or "Unknown", []).append(error)
+        errors.setdefault("*", []).append(error)
+    
+    return {
+        key: max(-MAX_ETA_CORRECTION_MINUTES, min(MAX_ETA_CORRECTION_MINUTES, round(sum(values) / len(values))))
+        for key, values in errors.items()
+        if len(values) >= MIN_METRICS_FOR_CORRECTION
+    }
+
+def summarize_eta_errors(metrics: list) -> dict:
+    errors = [m.get("variance_minutes", 0) for m in metrics]
+    total = len(errors)
+    return {
+        "stops": total,
+        "avg_error_minutes": round(sum(errors) / total, 1) if total else 0,
+        "avg_abs_error_minutes": round(sum(abs(e) for e in errors) / total, 1) if total else 0,
+        "within_5_min_rate": round(sum(1 for e in errors if abs(e) <= 5) / total * 100, 1) if total else 0,
+        "late_rate": round(sum(1 for e in errors if e > 5) / total * 100, 1) if total else 0
+    }
+
 @api_router.post("/metrics/delivery-completed")
 async def log_delivery_metrics(
     delivery_id: str,
     predicted_eta: int,  # minutes
     actual_time: int,  # minutes
+    started_at: Optional[str] = None,
+    arrived_at: Optional[str] = None,
+    completed_at: Optional[str] = None,
+    eta_adjustment: int = 0,  # learned correction already inside predicted_eta
     current_user: dict = Depends(get_current_user)
 ):
     """
     Log delivery performance for AI self-learning.
     System uses this data to improve ETA predictions daily.
+    The driver app sends one per stop, timed from start to arrival.
     """
+    if current_user.get("role") != "driver":
+        raise HTTPException(status_code=403, detail="Driver access required")
+    
     delivery = await db.deliveries.find_one({"id": delivery_id})
     if not delivery:
         raise HTTPException(status_code=404, detail="Delivery not found")
+    # These drive live ETAs, so only the driver on the stop may report it - the assigned one on a
+    # published route, otherwise whoever worked it
+    if (delivery.get("driver_id") or delivery.get("handled_by")) != current_user["id"]:
+        raise HTTPException(status_code=403, detail="This stop isn't on your route")
     
     variance = actual_time - predicted_eta
     variance_percent = (variance / predicted_eta * 100) if predicted_eta > 0 else 0
     
-    await db.delivery_metrics.insert_one({
-        "id": str(uuid.uuid4()),
-        "delivery_id": delivery_id,
-        "address": delivery.get("delivery_address"),
-        "predicted_eta": predicted_eta,
-        "actual_time": actual_time,
-        "variance_minutes": variance,
-        "variance_percent": round(variance_percent, 2),
-        "date": datetime.now(timezone.utc).strftime("%Y-%m-%d"),
-        "created_at": datetime.now(timezone.utc)
-    })
+    # One record per stop - a replayed upload from the offline queue overwrites instead of doubling up
+    await db.delivery_metrics.update_one(
+        {"delivery_id": delivery_id},
+        {
+            "$set": {
+                "delivery_id": delivery_id,
+                "address": delivery.get("delivery_address"),
+                "driver_id": current_user["id"],
+                "driver_name": current_user.get("name", "Driver"),
+                "neighbourhood": get_neighbourhood(delivery.get("latitude"), delivery.get("longitude")),
+                "time_of_day": get_time_of_day(started_at),
+                "predicted_eta": predicted_eta,
+                "base_eta": predicted_eta - eta_adjustment,
+                "actual_time": actual_time,
+                "variance_minutes": variance,
+                "variance_percent": round(variance_percent, 2),
+                "started_at": started_at,
+                "arrived_at": arrived_at,
+                "completed_at": completed_at,
+                "date": datetime.now(timezone.utc).strftime("%Y-%m-%d"),
+                "created_at": datetime.now(timezone.utc)
+            },
+            "$setOnInsert": {"id": str(uuid.uuid4())}
+        },
+        upsert=True
+    )
+    eta_corrections_cache["corrections"] = None
     
     # Check if this address consistently causes delays
     recent_metrics = await db.delivery_metrics.find({
@@ -3458,11 +5428,8 @@ async def log_delivery_metrics(
     return {"message": "Metrics logged", "variance_percent": round(variance_percent, 2)}
 
 @api_router.get("/admin/route-suggestions")
-async def get_route_suggestions(current_user: dict = Depends(get_current_user)):
+async def get_route_suggestions(current_user: dict = Depends(get_kitchen_user)):
     """Get AI-generated route optimization suggestions"""
-    if current_user.get("role") != "kitchen":
-        raise HTTPException(status_code=403, detail="Admin access required")
-    
     suggestions = await db.route_suggestions.find({"reviewed": False}).sort("created_at", -1).to_list(50)
     
     return {
@@ -3470,22 +5437,288 @@ async def get_route_suggestions(current_user: dict = Depends(get_current_user)):
         "total": len(suggestions)
     }
 
+@api_router.post("/admin/route-suggestions/{suggestion_id}/review")
+async def review_route_suggestion(suggestion_id: str, current_user: dict = Depends(get_kitchen_user)):
+    """Dismiss a suggestion once the kitchen has acted on it"""
+    result = await db.route_suggestions.update_one(
+        {"id": suggestion_id},
+        {"$set": {"reviewed": True, "reviewed_by": current_user["id"], "reviewed_at": datetime.utcnow().isoformat()}}
+    )
+    if result.matched_count == 0:
+        raise HTTPException(status_code=404, detail="Suggestion not found")
+    return {"message": "Suggestion dismissed"}
+
+@api_router.get("/kitchen/eta-accuracy")
+async def get_eta_accuracy(days: int = 14, current_user: dict = Depends(get_kitchen_user)):
+    """
+    Predicted vs actual stop times from the driver app, broken down by driver,
+    neighbourhood and time of day, plus the corrections the manifest now applies.
+    Error is actual minus predicted, so positive means the driver was late.
+    """
+    days = max(1, min(days, 90))
+    since = datetime.now(timezone.utc) - timedelta(days=days)
+    metrics = await db.delivery_metrics.find(
+        {"created_at": {"$gte": since}, "driver_id": {"$exists": True}},
+        {"_id": 0}
+    ).to_list(5000)
+    
+    def breakdown(field: str, label_field: Optional[str] = None, order: Optional[List[str]] = None) -> list:
+        groups = {}
+        for m in metrics:
+            groups.setdefault(m.get(field) or "Unknown", []).append(m)
+        rows = [
+            {"key": key, "label": (group[0].get(label_field) if label_field else None) or key, **summarize_eta_errors(group)}
+            for key, group in groups.items()
+        ]
+        if order:
+            rows.sort(key=lambda r: order.index(r["key"]) if r["key"] in order else len(order))
+        else:
+            rows.sort(key=lambda r: -r["avg_abs_error_minutes"])
+        return rows
+    
+    return {
+        "days": days,
+        "overall": summarize_eta_errors(metrics),
+        "by_driver": breakdown("driver_id", "driver_name"),
+        "by_neighbourhood": breakdown("neighbourhood"),
+        "by_time_of_day": breakdown("time_of_day", order=[label for _, label in TIME_OF_DAY_BANDS]),
+        "corrections": await get_eta_corrections()
+    }
+
+# ==================== ROUTE PLANNING ====================
+
+class RouteAssignment(BaseModel):
+    driver_id: Optional[str] = None  # None holds stops not yet given to a driver
+    delivery_ids: List[str]
+
+class RoutePlanUpdate(BaseModel):
+    date: str
+    routes: List[RouteAssignment]
+
+def order_stops_nearest(stops: list, start_lat: float, start_lon: float) -> list:
+    """Greedy nearest-neighbour ordering from the kitchen"""
+    remaining = list(stops)
+    ordered = []
+    lat, lon = start_lat, start_lon
+    while remaining:
+        nearest = min(remaining, key=lambda s: calculate_distance(lat, lon, s["latitude"], s["longitude"]))
+        remaining.remove(nearest)
+        ordered.append(nearest)
+        lat, lon = nearest["latitude"], nearest["longitude"]
+    return ordered
+
+def route_distance_km(stops: list, start_lat: float, start_lon: float) -> float:
+    total = 0.0
+    lat, lon = start_lat, start_lon
+    for stop in stops:
+        total += calculate_distance(lat, lon, stop["latitude"], stop["longitude"])
+        lat, lon = stop["latitude"], stop["longitude"]
+    return round(total, 2)
+
+def suggest_route_groups(stops: list, driver_ids: List[str]) -> dict:
+    """
+    Sweep stops by bearing from the kitchen and cut the sweep into one
+    contiguous wedge per driver, so each driver gets a compact area.
+    """
+    origin = ADDRESS_COORDS["default"]
+    if not driver_ids:
+        return {None: order_stops_nearest(stops, origin["lat"], origin["lon"])}
+    swept = sorted(stops, key=lambda s: math.atan2(s["latitude"] - origin["lat"], s["longitude"] - origin["lon"]))
+    size = math.ceil(len(swept) / len(driver_ids)) if swept else 0
+    return {
+        driver_id: order_stops_nearest(swept[i * size:(i + 1) * size], origin["lat"], origin["lon"])
+        for i, driver_id in enumerate(driver_ids)
+    }
+
+async def get_route_stops(date_str: str) -> dict:
+    deliveries = await db.deliveries.find({
+        "delivery_date": date_str,
+        "status": {"$nin": ["skipped", "cancelled"]}
+    }).sort("sequence_number", 1).to_list(1000)
+    customer_ids = [d.get("customer_id") for d in deliveries]
+    customers = await db.users.find({"id": {"$in": customer_ids}}).to_list(1000)
+    customer_map = {c["id"]: c for c in customers}
+    
+    stops = {}
+    for delivery in deliveries:
+        customer = customer_map.get(delivery.get("customer_id"), {})
+        stops[delivery["id"]] = {
+            "delivery_id": delivery["id"],
+            "customer_name": customer.get("name", "Unknown"),
+            "address": delivery.get("delivery_address", customer.get("address", "")),
+            "latitude": delivery.get("latitude", ADDRESS_COORDS["default"]["lat"]),
+            "longitude": delivery.get("longitude", ADDRESS_COORDS["default"]["lon"]),
+            "status": delivery.get("status"),
+            "is_priority": delivery.get("is_priority", False),
+            "driver_id": delivery.get("driver_id")
+        }
+    return stops
+
+def build_route_response(date_str: str, groups: dict, drivers: list, status: str, plan: Optional[dict] = None) -> dict:
+    origin = ADDRESS_COORDS["default"]
+    driver_names = {d["id"]: d.get("name", "Unknown") for d in drivers}
+    routes = []
+    for driver_id, stops in groups.items():
+        if driver_id is None:
+            continue
+        routes.append({
+            "driver_id": driver_id,
+            "driver_name": driver_names.get(driver_id, "Unknown"),
+            "stops": stops,
+            "total_km": route_distance_km(stops, origin["lat"], origin["lon"])
+        })
+    return {
+        "date": date_str,
+        "status": status,
+        "published_at": plan.get("published_at") if plan else None,
+        "updated_at": plan.get("updated_at") if plan else None,
+        "routes": routes,
+        "unassigned": groups.get(None, []),
+        "drivers": [{"id": d["id"], "name": d.get("name", "Unknown")} for d in drivers]
+    }
+
+@api_router.get("/kitchen/route-plan")
+async def get_route_plan(date: Optional[str] = None, current_user: dict = Depends(get_kitchen_user)):
+    """
+    Saved route plan for a date, or a fresh suggestion when none exists yet.
+    Stops added after the plan was saved come back as unassigned.
+    """
+    target_date = date or datetime.now(timezone.utc).strftime("%Y-%m-%d")
+    drivers = await db.users.find({"role": "driver"}, {"_id": 0}).to_list(50)
+    stops = await get_route_stops(target_date)
+    plan = await db.route_plans.find_one({"date": target_date}, {"_id": 0})
+    
+    if not plan or plan.get("status") == "suggested":
+        groups = suggest_route_groups(list(stops.values()), [d["id"] for d in drivers])
+        return build_route_response(target_date, groups, drivers, "suggested")
+    
+    groups = {}
+    placed = set()
+    for route in plan.get("routes", []):
+        route_stops = [stops[i] for i in route["delivery_ids"] if i in stops]
+        placed.update(s["delivery_id"] for s in route_stops)
+        groups.setdefault(route.get("driver_id"), []).extend(route_stops)
+    groups.setdefault(None, []).extend(s for i, s in stops.items() if i not in placed)
+    # Keep an empty route for every driver so stops can be dragged onto them
+    for driver in drivers:
+        groups.setdefault(driver["id"], [])
+    
+    return build_route_response(target_date, groups, drivers, plan["status"], plan)
+
+@api_router.put("/kitchen/route-plan")
+async def save_route_plan(data: RoutePlanUpdate, current_user: dict = Depends(get_kitchen_user)):
+    """Save a draft without touching what drivers see"""
+    existing = await db.route_plans.find_one({"date": data.date})
+    await db.route_plans.update_one(
+        {"date": data.date},
+        {"$set": {
+            "date": data.date,
+            "routes": [r.dict() for r in data.routes],
+            # Editing a published plan keeps it live until republished
+            "status": "published" if existing and existing.get("status") == "published" else "draft",
+            "has_unpublished_changes": bool(existing and existing.get("status") == "published"),
+            "updated_at": datetime.utcnow().isoformat(),
+            "updated_by": current_user["id"]
+        }},
+        upsert=True
+    )
+    return {"message": "Route plan saved"}
+
+@api_router.post("/kitchen/route-plan/publish")
+async def publish_route_plan(data: RoutePlanUpdate, current_user: dict = Depends(get_kitchen_user)):
+    """
+    Publish routes to drivers: each delivery gets its driver and its
+    position on that driver's route as the sequence number.
+    """
+    assigned = 0
+    for route in data.routes:
+        for position, delivery_id in enumerate(route.delivery_ids, start=1):
+            await db.deliveries.update_one(
+                {"id": delivery_id, "delivery_date": data.date},
+                {"$set": {
+                    "driver_id": route.driver_id,
+                    "sequence_number": position,
+                    "updated_at": datetime.now(timezone.utc)
+                }}
+            )
+            if route.driver_id:
+                assigned += 1
+    
+    published_at = datetime.utcnow().isoformat()
+    await db.route_plans.update_one(
+        {"date": data.date},
+        {"$set": {
+            "date": data.date,
+            "routes": [r.dict() for r in data.routes],
+            "status": "published",
+            "has_unpublished_changes": False,
+            "published_at": published_at,
+            "published_by": current_user["id"],
+            "updated_at": published_at
+        }},
+        upsert=True
+    )
+    await ws_manager.notify_manifest_update()
+    
+    return {"message": f"Published {len(data.routes)} routes ({assigned} stops assigned)", "published_at": published_at}
+
 @api_router.get("/kitchen/driver-locations")
 async def get_driver_locations(current_user: dict = Depends(get_kitchen_user)):
-    """Get all active driver locations for kitchen tracking"""
+    """
+    Fleet view for the kitchen: each driver's last position plus the stops
+    left on their published route today, in route order.
+    """
+    # Manifest dates are UTC, like the driver app's full manifest
+    today = datetime.now(timezone.utc).strftime("%Y-%m-%d")
     drivers = await db.users.find({"role": "driver"}, {"_id": 0}).to_list(50)
     
+    # Publishing a route plan gives each stop its driver and position on that route
+    deliveries = await db.deliveries.find(
+        {
+            "delivery_date": today,
+            "driver_id": {"$ne": None},
+            "status": {"$nin": ["skipped", "cancelled"]}
+        },
+        {"_id": 0, "proof_photo": 0}
+    ).sort("sequence_number", 1).to_list(1000)
+    completed = await db.completed_deliveries.find(
+        {"completed_at": {"$gte": today}, "status": {"$ne": "failed"}},
+        {"_id": 0, "id": 1, "driver_id": 1}
+    ).to_list(1000)
+    completed_ids = {c["id"] for c in completed}
+    customers = await db.users.find(
+        {"id": {"$in": [d.get("customer_id") for d in deliveries]}},
+        {"_id": 0, "id": 1, "name": 1, "address": 1}
+    ).to_list(1000)
+    customer_map = {c["id"]: c for c in customers}
+    active_shifts = {
+        shift["driver_id"]: shift
+        for shift in await db.driver_shifts.find({"status": {"$ne": "off_shift"}}).to_list(50)
+    }
+    
     driver_locations = []
     for driver in drivers:
         location = await db.driver_locations.find_one(
             {"driver_id": driver.get("id")},
             {"_id": 0}
         )
-        # Get active deliveries count for this driver
-        active_deliveries = await db.deliveries.count_documents({
-            "driver_id": driver.get("id"),
-            "status": {"$in": ["assigned", "out_for_delivery", "in_transit"]}
-        })
+        remaining = []
+        for d in deliveries:
+            if d.get("driver_id") != driver.get("id"):
+                continue
+            if d.get("status") in ("delivered", "failed") or d.get("id") in completed_ids:
+                continue
+            customer = customer_map.get(d.get("customer_id"), {})
+            remaining.append({
+                "delivery_id": d.get("id"),
+                "delivery_number": d.get("sequence_number"),
+                "customer_name": customer.get("name", "Unknown"),
+                "address": d.get("delivery_address", customer.get("address", "")),
+                "status": d.get("status"),
+                "latitude": d.get("latitude"),
+                "longitude": d.get("longitude")
+            })
+        last_updated = location.get("updated_at") if location else None
         
         driver_locations.append({
             "driver_id": driver.get("id"),
@@ -3493,9 +5726,16 @@ async def get_driver_locations(current_user: dict = Depends(get_kitchen_user)):
             "phone": driver.get("phone", ""),
             "latitude": location.get("latitude") if location else None,
             "longitude": location.get("longitude") if location else None,
-            "last_updated": location.get("updated_at") if location else None,
-            "active_deliveries": active_deliveries,
+            "last_updated": last_updated,
+            "active_deliveries": len(remaining),
+            # Whoever worked the stop, which can differ from the published driver
+            "completed_deliveries": len([c for c in completed if c.get("driver_id") == driver.get("id")]),
+            "current_stop": remaining[0] if remaining else None,
+            "next_stop": remaining[1] if len(remaining) > 1 else None,
+            "remaining_stops": remaining,
             "is_online": location is not None,
+            "on_shift": driver.get("id") in active_shifts,
+            "shift_status": active_shifts[driver.get("id")]["status"] if driver.get("id") in active_shifts else "off_shift"
         })
     
     return {"drivers": driver_locations}
@@ -3503,6 +5743,11 @@ async def get_driver_locations(current_user: dict = Depends(get_kitchen_user)):
 # Include the router (MUST be after all route definitions)
 app.include_router(api_router)
 
+@app.on_event("startup")
+async def create_indexes():
+    await db.idempotency_keys.create_index([("key", 1), ("user_id", 1)], unique=True)
+    await db.idempotency_keys.create_index("created_at", expireAfterSeconds=IDEMPOTENCY_KEY_TTL_SECONDS)
+
 @app.on_event("shutdown")
 async def shutdown_db_client():
     client.close()
@@ -0,0 +1,110 @@
+"""
+Backend API Tests for The Dabba - Scan to Deliver
+Tests for PUT /api/driver/delivery/{id}/status including:
+- A delivered update needs the dabba label scanned, and the scan must match the stop
+- Only delivered and failed are accepted as statuses
+- Unknown stops are a 404 and closed stops can't be changed again
+
+Tests that need an open stop on the driver's manifest skip when the environment has none.
+"""
+
+import pytest
+import requests
+import os
+import uuid
+
+# Use the public backend URL
+BASE_URL = os.environ.get('EXPO_PUBLIC_BACKEND_URL', 'https://dabba-order-engine.preview.emergentagent.com')
+
+# Test credentials
+DRIVER_EMAIL = "driver@dabba.com"
+DRIVER_PASSWORD = "driver123"
+CUSTOMER_EMAIL = "test2@dabba.com"
+CUSTOMER_PASSWORD = "test123"
+
+TERMINAL_STATUSES = ("delivered", "failed", "skipped", "cancelled")
+
+
+def login(email, password):
+    response = requests.post(f"{BASE_URL}/api/auth/login", json={
+        "email": email,
+        "password": password
+    })
+    if response.status_code != 200:
+        pytest.skip(f"Login failed for {email}")
+    return response.json()["token"]
+
+
+def open_stop(driver_headers):
+    """First stop on the driver's manifest that can still be delivered"""
+    response = requests.get(f"{BASE_URL}/api/driver/full-manifest", headers=driver_headers)
+    assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+    for stop in response.json()["manifest"]:
+        if stop["status"] not in TERMINAL_STATUSES:
+            return stop
+    pytest.skip("No open stop on the driver's manifest")
+
+
+@pytest.fixture
+def driver_headers():
+    return {"Authorization": f"Bearer {login(DRIVER_EMAIL, DRIVER_PASSWORD)}"}
+
+
+@pytest.fixture
+def customer_headers():
+    return {"Authorization": f"Bearer {login(CUSTOMER_EMAIL, CUSTOMER_PASSWORD)}"}
+
+
+class TestDeliveryStatus:
+    """Test PUT /api/driver/delivery/{id}/status"""
+
+    def update_status(self, headers, delivery_id, **body):
+        return requests.put(f"{BASE_URL}/api/driver/delivery/{delivery_id}/status", headers=headers, json=body)
+
+    def test_status_requires_driver_role(self, customer_headers):
+        """Customers cannot close a stop"""
+        response = self.update_status(customer_headers, "TEST_missing", status="delivered", scanned_delivery_id="TEST_missing")
+        assert response.status_code == 403, f"Expected 403, got {response.status_code}: {response.text}"
+        print("✓ Non-driver status update rejected with 403")
+
+    def test_delivered_requires_scan(self, driver_headers):
+        """A stop can't be marked delivered without scanning its label"""
+        response = self.update_status(driver_headers, "TEST_missing", status="delivered")
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        print("✓ Unscanned delivery rejected with 400")
+
+    def test_delivered_scan_must_match_stop(self, driver_headers):
+        """Scanning another stop's label is a conflict"""
+        response = self.update_status(driver_headers, "TEST_missing", status="delivered", scanned_delivery_id="TEST_other")
+        assert response.status_code == 409, f"Expected 409, got {response.status_code}: {response.text}"
+        print("✓ Mismatched scan rejected with 409")
+
+    @pytest.mark.parametrize("status", ["TEST_lost", "pending", "out_for_delivery"])
+    def test_status_must_be_delivered_or_failed(self, driver_headers, status):
+        """Any other status is refused before anything is written"""
+        response = self.update_status(driver_headers, "TEST_missing", status=status)
+        assert response.status_code == 422, f"Expected 422, got {response.status_code}: {response.text}"
+        print(f"✓ Status '{status}' rejected with 422")
+
+    def test_unknown_stop(self, driver_headers):
+        """A delivery id that isn't on any manifest is a 404, not a new completion"""
+        delivery_id = f"TEST_{uuid.uuid4()}"
+        response = self.update_status(driver_headers, delivery_id, status="delivered", scanned_delivery_id=delivery_id)
+        assert response.status_code == 404, f"Expected 404, got {response.status_code}: {response.text}"
+        print("✓ Unknown stop returned 404")
+
+    def test_closed_stop_rejected(self, driver_headers):
+        """A stop that already failed can't be marked delivered afterwards"""
+        stop = open_stop(driver_headers)
+        failed = requests.put(
+            f"{BASE_URL}/api/driver/fail-delivery/{stop['delivery_id']}",
+            headers=driver_headers,
+            json={"reason": "customer_unavailable", "notes": "TEST_ closed stop"}
+        )
+        assert failed.status_code == 200, f"Expected 200, got {failed.status_code}: {failed.text}"
+
+        response = self.update_status(
+            driver_headers, stop["delivery_id"], status="delivered", scanned_delivery_id=stop["delivery_id"]
+        )
+        assert response.status_code == 409, f"Expected 409, got {response.status_code}: {response.text}"
+        print(f"✓ Delivered update on failed stop {stop['delivery_id']} rejected with 409")
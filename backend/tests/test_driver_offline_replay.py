@@ -0,0 +1,130 @@
+"""
+Backend API Tests for The Dabba - Offline Driver Replay
+Tests for the actions the driver app queues offline and replays with an Idempotency-Key:
+- Replaying a failed delivery returns the first response and queues one failure
+- Replaying a delivered update returns the stored response
+- A new key on a stop that is already closed is refused rather than applied again,
+  for failures and for delivered updates alike
+
+Tests need an open stop on the driver's manifest and skip when the environment has none.
+"""
+
+import pytest
+import requests
+import os
+import uuid
+
+# Use the public backend URL
+BASE_URL = os.environ.get('EXPO_PUBLIC_BACKEND_URL', 'https://dabba-order-engine.preview.emergentagent.com')
+
+# Test credentials
+KITCHEN_EMAIL = "kitchen@dabba.com"
+KITCHEN_PASSWORD = "kitchen123"
+DRIVER_EMAIL = "driver@dabba.com"
+DRIVER_PASSWORD = "driver123"
+
+TERMINAL_STATUSES = ("delivered", "failed", "skipped", "cancelled")
+
+
+def login(email, password):
+    response = requests.post(f"{BASE_URL}/api/auth/login", json={
+        "email": email,
+        "password": password
+    })
+    if response.status_code != 200:
+        pytest.skip(f"Login failed for {email}")
+    return response.json()["token"]
+
+
+def idempotency_headers(headers):
+    return {**headers, "Idempotency-Key": f"TEST_{uuid.uuid4()}"}
+
+
+def open_stop(driver_headers):
+    """First stop on the driver's manifest that can still be failed or delivered"""
+    response = requests.get(f"{BASE_URL}/api/driver/full-manifest", headers=driver_headers)
+    assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+    for stop in response.json()["manifest"]:
+        if stop["status"] not in TERMINAL_STATUSES:
+            return stop
+    pytest.skip("No open stop on the driver's manifest")
+
+
+@pytest.fixture
+def kitchen_headers():
+    return {"Authorization": f"Bearer {login(KITCHEN_EMAIL, KITCHEN_PASSWORD)}"}
+
+
+@pytest.fixture
+def driver_headers():
+    return {"Authorization": f"Bearer {login(DRIVER_EMAIL, DRIVER_PASSWORD)}"}
+
+
+class TestDriverIdempotentReplay:
+    """Test Idempotency-Key replay on the driver's fail-delivery and status endpoints"""
+
+    def test_fail_delivery_replay_records_one_failure(self, driver_headers, kitchen_headers):
+        """Resending with the same key returns the first response and doesn't queue a second failure"""
+        stop = open_stop(driver_headers)
+        headers = idempotency_headers(driver_headers)
+        body = {"reason": "access_issue", "notes": "TEST_ replay"}
+        url = f"{BASE_URL}/api/driver/fail-delivery/{stop['delivery_id']}"
+
+        first = requests.put(url, headers=headers, json=body)
+        assert first.status_code == 200, f"Expected 200, got {first.status_code}: {first.text}"
+        replay = requests.put(url, headers=headers, json=body)
+        assert replay.status_code == 200, f"Expected 200, got {replay.status_code}: {replay.text}"
+        assert replay.json() == first.json()
+
+        failures = requests.get(f"{BASE_URL}/api/kitchen/failed-deliveries?status=all", headers=kitchen_headers).json()
+        matching = [f for f in failures["failures"] if f["delivery_id"] == stop["delivery_id"] and f["status"] == "open"]
+        assert len(matching) == 1
+        assert matching[0]["id"] == first.json()["failure_id"]
+        print(f"✓ Replay returned the same failure {first.json()['failure_id']}")
+
+    def test_fail_delivery_new_key_on_failed_stop_conflicts(self, driver_headers):
+        """A fresh action on a stop that already failed is refused rather than applied again"""
+        stop = open_stop(driver_headers)
+        url = f"{BASE_URL}/api/driver/fail-delivery/{stop['delivery_id']}"
+        body = {"reason": "refused", "notes": "TEST_ conflict"}
+
+        first = requests.put(url, headers=idempotency_headers(driver_headers), json=body)
+        assert first.status_code == 200, f"Expected 200, got {first.status_code}: {first.text}"
+        second = requests.put(url, headers=idempotency_headers(driver_headers), json=body)
+        assert second.status_code == 409, f"Expected 409, got {second.status_code}: {second.text}"
+        print("✓ Second failure with a new key rejected with 409")
+
+    def test_delivery_status_replay_returns_first_response(self, driver_headers):
+        """Replaying a queued delivered action returns the stored response"""
+        stop = open_stop(driver_headers)
+        headers = idempotency_headers(driver_headers)
+        url = f"{BASE_URL}/api/driver/delivery/{stop['delivery_id']}/status"
+        body = {"status": "delivered", "scanned_delivery_id": stop["delivery_id"]}
+
+        first = requests.put(url, headers=headers, json=body)
+        assert first.status_code == 200, f"Expected 200, got {first.status_code}: {first.text}"
+        replay = requests.put(url, headers=headers, json=body)
+        assert replay.status_code == 200, f"Expected 200, got {replay.status_code}: {replay.text}"
+        assert replay.json() == first.json()
+
+        manifest = requests.get(f"{BASE_URL}/api/driver/full-manifest", headers=driver_headers).json()["manifest"]
+        delivered = next((s for s in manifest if s["delivery_id"] == stop["delivery_id"]), None)
+        assert delivered is None or delivered["status"] == "delivered"
+        print(f"✓ Delivered replay for {stop['delivery_id']} returned the stored response")
+
+    def test_delivery_status_new_key_after_delivered_conflicts(self, driver_headers):
+        """A different queued action can't flip a delivered stop or move its completion time"""
+        stop = open_stop(driver_headers)
+        url = f"{BASE_URL}/api/driver/delivery/{stop['delivery_id']}/status"
+        headers = idempotency_headers(driver_headers)
+
+        first = requests.put(url, headers=headers, json={"status": "delivered", "scanned_delivery_id": stop["delivery_id"]})
+        assert first.status_code == 200, f"Expected 200, got {first.status_code}: {first.text}"
+        second = requests.put(url, headers=idempotency_headers(driver_headers), json={"status": "failed"})
+        assert second.status_code == 409, f"Expected 409, got {second.status_code}: {second.text}"
+
+        # The first action's own replay still gets its stored response
+        replay = requests.put(url, headers=headers, json={"status": "delivered", "scanned_delivery_id": stop["delivery_id"]})
+        assert replay.status_code == 200, f"Expected 200, got {replay.status_code}: {replay.text}"
+        assert replay.json() == first.json()
+        print(f"✓ Later action on delivered stop {stop['delivery_id']} rejected with 409")
@@ -0,0 +1,107 @@
+"""
+Backend API Tests for The Dabba - Driver Shift Lifecycle
+Tests for starting and arriving at stops during a shift including:
+- Stops can only be started or arrived at while clocked in
+- A closed stop can't be started again
+- Starting a stop twice keeps the first start
+
+Tests that need an open stop on the driver's manifest skip when the environment has none.
+"""
+
+import pytest
+import requests
+import os
+
+# Use the public backend URL
+BASE_URL = os.environ.get('EXPO_PUBLIC_BACKEND_URL', 'https://dabba-order-engine.preview.emergentagent.com')
+
+# Test credentials
+DRIVER_EMAIL = "driver@dabba.com"
+DRIVER_PASSWORD = "driver123"
+
+TERMINAL_STATUSES = ("delivered", "failed", "skipped", "cancelled")
+
+
+def login(email, password):
+    response = requests.post(f"{BASE_URL}/api/auth/login", json={
+        "email": email,
+        "password": password
+    })
+    if response.status_code != 200:
+        pytest.skip(f"Login failed for {email}")
+    return response.json()["token"]
+
+
+def open_stop(driver_headers, status=None):
+    """First stop on the driver's manifest that is still open, optionally with a given status"""
+    response = requests.get(f"{BASE_URL}/api/driver/full-manifest", headers=driver_headers)
+    assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+    for stop in response.json()["manifest"]:
+        if stop["status"] not in TERMINAL_STATUSES and (status is None or stop["status"] == status):
+            return stop
+    pytest.skip("No matching open stop on the driver's manifest")
+
+
+@pytest.fixture
+def driver_headers():
+    return {"Authorization": f"Bearer {login(DRIVER_EMAIL, DRIVER_PASSWORD)}"}
+
+
+class TestStopsDuringShift:
+    """Test PUT /api/driver/start-delivery/{id} and PUT /api/driver/arrive/{id}"""
+
+    @pytest.fixture
+    def on_shift(self, driver_headers):
+        response = requests.post(f"{BASE_URL}/api/driver/shift/clock-in", headers=driver_headers)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+        return driver_headers
+
+    @pytest.fixture
+    def off_shift(self, driver_headers):
+        """Clock out for the test and back in afterwards if the driver was on shift"""
+        shift = requests.get(f"{BASE_URL}/api/driver/shift", headers=driver_headers).json()["shift"]
+        if shift:
+            requests.post(f"{BASE_URL}/api/driver/shift/clock-out", headers=driver_headers)
+        yield driver_headers
+        if shift:
+            requests.post(f"{BASE_URL}/api/driver/shift/clock-in", headers=driver_headers)
+
+    def test_start_requires_shift(self, off_shift):
+        """Starting a stop while clocked out is refused"""
+        stop = open_stop(off_shift)
+        response = requests.put(f"{BASE_URL}/api/driver/start-delivery/{stop['delivery_id']}", headers=off_shift)
+        assert response.status_code == 409, f"Expected 409, got {response.status_code}: {response.text}"
+        print("✓ Start while clocked out rejected with 409")
+
+    def test_arrive_requires_shift(self, off_shift):
+        """Arriving at a stop while clocked out is refused"""
+        stop = open_stop(off_shift)
+        response = requests.put(f"{BASE_URL}/api/driver/arrive/{stop['delivery_id']}", headers=off_shift)
+        assert response.status_code == 409, f"Expected 409, got {response.status_code}: {response.text}"
+        print("✓ Arrive while clocked out rejected with 409")
+
+    def test_start_closed_stop_rejected(self, on_shift):
+        """A failed stop can't be put back out for delivery"""
+        stop = open_stop(on_shift)
+        failed = requests.put(
+            f"{BASE_URL}/api/driver/fail-delivery/{stop['delivery_id']}",
+            headers=on_shift,
+            json={"reason": "customer_unavailable", "notes": "TEST_ restart"}
+        )
+        assert failed.status_code == 200, f"Expected 200, got {failed.status_code}: {failed.text}"
+
+        response = requests.put(f"{BASE_URL}/api/driver/start-delivery/{stop['delivery_id']}", headers=on_shift)
+        assert response.status_code == 409, f"Expected 409, got {response.status_code}: {response.text}"
+        print(f"✓ Start on failed stop {stop['delivery_id']} rejected with 409")
+
+    def test_start_twice_keeps_first_start(self, on_shift):
+        """A second start on a stop already out for delivery changes nothing"""
+        stop = open_stop(on_shift, status="pending")
+        url = f"{BASE_URL}/api/driver/start-delivery/{stop['delivery_id']}"
+
+        first = requests.put(url, headers=on_shift)
+        assert first.status_code == 200, f"Expected 200, got {first.status_code}: {first.text}"
+        second = requests.put(url, headers=on_shift)
+        assert second.status_code == 200, f"Expected 200, got {second.status_code}: {second.text}"
+        assert second.json()["message"] == "Delivery already started"
+        print(f"✓ Second start on {stop['delivery_id']} left the stop as it was")
@@ -0,0 +1,189 @@
+"""
+Backend API Tests for The Dabba - Failed Deliveries
+Tests for the driver failure sheet and the kitchen failed-deliveries queue including:
+- Role and reason validation on PUT /api/driver/fail-delivery/{id}
+- Resolution by credit and refund, bounded to one meal
+- A failure can only be resolved once
+
+Tests that need an open stop on the driver's manifest skip when the environment has none.
+"""
+
+import pytest
+import requests
+import os
+import uuid
+
+# Use the public backend URL
+BASE_URL = os.environ.get('EXPO_PUBLIC_BACKEND_URL', 'https://dabba-order-engine.preview.emergentagent.com')
+
+# Test credentials
+KITCHEN_EMAIL = "kitchen@dabba.com"
+KITCHEN_PASSWORD = "kitchen123"
+DRIVER_EMAIL = "driver@dabba.com"
+DRIVER_PASSWORD = "driver123"
+CUSTOMER_EMAIL = "test2@dabba.com"
+CUSTOMER_PASSWORD = "test123"
+
+# Mirrors the backend: a failed stop pays out at most one meal
+MEAL_CREDIT_VALUE_CAD = 12.00
+TERMINAL_STATUSES = ("delivered", "failed", "skipped", "cancelled")
+
+
+def login(email, password):
+    response = requests.post(f"{BASE_URL}/api/auth/login", json={
+        "email": email,
+        "password": password
+    })
+    if response.status_code != 200:
+        pytest.skip(f"Login failed for {email}")
+    return response.json()["token"]
+
+
+def open_stop(driver_headers):
+    """First stop on the driver's manifest that can still be failed"""
+    response = requests.get(f"{BASE_URL}/api/driver/full-manifest", headers=driver_headers)
+    assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+    for stop in response.json()["manifest"]:
+        if stop["status"] not in TERMINAL_STATUSES:
+            return stop
+    pytest.skip("No open stop on the driver's manifest")
+
+
+@pytest.fixture
+def kitchen_headers():
+    return {"Authorization": f"Bearer {login(KITCHEN_EMAIL, KITCHEN_PASSWORD)}"}
+
+
+@pytest.fixture
+def driver_headers():
+    return {"Authorization": f"Bearer {login(DRIVER_EMAIL, DRIVER_PASSWORD)}"}
+
+
+@pytest.fixture
+def customer_headers():
+    return {"Authorization": f"Bearer {login(CUSTOMER_EMAIL, CUSTOMER_PASSWORD)}"}
+
+
+class TestFailDelivery:
+    """Test PUT /api/driver/fail-delivery/{id}"""
+
+    def test_fail_delivery_requires_driver_role(self, customer_headers):
+        """Customers cannot fail a stop"""
+        response = requests.put(
+            f"{BASE_URL}/api/driver/fail-delivery/TEST_missing",
+            headers=customer_headers,
+            json={"reason": "customer_unavailable"}
+        )
+        assert response.status_code == 403, f"Expected 403, got {response.status_code}: {response.text}"
+        print("✓ Non-driver fail-delivery rejected with 403")
+
+    def test_fail_delivery_invalid_reason(self, driver_headers):
+        """Reasons outside the fixed list are rejected"""
+        response = requests.put(
+            f"{BASE_URL}/api/driver/fail-delivery/TEST_missing",
+            headers=driver_headers,
+            json={"reason": "TEST_bad_reason"}
+        )
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        print("✓ Unknown failure reason rejected with 400")
+
+    def test_fail_delivery_unknown_stop(self, driver_headers):
+        """A delivery id that doesn't exist is a 404"""
+        response = requests.put(
+            f"{BASE_URL}/api/driver/fail-delivery/TEST_{uuid.uuid4()}",
+            headers=driver_headers,
+            json={"reason": "customer_unavailable"}
+        )
+        assert response.status_code == 404, f"Expected 404, got {response.status_code}: {response.text}"
+        print("✓ Unknown stop returned 404")
+
+
+class TestFailedDeliveryResolution:
+    """Test POST /api/kitchen/failed-deliveries/{id}/resolve"""
+
+    @pytest.fixture
+    def open_failure(self, driver_headers):
+        """Fail an open stop so the kitchen has something to resolve"""
+        stop = open_stop(driver_headers)
+        response = requests.put(
+            f"{BASE_URL}/api/driver/fail-delivery/{stop['delivery_id']}",
+            headers=driver_headers,
+            json={"reason": "customer_unavailable", "notes": "TEST_ resolution"}
+        )
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+        assert response.json()["status"] == "failed"
+        return response.json()["failure_id"]
+
+    def resolve(self, headers, failure_id, **body):
+        return requests.post(
+            f"{BASE_URL}/api/kitchen/failed-deliveries/{failure_id}/resolve",
+            headers=headers,
+            json=body
+        )
+
+    def get_failure(self, headers, failure_id):
+        response = requests.get(f"{BASE_URL}/api/kitchen/failed-deliveries?status=all", headers=headers)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+        return next((f for f in response.json()["failures"] if f["id"] == failure_id), None)
+
+    def test_resolve_requires_kitchen_role(self, customer_headers):
+        """Customers cannot resolve failed deliveries"""
+        response = self.resolve(customer_headers, "TEST_missing", action="credit")
+        assert response.status_code == 403, f"Expected 403, got {response.status_code}: {response.text}"
+        print("✓ Non-kitchen resolve rejected with 403")
+
+    def test_resolve_invalid_action(self, kitchen_headers):
+        """Only redeliver, refund and credit are accepted"""
+        response = self.resolve(kitchen_headers, "TEST_missing", action="TEST_cash")
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        print("✓ Unknown action rejected with 400")
+
+    @pytest.mark.parametrize("amount", [0, -5, MEAL_CREDIT_VALUE_CAD + 0.01, 1000])
+    def test_resolve_amount_out_of_range(self, kitchen_headers, amount):
+        """Payouts must be more than zero and at most one meal"""
+        response = self.resolve(kitchen_headers, "TEST_missing", action="credit", amount=amount)
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        print(f"✓ Payout of ${amount} rejected with 400")
+
+    def test_resolve_unknown_failure(self, kitchen_headers):
+        """A failure id that doesn't exist is a 404"""
+        response = self.resolve(kitchen_headers, f"TEST_{uuid.uuid4()}", action="credit")
+        assert response.status_code == 404, f"Expected 404, got {response.status_code}: {response.text}"
+        print("✓ Unknown failure returned 404")
+
+    def test_credit_resolution_pays_once(self, kitchen_headers, open_failure):
+        """A credit defaults to one meal, and a second resolve can't pay out again"""
+        response = self.resolve(kitchen_headers, open_failure, action="credit", note="TEST_ credit")
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+
+        data = response.json()
+        assert data["status"] == "resolved"
+        assert data["resolution"] == "credit"
+        assert data["amount"] == pytest.approx(MEAL_CREDIT_VALUE_CAD)
+        assert data["transaction_id"]
+
+        repeat = self.resolve(kitchen_headers, open_failure, action="credit")
+        assert repeat.status_code == 400, f"Expected 400, got {repeat.status_code}: {repeat.text}"
+        assert "already been resolved" in repeat.json()["detail"]
+
+        failure = self.get_failure(kitchen_headers, open_failure)
+        assert failure["status"] == "resolved"
+        assert failure["transaction_id"] == data["transaction_id"]
+        print(f"✓ Failure credited ${data['amount']:.2f} once - repeat rejected")
+
+    def test_refund_resolution_with_partial_amount(self, kitchen_headers, open_failure):
+        """A refund records the amount asked for and closes the failure"""
+        response = self.resolve(kitchen_headers, open_failure, action="refund", amount=6.5)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+
+        data = response.json()
+        assert data["resolution"] == "refund"
+        assert data["amount"] == pytest.approx(6.5)
+        assert data["transaction_id"]
+
+        repeat = self.resolve(kitchen_headers, open_failure, action="credit")
+        assert repeat.status_code == 400, f"Expected 400, got {repeat.status_code}: {repeat.text}"
+
+        open_list = requests.get(f"{BASE_URL}/api/kitchen/failed-deliveries?status=open", headers=kitchen_headers).json()
+        assert all(f["id"] != open_failure for f in open_list["failures"])
+        print("✓ Partial refund recorded and failure left the open queue")
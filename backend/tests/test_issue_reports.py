@@ -0,0 +1,148 @@
+"""
+Backend API Tests for The Dabba - Report a Problem
+Tests for POST /api/customer/report-issue including:
+- Role, date, delivery and photo size validation
+- Auto-credit: one credit per delivery, later reports wait for the kitchen
+- The same problem can only be reported once per day
+
+Tests that need a delivery for the test customer today skip when there is none.
+"""
+
+import pytest
+import requests
+import os
+from datetime import date, timedelta
+
+# Use the public backend URL
+BASE_URL = os.environ.get('EXPO_PUBLIC_BACKEND_URL', 'https://dabba-order-engine.preview.emergentagent.com')
+
+# Test credentials
+KITCHEN_EMAIL = "kitchen@dabba.com"
+KITCHEN_PASSWORD = "kitchen123"
+CUSTOMER_EMAIL = "test2@dabba.com"
+CUSTOMER_PASSWORD = "test123"
+
+
+def login(email, password):
+    response = requests.post(f"{BASE_URL}/api/auth/login", json={
+        "email": email,
+        "password": password
+    })
+    if response.status_code != 200:
+        pytest.skip(f"Login failed for {email}")
+    return response.json()["token"]
+
+
+@pytest.fixture
+def kitchen_headers():
+    return {"Authorization": f"Bearer {login(KITCHEN_EMAIL, KITCHEN_PASSWORD)}"}
+
+
+@pytest.fixture
+def customer_headers():
+    return {"Authorization": f"Bearer {login(CUSTOMER_EMAIL, CUSTOMER_PASSWORD)}"}
+
+
+class TestIssueReportAutoCredit:
+    """Test POST /api/customer/report-issue"""
+
+    # never_arrived is refused for delivered dabbas, so it isn't used here
+    AUTO_CREDIT_TYPES = ["cold_food", "spilled", "missing_item"]
+
+    def report(self, headers, **body):
+        return requests.post(f"{BASE_URL}/api/customer/report-issue", headers=headers, json=body)
+
+    def get_issues(self, headers, issue_date):
+        response = requests.get(f"{BASE_URL}/api/customer/issues", headers=headers)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+        return [i for i in response.json()["issues"] if i["date"] == issue_date]
+
+    def get_balance(self, headers):
+        response = requests.get(f"{BASE_URL}/api/wallet", headers=headers)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+        return response.json()["balance"]
+
+    def test_report_requires_customer_role(self, kitchen_headers):
+        """Only customers report issues"""
+        response = self.report(kitchen_headers, issue_type="cold_food")
+        assert response.status_code == 403, f"Expected 403, got {response.status_code}: {response.text}"
+        print("✓ Non-customer report rejected with 403")
+
+    def test_report_future_date(self, customer_headers):
+        """Deliveries that haven't happened yet can't be reported"""
+        future = (date.today() + timedelta(days=2)).isoformat()
+        response = self.report(customer_headers, issue_type="cold_food", date=future)
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        print("✓ Future date rejected with 400")
+
+    def test_report_invalid_date(self, customer_headers):
+        """Dates must be YYYY-MM-DD"""
+        response = self.report(customer_headers, issue_type="cold_food", date="TEST_not_a_date")
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        print("✓ Malformed date rejected with 400")
+
+    def test_report_without_delivery(self, customer_headers):
+        """A day with no delivery for the customer can't be credited"""
+        balance_before = self.get_balance(customer_headers)
+        response = self.report(customer_headers, issue_type="spilled", date="2000-01-03")
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        assert self.get_balance(customer_headers) == balance_before
+        print("✓ Report without a delivery rejected and balance unchanged")
+
+    def test_report_oversized_photo(self, customer_headers):
+        """Photos over the limit are refused before anything is stored"""
+        response = self.report(
+            customer_headers,
+            issue_type="spilled",
+            date="2000-01-03",
+            photo_base64="A" * (4 * 1024 * 1024 + 1)
+        )
+        assert response.status_code == 413, f"Expected 413, got {response.status_code}: {response.text}"
+        print("✓ Oversized photo rejected with 413")
+
+    def test_auto_credit_once_per_delivery(self, customer_headers):
+        """The first auto-credit issue for a delivery is credited; the next one waits for review"""
+        today = date.today().isoformat()
+        existing = self.get_issues(customer_headers, today)
+        reported = {i["issue_type"] for i in existing}
+        remaining = [t for t in self.AUTO_CREDIT_TYPES if t not in reported]
+        if len(remaining) < 2:
+            pytest.skip("Auto-credit issue types already reported for today")
+        already_credited = any(i["status"] == "approved" for i in existing)
+
+        balance_before = self.get_balance(customer_headers)
+        first = self.report(customer_headers, issue_type=remaining[0], date=today, description="TEST_ first")
+        if first.status_code == 400 and "no delivery" in first.json()["detail"]:
+            pytest.skip("No delivery for the test customer today")
+        assert first.status_code == 200, f"Expected 200, got {first.status_code}: {first.text}"
+
+        if already_credited:
+            assert first.json()["status"] == "pending"
+            assert self.get_balance(customer_headers) == pytest.approx(balance_before)
+        else:
+            assert first.json()["status"] == "approved"
+            credit = first.json()["credit_amount"]
+            assert credit > 0
+            assert self.get_balance(customer_headers) == pytest.approx(balance_before + credit)
+
+        balance_after_first = self.get_balance(customer_headers)
+        second = self.report(customer_headers, issue_type=remaining[1], date=today, description="TEST_ second")
+        assert second.status_code == 200, f"Expected 200, got {second.status_code}: {second.text}"
+        assert second.json()["status"] == "pending"
+        assert "credit_amount" not in second.json()
+        assert self.get_balance(customer_headers) == pytest.approx(balance_after_first)
+        print(f"✓ {remaining[0]} handled as {first.json()['status']}, {remaining[1]} left pending")
+
+    def test_duplicate_report_rejected(self, customer_headers):
+        """The same problem can only be reported once per day"""
+        today = date.today().isoformat()
+        if "other" not in {i["issue_type"] for i in self.get_issues(customer_headers, today)}:
+            first = self.report(customer_headers, issue_type="other", date=today, description="TEST_ duplicate")
+            if first.status_code == 400 and "no delivery" in first.json()["detail"]:
+                pytest.skip("No delivery for the test customer today")
+            assert first.status_code == 200, f"Expected 200, got {first.status_code}: {first.text}"
+
+        repeat = self.report(customer_headers, issue_type="other", date=today, description="TEST_ duplicate")
+        assert repeat.status_code == 400, f"Expected 400, got {repeat.status_code}: {repeat.text}"
+        assert "already reported" in repeat.json()["detail"]
+        print("✓ Duplicate report rejected with 400")
@@ -375,6 +375,51 @@ class TestDriverLocations:
         else:
             print("⚠ No drivers found - endpoint working but empty")
 
+    def test_driver_locations_follow_published_route(self, kitchen_token):
+        """GET /api/kitchen/driver-locations - Stops come from the published route, in route order"""
+        headers = {"Authorization": f"Bearer {kitchen_token}"}
+        login = requests.post(f"{BASE_URL}/api/auth/login", json={
+            "email": DRIVER_EMAIL,
+            "password": DRIVER_PASSWORD
+        })
+        if login.status_code != 200:
+            pytest.skip("Driver login failed")
+        driver_id = login.json()["user"]["id"]
+
+        # Manifest dates are UTC
+        today = datetime.utcnow().strftime("%Y-%m-%d")
+        plan = requests.get(f"{BASE_URL}/api/kitchen/route-plan?date={today}", headers=headers)
+        assert plan.status_code == 200, f"Expected 200, got {plan.status_code}: {plan.text}"
+        plan = plan.json()
+        stops = [s for r in plan["routes"] for s in r["stops"]] + plan["unassigned"]
+        open_ids = [s["delivery_id"] for s in stops if s["status"] not in ("delivered", "failed")]
+        if not open_ids:
+            pytest.skip("No open stops to publish today")
+
+        publish = requests.post(f"{BASE_URL}/api/kitchen/route-plan/publish", headers=headers, json={
+            "date": today,
+            "routes": [{"driver_id": driver_id, "delivery_ids": [s["delivery_id"] for s in stops]}]
+        })
+        assert publish.status_code == 200, f"Expected 200, got {publish.status_code}: {publish.text}"
+
+        try:
+            response = requests.get(f"{BASE_URL}/api/kitchen/driver-locations", headers=headers)
+            assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+            driver = next(d for d in response.json()["drivers"] if d["driver_id"] == driver_id)
+            assert [s["delivery_id"] for s in driver["remaining_stops"]] == open_ids
+            assert driver["active_deliveries"] == len(open_ids)
+            assert driver["current_stop"]["delivery_id"] == open_ids[0]
+            print(f"✓ Fleet view shows {len(open_ids)} published stops for the driver")
+        finally:
+            # Hand the stops back to the routes the plan had before
+            requests.post(f"{BASE_URL}/api/kitchen/route-plan/publish", headers=headers, json={
+                "date": today,
+                "routes": [
+                    {"driver_id": r["driver_id"], "delivery_ids": [s["delivery_id"] for s in r["stops"]]}
+                    for r in plan["routes"]
+                ] + [{"driver_id": None, "delivery_ids": [s["delivery_id"] for s in plan["unassigned"]]}]
+            })
+
     def test_driver_locations_unauthorized(self):
         """GET /api/kitchen/driver-locations - Should require kitchen auth"""
         response = requests.get(f"{BASE_URL}/api/kitchen/driver-locations")
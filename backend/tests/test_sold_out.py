@@ -0,0 +1,76 @@
+"""
+Backend API Tests for The Dabba - Sold-Out Board
+Tests for POST /api/kitchen/mark-sold-out and POST /api/kitchen/restock including:
+- Item name and date validation
+- Marking and restocking an item for a date other than today
+"""
+
+import pytest
+import requests
+import os
+from datetime import date, timedelta
+
+# Use the public backend URL
+BASE_URL = os.environ.get('EXPO_PUBLIC_BACKEND_URL', 'https://dabba-order-engine.preview.emergentagent.com')
+
+# Test credentials
+KITCHEN_EMAIL = "kitchen@dabba.com"
+KITCHEN_PASSWORD = "kitchen123"
+
+
+def login(email, password):
+    response = requests.post(f"{BASE_URL}/api/auth/login", json={
+        "email": email,
+        "password": password
+    })
+    if response.status_code != 200:
+        pytest.skip(f"Login failed for {email}")
+    return response.json()["token"]
+
+
+class TestSoldOut:
+    """Test the kitchen sold-out board endpoints"""
+
+    @pytest.fixture
+    def kitchen_headers(self):
+        return {"Authorization": f"Bearer {login(KITCHEN_EMAIL, KITCHEN_PASSWORD)}"}
+
+    def test_mark_sold_out_requires_item_name(self, kitchen_headers):
+        """A request without an item name is invalid"""
+        response = requests.post(f"{BASE_URL}/api/kitchen/mark-sold-out", headers=kitchen_headers, json={})
+        assert response.status_code == 422, f"Expected 422, got {response.status_code}: {response.text}"
+        print("✓ Sold-out without item name rejected with 422")
+
+    def test_mark_sold_out_invalid_date(self, kitchen_headers):
+        """Dates must be YYYY-MM-DD"""
+        response = requests.post(f"{BASE_URL}/api/kitchen/mark-sold-out", headers=kitchen_headers, json={
+            "item_name": "TEST_Paneer",
+            "date": "TEST_not_a_date"
+        })
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        print("✓ Malformed date rejected with 400")
+
+    def test_mark_and_restock_for_another_day(self, kitchen_headers):
+        """The response names the day that was actually used"""
+        tomorrow = (date.today() + timedelta(days=1)).isoformat()
+        body = {"item_name": "TEST_Paneer", "date": tomorrow}
+
+        response = requests.post(f"{BASE_URL}/api/kitchen/mark-sold-out", headers=kitchen_headers, json=body)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+        assert response.json()["date"] == tomorrow
+        assert tomorrow in response.json()["message"]
+
+        board = requests.get(f"{BASE_URL}/api/kitchen/sold-out?date={tomorrow}", headers=kitchen_headers).json()
+        assert "TEST_Paneer" in board["sold_out"]
+
+        restock = requests.post(f"{BASE_URL}/api/kitchen/restock", headers=kitchen_headers, json=body)
+        assert restock.status_code == 200, f"Expected 200, got {restock.status_code}: {restock.text}"
+        print(f"✓ TEST_Paneer marked sold out and restocked for {tomorrow}")
+
+    def test_restock_item_not_sold_out(self, kitchen_headers):
+        """Restocking an item that isn't sold out is a 404"""
+        response = requests.post(f"{BASE_URL}/api/kitchen/restock", headers=kitchen_headers, json={
+            "item_name": "TEST_never_sold_out"
+        })
+        assert response.status_code == 404, f"Expected 404, got {response.status_code}: {response.text}"
+        print("✓ Restock of an in-stock item returned 404")
@@ -0,0 +1,181 @@
+"""
+Backend API Tests for The Dabba - Wallet Top-Up
+Tests for the wallet top-up payment path including:
+- Role and amount validation
+- Providers that are not enabled for the deployment are refused
+- The fake provider only works when the deployment opts in (ENABLE_FAKE_PAYMENTS)
+- Declined charges leave the balance untouched
+- Running balances walk back from the stored wallet balance
+"""
+
+import pytest
+import requests
+import os
+
+# Use the public backend URL
+BASE_URL = os.environ.get('EXPO_PUBLIC_BACKEND_URL', 'https://dabba-order-engine.preview.emergentagent.com')
+
+# Mirrors the backend flags; the fake provider is only usable when both are set
+FAKE_PAYMENTS_ENABLED = (
+    os.environ.get("ENABLE_FAKE_PAYMENTS", "").lower() == "true"
+    and "fake" in os.environ.get("PAYMENT_PROVIDERS", "").split(",")
+)
+
+# Test credentials
+KITCHEN_EMAIL = "kitchen@dabba.com"
+KITCHEN_PASSWORD = "kitchen123"
+CUSTOMER_EMAIL = "test2@dabba.com"
+CUSTOMER_PASSWORD = "test123"
+
+
+def login(email, password):
+    response = requests.post(f"{BASE_URL}/api/auth/login", json={
+        "email": email,
+        "password": password
+    })
+    if response.status_code != 200:
+        pytest.skip(f"Login failed for {email}")
+    return response.json()["token"]
+
+
+class TestWalletTopUp:
+    """Test POST /api/wallet/top-up"""
+
+    @pytest.fixture
+    def customer_headers(self):
+        return {"Authorization": f"Bearer {login(CUSTOMER_EMAIL, CUSTOMER_PASSWORD)}"}
+
+    @pytest.fixture
+    def kitchen_headers(self):
+        return {"Authorization": f"Bearer {login(KITCHEN_EMAIL, KITCHEN_PASSWORD)}"}
+
+    def get_balance(self, headers):
+        response = requests.get(f"{BASE_URL}/api/wallet", headers=headers)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+        return response.json()["balance"]
+
+    def test_top_up_requires_customer_role(self, kitchen_headers):
+        """Kitchen users cannot top up a wallet"""
+        response = requests.post(f"{BASE_URL}/api/wallet/top-up", headers=kitchen_headers, json={
+            "amount": 25.0,
+            "payment_token": "fake_tok_test",
+            "provider": "fake"
+        })
+        assert response.status_code == 403, f"Expected 403, got {response.status_code}: {response.text}"
+        print("✓ Non-customer top-up rejected with 403")
+
+    def test_top_up_requires_provider(self, customer_headers):
+        """A request without a provider is invalid - there is no default provider"""
+        response = requests.post(f"{BASE_URL}/api/wallet/top-up", headers=customer_headers, json={
+            "amount": 25.0,
+            "payment_token": "fake_tok_test"
+        })
+        assert response.status_code == 422, f"Expected 422, got {response.status_code}: {response.text}"
+        print("✓ Top-up without provider rejected with 422")
+
+    @pytest.mark.parametrize("amount", [0, 0.5, 500.01, 10000])
+    def test_top_up_amount_out_of_range(self, customer_headers, amount):
+        """Amounts outside $1-$500 are rejected before any charge"""
+        response = requests.post(f"{BASE_URL}/api/wallet/top-up", headers=customer_headers, json={
+            "amount": amount,
+            "payment_token": "fake_tok_test",
+            "provider": "fake"
+        })
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        print(f"✓ Top-up of ${amount} rejected with 400")
+
+    def test_top_up_unknown_provider(self, customer_headers):
+        """Providers that are not registered and enabled are refused"""
+        balance_before = self.get_balance(customer_headers)
+        response = requests.post(f"{BASE_URL}/api/wallet/top-up", headers=customer_headers, json={
+            "amount": 25.0,
+            "payment_token": "tok_test",
+            "provider": "TEST_not_a_provider"
+        })
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        assert self.get_balance(customer_headers) == balance_before
+        print("✓ Unknown provider rejected and balance unchanged")
+
+    @pytest.mark.skipif(FAKE_PAYMENTS_ENABLED, reason="Fake payments are enabled for this deployment")
+    def test_fake_provider_refused_without_opt_in(self, customer_headers):
+        """Without ENABLE_FAKE_PAYMENTS the fake provider cannot credit the wallet"""
+        balance_before = self.get_balance(customer_headers)
+        response = requests.post(f"{BASE_URL}/api/wallet/top-up", headers=customer_headers, json={
+            "amount": 500.0,
+            "payment_token": "fake_tok_test",
+            "provider": "fake"
+        })
+        assert response.status_code == 400, f"Expected 400, got {response.status_code}: {response.text}"
+        assert self.get_balance(customer_headers) == balance_before
+        print("✓ Fake provider refused when not opted in")
+
+    @pytest.mark.skipif(not FAKE_PAYMENTS_ENABLED, reason="Fake payments are not enabled for this deployment")
+    def test_fake_provider_decline(self, customer_headers):
+        """A declined charge returns 402 and does not credit the wallet"""
+        balance_before = self.get_balance(customer_headers)
+        response = requests.post(f"{BASE_URL}/api/wallet/top-up", headers=customer_headers, json={
+            "amount": 25.0,
+            "payment_token": "fake_decline_test",
+            "provider": "fake"
+        })
+        assert response.status_code == 402, f"Expected 402, got {response.status_code}: {response.text}"
+        assert self.get_balance(customer_headers) == balance_before
+        print("✓ Declined charge returned 402 and balance unchanged")
+
+    @pytest.mark.skipif(not FAKE_PAYMENTS_ENABLED, reason="Fake payments are not enabled for this deployment")
+    def test_fake_provider_top_up_credits_wallet(self, customer_headers):
+        """An approved charge adds the amount and records a top_up transaction"""
+        balance_before = self.get_balance(customer_headers)
+        response = requests.post(f"{BASE_URL}/api/wallet/top-up", headers=customer_headers, json={
+            "amount": 25.0,
+            "payment_token": "fake_tok_test",
+            "provider": "fake"
+        })
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+
+        data = response.json()
+        assert data["new_balance"] == pytest.approx(balance_before + 25.0)
+        assert "transaction_id" in data
+
+        wallet = requests.get(f"{BASE_URL}/api/wallet?type=top_up", headers=customer_headers).json()
+        assert any(t["id"] == data["transaction_id"] for t in wallet["transactions"])
+        print(f"✓ Top-up credited wallet - new balance: {data['new_balance']}")
+
+
+class TestWalletHistory:
+    """Test running balances on GET /api/wallet"""
+
+    @pytest.fixture
+    def customer_headers(self):
+        return {"Authorization": f"Bearer {login(CUSTOMER_EMAIL, CUSTOMER_PASSWORD)}"}
+
+    def test_running_balance_starts_from_stored_balance(self, customer_headers):
+        """The newest transaction ends on the wallet balance and each older one steps back by its amount"""
+        response = requests.get(f"{BASE_URL}/api/wallet", headers=customer_headers)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+
+        data = response.json()
+        transactions = data["transactions"]
+        if not transactions:
+            pytest.skip("No wallet transactions for the test customer")
+        assert transactions[0]["balance_after"] == pytest.approx(data["balance"])
+        for newer, older in zip(transactions, transactions[1:]):
+            assert older["balance_after"] == pytest.approx(newer["balance_after"] - newer["amount"])
+        print(f"✓ {len(transactions)} running balances walk back from {data['balance']}")
+
+    def test_month_filter_keeps_running_balances(self, customer_headers):
+        """Filtering by month shows the same balances as the full history"""
+        full = requests.get(f"{BASE_URL}/api/wallet", headers=customer_headers).json()
+        if not full["months"]:
+            pytest.skip("No wallet transactions for the test customer")
+        month = full["months"][0]
+
+        response = requests.get(f"{BASE_URL}/api/wallet?month={month}", headers=customer_headers)
+        assert response.status_code == 200, f"Expected 200, got {response.status_code}: {response.text}"
+        filtered = response.json()
+        balances = {t["id"]: t["balance_after"] for t in full["transactions"]}
+        for tx in filtered["transactions"]:
+            if tx["id"] in balances:
+                assert tx["balance_after"] == pytest.approx(balances[tx["id"]])
+        assert filtered["summary"]["closing_balance"] == pytest.approx(filtered["transactions"][0]["balance_after"])
+        print(f"✓ Balances for {month} match the full history")
@@ -0,0 +1,436 @@
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { subscriptionAPI, customerAPI, extrasAPI } from '../../src/services/api';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import { toDateKey, parseDateKey } from '../../src/components/DateRangePicker';
+import MonthCalendar, { CalendarDay, DAY_STATUS } from '../../src/components/MonthCalendar';
+import MealSwapSheet from '../../src/components/MealSwapSheet';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  warning: '#E65100',
+  danger: '#C41E3A',
+  info: '#1565C0',
+};
+
+// Days a customer can still change
+const ACTIONABLE_STATUSES = ['scheduled', 'swapped'];
+// Past days a problem can be reported for
+const REPORTABLE_STATUSES = ['delivered', 'failed', 'no_record'];
+
+export default function CalendarScreen() {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [days, setDays] = useState<CalendarDay[]>([]);
+  const [extras, setExtras] = useState<any[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [swapItem, setSwapItem] = useState<{ name: string; category: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchMonth = useCallback(async () => {
+    try {
+      const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+      const response = await subscriptionAPI.getCalendar(daysInMonth, toDateKey(month));
+      setDays(response.data.calendar || []);
+    } catch (error) {
+      console.error('Error fetching calendar:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    fetchMonth();
+  }, [fetchMonth]);
+
+  useEffect(() => {
+    extrasAPI.getExtras()
+      .then(res => setExtras(res.data.extras || []))
+      .catch(() => {});
+  }, []);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchMonth();
+  }, [fetchMonth]);
+
+  const handleMonthChange = (offset: number) => {
+    Haptics.selectionAsync();
+    setSelectedDate(null);
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const summary = useMemo(() => {
+    const counts: Record<string, number> = {};
+    days.forEach(day => {
+      counts[day.status] = (counts[day.status] || 0) + 1;
+    });
+    return counts;
+  }, [days]);
+
+  const today = toDateKey(new Date());
+  const selectedDay = days.find(day => day.date === selectedDate);
+  const isActionable = !!selectedDay && selectedDay.date > today && ACTIONABLE_STATUSES.includes(selectedDay.status);
+  const isReportable = !!selectedDay && selectedDay.date <= today && REPORTABLE_STATUSES.includes(selectedDay.status);
+  const selectedLabel = selectedDate
+    ? parseDateKey(selectedDate).toLocaleDateString('en-CA', { weekday: 'long', month: 'long', day: 'numeric' })
+    : '';
+
+  const handleSkip = (day: CalendarDay) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      'Skip Dinner',
+      `Skip ${day.day}'s dinner and receive $12 CAD credit?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Skip & Credit',
+          onPress: async () => {
+            try {
+              await subscriptionAPI.skipMeal({ date: day.date, meal_type: 'dinner' });
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              fetchMonth();
+            } catch (error: any) {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+              Alert.alert('Error', error.response?.data?.detail || 'Failed to skip meal');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSwap = (day: CalendarDay) => {
+    const items = day.dinner_items || [];
+    if (items.length === 0) {
+      Alert.alert('Menu Not Set', 'The kitchen hasn\'t published this day\'s menu yet.');
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (items.length === 1) {
+      setSwapItem(items[0]);
+      return;
+    }
+    Alert.alert(
+      'Swap an Item',
+      `Which item would you like to swap on ${day.day}?`,
+      [
+        ...items.slice(0, 4).map(item => ({
+          text: item.name,
+          onPress: () => setSwapItem(item),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleAddExtra = (day: CalendarDay) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(
+      'Add Extra',
+      'Select an add-on for ' + day.day,
+      [
+        ...extras.slice(0, 4).map(e => ({
+          text: `${e.name} - $${e.price.toFixed(2)}`,
+          onPress: async () => {
+            try {
+              await customerAPI.addExtra({ date: day.date, item_id: e.id, quantity: 1 });
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              Alert.alert('Added!', `${e.name} added for ${day.day}`);
+            } catch {
+              Alert.alert('Error', 'Failed to add extra');
+            }
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.text} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.title}>Meal Calendar</Text>
+          <Text style={styles.subtitle}>Every dinner, past and upcoming</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Month summary */}
+        <Animated.View entering={FadeInDown.delay(100).springify()} style={styles.summaryRow}>
+          {(['delivered', 'skipped', 'vacation', 'failed'] as const).map(status => (
+            <View key={status} style={styles.summaryItem}>
+              <Text style={[styles.summaryValue, { color: DAY_STATUS[status].color }]}>
+                {summary[status] || 0}
+              </Text>
+              <Text style={styles.summaryLabel}>{DAY_STATUS[status].label}</Text>
+            </View>
+          ))}
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(150).springify()}>
+          <MonthCalendar
+            month={month}
+            days={days}
+            selectedDate={selectedDate}
+            onDayPress={(date) => {
+              Haptics.selectionAsync();
+              setSelectedDate(date);
+            }}
+            onMonthChange={handleMonthChange}
+          />
+        </Animated.View>
+
+        {/* Selected day */}
+        {selectedDate && (
+          <Animated.View entering={FadeInDown.springify()} style={styles.detailCard}>
+            <Text style={styles.detailDate}>{selectedLabel}</Text>
+            {selectedDay ? (
+              <>
+                {DAY_STATUS[selectedDay.status] ? (
+                  <View style={[styles.statusBadge, { backgroundColor: DAY_STATUS[selectedDay.status].bg }]}>
+                    <Ionicons
+                      name={DAY_STATUS[selectedDay.status].icon as any}
+                      size={14}
+                      color={DAY_STATUS[selectedDay.status].color}
+                    />
+                    <Text style={[styles.statusText, { color: DAY_STATUS[selectedDay.status].color }]}>
+                      {DAY_STATUS[selectedDay.status].label}
+                    </Text>
+                  </View>
+                ) : (
+                  <Text style={styles.detailNote}>
+                    {selectedDay.is_weekend ? 'No deliveries on weekends' : 'No delivery recorded'}
+                  </Text>
+                )}
+
+                {(selectedDay.swaps || []).map(swap => (
+                  <Text key={swap.original_meal} style={styles.detailNote}>
+                    {swap.original_meal} → {swap.replacement_meal}
+                  </Text>
+                ))}
+
+                {(selectedDay.dinner_items || []).length > 0 && (
+                  <Text style={styles.detailItems}>
+                    {(selectedDay.dinner_items || []).map(item => item.name).join(' · ')}
+                  </Text>
+                )}
+
+                {isActionable && (
+                  <View style={styles.actionsRow}>
+                    {selectedDay.can_skip && (
+                      <TouchableOpacity style={styles.actionButton} onPress={() => handleSkip(selectedDay)}>
+                        <Ionicons name="close-circle-outline" size={18} color={COLORS.warning} />
+                        <Text style={[styles.actionText, { color: COLORS.warning }]}>Skip</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleSwap(selectedDay)}>
+                      <Ionicons name="swap-horizontal" size={18} color={DAY_STATUS.swapped.color} />
+                      <Text style={[styles.actionText, { color: DAY_STATUS.swapped.color }]}>Swap</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleAddExtra(selectedDay)}>
+                      <Ionicons name="add-circle-outline" size={18} color={COLORS.success} />
+                      <Text style={[styles.actionText, { color: COLORS.success }]}>Add Extra</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {isReportable && (
+                  <View style={styles.actionsRow}>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => router.push({ pathname: '/(customer)/report', params: { date: selectedDay.date } })}
+                    >
+                      <Ionicons name="help-buoy-outline" size={18} color={COLORS.danger} />
+                      <Text style={[styles.actionText, { color: COLORS.danger }]}>Report a problem</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </>
+            ) : (
+              <Text style={styles.detailNote}>Nothing scheduled</Text>
+            )}
+          </Animated.View>
+        )}
+      </ScrollView>
+
+      <MealSwapSheet
+        visible={!!swapItem && !!selectedDay}
+        date={selectedDay?.date || ''}
+        item={swapItem}
+        currentReplacement={selectedDay?.swaps?.find(sw => sw.original_meal === swapItem?.name)?.replacement_meal}
+        menuItemNames={selectedDay?.dinner_items?.map(item => item.name)}
+        onClose={() => setSwapItem(null)}
+        onSwapped={fetchMonth}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.text,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    paddingVertical: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  detailCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  detailDate: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    gap: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  detailNote: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 6,
+  },
+  detailItems: {
+    fontSize: 14,
+    color: COLORS.text,
+    marginTop: 10,
+    lineHeight: 20,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    marginTop: 14,
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingVertical: 10,
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -26,9 +26,13 @@ import Animated, {
   Easing,
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
 import { useAuth } from '../../src/context/AuthContext';
-import { subscriptionAPI, customerAPI, weatherAPI, extrasAPI } from '../../src/services/api';
+import { subscriptionAPI, customerAPI, weatherAPI, extrasAPI, kitchenAPI } from '../../src/services/api';
+import { useRealtimeEvent, useRealtimeStatus } from '../../src/services/realtime';
+import { useCategories, getCategoryStyle } from '../../src/services/categories';
 import DabbaLogo, { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import MealSwapSheet from '../../src/components/MealSwapSheet';
 import { AnimatedCard, PulsingDot, Skeleton, SkeletonCard } from '../../src/components/AnimatedComponents';
 import TiffinConcierge, { ChatButton } from '../components/TiffinConcierge';
 
@@ -49,6 +53,8 @@ const COLORS = {
   dangerLight: '#FFEBEE',
   info: '#1565C0',
   infoLight: '#E3F2FD',
+  swap: '#6A1B9A',
+  swapLight: '#F3E5F5',
 };
 
 const WEATHER_COLORS: Record<string, { bg: string; text: string; icon: string }> = {
@@ -73,8 +79,12 @@ interface DayPlan {
   dinner_items: { id: string; name: string; category: string; quantity: number; unit: string }[];
   item_summary: string;
   add_ons: { name: string; price: number }[];
+  swaps?: { original_meal: string; replacement_meal: string }[];
+  sold_out?: string[];
 }
 
+type DinnerItem = DayPlan['dinner_items'][number];
+
 interface WeatherStatus {
   condition: string;
   status: string;
@@ -90,46 +100,69 @@ interface Subscription {
   skipped_meals: { date: string; meal_type: string }[];
 }
 
-// Category icons for menu items with premium styling
-const CATEGORY_ICONS: Record<string, { icon: string; color: string; bgColor: string; label: string }> = {
-  roti: { icon: 'pizza-outline', color: '#E65100', bgColor: '#FFF3E0', label: 'Roti' },
-  sabji: { icon: 'leaf-outline', color: '#2E7D32', bgColor: '#E8F5E9', label: 'Sabji' },
-  dal: { icon: 'water-outline', color: '#1565C0', bgColor: '#E3F2FD', label: 'Dal' },
-  rice: { icon: 'restaurant-outline', color: '#7B1FA2', bgColor: '#F3E5F5', label: 'Rice' },
-  salad: { icon: 'nutrition-outline', color: '#00838F', bgColor: '#E0F7FA', label: 'Salad' },
-  extra: { icon: 'add-circle-outline', color: '#C41E3A', bgColor: '#FFEBEE', label: 'Extra' },
-};
-
 // Beautiful Menu Item Component
-const MenuItemCard = ({ item, category }: { item: { id: string; name: string; category: string; quantity: number; unit: string }; category: string }) => {
-  const catInfo = CATEGORY_ICONS[category] || CATEGORY_ICONS.sabji;
+const MenuItemCard = ({ item, category, swappedTo, soldOut, onSwap }: {
+  item: DinnerItem;
+  category: string;
+  swappedTo?: string;
+  soldOut?: boolean;
+  onSwap?: () => void;
+}) => {
+  const { categories } = useCategories();
+  const catInfo = getCategoryStyle(categories, category);
   
   return (
-    <View style={menuStyles.menuItemCard}>
+    <View style={[
+      menuStyles.menuItemCard,
+      swappedTo && menuStyles.menuItemCardSwapped,
+      soldOut && menuStyles.menuItemCardSoldOut,
+    ]}>
       <View style={[menuStyles.menuItemIconBg, { backgroundColor: catInfo.bgColor }]}>
         <Ionicons name={catInfo.icon as any} size={20} color={catInfo.color} />
       </View>
       <View style={menuStyles.menuItemInfo}>
-        <Text style={menuStyles.menuItemName} numberOfLines={1}>{item.name}</Text>
-        <Text style={[menuStyles.menuItemCategory, { color: catInfo.color }]}>{catInfo.label}</Text>
-      </View>
-      <View style={[menuStyles.menuItemQtyBadge, { backgroundColor: catInfo.bgColor }]}>
-        <Text style={[menuStyles.menuItemQtyText, { color: catInfo.color }]}>
-          {item.quantity} {item.unit || 'pcs'}
-        </Text>
+        <Text style={menuStyles.menuItemName} numberOfLines={1}>{swappedTo || item.name}</Text>
+        {soldOut ? (
+          <Text style={menuStyles.menuItemSoldOut} numberOfLines={1}>
+            Sold out
+          </Text>
+        ) : swappedTo ? (
+          <Text style={menuStyles.menuItemSwappedFrom} numberOfLines={1}>
+            Swapped from {item.name}
+          </Text>
+        ) : (
+          <Text style={[menuStyles.menuItemCategory, { color: catInfo.color }]}>{catInfo.label}</Text>
+        )}
       </View>
+      {onSwap ? (
+        <TouchableOpacity
+          style={[menuStyles.swapBtn, swappedTo && menuStyles.swapBtnActive]}
+          onPress={onSwap}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons name="swap-horizontal" size={16} color={swappedTo ? '#FFFFFF' : COLORS.swap} />
+        </TouchableOpacity>
+      ) : (
+        <View style={[menuStyles.menuItemQtyBadge, { backgroundColor: catInfo.bgColor }]}>
+          <Text style={[menuStyles.menuItemQtyText, { color: catInfo.color }]}>
+            {item.quantity} {item.unit || 'pcs'}
+          </Text>
+        </View>
+      )}
     </View>
   );
 };
 
 // Day Card Component - Beautiful Menu Display
-const DayCard = ({ day, onSkip, onAddExtra, index }: { 
+const DayCard = ({ day, onSkip, onAddExtra, onSwapItem, index }: { 
   day: DayPlan; 
   onSkip: () => void; 
   onAddExtra: () => void;
+  onSwapItem: (item: DinnerItem) => void;
   index: number;
 }) => {
   const scale = useSharedValue(1);
+  const { categories } = useCategories();
   
   const animatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: scale.value }],
@@ -139,9 +172,12 @@ const DayCard = ({ day, onSkip, onAddExtra, index }: {
   const dateNum = formattedDate.getDate();
   const monthShort = formattedDate.toLocaleDateString('en-US', { month: 'short' });
 
+  // Swaps close at 10 PM the night before, so only future days offer them
+  const canSwap = !day.is_today && !day.is_skipped;
+
   // Calculate total items by category
   const categoryTotals = day.dinner_items.reduce((acc, item) => {
-    const cat = item.category || 'sabji';
+    const cat = item.category || 'other';
     if (!acc[cat]) acc[cat] = { count: 0, items: [] };
     acc[cat].count += item.quantity;
     acc[cat].items.push(item);
@@ -186,9 +222,19 @@ const DayCard = ({ day, onSkip, onAddExtra, index }: {
       <View style={styles.dayContent}>
         {day.dinner_items.length > 0 ? (
           <View style={menuStyles.menuGrid}>
-            {day.dinner_items.slice(0, 4).map((item, idx) => (
-              <MenuItemCard key={item.id || idx} item={item} category={item.category || 'sabji'} />
-            ))}
+            {day.dinner_items.slice(0, 4).map((item, idx) => {
+              const swappedTo = day.swaps?.find(sw => sw.original_meal === item.name)?.replacement_meal;
+              return (
+                <MenuItemCard
+                  key={item.id || idx}
+                  item={item}
+                  category={item.category}
+                  swappedTo={swappedTo}
+                  soldOut={day.sold_out?.includes(swappedTo || item.name)}
+                  onSwap={canSwap ? () => onSwapItem(item) : undefined}
+                />
+              );
+            })}
             {day.dinner_items.length > 4 && (
               <View style={menuStyles.moreItemsBadge}>
                 <Text style={menuStyles.moreItemsText}>+{day.dinner_items.length - 4} more</Text>
@@ -207,7 +253,7 @@ const DayCard = ({ day, onSkip, onAddExtra, index }: {
       {day.dinner_items.length > 0 && !day.is_skipped && (
         <View style={menuStyles.quickStatsBar}>
           {Object.entries(categoryTotals).slice(0, 4).map(([cat, data]) => {
-            const catInfo = CATEGORY_ICONS[cat] || CATEGORY_ICONS.sabji;
+            const catInfo = getCategoryStyle(categories, cat);
             return (
               <View key={cat} style={menuStyles.quickStatItem}>
                 <View style={[menuStyles.quickStatIcon, { backgroundColor: catInfo.bgColor }]}>
@@ -275,6 +321,40 @@ const menuStyles = StyleSheet.create({
     fontWeight: '500',
     marginTop: 1,
   },
+  menuItemCardSwapped: {
+    backgroundColor: COLORS.swapLight,
+    borderWidth: 1,
+    borderColor: COLORS.swap,
+  },
+  menuItemSwappedFrom: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: COLORS.swap,
+    marginTop: 1,
+  },
+  menuItemCardSoldOut: {
+    borderWidth: 1,
+    borderColor: COLORS.danger,
+    backgroundColor: COLORS.dangerLight,
+  },
+  menuItemSoldOut: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: COLORS.danger,
+    marginTop: 1,
+  },
+  swapBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.swap,
+  },
+  swapBtnActive: {
+    backgroundColor: COLORS.swap,
+  },
   menuItemQtyBadge: {
     paddingHorizontal: 10,
     paddingVertical: 4,
@@ -373,6 +453,7 @@ export default function CustomerDashboard() {
   const [showRating, setShowRating] = useState(false);
   const [showSpiceSelector, setShowSpiceSelector] = useState(false);
   const [showChatbot, setShowChatbot] = useState(false);
+  const [swapTarget, setSwapTarget] = useState<{ day: DayPlan; item: DinnerItem } | null>(null);
 
   const fetchData = useCallback(async () => {
     try {
@@ -408,6 +489,42 @@ export default function CustomerDashboard() {
     fetchData();
   }, [fetchData]);
 
+  const isLive = useRealtimeStatus();
+
+  // Without the socket, keep today's delivery card fresh by polling
+  useEffect(() => {
+    if (isLive) return;
+    const interval = setInterval(() => {
+      customerAPI.getDeliveryStatus()
+        .then(res => setDeliveryStatus(res.data))
+        .catch(() => {});
+    }, 30000);
+    return () => clearInterval(interval);
+  }, [isLive]);
+
+  useRealtimeEvent('delivery_update', ({ status }) => {
+    setDeliveryStatus((prev: any) => (prev ? { ...prev, status } : { status }));
+  });
+
+  useRealtimeEvent('menu_update', () => {
+    customerAPI.getWeeklyPlan()
+      .then(res => setWeeklyPlan(res.data.days || []))
+      .catch(() => {});
+  });
+
+  useRealtimeEvent('weather_update', (data) => {
+    setWeatherStatus(data);
+  });
+
+  // Patch in place so the card updates without waiting on a refetch
+  useRealtimeEvent('sold_out_update', ({ date, item_name, sold_out }) => {
+    setWeeklyPlan(prev => prev.map(day => {
+      if (day.date !== date) return day;
+      const others = (day.sold_out || []).filter(name => name !== item_name);
+      return { ...day, sold_out: sold_out ? [...others, item_name] : others };
+    }));
+  });
+
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -442,14 +559,20 @@ export default function CustomerDashboard() {
     );
   };
 
-  const handleAddExtra = (day: DayPlan) => {
+  const handleAddExtra = async (day: DayPlan) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Check stock at open time; the weekly plan may be a few minutes old
+    const soldOutRes = await kitchenAPI.getSoldOutItems(day.date).catch(() => null);
+    const soldOut: string[] = soldOutRes?.data.sold_out || day.sold_out || [];
+    const available = extras.filter(e => !soldOut.includes(e.name));
+    const hiddenCount = extras.length - available.length;
+
     // Show extras picker
     Alert.alert(
       'Add Extra',
-      'Select an add-on for ' + day.day_name,
+      'Select an add-on for ' + day.day_name + (hiddenCount > 0 ? ` (${hiddenCount} sold out)` : ''),
       [
-        ...extras.slice(0, 4).map(e => ({
+        ...available.slice(0, 4).map(e => ({
           text: `${e.name} - $${e.price.toFixed(2)}`,
           onPress: async () => {
             try {
@@ -461,8 +584,8 @@ export default function CustomerDashboard() {
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
               Alert.alert('Added!', `${e.name} added for ${day.day_name}`);
               fetchData();
-            } catch (err) {
-              Alert.alert('Error', 'Failed to add extra');
+            } catch (err: any) {
+              Alert.alert('Error', err.response?.data?.detail || 'Failed to add extra');
             }
           }
         })),
@@ -549,6 +672,16 @@ export default function CustomerDashboard() {
         onClose={() => setShowRating(false)}
         onRate={handleRateMeal}
       />
+
+      <MealSwapSheet
+        visible={!!swapTarget}
+        date={swapTarget?.day.date || ''}
+        item={swapTarget?.item || null}
+        currentReplacement={swapTarget?.day.swaps?.find(sw => sw.original_meal === swapTarget.item.name)?.replacement_meal}
+        menuItemNames={swapTarget?.day.dinner_items.map(item => item.name)}
+        onClose={() => setSwapTarget(null)}
+        onSwapped={fetchData}
+      />
       
       <ScrollView
         contentContainerStyle={styles.scrollContent}
@@ -672,6 +805,20 @@ export default function CustomerDashboard() {
                 })}
               </View>
             )}
+
+            {['ready', 'out_for_delivery'].includes(deliveryStatus.status) && (
+              <TouchableOpacity style={styles.trackButton} onPress={() => router.push('/(customer)/track')}>
+                <Ionicons name="map-outline" size={18} color={COLORS.card} />
+                <Text style={styles.trackButtonText}>Track on Map</Text>
+              </TouchableOpacity>
+            )}
+
+            {['delivered', 'out_for_delivery', 'failed'].includes(deliveryStatus.status) && (
+              <TouchableOpacity style={styles.reportLink} onPress={() => router.push('/(customer)/report')}>
+                <Ionicons name="help-buoy-outline" size={16} color={COLORS.maroon} />
+                <Text style={styles.reportLinkText}>Report a problem</Text>
+              </TouchableOpacity>
+            )}
           </AnimatedCard>
         )}
 
@@ -698,9 +845,29 @@ export default function CustomerDashboard() {
                 index={index}
                 onSkip={() => handleSkipMeal(day)}
                 onAddExtra={() => handleAddExtra(day)}
+                onSwapItem={(item) => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setSwapTarget({ day, item });
+                }}
               />
             ))}
           </ScrollView>
+
+          {subscription && (
+            <View style={styles.planLinks}>
+              <TouchableOpacity style={styles.planLink} onPress={() => router.push('/(customer)/calendar')}>
+                <Ionicons name="calendar-outline" size={18} color={COLORS.maroon} />
+                <Text style={[styles.planLinkText, { color: COLORS.maroon }]}>Month view</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.planLink, { backgroundColor: COLORS.infoLight }]}
+                onPress={() => router.push('/(customer)/vacation')}
+              >
+                <Ionicons name="airplane-outline" size={18} color={COLORS.info} />
+                <Text style={styles.planLinkText}>Going away?</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </Animated.View>
 
         {/* Quick Stats */}
@@ -987,6 +1154,52 @@ const styles = StyleSheet.create({
   weeklySlider: {
     paddingRight: 20,
   },
+  trackButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.maroon,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 16,
+    gap: 8,
+  },
+  trackButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.card,
+  },
+  reportLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+    gap: 6,
+  },
+  reportLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.maroon,
+  },
+  planLinks: {
+    flexDirection: 'row',
+    marginTop: 12,
+    gap: 8,
+  },
+  planLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.goldLight,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  planLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.info,
+  },
   dayCard: {
     width: SCREEN_WIDTH * 0.72,
     backgroundColor: COLORS.card,
@@ -147,6 +147,8 @@ export default function ProfileScreen() {
 
   const menuItems = [
     { icon: 'person-outline', label: 'Edit Profile', onPress: () => {} },
+    { icon: 'calendar-number-outline', label: 'Meal Calendar', onPress: () => router.push('/(customer)/calendar') },
+    { icon: 'airplane-outline', label: 'Vacation Mode', onPress: () => router.push('/(customer)/vacation') },
     { icon: 'location-outline', label: 'Delivery Addresses', onPress: () => {} },
     { icon: 'card-outline', label: 'Payment Methods', onPress: () => {} },
     { icon: 'notifications-outline', label: 'Notifications', onPress: () => {} },
@@ -0,0 +1,541 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeInDown, FadeIn } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import * as ImagePicker from 'expo-image-picker';
+import { router, useLocalSearchParams } from 'expo-router';
+import { customerAPI } from '../../src/services/api';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import { toDateKey, parseDateKey } from '../../src/components/DateRangePicker';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  successLight: '#E8F5E9',
+  warning: '#E65100',
+  warningLight: '#FFF3E0',
+  danger: '#C41E3A',
+  dangerLight: '#FFEBEE',
+};
+
+const ISSUE_TYPES = [
+  { value: 'missing_item', label: 'Missing item', icon: 'remove-circle-outline' },
+  { value: 'late', label: 'Arrived late', icon: 'time-outline' },
+  { value: 'spilled', label: 'Spilled', icon: 'water-outline' },
+  { value: 'wrong_dabba', label: 'Wrong dabba', icon: 'swap-horizontal-outline' },
+  { value: 'never_arrived', label: 'Never arrived', icon: 'close-circle-outline' },
+  { value: 'cold_food', label: 'Food was cold', icon: 'snow-outline' },
+  { value: 'other', label: 'Something else', icon: 'chatbox-ellipses-outline' },
+];
+
+const ISSUE_STATUS: Record<string, { label: string; color: string; bg: string }> = {
+  pending: { label: 'In review', color: COLORS.warning, bg: COLORS.warningLight },
+  approved: { label: 'Resolved', color: COLORS.success, bg: COLORS.successLight },
+  rejected: { label: 'Closed', color: COLORS.danger, bg: COLORS.dangerLight },
+};
+
+interface Issue {
+  id: string;
+  issue_type: string;
+  description?: string;
+  date: string;
+  status: string;
+  credit_amount?: number;
+  resolution?: string;
+  has_photo?: boolean;
+  created_at: string;
+}
+
+interface SubmitResult {
+  message: string;
+  status: string;
+  credit_amount?: number;
+}
+
+const issueLabel = (type: string) => ISSUE_TYPES.find(t => t.value === type)?.label || type;
+
+export default function ReportIssueScreen() {
+  const params = useLocalSearchParams<{ date?: string }>();
+  const issueDate = params.date || toDateKey(new Date());
+
+  const [issueType, setIssueType] = useState<string | null>(null);
+  const [description, setDescription] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [photoBase64, setPhotoBase64] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<SubmitResult | null>(null);
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchIssues = useCallback(async () => {
+    try {
+      const response = await customerAPI.getIssues();
+      setIssues(response.data.issues || []);
+    } catch (error) {
+      console.error('Error fetching issues:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [fetchIssues]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchIssues();
+  }, [fetchIssues]);
+
+  const pickPhoto = async (source: 'camera' | 'library') => {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (permission.status !== 'granted') {
+      Alert.alert('Permission Required', 'Photo access is needed to attach a picture');
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: false,
+      quality: 0.5,
+      base64: true,
+    };
+    const picked = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (!picked.canceled && picked.assets[0]) {
+      setPhotoUri(picked.assets[0].uri);
+      setPhotoBase64(picked.assets[0].base64 || null);
+    }
+  };
+
+  const handleAddPhoto = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert('Add Photo', 'A picture helps us resolve this faster', [
+      { text: 'Take Photo', onPress: () => pickPhoto('camera') },
+      { text: 'Choose from Library', onPress: () => pickPhoto('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleSubmit = async () => {
+    if (!issueType) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsSubmitting(true);
+    try {
+      const response = await customerAPI.reportIssue({
+        issue_type: issueType,
+        description: description.trim() || undefined,
+        date: issueDate,
+        photo_base64: photoBase64 || undefined,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setResult(response.data);
+      setIssueType(null);
+      setDescription('');
+      setPhotoUri(null);
+      setPhotoBase64(null);
+      fetchIssues();
+    } catch (error: any) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to report issue');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formattedDate = parseDateKey(issueDate).toLocaleDateString('en-CA', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.text} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.title}>Report a Problem</Text>
+          <Text style={styles.subtitle}>Dinner on {formattedDate}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Outcome of the last submission */}
+        {result && (
+          <Animated.View
+            entering={FadeIn}
+            style={[styles.resultCard, result.status === 'approved' ? styles.resultApproved : styles.resultPending]}
+          >
+            <Ionicons
+              name={result.status === 'approved' ? 'wallet' : 'hourglass-outline'}
+              size={28}
+              color={result.status === 'approved' ? COLORS.success : COLORS.warning}
+            />
+            <View style={styles.resultText}>
+              <Text style={styles.resultTitle}>
+                {result.status === 'approved'
+                  ? `$${(result.credit_amount || 0).toFixed(2)} credited`
+                  : 'We\'re on it'}
+              </Text>
+              <Text style={styles.resultMessage}>{result.message}</Text>
+            </View>
+            <TouchableOpacity onPress={() => setResult(null)}>
+              <Ionicons name="close" size={20} color={COLORS.textLight} />
+            </TouchableOpacity>
+          </Animated.View>
+        )}
+
+        {/* Issue type */}
+        <Animated.View entering={FadeInDown.delay(100).springify()}>
+          <Text style={styles.sectionTitle}>What went wrong?</Text>
+          <View style={styles.typeGrid}>
+            {ISSUE_TYPES.map(type => {
+              const isSelected = issueType === type.value;
+              return (
+                <TouchableOpacity
+                  key={type.value}
+                  style={[styles.typeChip, isSelected && styles.typeChipSelected]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setIssueType(type.value);
+                  }}
+                >
+                  <Ionicons name={type.icon as any} size={18} color={isSelected ? COLORS.card : COLORS.maroon} />
+                  <Text style={[styles.typeText, isSelected && styles.typeTextSelected]}>{type.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </Animated.View>
+
+        {/* Details */}
+        <Animated.View entering={FadeInDown.delay(150).springify()}>
+          <Text style={styles.sectionTitle}>Details (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Tell us a little more..."
+            placeholderTextColor={COLORS.textLight}
+            value={description}
+            onChangeText={setDescription}
+            multiline
+            maxLength={500}
+          />
+
+          {photoUri ? (
+            <View style={styles.photoPreview}>
+              <Image source={{ uri: photoUri }} style={styles.photo} />
+              <TouchableOpacity
+                style={styles.removePhoto}
+                onPress={() => {
+                  setPhotoUri(null);
+                  setPhotoBase64(null);
+                }}
+              >
+                <Ionicons name="close-circle" size={24} color={COLORS.danger} />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.photoButton} onPress={handleAddPhoto}>
+              <Ionicons name="camera-outline" size={20} color={COLORS.maroon} />
+              <Text style={styles.photoButtonText}>Add a photo</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, (!issueType || isSubmitting) && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!issueType || isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color={COLORS.card} />
+            ) : (
+              <Text style={styles.submitText}>Submit Report</Text>
+            )}
+          </TouchableOpacity>
+        </Animated.View>
+
+        {/* History */}
+        <Animated.View entering={FadeInDown.delay(200).springify()}>
+          <Text style={styles.sectionTitle}>Your Reports</Text>
+          {isLoading ? (
+            <ActivityIndicator color={COLORS.maroon} />
+          ) : issues.length > 0 ? (
+            issues.map(issue => {
+              const status = ISSUE_STATUS[issue.status] || ISSUE_STATUS.pending;
+              return (
+                <View key={issue.id} style={styles.ticketCard}>
+                  <View style={styles.ticketHeader}>
+                    <Text style={styles.ticketType}>{issueLabel(issue.issue_type)}</Text>
+                    <View style={[styles.statusPill, { backgroundColor: status.bg }]}>
+                      <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+                    </View>
+                  </View>
+                  <Text style={styles.ticketMeta}>
+                    {parseDateKey(issue.date).toLocaleDateString('en-CA', { month: 'short', day: 'numeric' })}
+                    {issue.has_photo ? ' · Photo attached' : ''}
+                  </Text>
+                  {!!issue.description && <Text style={styles.ticketDescription}>{issue.description}</Text>}
+                  {!!issue.resolution && (
+                    <View style={styles.resolutionRow}>
+                      <Ionicons name="checkmark-circle" size={14} color={COLORS.success} />
+                      <Text style={styles.resolutionText}>{issue.resolution}</Text>
+                    </View>
+                  )}
+                </View>
+              );
+            })
+          ) : (
+            <Text style={styles.emptyText}>No reports yet — hope it stays that way!</Text>
+          )}
+        </Animated.View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.text,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  resultCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+    gap: 12,
+  },
+  resultApproved: {
+    backgroundColor: COLORS.successLight,
+  },
+  resultPending: {
+    backgroundColor: COLORS.warningLight,
+  },
+  resultText: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  resultMessage: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  typeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  typeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  typeChipSelected: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  typeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  typeTextSelected: {
+    color: COLORS.card,
+  },
+  input: {
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 12,
+    minHeight: 90,
+    fontSize: 15,
+    color: COLORS.text,
+    textAlignVertical: 'top',
+  },
+  photoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: COLORS.maroon,
+    paddingVertical: 14,
+    marginTop: 12,
+    gap: 8,
+  },
+  photoButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.maroon,
+  },
+  photoPreview: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  photo: {
+    width: 120,
+    height: 120,
+    borderRadius: 12,
+  },
+  removePhoto: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+  },
+  submitButton: {
+    backgroundColor: COLORS.maroon,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.card,
+  },
+  ticketCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  ticketHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  ticketType: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  statusPill: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  ticketMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  ticketDescription: {
+    fontSize: 13,
+    color: COLORS.text,
+    marginTop: 6,
+  },
+  resolutionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    gap: 4,
+  },
+  resolutionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.success,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+});
@@ -0,0 +1,437 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { router } from 'expo-router';
+import { customerAPI } from '../../src/services/api';
+import { useRealtimeEvent, useRealtimeStatus } from '../../src/services/realtime';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import { PulsingDot } from '../../src/components/AnimatedComponents';
+import TrackingMap from '../../src/components/TrackingMap';
+import { MapPoint } from '../../src/components/LeafletMap';
+import { straightLineKm } from '../../src/services/routing';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  successLight: '#E8F5E9',
+};
+
+interface TrackingInfo {
+  tracking: boolean;
+  status?: string;
+  message?: string;
+  delivery_id?: string;
+  delivery_number?: number;
+  stops_before?: number;
+  address?: string;
+  driver_id?: string;
+  driver_name?: string;
+  driver_location?: MapPoint;
+  customer_location?: MapPoint;
+  distance_km?: number;
+  estimated_minutes?: number;
+  updated_at?: string;
+}
+
+const TIMELINE = [
+  { key: 'confirmed', label: 'Order confirmed', icon: 'receipt-outline' },
+  { key: 'preparing', label: 'Being prepared', icon: 'flame-outline' },
+  { key: 'ready', label: 'Packed & ready', icon: 'cube-outline' },
+  { key: 'out_for_delivery', label: 'Out for delivery', icon: 'bicycle-outline' },
+  { key: 'delivered', label: 'Delivered', icon: 'home-outline' },
+];
+
+// Position of each delivery status on the timeline
+const STATUS_STEP: Record<string, number> = {
+  pending: 0,
+  preparing: 1,
+  ready: 2,
+  out_for_delivery: 3,
+  delivered: 4,
+};
+
+// Poll this often when the socket is down
+const POLL_INTERVAL_MS = 15000;
+
+export default function TrackDeliveryScreen() {
+  const [info, setInfo] = useState<TrackingInfo | null>(null);
+  const [driverPosition, setDriverPosition] = useState<MapPoint | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchTracking = useCallback(async () => {
+    try {
+      const response = await customerAPI.trackDriver();
+      setInfo(response.data);
+      if (response.data.driver_location) {
+        setDriverPosition(response.data.driver_location);
+      }
+    } catch (error) {
+      console.error('Error tracking driver:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  const isLive = useRealtimeStatus();
+
+  useEffect(() => {
+    fetchTracking();
+    if (isLive) return;
+    const interval = setInterval(fetchTracking, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchTracking, isLive]);
+
+  // Pings arrive every few seconds, so the marker, distance and ETA move from the payload;
+  // stops ahead only change with a delivery_update, which refetches
+  useRealtimeEvent('driver_location', (data) => {
+    // Pings only reach customers once their driver has left the kitchen, so the first one starts the map
+    if (!info?.tracking) {
+      fetchTracking();
+      return;
+    }
+    if (data.driver_id !== info.driver_id) return;
+    const position = { latitude: data.latitude, longitude: data.longitude };
+    setDriverPosition(position);
+    setInfo(prev => {
+      if (!prev?.customer_location || prev.distance_km == null || prev.estimated_minutes == null) return prev;
+      const distance = straightLineKm(position, prev.customer_location);
+      // Same drive-time term as the server's estimate
+      const driveMinutes = (km: number) => Math.max(3, Math.floor(km * 3));
+      return {
+        ...prev,
+        distance_km: distance,
+        estimated_minutes: prev.estimated_minutes - driveMinutes(prev.distance_km) + driveMinutes(distance),
+      };
+    });
+  });
+
+  useRealtimeEvent('delivery_update', () => {
+    fetchTracking();
+  });
+
+  useRealtimeEvent('weather_update', () => {
+    fetchTracking();
+  });
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchTracking();
+  }, [fetchTracking]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const status = info?.status || 'preparing';
+  const currentStep = STATUS_STEP[status] ?? 0;
+  const stopsBefore = info?.stops_before ?? 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.text} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>Track Your Dabba</Text>
+          <View style={styles.liveRow}>
+            {isLive && <PulsingDot color={COLORS.success} />}
+            <Text style={styles.subtitle}>{isLive ? 'Live updates' : 'Refreshing every 15s'}</Text>
+          </View>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+        showsVerticalScrollIndicator={false}
+      >
+        {info?.tracking ? (
+          <>
+            <Animated.View entering={FadeInDown.delay(100).springify()}>
+              <TrackingMap driver={driverPosition} destination={info.customer_location || null} />
+            </Animated.View>
+
+            <Animated.View entering={FadeInDown.delay(150).springify()} style={styles.etaCard}>
+              <View style={styles.etaMain}>
+                <Text style={styles.etaValue}>{info.estimated_minutes ?? '–'}</Text>
+                <Text style={styles.etaUnit}>min</Text>
+              </View>
+              <View style={styles.etaDetails}>
+                <Text style={styles.etaTitle}>
+                  {stopsBefore === 0
+                    ? 'You\'re the next stop!'
+                    : `${stopsBefore} stop${stopsBefore === 1 ? '' : 's'} before you`}
+                </Text>
+                <Text style={styles.etaMeta}>
+                  {info.driver_name || 'Your driver'} · {info.distance_km?.toFixed(1) ?? '–'} km away
+                </Text>
+              </View>
+            </Animated.View>
+          </>
+        ) : (
+          <Animated.View entering={FadeInDown.delay(100).springify()} style={styles.waitingCard}>
+            <Ionicons name="time-outline" size={36} color={COLORS.gold} />
+            <Text style={styles.waitingTitle}>
+              {status === 'delivered' ? 'Your dabba has arrived' : 'Not on the road yet'}
+            </Text>
+            <Text style={styles.waitingText}>
+              {status === 'delivered'
+                ? 'Enjoy your dinner!'
+                : info?.message || 'The map appears once your driver heads out.'}
+            </Text>
+          </Animated.View>
+        )}
+
+        {/* Progress timeline */}
+        <Animated.View entering={FadeInDown.delay(200).springify()} style={styles.timelineCard}>
+          <Text style={styles.sectionTitle}>Today&apos;s Delivery</Text>
+          {TIMELINE.map((step, index) => {
+            const isDone = index < currentStep || status === 'delivered';
+            const isCurrent = index === currentStep && status !== 'delivered';
+            return (
+              <View key={step.key} style={styles.timelineRow}>
+                <View style={styles.timelineMarker}>
+                  <View style={[
+                    styles.timelineDot,
+                    isDone && styles.timelineDotDone,
+                    isCurrent && styles.timelineDotCurrent,
+                  ]}>
+                    <Ionicons
+                      name={(isDone ? 'checkmark' : step.icon) as any}
+                      size={14}
+                      color={isDone || isCurrent ? '#FFFFFF' : COLORS.textLight}
+                    />
+                  </View>
+                  {index < TIMELINE.length - 1 && (
+                    <View style={[styles.timelineLine, isDone && styles.timelineLineDone]} />
+                  )}
+                </View>
+                <View style={styles.timelineText}>
+                  <Text style={[styles.timelineLabel, (isDone || isCurrent) && styles.timelineLabelActive]}>
+                    {step.label}
+                  </Text>
+                  {isCurrent && step.key === 'out_for_delivery' && info?.estimated_minutes != null && (
+                    <Text style={styles.timelineMeta}>Arriving in about {info.estimated_minutes} min</Text>
+                  )}
+                </View>
+              </View>
+            );
+          })}
+          {info?.delivery_number != null && (
+            <Text style={styles.dabbaNumber}>Dabba #{info.delivery_number}</Text>
+          )}
+        </Animated.View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.text,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  liveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+    gap: 6,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  etaCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.maroon,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+  },
+  etaMain: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingRight: 16,
+    marginRight: 16,
+    borderRightWidth: 1,
+    borderRightColor: 'rgba(255,255,255,0.25)',
+  },
+  etaValue: {
+    fontSize: 36,
+    fontWeight: '800',
+    color: COLORS.goldLight,
+  },
+  etaUnit: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.goldLight,
+    marginLeft: 4,
+    marginBottom: 6,
+  },
+  etaDetails: {
+    flex: 1,
+  },
+  etaTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  etaMeta: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 4,
+  },
+  waitingCard: {
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  waitingTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 10,
+  },
+  waitingText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  timelineCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginBottom: 12,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    width: 32,
+  },
+  timelineDot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: COLORS.cream,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  timelineDotDone: {
+    backgroundColor: COLORS.success,
+    borderColor: COLORS.success,
+  },
+  timelineDotCurrent: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  timelineLine: {
+    width: 2,
+    height: 22,
+    backgroundColor: COLORS.border,
+  },
+  timelineLineDone: {
+    backgroundColor: COLORS.success,
+  },
+  timelineText: {
+    flex: 1,
+    marginLeft: 12,
+    paddingTop: 4,
+  },
+  timelineLabel: {
+    fontSize: 14,
+    color: COLORS.textLight,
+  },
+  timelineLabelActive: {
+    color: COLORS.text,
+    fontWeight: '600',
+  },
+  timelineMeta: {
+    fontSize: 12,
+    color: COLORS.maroon,
+    marginTop: 2,
+  },
+  dabbaNumber: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    textAlign: 'right',
+    marginTop: 8,
+  },
+});
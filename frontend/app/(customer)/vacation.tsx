@@ -0,0 +1,590 @@
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { subscriptionAPI } from '../../src/services/api';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import DateRangePicker, { toDateKey, parseDateKey } from '../../src/components/DateRangePicker';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  successLight: '#E8F5E9',
+  danger: '#C41E3A',
+  dangerLight: '#FFEBEE',
+  info: '#1565C0',
+  infoLight: '#E3F2FD',
+};
+
+// How far ahead the planner looks for existing pauses
+const CALENDAR_DAYS = 62;
+
+interface CalendarDay {
+  date: string;
+  day: string;
+  status: string;
+  skip_reason?: string | null;
+}
+
+interface VacationWindow {
+  start_date: string;
+  end_date: string;
+  days: number;
+  credit_amount: number;
+  is_upcoming: boolean;
+  is_active: boolean;
+}
+
+interface VacationPreview {
+  dates_skipped: number;
+  credit_per_day: number;
+  credit_amount: number;
+}
+
+const formatShortDate = (key: string) =>
+  parseDateKey(key).toLocaleDateString('en-CA', { weekday: 'short', month: 'short', day: 'numeric' });
+
+export default function VacationScreen() {
+  const [calendar, setCalendar] = useState<CalendarDay[]>([]);
+  const [vacations, setVacations] = useState<VacationWindow[]>([]);
+  const [startDate, setStartDate] = useState<string | null>(null);
+  const [endDate, setEndDate] = useState<string | null>(null);
+  const [editing, setEditing] = useState<VacationWindow | null>(null);
+  const [preview, setPreview] = useState<VacationPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const today = toDateKey(new Date());
+  const tomorrow = useMemo(() => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    return toDateKey(date);
+  }, []);
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const response = await subscriptionAPI.getCalendar(CALENDAR_DAYS);
+      setCalendar(response.data.calendar || []);
+      setVacations(response.data.vacations || []);
+    } catch (error) {
+      console.error('Error fetching calendar:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  // Days of the pause being edited that the new range keeps; the preview
+  // endpoint doesn't count them because they are already skipped
+  const keptDays = useMemo(() => {
+    if (!editing || !startDate || !endDate) return 0;
+    return calendar.filter(day =>
+      day.status === 'vacation' &&
+      day.date > today &&
+      day.date >= editing.start_date && day.date <= editing.end_date &&
+      day.date >= startDate && day.date <= endDate
+    ).length;
+  }, [calendar, editing, startDate, endDate, today]);
+
+  useEffect(() => {
+    if (!startDate || !endDate) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    setIsPreviewing(true);
+    subscriptionAPI.previewVacation(startDate, endDate)
+      .then(response => {
+        if (!cancelled) setPreview(response.data);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setPreview(null);
+          Alert.alert('Error', error.response?.data?.detail || 'Could not preview this pause');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreviewing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate]);
+
+  const vacationDates = useMemo(
+    () => calendar.filter(day => day.status === 'vacation').map(day => day.date),
+    [calendar]
+  );
+
+  const currentVacations = vacations.filter(window => window.end_date >= today);
+  const mealsSkipped = (preview?.dates_skipped || 0) + keptDays;
+  const creditAmount = mealsSkipped * (preview?.credit_per_day || 0);
+
+  const resetPlanner = () => {
+    setStartDate(null);
+    setEndDate(null);
+    setEditing(null);
+    setPreview(null);
+  };
+
+  const handleRangeChange = (start: string | null, end: string | null) => {
+    Haptics.selectionAsync();
+    setStartDate(start);
+    setEndDate(end);
+  };
+
+  const handleEdit = (window: VacationWindow) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditing(window);
+    setStartDate(window.start_date);
+    setEndDate(window.end_date);
+  };
+
+  const handleCancelVacation = (window: VacationWindow) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      'Cancel Pause',
+      window.is_active
+        ? 'Your remaining vacation days will be restored and their credit removed from your wallet.'
+        : `Deliveries from ${formatShortDate(window.start_date)} to ${formatShortDate(window.end_date)} will resume and $${window.credit_amount.toFixed(2)} CAD will be removed from your wallet.`,
+      [
+        { text: 'Keep Pause', style: 'cancel' },
+        {
+          text: 'Resume Deliveries',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await subscriptionAPI.setVacationMode({
+                start_date: window.start_date,
+                end_date: window.end_date,
+                active: false,
+              });
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              if (editing?.start_date === window.start_date) resetPlanner();
+              fetchCalendar();
+            } catch (error: any) {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+              Alert.alert('Error', error.response?.data?.detail || 'Failed to cancel vacation');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const submitVacation = async () => {
+    if (!startDate || !endDate) return;
+    setIsSubmitting(true);
+    try {
+      if (editing) {
+        // The server swaps the old window for the new one in a single step
+        const response = await subscriptionAPI.updateVacation({
+          old_start_date: editing.start_date,
+          old_end_date: editing.end_date,
+          start_date: startDate,
+          end_date: endDate,
+        });
+        const { dates_skipped, net_credit } = response.data;
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert(
+          'Pause Updated',
+          `${dates_skipped} dinners paused. ` + (net_credit === 0
+            ? 'Your wallet is unchanged.'
+            : `$${Math.abs(net_credit).toFixed(2)} CAD ${net_credit > 0 ? 'credited to' : 'taken back from'} your wallet.`)
+        );
+      } else {
+        const response = await subscriptionAPI.setVacationMode({
+          start_date: startDate,
+          end_date: endDate,
+        });
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert(
+          'Enjoy Your Trip!',
+          `${response.data.dates_skipped} dinners paused. $${response.data.credit_amount.toFixed(2)} CAD credited to your wallet.`
+        );
+      }
+      resetPlanner();
+      fetchCalendar();
+    } catch (error: any) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to set vacation');
+      fetchCalendar();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!startDate || !endDate || mealsSkipped === 0) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      editing ? 'Update Pause' : 'Pause Deliveries',
+      `Pause ${mealsSkipped} dinner${mealsSkipped === 1 ? '' : 's'} from ${formatShortDate(startDate)} to ${formatShortDate(endDate)} and receive $${creditAmount.toFixed(2)} CAD credit?`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Confirm', onPress: submitVacation },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.text} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.title}>Vacation Mode</Text>
+          <Text style={styles.subtitle}>Pause deliveries while you&apos;re away</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Existing pauses */}
+        <Animated.View entering={FadeInDown.delay(100).springify()}>
+          <Text style={styles.sectionTitle}>Your Pauses</Text>
+          {currentVacations.length > 0 ? (
+            currentVacations.map(window => (
+              <View
+                key={window.start_date}
+                style={[styles.windowCard, editing?.start_date === window.start_date && styles.windowCardEditing]}
+              >
+                <View style={styles.windowIcon}>
+                  <Ionicons name="airplane" size={20} color={COLORS.info} />
+                </View>
+                <View style={styles.windowInfo}>
+                  <Text style={styles.windowDates}>
+                    {formatShortDate(window.start_date)} – {formatShortDate(window.end_date)}
+                  </Text>
+                  <Text style={styles.windowMeta}>
+                    {window.days} dinner{window.days === 1 ? '' : 's'} · ${window.credit_amount.toFixed(2)} credited
+                    {window.is_active ? ' · In progress' : ''}
+                  </Text>
+                </View>
+                {window.is_upcoming && (
+                  <TouchableOpacity style={styles.windowAction} onPress={() => handleEdit(window)}>
+                    <Ionicons name="create-outline" size={20} color={COLORS.maroon} />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.windowAction} onPress={() => handleCancelVacation(window)}>
+                  <Ionicons name="close-circle-outline" size={20} color={COLORS.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          ) : (
+            <View style={styles.emptyCard}>
+              <Ionicons name="sunny-outline" size={28} color={COLORS.textLight} />
+              <Text style={styles.emptyText}>No upcoming pauses</Text>
+            </View>
+          )}
+        </Animated.View>
+
+        {/* Planner */}
+        <Animated.View entering={FadeInDown.delay(200).springify()} style={styles.plannerSection}>
+          <View style={styles.plannerHeader}>
+            <Text style={styles.sectionTitle}>{editing ? 'Edit Pause' : 'Plan a Pause'}</Text>
+            {(startDate || editing) && (
+              <TouchableOpacity onPress={resetPlanner}>
+                <Text style={styles.clearText}>{editing ? 'Stop editing' : 'Clear'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.hint}>
+            {!startDate
+              ? 'Tap the first day you’ll be away'
+              : !endDate
+                ? 'Now tap the last day you’ll be away'
+                : `${formatShortDate(startDate)} – ${formatShortDate(endDate)}`}
+          </Text>
+
+          <DateRangePicker
+            startDate={startDate}
+            endDate={endDate}
+            onChange={handleRangeChange}
+            minDate={tomorrow}
+            markedDates={vacationDates}
+          />
+
+          <View style={styles.legendRow}>
+            <View style={[styles.legendDot, { backgroundColor: COLORS.info }]} />
+            <Text style={styles.legendText}>Already paused</Text>
+            <View style={[styles.legendDot, { backgroundColor: COLORS.maroon }]} />
+            <Text style={styles.legendText}>Selected</Text>
+          </View>
+        </Animated.View>
+
+        {/* Preview */}
+        {startDate && endDate && (
+          <Animated.View entering={FadeInDown.springify()} style={styles.previewCard}>
+            {isPreviewing ? (
+              <ActivityIndicator color={COLORS.maroon} />
+            ) : (
+              <>
+                <View style={styles.previewRow}>
+                  <View style={styles.previewStat}>
+                    <Text style={styles.previewValue}>{mealsSkipped}</Text>
+                    <Text style={styles.previewLabel}>Dinners skipped</Text>
+                  </View>
+                  <View style={styles.previewDivider} />
+                  <View style={styles.previewStat}>
+                    <Text style={[styles.previewValue, { color: COLORS.success }]}>
+                      ${creditAmount.toFixed(2)}
+                    </Text>
+                    <Text style={styles.previewLabel}>Wallet credit</Text>
+                  </View>
+                </View>
+                <Text style={styles.previewNote}>
+                  Weekends and days you&apos;ve already skipped aren&apos;t counted.
+                </Text>
+                <TouchableOpacity
+                  style={[styles.confirmButton, (mealsSkipped === 0 || isSubmitting) && styles.confirmButtonDisabled]}
+                  onPress={handleConfirm}
+                  disabled={mealsSkipped === 0 || isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.confirmText}>{editing ? 'Update Pause' : 'Pause Deliveries'}</Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </Animated.View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.text,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  windowCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  windowCardEditing: {
+    borderColor: COLORS.maroon,
+    borderWidth: 2,
+  },
+  windowIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.infoLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  windowInfo: {
+    flex: 1,
+  },
+  windowDates: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  windowMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  windowAction: {
+    padding: 8,
+  },
+  emptyCard: {
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: 14,
+    paddingVertical: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginTop: 6,
+  },
+  plannerSection: {
+    marginTop: 8,
+  },
+  plannerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.maroon,
+  },
+  hint: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginBottom: 10,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginRight: 16,
+  },
+  previewCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 16,
+    borderWidth: 1,
+    borderColor: COLORS.goldLight,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  previewStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  previewValue: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: COLORS.maroon,
+  },
+  previewLabel: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  previewDivider: {
+    width: 1,
+    height: 40,
+    backgroundColor: COLORS.border,
+  },
+  previewNote: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  confirmButton: {
+    backgroundColor: COLORS.maroon,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 14,
+  },
+  confirmButtonDisabled: {
+    opacity: 0.5,
+  },
+  confirmText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+});
@@ -6,10 +6,17 @@ import {
   ScrollView,
   RefreshControl,
   ActivityIndicator,
+  TouchableOpacity,
+  Modal,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
 import { walletAPI } from '../../src/services/api';
+import { getPaymentProvider, isPaymentConfigured } from '../../src/services/payments';
+import { shareStatement, StatementFormat } from '../../src/services/statement';
+import { useAuth } from '../../src/context/AuthContext';
 
 const COLORS = {
   primary: '#EA580C',
@@ -26,24 +33,57 @@ const COLORS = {
 interface Transaction {
   id: string;
   type: string;
-  amount: number;
+  amount: number; // Signed: debits are negative
   description: string;
   date: string;
+  balance_after?: number;
 }
 
 interface Wallet {
   balance: number;
+  currency: string;
   transactions: Transaction[];
+  types: string[];
+  months: string[];
+  summary: {
+    credits: number;
+    debits: number;
+    opening_balance: number | null;
+    closing_balance: number | null;
+  };
+  top_up_amounts: number[];
 }
 
+const TYPE_LABELS: Record<string, string> = {
+  credit: 'Credits',
+  debit: 'Debits',
+  skip_credit: 'Skip credits',
+  top_up: 'Top-ups',
+};
+
+const monthLabel = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-CA', { month: 'short', year: 'numeric' });
+};
+
 export default function WalletScreen() {
+  const { user } = useAuth();
   const [wallet, setWallet] = useState<Wallet | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [monthFilter, setMonthFilter] = useState<string | null>(null);
+  const [showTopUp, setShowTopUp] = useState(false);
+  const [topUpAmount, setTopUpAmount] = useState<number | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   const fetchWallet = useCallback(async () => {
     try {
-      const response = await walletAPI.getWallet();
+      const response = await walletAPI.getWallet({
+        type: typeFilter || undefined,
+        month: monthFilter || undefined,
+      });
       setWallet(response.data);
     } catch (error) {
       console.error('Error fetching wallet:', error);
@@ -51,7 +91,7 @@ export default function WalletScreen() {
       setIsLoading(false);
       setRefreshing(false);
     }
-  }, []);
+  }, [typeFilter, monthFilter]);
 
   useEffect(() => {
     fetchWallet();
@@ -71,6 +111,66 @@ export default function WalletScreen() {
     });
   };
 
+  const handleTopUp = async () => {
+    if (!topUpAmount) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsPaying(true);
+    try {
+      const provider = getPaymentProvider();
+      const payment = await provider.requestPayment(topUpAmount, wallet?.currency || 'CAD');
+      if (!payment) return;
+
+      const response = await walletAPI.topUp({
+        amount: topUpAmount,
+        payment_token: payment.token,
+        provider: payment.provider,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setShowTopUp(false);
+      setTopUpAmount(null);
+      Alert.alert('Wallet Topped Up', response.data.message);
+      fetchWallet();
+    } catch (error: any) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Payment Failed', error.response?.data?.detail || error.message || 'Could not complete the top-up');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const exportStatement = async (format: StatementFormat) => {
+    const month = monthFilter || wallet?.months[0] || new Date().toISOString().slice(0, 7);
+    setIsExporting(true);
+    try {
+      // Statements always cover every transaction type for the month
+      const response = await walletAPI.getWallet({ month });
+      await shareStatement({
+        month,
+        customerName: user?.name,
+        currency: response.data.currency || 'CAD',
+        transactions: response.data.transactions,
+        summary: response.data.summary,
+      }, format);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || error.message || 'Failed to export statement');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExport = () => {
+    const month = monthFilter || wallet?.months[0];
+    Alert.alert(
+      'Export Statement',
+      month ? `Statement for ${monthLabel(month)}` : 'Statement for this month',
+      [
+        { text: 'CSV', onPress: () => exportStatement('csv') },
+        { text: 'PDF', onPress: () => exportStatement('pdf') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'credit':
@@ -79,6 +179,8 @@ export default function WalletScreen() {
         return 'arrow-up-circle';
       case 'skip_credit':
         return 'close-circle';
+      case 'top_up':
+        return 'add-circle';
       default:
         return 'swap-horizontal';
     }
@@ -111,47 +213,118 @@ export default function WalletScreen() {
             <Ionicons name="wallet" size={32} color={COLORS.white} />
           </View>
           <Text style={styles.balanceLabel}>Available Balance</Text>
-          <Text style={styles.balanceAmount}>₹{wallet?.balance?.toFixed(2) || '0.00'}</Text>
+          <Text style={styles.balanceAmount}>${wallet?.balance?.toFixed(2) || '0.00'}</Text>
           <View style={styles.balanceInfo}>
             <Ionicons name="information-circle-outline" size={16} color={COLORS.primaryLight} />
             <Text style={styles.balanceInfoText}>Skip meals to earn credits</Text>
           </View>
+          <TouchableOpacity style={styles.topUpButton} onPress={() => setShowTopUp(true)}>
+            <Ionicons name="add" size={18} color={COLORS.primary} />
+            <Text style={styles.topUpButtonText}>Top Up</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Transactions */}
         <View style={styles.transactionsSection}>
-          <Text style={styles.sectionTitle}>Recent Transactions</Text>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, styles.sectionTitleInline]}>Transactions</Text>
+            <TouchableOpacity style={styles.exportButton} onPress={handleExport} disabled={isExporting}>
+              {isExporting ? (
+                <ActivityIndicator size="small" color={COLORS.primary} />
+              ) : (
+                <Ionicons name="share-outline" size={16} color={COLORS.primary} />
+              )}
+              <Text style={styles.exportButtonText}>Statement</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Filters */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            {[null, ...(wallet?.types || [])].map(type => (
+              <TouchableOpacity
+                key={type || 'all'}
+                style={[styles.filterChip, typeFilter === type && styles.filterChipActive]}
+                onPress={() => setTypeFilter(type)}
+              >
+                <Text style={[styles.filterText, typeFilter === type && styles.filterTextActive]}>
+                  {type ? TYPE_LABELS[type] || type : 'All types'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            {[null, ...(wallet?.months || [])].map(month => (
+              <TouchableOpacity
+                key={month || 'all'}
+                style={[styles.filterChip, monthFilter === month && styles.filterChipActive]}
+                onPress={() => setMonthFilter(month)}
+              >
+                <Text style={[styles.filterText, monthFilter === month && styles.filterTextActive]}>
+                  {month ? monthLabel(month) : 'All months'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {(typeFilter || monthFilter) && wallet?.summary && (
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Credits</Text>
+                <Text style={[styles.summaryValue, styles.amountCredit]}>+${wallet.summary.credits.toFixed(2)}</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Debits</Text>
+                <Text style={[styles.summaryValue, styles.amountDebit]}>-${wallet.summary.debits.toFixed(2)}</Text>
+              </View>
+              {monthFilter && !typeFilter && wallet.summary.closing_balance !== null && (
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Closing</Text>
+                  <Text style={styles.summaryValue}>${wallet.summary.closing_balance.toFixed(2)}</Text>
+                </View>
+              )}
+            </View>
+          )}
           
           {wallet?.transactions && wallet.transactions.length > 0 ? (
-            wallet.transactions.map((transaction) => (
-              <View key={transaction.id} style={styles.transactionCard}>
-                <View style={[
-                  styles.transactionIcon,
-                  transaction.type.includes('credit') ? styles.iconCredit : styles.iconDebit
-                ]}>
-                  <Ionicons
-                    name={getTransactionIcon(transaction.type) as any}
-                    size={24}
-                    color={transaction.type.includes('credit') ? COLORS.success : COLORS.error}
-                  />
-                </View>
-                <View style={styles.transactionInfo}>
-                  <Text style={styles.transactionDescription}>{transaction.description}</Text>
-                  <Text style={styles.transactionDate}>{formatDate(transaction.date)}</Text>
+            wallet.transactions.map((transaction) => {
+              const isCredit = transaction.amount >= 0;
+              return (
+                <View key={transaction.id} style={styles.transactionCard}>
+                  <View style={[
+                    styles.transactionIcon,
+                    isCredit ? styles.iconCredit : styles.iconDebit
+                  ]}>
+                    <Ionicons
+                      name={getTransactionIcon(transaction.type) as any}
+                      size={24}
+                      color={isCredit ? COLORS.success : COLORS.error}
+                    />
+                  </View>
+                  <View style={styles.transactionInfo}>
+                    <Text style={styles.transactionDescription}>{transaction.description}</Text>
+                    <Text style={styles.transactionDate}>{formatDate(transaction.date)}</Text>
+                  </View>
+                  <View style={styles.transactionAmounts}>
+                    <Text style={[
+                      styles.transactionAmount,
+                      isCredit ? styles.amountCredit : styles.amountDebit
+                    ]}>
+                      {isCredit ? '+' : '-'}${Math.abs(transaction.amount).toFixed(2)}
+                    </Text>
+                    {transaction.balance_after !== undefined && (
+                      <Text style={styles.runningBalance}>Bal ${transaction.balance_after.toFixed(2)}</Text>
+                    )}
+                  </View>
                 </View>
-                <Text style={[
-                  styles.transactionAmount,
-                  transaction.type.includes('credit') ? styles.amountCredit : styles.amountDebit
-                ]}>
-                  {transaction.type.includes('credit') ? '+' : '-'}₹{Math.abs(transaction.amount).toFixed(2)}
-                </Text>
-              </View>
-            ))
+              );
+            })
           ) : (
             <View style={styles.emptyState}>
               <Ionicons name="receipt-outline" size={48} color={COLORS.textLight} />
-              <Text style={styles.emptyStateTitle}>No transactions yet</Text>
-              <Text style={styles.emptyStateText}>Skip meals to start earning credits!</Text>
+              <Text style={styles.emptyStateTitle}>No transactions {typeFilter || monthFilter ? 'match' : 'yet'}</Text>
+              <Text style={styles.emptyStateText}>
+                {typeFilter || monthFilter ? 'Try a different filter' : 'Skip meals to start earning credits!'}
+              </Text>
             </View>
           )}
         </View>
@@ -174,8 +347,8 @@ export default function WalletScreen() {
                 <Ionicons name="wallet-outline" size={24} color={COLORS.primary} />
               </View>
               <View style={styles.infoContent}>
-                <Text style={styles.infoTitle}>Get ₹120 credit</Text>
-                <Text style={styles.infoText}>Each skipped meal adds ₹120 to your wallet</Text>
+                <Text style={styles.infoTitle}>Get $12 credit</Text>
+                <Text style={styles.infoText}>Each skipped meal adds $12 to your wallet</Text>
               </View>
             </View>
             <View style={[styles.infoRow, styles.infoRowLast]}>
@@ -190,6 +363,54 @@ export default function WalletScreen() {
           </View>
         </View>
       </ScrollView>
+
+      {/* Top-up Sheet */}
+      <Modal visible={showTopUp} animationType="slide" transparent onRequestClose={() => setShowTopUp(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalSheet}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Top Up Wallet</Text>
+              <TouchableOpacity onPress={() => setShowTopUp(false)}>
+                <Ionicons name="close" size={24} color={COLORS.text} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalSubtitle}>
+              {isPaymentConfigured() ? `Paying with ${getPaymentProvider().label}` : 'Payments are not available right now'}
+            </Text>
+
+            <View style={styles.amountGrid}>
+              {(wallet?.top_up_amounts || []).map(amount => (
+                <TouchableOpacity
+                  key={amount}
+                  style={[styles.amountChip, topUpAmount === amount && styles.amountChipActive]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setTopUpAmount(amount);
+                  }}
+                >
+                  <Text style={[styles.amountText, topUpAmount === amount && styles.amountTextActive]}>
+                    ${amount.toFixed(0)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.payButton, (!topUpAmount || isPaying) && styles.payButtonDisabled]}
+              onPress={handleTopUp}
+              disabled={!topUpAmount || isPaying}
+            >
+              {isPaying ? (
+                <ActivityIndicator color={COLORS.white} />
+              ) : (
+                <Text style={styles.payButtonText}>
+                  {topUpAmount ? `Pay $${topUpAmount.toFixed(2)}` : 'Choose an amount'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -258,9 +479,94 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: COLORS.primaryLight,
   },
+  topUpButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: COLORS.white,
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    marginTop: 16,
+  },
+  topUpButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.primary,
+  },
   transactionsSection: {
     marginBottom: 24,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  sectionTitleInline: {
+    marginBottom: 0,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.primaryLight,
+  },
+  exportButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 10,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.white,
+  },
+  filterChipActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  filterText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  filterTextActive: {
+    color: COLORS.white,
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginBottom: 2,
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '700',
@@ -304,10 +610,18 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: COLORS.textLight,
   },
+  transactionAmounts: {
+    alignItems: 'flex-end',
+  },
   transactionAmount: {
     fontSize: 16,
     fontWeight: '700',
   },
+  runningBalance: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
   amountCredit: {
     color: COLORS.success,
   },
@@ -378,4 +692,72 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: COLORS.textLight,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  modalSheet: {
+    backgroundColor: COLORS.white,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  amountGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 24,
+  },
+  amountChip: {
+    width: '47%',
+    paddingVertical: 18,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+    alignItems: 'center',
+  },
+  amountChipActive: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primaryLight,
+  },
+  amountText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  amountTextActive: {
+    color: COLORS.primary,
+  },
+  payButton: {
+    backgroundColor: COLORS.primary,
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  payButtonDisabled: {
+    opacity: 0.5,
+  },
+  payButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
 });
@@ -40,6 +40,15 @@ export default function DriverLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="route"
+        options={{
+          title: 'Route',
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="map" size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
@@ -20,8 +20,27 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../src/context/AuthContext';
 import { driverAPI } from '../../src/services/api';
+import { useRealtimeEvent, useRealtimeStatus } from '../../src/services/realtime';
+import DabbaScanner, { ScanResult } from '../../src/components/DabbaScanner';
+import FailureSheet from '../../src/components/FailureSheet';
+import {
+  DeliveryFailureDetails,
+  FlushResult,
+  QueuedDeliveryAction,
+  QueuedDeliveryStatus,
+  enqueueDeliveryAction,
+  flushDeliveryQueue,
+  getQueuedActions,
+  loadCachedManifest,
+  recordStopArrival,
+  recordStopStart,
+  saveCachedManifest,
+  subscribeToQueueFlush,
+} from '../../src/services/deliveryQueue';
 import * as Location from 'expo-location';
 import * as ImagePicker from 'expo-image-picker';
+import NetInfo from '@react-native-community/netinfo';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const { width, height } = Dimensions.get('window');
 
@@ -59,13 +78,39 @@ interface Delivery {
   distance: number;
   estimated_time: number;
   eta_time?: string;
+  // Learned correction the server has already folded into estimated_time
+  eta_adjustment?: number;
   latitude?: number;
   longitude?: number;
   is_priority?: boolean;
   dabba_ready?: boolean;
+  loaded?: boolean;
   special_instructions?: string;
+  arrived?: boolean;
+}
+
+const SHIFT_STORAGE_KEY = 'driverShift';
+
+// clocked_in (at the kitchen) -> en_route (dabbas picked up) -> clocked out
+interface Shift {
+  id: string;
+  status: 'clocked_in' | 'en_route';
+  clocked_in_at: string;
+  picked_up_at?: string | null;
+  loaded_count?: number;
 }
 
+interface ShiftSummary {
+  delivered: number;
+  left_with: number;
+  failed: number;
+  loaded: number;
+  duration_minutes: number;
+  minutes_per_stop: number | null;
+}
+
+type StopProgress = 'en_route' | 'arrived';
+
 export default function DriverDeliveries() {
   const { user } = useAuth();
   const [allDeliveries, setAllDeliveries] = useState<Delivery[]>([]);
@@ -74,13 +119,24 @@ export default function DriverDeliveries() {
   const [refreshing, setRefreshing] = useState(false);
   const [showPhotoModal, setShowPhotoModal] = useState(false);
   const [deliveryPhoto, setDeliveryPhoto] = useState<string | null>(null);
-  const [deliveryPhotoBase64, setDeliveryPhotoBase64] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [completedToday, setCompletedToday] = useState(0);
   const [failedToday, setFailedToday] = useState(0);
-  const [isOnline, setIsOnline] = useState(true);
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [shiftLoaded, setShiftLoaded] = useState(false);
+  const [isShiftBusy, setIsShiftBusy] = useState(false);
+  const [shiftSummary, setShiftSummary] = useState<ShiftSummary | null>(null);
+  const [stopProgress, setStopProgress] = useState<Record<string, StopProgress>>({});
   const [driverLocation, setDriverLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [showDeliverySheet, setShowDeliverySheet] = useState(false);
+  const [scanStage, setScanStage] = useState<'load' | 'deliver' | null>(null);
+  const [showFailureSheet, setShowFailureSheet] = useState(false);
+  const [scannedDeliveryId, setScannedDeliveryId] = useState<string | null>(null);
+  const [queuedActions, setQueuedActions] = useState<QueuedDeliveryAction[]>([]);
+  const [hasSignal, setHasSignal] = useState(true);
+  // Read inside fetchDeliveries without making every queue change refetch the manifest
+  const queuedRef = useRef<QueuedDeliveryAction[]>([]);
+  const hasFreshManifest = useRef(false);
 
   // Swipe animation
   const swipeAnim = useRef(new Animated.Value(0)).current;
@@ -102,7 +158,8 @@ export default function DriverDeliveries() {
             toValue: width - 80,
             useNativeDriver: false,
           }).start(() => {
-            takePhoto();
+            // The dabba label is scanned before any proof photo
+            setScanStage('deliver');
             swipeAnim.setValue(0);
           });
         } else {
@@ -115,8 +172,39 @@ export default function DriverDeliveries() {
     })
   ).current;
 
-  // Request location permission and start tracking
+  const onShift = !!shift;
+
+  const saveShift = (next: Shift | null) => {
+    setShift(next);
+    const write = next
+      ? AsyncStorage.setItem(SHIFT_STORAGE_KEY, JSON.stringify(next))
+      : AsyncStorage.removeItem(SHIFT_STORAGE_KEY);
+    write.catch(e => console.log('Could not save shift:', e));
+  };
+
+  // Restore the shift from the phone first, then let the server correct it
+  useEffect(() => {
+    (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(SHIFT_STORAGE_KEY);
+        if (stored) setShift(JSON.parse(stored));
+      } catch (e) {
+        console.log('Could not read saved shift:', e);
+      }
+      setShiftLoaded(true);
+      try {
+        const response = await driverAPI.getShift();
+        saveShift(response.data.shift);
+      } catch {
+        // No signal - keep the saved shift until we can check
+      }
+    })();
+  }, []);
+
+  // Track location only while on shift; clocking out removes the watch entirely
   useEffect(() => {
+    if (!onShift) return;
+    let cancelled = false;
     let locationSubscription: Location.LocationSubscription | null = null;
     
     (async () => {
@@ -131,6 +219,7 @@ export default function DriverDeliveries() {
         const location = await Location.getCurrentPositionAsync({
           accuracy: Location.Accuracy.Balanced,
         });
+        if (cancelled) return;
         setDriverLocation({
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
@@ -147,7 +236,7 @@ export default function DriverDeliveries() {
         }
         
         // Start continuous location tracking
-        locationSubscription = await Location.watchPositionAsync(
+        const subscription = await Location.watchPositionAsync(
           {
             accuracy: Location.Accuracy.Balanced,
             distanceInterval: 50, // Update every 50 meters
@@ -169,16 +258,52 @@ export default function DriverDeliveries() {
             }
           }
         );
+        if (cancelled) {
+          subscription.remove();
+        } else {
+          locationSubscription = subscription;
+        }
       } catch (error) {
-        setDriverLocation({ latitude: 44.6488, longitude: -63.5752 });
+        if (!cancelled) setDriverLocation({ latitude: 44.6488, longitude: -63.5752 });
       }
     })();
     
     return () => {
+      cancelled = true;
       if (locationSubscription) {
         locationSubscription.remove();
       }
+      setDriverLocation(null);
     };
+  }, [onShift]);
+
+  useEffect(() => {
+    queuedRef.current = queuedActions;
+  }, [queuedActions]);
+
+  // Stops already done on this phone stay done until the server has caught up
+  const applyQueue = (list: Delivery[]) => {
+    const queuedIds = new Set(queuedRef.current.map(a => a.deliveryId));
+    return list.filter(d =>
+      d.status !== 'delivered' && d.status !== 'failed' && !queuedIds.has(d.delivery_id || d.id)
+    );
+  };
+
+  const queuedDeliveredCount = () => queuedRef.current.filter(a => a.status === 'delivered').length;
+
+  // Show the last manifest straight away; a basement start may never get a location fix or a response
+  useEffect(() => {
+    (async () => {
+      const queue = await getQueuedActions();
+      queuedRef.current = queue;
+      setQueuedActions(queue);
+      const cached = await loadCachedManifest<Delivery>();
+      if (!cached || hasFreshManifest.current) return;
+      setAllDeliveries(cached.deliveries);
+      setPendingDeliveries(applyQueue(cached.deliveries));
+      setCompletedToday(cached.completed + queuedDeliveredCount());
+      setIsLoading(false);
+    })();
   }, []);
 
   const fetchDeliveries = useCallback(async () => {
@@ -206,18 +331,21 @@ export default function DriverDeliveries() {
           distance: d.distance_km,
           estimated_time: d.eta_minutes,
           eta_time: d.eta_time,
+          eta_adjustment: d.eta_adjustment_minutes,
           latitude: d.latitude,
           longitude: d.longitude,
           is_priority: d.is_priority,
           dabba_ready: d.dabba_ready,
+          loaded: d.loaded,
+          arrived: d.arrived,
           special_instructions: d.special_instructions,
         }));
         
+        hasFreshManifest.current = true;
         setAllDeliveries(deliveryList);
-        setPendingDeliveries(deliveryList.filter((d: any) => 
-          d.status !== 'delivered' && d.status !== 'failed'
-        ));
-        setCompletedToday(manifestData.completed || 0);
+        setPendingDeliveries(applyQueue(deliveryList));
+        setCompletedToday((manifestData.completed || 0) + queuedDeliveredCount());
+        saveCachedManifest(deliveryList, manifestData.completed || 0);
       }
     } catch (error) {
       // Fallback to regular API
@@ -227,10 +355,19 @@ export default function DriverDeliveries() {
           driverLocation?.longitude
         );
         let deliveryList = response.data.deliveries || [];
+        hasFreshManifest.current = true;
         setAllDeliveries(deliveryList);
-        setPendingDeliveries(deliveryList.filter((d: Delivery) => d.status === 'pending'));
+        setPendingDeliveries(applyQueue(deliveryList.filter((d: Delivery) => d.status === 'pending')));
       } catch (e) {
-        console.error('Error fetching deliveries:', e);
+        // No signal - keep working from the cached manifest
+        const cached = await loadCachedManifest<Delivery>();
+        if (cached && !hasFreshManifest.current) {
+          setAllDeliveries(cached.deliveries);
+          setPendingDeliveries(applyQueue(cached.deliveries));
+          setCompletedToday(cached.completed + queuedDeliveredCount());
+        } else if (!cached) {
+          console.error('Error fetching deliveries:', e);
+        }
       }
     } finally {
       setIsLoading(false);
@@ -244,12 +381,127 @@ export default function DriverDeliveries() {
     }
   }, [fetchDeliveries, driverLocation]);
 
+  const isLive = useRealtimeStatus();
+
+  // Poll only while the socket is down; otherwise the kitchen pushes changes
+  useEffect(() => {
+    if (isLive) return;
+    const interval = setInterval(fetchDeliveries, 30000);
+    return () => clearInterval(interval);
+  }, [fetchDeliveries, isLive]);
+
+  useRealtimeEvent('dabba_ready', ({ delivery_id }) => {
+    const markReady = (list: Delivery[]) => list.map(d =>
+      (d.delivery_id || d.id) === delivery_id ? { ...d, dabba_ready: true } : d
+    );
+    setAllDeliveries(markReady);
+    setPendingDeliveries(markReady);
+  });
+
+  useRealtimeEvent('delivery_update', ({ delivery_id, status }) => {
+    setAllDeliveries(prev => prev.map(d =>
+      (d.delivery_id || d.id) === delivery_id ? { ...d, status } : d
+    ));
+    setPendingDeliveries(prev => prev
+      .map(d => (d.delivery_id || d.id) === delivery_id ? { ...d, status } : d)
+      .filter(d => d.status !== 'delivered' && d.status !== 'failed')
+    );
+  });
+
+  // Skips and reindexing reshuffle the stop order
+  useRealtimeEvent('manifest_update', () => {
+    fetchDeliveries();
+  });
+
+  // ETAs include the kitchen's weather delay
+  useRealtimeEvent('weather_update', () => {
+    fetchDeliveries();
+  });
+
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     fetchDeliveries();
   }, [fetchDeliveries]);
 
+  const handleFlushResult = useCallback(({ rejected, remaining }: FlushResult) => {
+    queuedRef.current = remaining;
+    setQueuedActions(remaining);
+    if (rejected.length === 0) return;
+
+    // Undo the optimistic counts; the refetch puts the stops back on the route
+    const rejectedFailures = rejected.filter(r => r.action.status === 'failed').length;
+    setCompletedToday(prev => Math.max(0, prev - (rejected.length - rejectedFailures)));
+    setFailedToday(prev => Math.max(0, prev - rejectedFailures));
+    Alert.alert(
+      'Not Synced',
+      rejected
+        .map(r => `#${r.action.stopNumber ?? '?'} ${r.action.customerName || ''}: ${r.message}`)
+        .join('\n')
+    );
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  // Covers the queue's own backoff retries as well as the flushes started here
+  useEffect(() => subscribeToQueueFlush(handleFlushResult), [handleFlushResult]);
+
+  const syncQueue = useCallback(async () => {
+    await flushDeliveryQueue();
+  }, []);
+
+  useEffect(() => {
+    return NetInfo.addEventListener(state => {
+      setHasSignal(state.isConnected !== false && state.isInternetReachable !== false);
+    });
+  }, []);
+
+  // Replay whatever queued up as soon as the phone is back online
+  useEffect(() => {
+    if (hasSignal) syncQueue();
+  }, [hasSignal, syncQueue]);
+
+  useRealtimeEvent('connected', () => {
+    syncQueue();
+  });
+
   const currentDelivery = pendingDeliveries[0];
+  const loadedCount = pendingDeliveries.filter(d => d.loaded).length;
+  const allLoaded = loadedCount === pendingDeliveries.length;
+
+  const deliveryKey = (delivery: Delivery) => delivery.delivery_id || delivery.id;
+
+  // Completions and failures land in the persistent queue first, so a lost signal never loses a stop
+  const queueAction = async (
+    delivery: Delivery,
+    status: QueuedDeliveryStatus,
+    extra: { scannedDeliveryId?: string; photoUri?: string; failure?: DeliveryFailureDetails } = {}
+  ) => {
+    const deliveryId = deliveryKey(delivery);
+    const queue = await enqueueDeliveryAction({
+      deliveryId,
+      status,
+      scannedDeliveryId: extra.scannedDeliveryId,
+      failure: extra.failure,
+      stopNumber: delivery.delivery_number,
+      customerName: delivery.customer_name,
+    }, extra.photoUri);
+    queuedRef.current = queue;
+    setQueuedActions(queue);
+    if (status === 'delivered') {
+      setCompletedToday(prev => prev + 1);
+    } else {
+      setFailedToday(prev => prev + 1);
+    }
+    setPendingDeliveries(prev => prev.filter(d => deliveryKey(d) !== deliveryId));
+    syncQueue();
+  };
+
+  const markLoaded = (deliveryId: string) => {
+    const update = (list: Delivery[]) => list.map(d =>
+      deliveryKey(d) === deliveryId ? { ...d, loaded: true } : d
+    );
+    setAllDeliveries(update);
+    setPendingDeliveries(update);
+  };
 
   const handleCall = (phone: string) => {
     Linking.openURL(`tel:${phone}`);
@@ -296,6 +548,182 @@ export default function DriverDeliveries() {
     );
   };
 
+  // Server state covers a restarted app; local progress covers taps that haven't round-tripped yet
+  const stageOf = (delivery: Delivery): 'pending' | StopProgress => {
+    const local = stopProgress[deliveryKey(delivery)];
+    if (local === 'arrived' || delivery.arrived) return 'arrived';
+    if (local === 'en_route' || delivery.status === 'out_for_delivery') return 'en_route';
+    return 'pending';
+  };
+
+  const currentStage = currentDelivery ? stageOf(currentDelivery) : 'pending';
+
+  const handleClockIn = async () => {
+    setIsShiftBusy(true);
+    try {
+      const response = await driverAPI.clockIn();
+      saveShift(response.data.shift);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Could not clock in');
+    } finally {
+      setIsShiftBusy(false);
+    }
+  };
+
+  const pickUp = async () => {
+    setIsShiftBusy(true);
+    try {
+      const loadedIds = pendingDeliveries.filter(d => d.loaded).map(deliveryKey);
+      const response = await driverAPI.confirmPickup(loadedIds);
+      saveShift(response.data.shift);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Could not confirm pickup');
+    } finally {
+      setIsShiftBusy(false);
+    }
+  };
+
+  const handleConfirmPickup = () => {
+    if (!allLoaded) {
+      const missing = pendingDeliveries.length - loadedCount;
+      Alert.alert(
+        'Dabbas Not Loaded',
+        `${missing} ${missing === 1 ? 'dabba has' : 'dabbas have'} not been scanned into the car yet.`,
+        [
+          { text: 'Scan Now', onPress: () => setScanStage('load') },
+          { text: 'Leave Anyway', style: 'destructive', onPress: pickUp },
+        ]
+      );
+      return;
+    }
+    pickUp();
+  };
+
+  const clockOut = async () => {
+    setIsShiftBusy(true);
+    try {
+      // Get the queued stops in first so they count towards the summary
+      if (hasSignal) await syncQueue();
+      const response = await driverAPI.clockOut();
+      saveShift(null);
+      setStopProgress({});
+      setShiftSummary(response.data.summary);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Could not clock out');
+    } finally {
+      setIsShiftBusy(false);
+    }
+  };
+
+  const handleClockOut = () => {
+    const warnings = [
+      pendingDeliveries.length > 0 &&
+        `${pendingDeliveries.length} ${pendingDeliveries.length === 1 ? 'stop is' : 'stops are'} still on your route.`,
+      queuedActions.length > 0 &&
+        `${queuedActions.length} ${queuedActions.length === 1 ? 'update has' : 'updates have'} not synced yet.`,
+    ].filter(Boolean);
+    Alert.alert(
+      'Clock Out?',
+      warnings.length > 0 ? warnings.join('\n') : 'This ends your shift and stops sharing your location.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clock Out', style: warnings.length > 0 ? 'destructive' : 'default', onPress: clockOut },
+      ]
+    );
+  };
+
+  const startStop = (delivery: Delivery) => {
+    if (shift?.status !== 'en_route') {
+      Alert.alert('Pick Up First', 'Confirm pickup at the kitchen before starting your first stop.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Confirm Pickup', onPress: handleConfirmPickup },
+      ]);
+      return;
+    }
+    const deliveryId = deliveryKey(delivery);
+    setStopProgress(prev => ({ ...prev, [deliveryId]: 'en_route' }));
+    recordStopStart(deliveryId, delivery.estimated_time, delivery.eta_adjustment);
+    // Tells the customer their dabba is on the way; the stop carries on without it
+    driverAPI.startDelivery(deliveryId).catch(e => console.log('Start not recorded:', e));
+    handleNavigate(delivery.address);
+  };
+
+  const arriveAtStop = (delivery: Delivery) => {
+    const deliveryId = deliveryKey(delivery);
+    setStopProgress(prev => ({ ...prev, [deliveryId]: 'arrived' }));
+    recordStopArrival(deliveryId);
+    driverAPI.arriveDelivery(deliveryId).catch(e => console.log('Arrival not recorded:', e));
+  };
+
+  const handleLoadScan = async (deliveryId: string): Promise<ScanResult> => {
+    const delivery = pendingDeliveries.find(d => deliveryKey(d) === deliveryId);
+    if (!delivery) {
+      return { ok: false, message: 'This dabba is not on your remaining route' };
+    }
+    if (delivery.loaded) {
+      return { ok: true, message: `#${delivery.delivery_number} ${delivery.customer_name} is already loaded` };
+    }
+    try {
+      await driverAPI.scanDabba(deliveryId, 'load');
+      markLoaded(deliveryId);
+      return {
+        ok: true,
+        message: loadedCount + 1 === pendingDeliveries.length
+          ? 'All dabbas loaded - ready to go!'
+          : `Loaded #${delivery.delivery_number} ${delivery.customer_name}`,
+      };
+    } catch (error: any) {
+      return { ok: false, message: error.response?.data?.detail || 'Could not verify this dabba' };
+    }
+  };
+
+  const handleDoorScan = async (deliveryId: string): Promise<ScanResult> => {
+    if (!currentDelivery) {
+      return { ok: false, message: 'No delivery in progress' };
+    }
+    if (deliveryId !== deliveryKey(currentDelivery)) {
+      const other = allDeliveries.find(d => deliveryKey(d) === deliveryId);
+      return {
+        ok: false,
+        message: other
+          ? `Wrong dabba - this one is #${other.delivery_number} for ${other.customer_name}`
+          : 'Wrong dabba - it is not for this stop',
+      };
+    }
+
+    // The match above is the check that matters; the server record is for the audit trail
+    driverAPI.scanDabba(deliveryId, 'deliver').catch(e => console.log('Door scan not recorded:', e));
+    setScannedDeliveryId(deliveryId);
+    setScanStage(null);
+    // Let the scanner finish closing before presenting the next sheet
+    setTimeout(() => promptProof(deliveryId), 500);
+    return { ok: true, message: 'Dabba matches this stop' };
+  };
+
+  const promptProof = (deliveryId: string) => {
+    Alert.alert(
+      'Mark as Delivered',
+      'Dabba verified. Confirm this delivery is complete?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Take Photo', onPress: takePhoto },
+        { 
+          text: 'Delivered (No Photo)', 
+          onPress: async () => {
+            if (!currentDelivery) return;
+            try {
+              await queueAction(currentDelivery, 'delivered', { scannedDeliveryId: deliveryId });
+              setScannedDeliveryId(null);
+              Alert.alert('Success', 'Delivery marked as complete!');
+            } catch (error) {
+              Alert.alert('Error', 'Could not save this delivery on the phone');
+            }
+          }
+        },
+      ]
+    );
+  };
+
   const takePhoto = async () => {
     const { status } = await ImagePicker.requestCameraPermissionsAsync();
     if (status !== 'granted') {
@@ -307,33 +735,25 @@ export default function DriverDeliveries() {
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
       allowsEditing: false,
       quality: 0.5,
-      base64: true,
     });
 
     if (!result.canceled && result.assets[0]) {
       setDeliveryPhoto(result.assets[0].uri);
-      setDeliveryPhotoBase64(result.assets[0].base64 || null);
       setShowPhotoModal(true);
     }
   };
 
   const confirmDelivery = async () => {
-    if (!deliveryPhoto || !currentDelivery) return;
+    if (!deliveryPhoto || !currentDelivery || !scannedDeliveryId) return;
 
     setIsSubmitting(true);
     try {
-      await driverAPI.updateDeliveryStatus(
-        currentDelivery.id,
-        'delivered',
-        deliveryPhotoBase64 || undefined
-      );
-      setCompletedToday(prev => prev + 1);
-      setPendingDeliveries(prev => prev.slice(1));
+      await queueAction(currentDelivery, 'delivered', { scannedDeliveryId, photoUri: deliveryPhoto });
       setShowPhotoModal(false);
       setDeliveryPhoto(null);
-      setDeliveryPhotoBase64(null);
+      setScannedDeliveryId(null);
     } catch (error) {
-      Alert.alert('Error', 'Could not update delivery status');
+      Alert.alert('Error', 'Could not save this delivery on the phone');
     } finally {
       setIsSubmitting(false);
     }
@@ -341,21 +761,17 @@ export default function DriverDeliveries() {
 
   const markFailed = () => {
     if (!currentDelivery) return;
-    Alert.alert('Unable to Deliver?', 'Select a reason:', [
-      { text: 'Cancel', style: 'cancel' },
-      { text: 'Customer Unavailable', onPress: () => processFailure('unavailable') },
-      { text: 'Wrong Address', onPress: () => processFailure('wrong_address') },
-      { text: 'Other', onPress: () => processFailure('other') },
-    ]);
+    setShowFailureSheet(true);
   };
 
-  const processFailure = async (reason: string) => {
+  const processFailure = async (failure: DeliveryFailureDetails, photoUri?: string) => {
+    if (!currentDelivery) return;
+    setShowFailureSheet(false);
     try {
-      await driverAPI.updateDeliveryStatus(currentDelivery!.id, 'failed');
-      setFailedToday(prev => prev + 1);
-      setPendingDeliveries(prev => prev.slice(1));
+      // A dabba left with a neighbour or concierge still counts as delivered
+      await queueAction(currentDelivery, failure.leftWith ? 'delivered' : 'failed', { failure, photoUri });
     } catch (error) {
-      Alert.alert('Error', 'Could not update status');
+      Alert.alert('Error', 'Could not save this status on the phone');
     }
   };
 
@@ -364,7 +780,7 @@ export default function DriverDeliveries() {
     outputRange: [COLORS.surfaceLight, COLORS.primary],
   });
 
-  if (isLoading) {
+  if (!shiftLoaded || (onShift && isLoading)) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={COLORS.primary} />
@@ -390,12 +806,13 @@ export default function DriverDeliveries() {
             </View>
           </View>
           <TouchableOpacity
-            style={[styles.onlineToggle, isOnline ? styles.onlineActive : styles.onlineInactive]}
-            onPress={() => setIsOnline(!isOnline)}
+            style={[styles.onlineToggle, onShift ? styles.onlineActive : styles.onlineInactive]}
+            onPress={onShift ? handleClockOut : handleClockIn}
+            disabled={isShiftBusy}
           >
-            <View style={[styles.onlineDot, isOnline && styles.onlineDotActive]} />
-            <Text style={[styles.onlineText, isOnline && styles.onlineTextActive]}>
-              {isOnline ? 'Online' : 'Offline'}
+            <View style={[styles.onlineDot, onShift && styles.onlineDotActive]} />
+            <Text style={[styles.onlineText, onShift && styles.onlineTextActive]}>
+              {!shift ? 'Clock In' : shift.status === 'en_route' ? 'En Route' : 'At Kitchen'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -431,8 +848,59 @@ export default function DriverDeliveries() {
         }
         showsVerticalScrollIndicator={false}
       >
-        {currentDelivery && isOnline ? (
+        {/* Sync Status - no signal, or stops done on the phone the server hasn't seen yet */}
+        {(!hasSignal || queuedActions.length > 0) && (
+          <TouchableOpacity
+            style={[styles.syncCard, !hasSignal && styles.syncCardOffline]}
+            onPress={syncQueue}
+            disabled={!hasSignal}
+          >
+            <Ionicons
+              name={hasSignal ? 'cloud-upload-outline' : 'cloud-offline-outline'}
+              size={22}
+              color={hasSignal ? COLORS.primary : COLORS.warning}
+            />
+            <View style={styles.syncInfo}>
+              <Text style={styles.syncTitle}>
+                {hasSignal ? 'Syncing deliveries' : 'No signal - working offline'}
+              </Text>
+              <Text style={styles.syncSubtitle}>
+                {queuedActions.length === 0
+                  ? 'Your route is saved on this phone'
+                  : `${queuedActions.length} ${queuedActions.length === 1 ? 'update' : 'updates'} waiting to sync${hasSignal ? ' - tap to retry' : ''}`}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        )}
+
+        {currentDelivery && onShift ? (
           <>
+            {/* Pickup - scan every dabba into the car, then confirm before leaving the kitchen */}
+            {shift?.status === 'clocked_in' && (
+              <View style={styles.pickupCard}>
+                <TouchableOpacity style={styles.loadCard} onPress={() => setScanStage('load')}>
+                  <View style={styles.loadIcon}>
+                    <Ionicons name="qr-code" size={24} color={COLORS.textDark} />
+                  </View>
+                  <View style={styles.loadInfo}>
+                    <Text style={styles.loadTitle}>{allLoaded ? 'All dabbas loaded' : 'Scan dabbas to load'}</Text>
+                    <Text style={styles.loadSubtitle}>
+                      {loadedCount} of {pendingDeliveries.length} loaded
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={22} color={COLORS.textMuted} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.pickupButton, isShiftBusy && styles.buttonDisabled]}
+                  onPress={handleConfirmPickup}
+                  disabled={isShiftBusy}
+                >
+                  <Ionicons name="bag-check" size={22} color={COLORS.textDark} />
+                  <Text style={styles.pickupButtonText}>Confirm Pickup</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
             {/* Current Delivery Card */}
             <View style={styles.currentDeliveryCard}>
               <View style={styles.deliveryHeader}>
@@ -495,46 +963,43 @@ export default function DriverDeliveries() {
                 <Ionicons name="chevron-forward" size={24} color={COLORS.textMuted} />
               </TouchableOpacity>
 
-              {/* Navigation Button */}
-              <TouchableOpacity
-                style={styles.navigateButton}
-                onPress={() => handleNavigate(currentDelivery.address)}
-              >
-                <Ionicons name="navigate" size={22} color={COLORS.card} />
-                <Text style={styles.navigateButtonText}>Start Navigation</Text>
-              </TouchableOpacity>
-
-              {/* Deliver Button - Primary Action */}
-              <TouchableOpacity
-                style={styles.deliverButton}
-                onPress={() => {
-                  Alert.alert(
-                    'Mark as Delivered',
-                    'Confirm this delivery is complete?',
-                    [
-                      { text: 'Cancel', style: 'cancel' },
-                      { text: 'Take Photo', onPress: takePhoto },
-                      { 
-                        text: 'Delivered (No Photo)', 
-                        onPress: async () => {
-                          if (!currentDelivery) return;
-                          try {
-                            await driverAPI.updateDeliveryStatus(currentDelivery.id, 'delivered');
-                            setCompletedToday(prev => prev + 1);
-                            setPendingDeliveries(prev => prev.slice(1));
-                            Alert.alert('Success', 'Delivery marked as complete!');
-                          } catch (error) {
-                            Alert.alert('Error', 'Could not update delivery status');
-                          }
-                        }
-                      },
-                    ]
-                  );
-                }}
-              >
-                <Ionicons name="checkmark-circle" size={24} color={COLORS.card} />
-                <Text style={styles.deliverButtonText}>Mark as Delivered</Text>
-              </TouchableOpacity>
+              {/* Stop Actions - start, arrive, then scan at the door */}
+              {currentStage === 'pending' && (
+                <TouchableOpacity
+                  style={styles.deliverButton}
+                  onPress={() => startStop(currentDelivery)}
+                >
+                  <Ionicons name="navigate" size={24} color={COLORS.card} />
+                  <Text style={styles.deliverButtonText}>Start Stop</Text>
+                </TouchableOpacity>
+              )}
+              {currentStage === 'en_route' && (
+                <>
+                  <TouchableOpacity
+                    style={styles.navigateButton}
+                    onPress={() => handleNavigate(currentDelivery.address)}
+                  >
+                    <Ionicons name="map" size={22} color={COLORS.card} />
+                    <Text style={styles.navigateButtonText}>Open Maps</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.deliverButton}
+                    onPress={() => arriveAtStop(currentDelivery)}
+                  >
+                    <Ionicons name="location" size={24} color={COLORS.card} />
+                    <Text style={styles.deliverButtonText}>I&apos;ve Arrived</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              {currentStage === 'arrived' && (
+                <TouchableOpacity
+                  style={styles.deliverButton}
+                  onPress={() => setScanStage('deliver')}
+                >
+                  <Ionicons name="qr-code" size={24} color={COLORS.card} />
+                  <Text style={styles.deliverButtonText}>Scan Dabba to Deliver</Text>
+                </TouchableOpacity>
+              )}
 
               {/* Unable to Deliver */}
               <TouchableOpacity style={styles.failButton} onPress={markFailed}>
@@ -569,6 +1034,11 @@ export default function DriverDeliveries() {
                             <Text style={styles.readyBadgeText}>Ready</Text>
                           </View>
                         )}
+                        {!delivery.loaded && (
+                          <View style={styles.notLoadedBadge}>
+                            <Text style={styles.notLoadedBadgeText}>Not loaded</Text>
+                          </View>
+                        )}
                       </View>
                       <Text style={styles.upcomingAddress} numberOfLines={1}>
                         {delivery.address}
@@ -588,15 +1058,19 @@ export default function DriverDeliveries() {
               </View>
             )}
           </>
-        ) : !isOnline ? (
+        ) : !onShift ? (
           <View style={styles.offlineState}>
             <View style={styles.offlineIcon}>
               <Ionicons name="moon" size={64} color={COLORS.textMuted} />
             </View>
-            <Text style={styles.offlineTitle}>You&apos;re Offline</Text>
-            <Text style={styles.offlineSubtitle}>Go online to start receiving deliveries</Text>
-            <TouchableOpacity style={styles.goOnlineButton} onPress={() => setIsOnline(true)}>
-              <Text style={styles.goOnlineButtonText}>Go Online</Text>
+            <Text style={styles.offlineTitle}>You&apos;re Off Shift</Text>
+            <Text style={styles.offlineSubtitle}>Clock in at the kitchen to start your route</Text>
+            <TouchableOpacity
+              style={[styles.goOnlineButton, isShiftBusy && styles.buttonDisabled]}
+              onPress={handleClockIn}
+              disabled={isShiftBusy}
+            >
+              <Text style={styles.goOnlineButtonText}>Clock In</Text>
             </TouchableOpacity>
           </View>
         ) : (
@@ -618,10 +1092,128 @@ export default function DriverDeliveries() {
                 </View>
               </View>
             </View>
+            <TouchableOpacity
+              style={[styles.goOnlineButton, styles.clockOutButton, isShiftBusy && styles.buttonDisabled]}
+              onPress={handleClockOut}
+              disabled={isShiftBusy}
+            >
+              <Text style={styles.goOnlineButtonText}>Clock Out</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Pending Sync - one row per stop still in the offline queue */}
+        {queuedActions.length > 0 && (
+          <View style={styles.upcomingSection}>
+            <View style={styles.manifestHeader}>
+              <Text style={styles.upcomingTitle}>Waiting to Sync</Text>
+              <Text style={styles.manifestCount}>{queuedActions.length} pending</Text>
+            </View>
+            {queuedActions.map(action => (
+              <View key={action.key} style={styles.upcomingCard}>
+                <View style={styles.upcomingNumber}>
+                  <Text style={styles.upcomingNumberText}>{action.stopNumber ?? '-'}</Text>
+                </View>
+                <View style={styles.upcomingInfo}>
+                  <View style={styles.upcomingNameRow}>
+                    <Text style={styles.upcomingName}>{action.customerName || 'Delivery'}</Text>
+                    <View style={styles.pendingSyncBadge}>
+                      <Ionicons name="sync" size={12} color={COLORS.warning} />
+                      <Text style={styles.pendingSyncBadgeText}>Pending sync</Text>
+                    </View>
+                  </View>
+                  <Text style={styles.upcomingAddress} numberOfLines={1}>
+                    {action.failure?.leftWith
+                      ? `Left with ${action.failure.leftWith}`
+                      : action.status === 'delivered' ? 'Delivered' : 'Unable to deliver'}
+                    {action.photoPath ? ' · with photo' : ''}
+                  </Text>
+                  {action.lastError && (
+                    <Text style={styles.specialInstructions} numberOfLines={1}>
+                      Last try: {action.lastError}
+                    </Text>
+                  )}
+                </View>
+                <View style={styles.upcomingMeta}>
+                  <Text style={styles.upcomingEta}>
+                    {new Date(action.queuedAt).toLocaleTimeString('en-CA', { hour: 'numeric', minute: '2-digit' })}
+                  </Text>
+                </View>
+              </View>
+            ))}
           </View>
         )}
       </ScrollView>
 
+      <FailureSheet
+        visible={showFailureSheet}
+        stopLabel={currentDelivery ? `Stop #${currentDelivery.delivery_number} · ${currentDelivery.customer_name}` : undefined}
+        onSubmit={processFailure}
+        onClose={() => setShowFailureSheet(false)}
+      />
+
+      <DabbaScanner
+        visible={scanStage !== null}
+        title={scanStage === 'load' ? 'Load Dabbas' : 'Scan Dabba'}
+        subtitle={
+          scanStage === 'load'
+            ? 'Scan each dabba as it goes into the car'
+            : currentDelivery
+              ? `Stop #${currentDelivery.delivery_number} · ${currentDelivery.customer_name}`
+              : undefined
+        }
+        progress={scanStage === 'load' ? { done: loadedCount, total: pendingDeliveries.length } : undefined}
+        onScan={scanStage === 'load' ? handleLoadScan : handleDoorScan}
+        onClose={() => setScanStage(null)}
+      />
+
+      {/* End of Shift Summary */}
+      <Modal visible={shiftSummary !== null} transparent animationType="slide">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Shift Complete</Text>
+              <TouchableOpacity onPress={() => setShiftSummary(null)}>
+                <Ionicons name="close" size={28} color={COLORS.text} />
+              </TouchableOpacity>
+            </View>
+            {shiftSummary && (
+              <View style={[styles.summaryCard, styles.shiftSummaryCard]}>
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>{shiftSummary.delivered}</Text>
+                    <Text style={styles.summaryLabel}>Delivered</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>{shiftSummary.left_with}</Text>
+                    <Text style={styles.summaryLabel}>Left With</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>{shiftSummary.failed}</Text>
+                    <Text style={styles.summaryLabel}>Failed</Text>
+                  </View>
+                </View>
+                <View style={[styles.summaryRow, styles.shiftSummaryRow]}>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>
+                      {Math.floor(shiftSummary.duration_minutes / 60)}h {shiftSummary.duration_minutes % 60}m
+                    </Text>
+                    <Text style={styles.summaryLabel}>On Shift</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>{shiftSummary.minutes_per_stop ?? '-'}</Text>
+                    <Text style={styles.summaryLabel}>Min / Stop</Text>
+                  </View>
+                </View>
+              </View>
+            )}
+            <TouchableOpacity style={styles.goOnlineButton} onPress={() => setShiftSummary(null)}>
+              <Text style={styles.goOnlineButtonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
       {/* Photo Confirmation Modal */}
       <Modal visible={showPhotoModal} transparent animationType="slide">
         <View style={styles.modalOverlay}>
@@ -798,6 +1390,82 @@ const styles = StyleSheet.create({
     paddingTop: 24,
     paddingBottom: 100,
   },
+  syncCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  syncCardOffline: {
+    borderColor: COLORS.warning,
+  },
+  syncInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  syncTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  syncSubtitle: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  pickupCard: {
+    marginBottom: 16,
+  },
+  loadCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: COLORS.warning,
+  },
+  pickupButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.primary,
+    paddingVertical: 16,
+    borderRadius: 14,
+    gap: 8,
+  },
+  pickupButtonText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: COLORS.textDark,
+  },
+  loadIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: COLORS.warning,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  loadInfo: {
+    flex: 1,
+  },
+  loadTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  loadSubtitle: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
   currentDeliveryCard: {
     backgroundColor: COLORS.card,
     borderRadius: 24,
@@ -1121,6 +1789,33 @@ const styles = StyleSheet.create({
     color: COLORS.success,
     fontWeight: '600',
   },
+  notLoadedBadge: {
+    backgroundColor: 'rgba(255, 149, 0, 0.15)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginLeft: 4,
+  },
+  notLoadedBadgeText: {
+    fontSize: 10,
+    color: COLORS.warning,
+    fontWeight: '600',
+  },
+  pendingSyncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 149, 0, 0.15)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginLeft: 4,
+  },
+  pendingSyncBadgeText: {
+    fontSize: 10,
+    color: COLORS.warning,
+    fontWeight: '600',
+    marginLeft: 2,
+  },
   offlineState: {
     alignItems: 'center',
     paddingTop: 80,
@@ -1155,6 +1850,10 @@ const styles = StyleSheet.create({
     fontSize: 17,
     fontWeight: '700',
     color: COLORS.textDark,
+    textAlign: 'center',
+  },
+  clockOutButton: {
+    marginTop: 24,
   },
   emptyState: {
     alignItems: 'center',
@@ -1187,6 +1886,13 @@ const styles = StyleSheet.create({
   summaryItem: {
     alignItems: 'center',
   },
+  shiftSummaryCard: {
+    backgroundColor: COLORS.surfaceLight,
+    marginBottom: 20,
+  },
+  shiftSummaryRow: {
+    marginTop: 20,
+  },
   summaryValue: {
     fontSize: 36,
     fontWeight: '700',
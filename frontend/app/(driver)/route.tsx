@@ -0,0 +1,663 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from 'expo-router';
+import * as Location from 'expo-location';
+import { driverAPI } from '../../src/services/api';
+import { useRealtimeEvent } from '../../src/services/realtime';
+import {
+  RoadRoute,
+  estimateLegMinutes,
+  fetchRoadRoute,
+  formatStepDistance,
+  straightLineKm,
+} from '../../src/services/routing';
+import RouteMap from '../../src/components/RouteMap';
+import { MapPoint } from '../../src/components/LeafletMap';
+
+// Same dark theme as the deliveries tab
+const COLORS = {
+  background: '#000000',
+  surface: '#1C1C1E',
+  surfaceLight: '#2C2C2E',
+  card: '#FFFFFF',
+  primary: '#06C167',
+  text: '#FFFFFF',
+  textDark: '#000000',
+  textSecondary: '#8E8E93',
+  textMuted: '#636366',
+  warning: '#FF9500',
+  blue: '#3B82F6',
+  border: '#3A3A3C',
+};
+
+// Halifax downtown, used when location is unavailable
+const FALLBACK_LOCATION: MapPoint = { latitude: 44.6488, longitude: -63.5752 };
+
+const STEPS_PREVIEW = 5;
+
+interface RouteStop {
+  delivery_id: string;
+  sequence?: number;
+  customer_name: string;
+  phone?: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  status?: string;
+  is_priority?: boolean;
+}
+
+export default function DriverRoute() {
+  const [stops, setStops] = useState<RouteStop[]>([]);
+  // Order the manifest is on right now - anything else is unsaved
+  const [savedOrder, setSavedOrder] = useState<string[]>([]);
+  const [weatherDelay, setWeatherDelay] = useState(0);
+  const [location, setLocation] = useState<MapPoint | null>(null);
+  const [roadRoute, setRoadRoute] = useState<RoadRoute | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [showAllSteps, setShowAllSteps] = useState(false);
+
+  const order = useMemo(() => stops.map(s => s.delivery_id), [stops]);
+  const isDirty = order.join(',') !== savedOrder.join(',');
+
+  const getLocation = async (): Promise<MapPoint> => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') return FALLBACK_LOCATION;
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      return { latitude: position.coords.latitude, longitude: position.coords.longitude };
+    } catch {
+      return FALLBACK_LOCATION;
+    }
+  };
+
+  const fetchRoute = useCallback(async (reoptimize = false) => {
+    try {
+      const here = await getLocation();
+      setLocation(here);
+      const response = await driverAPI.getOptimizedRoute(here.latitude, here.longitude, reoptimize);
+      setStops(response.data.route || []);
+      setSavedOrder(response.data.current_order || []);
+      setWeatherDelay(response.data.weather_delay_minutes || 0);
+    } catch (error) {
+      console.error('Error fetching route:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchRoute();
+    }, [fetchRoute])
+  );
+
+  // Don't throw away a reorder the driver hasn't saved yet
+  useRealtimeEvent('manifest_update', () => {
+    if (!isDirty) fetchRoute();
+  });
+
+  useRealtimeEvent('delivery_update', ({ delivery_id, status }) => {
+    if (status === 'delivered' || status === 'failed') {
+      setStops(prev => prev.filter(s => s.delivery_id !== delivery_id));
+      setSavedOrder(prev => prev.filter(id => id !== delivery_id));
+    }
+  });
+
+  // Road geometry and directions follow whatever order is on screen
+  useEffect(() => {
+    if (!location || stops.length === 0) {
+      setRoadRoute(null);
+      return;
+    }
+    let cancelled = false;
+    fetchRoadRoute([location, ...stops]).then(route => {
+      if (!cancelled) setRoadRoute(route);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [location, stops]);
+
+  // Straight-line legs, used per stop and whenever the router is unreachable
+  const legs = useMemo(() => {
+    let from = location || FALLBACK_LOCATION;
+    return stops.map(stop => {
+      const km = straightLineKm(from, stop);
+      from = stop;
+      return { km, minutes: estimateLegMinutes(km) };
+    });
+  }, [location, stops]);
+
+  const totalKm = roadRoute ? roadRoute.distanceKm : Math.round(legs.reduce((sum, l) => sum + l.km, 0) * 10) / 10;
+  // Road durations are pure driving time; add the same per-stop handover the server uses
+  const totalMinutes = roadRoute
+    ? roadRoute.durationMinutes + stops.length * 5 + weatherDelay
+    : legs.reduce((sum, l) => sum + l.minutes, 0) + weatherDelay;
+  const nextSteps = roadRoute?.legs[0]?.steps || [];
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchRoute();
+  }, [fetchRoute]);
+
+  const moveStop = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stops.length) return;
+    setStops(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setShowAllSteps(false);
+  };
+
+  const saveOrder = async () => {
+    setIsSaving(true);
+    try {
+      await driverAPI.saveRouteOrder(order);
+      setSavedOrder(order);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Could not save your route');
+      if (error.response?.status === 409) fetchRoute();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const optimizeFromHere = () => {
+    const run = async () => {
+      setIsOptimizing(true);
+      await fetchRoute(true);
+      setIsOptimizing(false);
+      setShowAllSteps(false);
+    };
+    if (isDirty) {
+      Alert.alert('Optimize Again?', 'This replaces the order you just set.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Optimize', onPress: run },
+      ]);
+      return;
+    }
+    run();
+  };
+
+  const openNextInMaps = () => {
+    const next = stops[0];
+    if (!next) return;
+    Linking.openURL(
+      `https://www.google.com/maps/dir/?api=1&destination=${next.latitude},${next.longitude}&travelmode=driving`
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+        <Text style={styles.loadingText}>Planning your route...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView edges={['top']} style={styles.header}>
+        <Text style={styles.title}>Route</Text>
+        <Text style={styles.subtitle}>
+          {stops.length} {stops.length === 1 ? 'stop' : 'stops'} left
+          {isDirty ? ' · unsaved order' : ''}
+        </Text>
+      </SafeAreaView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.primary} />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {stops.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="map-outline" size={64} color={COLORS.textMuted} />
+            <Text style={styles.emptyTitle}>No stops left</Text>
+            <Text style={styles.emptySubtitle}>Your remaining route shows up here</Text>
+          </View>
+        ) : (
+          <>
+            <RouteMap
+              driver={location}
+              stops={stops.map((s, i) => ({
+                latitude: s.latitude,
+                longitude: s.longitude,
+                label: String(i + 1),
+                priority: s.is_priority,
+              }))}
+              path={roadRoute?.path}
+            />
+
+            {/* Totals */}
+            <View style={styles.totalsRow}>
+              <View style={styles.totalItem}>
+                <Text style={styles.totalValue}>{totalKm}</Text>
+                <Text style={styles.totalLabel}>km total</Text>
+              </View>
+              <View style={styles.totalDivider} />
+              <View style={styles.totalItem}>
+                <Text style={styles.totalValue}>
+                  {totalMinutes >= 60 ? `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m` : `${totalMinutes}m`}
+                </Text>
+                <Text style={styles.totalLabel}>to finish</Text>
+              </View>
+              <View style={styles.totalDivider} />
+              <View style={styles.totalItem}>
+                <Text style={styles.totalValue}>{stops.length}</Text>
+                <Text style={styles.totalLabel}>stops</Text>
+              </View>
+            </View>
+            <Text style={styles.totalsNote}>
+              {roadRoute ? 'Road distance' : 'Straight-line estimate - no route service'}
+              {weatherDelay > 0 ? ` · includes ${weatherDelay} min weather delay` : ''}
+            </Text>
+
+            {/* Actions */}
+            <View style={styles.actionsRow}>
+              <TouchableOpacity
+                style={[styles.optimizeButton, isOptimizing && styles.buttonDisabled]}
+                onPress={optimizeFromHere}
+                disabled={isOptimizing}
+              >
+                {isOptimizing ? (
+                  <ActivityIndicator color={COLORS.text} />
+                ) : (
+                  <>
+                    <Ionicons name="sparkles" size={18} color={COLORS.text} />
+                    <Text style={styles.optimizeButtonText}>Optimize Again From Here</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+            {isDirty && (
+              <TouchableOpacity
+                style={[styles.saveButton, isSaving && styles.buttonDisabled]}
+                onPress={saveOrder}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator color={COLORS.textDark} />
+                ) : (
+                  <>
+                    <Ionicons name="checkmark" size={20} color={COLORS.textDark} />
+                    <Text style={styles.saveButtonText}>Use This Order</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+
+            {/* Turn-by-turn to the next stop */}
+            <View style={styles.directionsCard}>
+              <View style={styles.directionsHeader}>
+                <View style={styles.directionsTitleBlock}>
+                  <Text style={styles.directionsLabel}>NEXT STOP</Text>
+                  <Text style={styles.directionsTitle} numberOfLines={1}>{stops[0].customer_name}</Text>
+                  <Text style={styles.directionsAddress} numberOfLines={1}>{stops[0].address}</Text>
+                </View>
+                <TouchableOpacity style={styles.mapsButton} onPress={openNextInMaps}>
+                  <Ionicons name="navigate" size={20} color={COLORS.card} />
+                </TouchableOpacity>
+              </View>
+              {nextSteps.length === 0 ? (
+                <Text style={styles.noDirections}>
+                  Directions unavailable right now - use the arrow to open your maps app
+                </Text>
+              ) : (
+                <>
+                  {(showAllSteps ? nextSteps : nextSteps.slice(0, STEPS_PREVIEW)).map((step, i) => (
+                    <View key={i} style={styles.stepRow}>
+                      <View style={styles.stepDot} />
+                      <Text style={styles.stepText}>{step.instruction}</Text>
+                      {step.distanceM > 0 && (
+                        <Text style={styles.stepDistance}>{formatStepDistance(step.distanceM)}</Text>
+                      )}
+                    </View>
+                  ))}
+                  {nextSteps.length > STEPS_PREVIEW && (
+                    <TouchableOpacity onPress={() => setShowAllSteps(!showAllSteps)}>
+                      <Text style={styles.stepsToggle}>
+                        {showAllSteps ? 'Show less' : `Show all ${nextSteps.length} steps`}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+            </View>
+
+            {/* Stop order - arrows move a stop up or down */}
+            <Text style={styles.sectionTitle}>Stop Order</Text>
+            {stops.map((stop, index) => {
+              const leg = roadRoute?.legs[index];
+              return (
+                <View key={stop.delivery_id} style={[styles.stopCard, index === 0 && styles.stopCardNext]}>
+                  <View style={[styles.stopNumber, stop.is_priority && styles.stopNumberPriority]}>
+                    <Text style={styles.stopNumberText}>{index + 1}</Text>
+                  </View>
+                  <View style={styles.stopInfo}>
+                    <Text style={styles.stopName} numberOfLines={1}>
+                      {stop.customer_name}
+                      {stop.sequence ? <Text style={styles.stopSequence}>  #{stop.sequence}</Text> : null}
+                    </Text>
+                    <Text style={styles.stopAddress} numberOfLines={1}>{stop.address}</Text>
+                    <Text style={styles.stopLeg}>
+                      {leg ? `${leg.distanceKm} km · ${leg.durationMinutes} min drive` : `${legs[index].km} km · ~${legs[index].minutes} min`}
+                    </Text>
+                  </View>
+                  <View style={styles.moveButtons}>
+                    <TouchableOpacity
+                      style={styles.moveButton}
+                      onPress={() => moveStop(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <Ionicons name="chevron-up" size={20} color={index === 0 ? COLORS.border : COLORS.text} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.moveButton}
+                      onPress={() => moveStop(index, 1)}
+                      disabled={index === stops.length - 1}
+                    >
+                      <Ionicons
+                        name="chevron-down"
+                        size={20}
+                        color={index === stops.length - 1 ? COLORS.border : COLORS.text}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: COLORS.textSecondary,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 80,
+  },
+  emptyTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 15,
+    color: COLORS.textSecondary,
+    marginTop: 6,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    paddingVertical: 16,
+    marginTop: 16,
+  },
+  totalItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  totalValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  totalDivider: {
+    width: 1,
+    height: 32,
+    backgroundColor: COLORS.border,
+  },
+  totalsNote: {
+    fontSize: 12,
+    color: COLORS.textMuted,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  optimizeButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: 14,
+    paddingVertical: 14,
+    gap: 8,
+  },
+  optimizeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.primary,
+    borderRadius: 14,
+    paddingVertical: 16,
+    marginTop: 12,
+    gap: 8,
+  },
+  saveButtonText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: COLORS.textDark,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  directionsCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 16,
+  },
+  directionsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  directionsTitleBlock: {
+    flex: 1,
+  },
+  directionsLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.primary,
+    letterSpacing: 1,
+  },
+  directionsTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 4,
+  },
+  directionsAddress: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  mapsButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: COLORS.blue,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  noDirections: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.surfaceLight,
+  },
+  stepDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: COLORS.primary,
+    marginRight: 12,
+  },
+  stepText: {
+    flex: 1,
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  stepDistance: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginLeft: 8,
+  },
+  stepsToggle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  stopCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 10,
+  },
+  stopCardNext: {
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+  },
+  stopNumber: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: COLORS.surfaceLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  stopNumberPriority: {
+    backgroundColor: COLORS.warning,
+  },
+  stopNumberText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  stopSequence: {
+    fontSize: 13,
+    fontWeight: '400',
+    color: COLORS.textMuted,
+  },
+  stopAddress: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  stopLeg: {
+    fontSize: 12,
+    color: COLORS.textMuted,
+    marginTop: 4,
+  },
+  moveButtons: {
+    marginLeft: 8,
+  },
+  moveButton: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,638 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  Platform,
+  Animated,
+  PanResponder,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { kitchenAPI } from '../../src/services/api';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import {
+  Category,
+  CATEGORY_ICON_OPTIONS,
+  CATEGORY_COLOR_OPTIONS,
+  tintColor,
+  invalidateCategories,
+} from '../../src/services/categories';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  error: '#C41E3A',
+  info: '#1565C0',
+};
+
+// Row height plus gap; drag distance is converted to positions with it
+const ROW_HEIGHT = 68;
+const ROW_GAP = 10;
+const ROW_SLOT = ROW_HEIGHT + ROW_GAP;
+
+interface CategoryRowProps {
+  category: Category;
+  index: number;
+  isDragging: boolean;
+  translateY: Animated.Value;
+  onDragStart: (index: number) => void;
+  onDragMove: (dy: number) => void;
+  onDragEnd: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+const CategoryRow = (props: CategoryRowProps) => {
+  const { category, isDragging, translateY, onEdit, onDelete } = props;
+
+  // The responder is created once, so it reads the latest props through a ref
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => propsRef.current.onDragStart(propsRef.current.index),
+      onPanResponderMove: (_, gesture) => propsRef.current.onDragMove(gesture.dy),
+      onPanResponderRelease: () => propsRef.current.onDragEnd(),
+      onPanResponderTerminate: () => propsRef.current.onDragEnd(),
+    })
+  ).current;
+
+  const color = category.color || COLORS.textLight;
+
+  return (
+    <Animated.View
+      style={[
+        styles.categoryRow,
+        isDragging && styles.categoryRowDragging,
+        isDragging && { transform: [{ translateY }] },
+      ]}
+    >
+      <View {...panResponder.panHandlers} style={styles.dragHandle}>
+        <Ionicons name="reorder-three" size={24} color={COLORS.textLight} />
+      </View>
+      <View style={[styles.categoryIcon, { backgroundColor: tintColor(color) }]}>
+        <Ionicons name={(category.icon || 'restaurant') as any} size={20} color={color} />
+      </View>
+      <View style={styles.categoryInfo}>
+        <Text style={styles.categoryName} numberOfLines={1}>{category.name}</Text>
+        <Text style={styles.categoryMeta}>
+          {category.dish_count || 0} {category.dish_count === 1 ? 'item' : 'items'}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.actionBtn} onPress={onEdit}>
+        <Ionicons name="pencil" size={18} color={COLORS.info} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.actionBtn} onPress={onDelete}>
+        <Ionicons name="trash" size={18} color={COLORS.error} />
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+export default function CategoriesManagement() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [icon, setIcon] = useState(CATEGORY_ICON_OPTIONS[0]);
+  const [color, setColor] = useState(CATEGORY_COLOR_OPTIONS[0]);
+
+  // Drag state lives in refs so moves don't wait on re-renders
+  const translateY = useRef(new Animated.Value(0)).current;
+  const orderRef = useRef<Category[]>([]);
+  const dragRef = useRef({ startIndex: -1, currentIndex: -1 });
+
+  useEffect(() => {
+    orderRef.current = categories;
+  }, [categories]);
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const response = await kitchenAPI.getCategories();
+      setCategories(response.data.categories || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const handleDragStart = (index: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    dragRef.current = { startIndex: index, currentIndex: index };
+    translateY.setValue(0);
+    setDraggingId(orderRef.current[index]?.id || null);
+  };
+
+  const handleDragMove = (dy: number) => {
+    const { startIndex, currentIndex } = dragRef.current;
+    if (startIndex < 0) return;
+
+    const target = Math.max(0, Math.min(orderRef.current.length - 1, Math.round(startIndex + dy / ROW_SLOT)));
+    if (target !== currentIndex) {
+      const next = [...orderRef.current];
+      const [moved] = next.splice(currentIndex, 1);
+      next.splice(target, 0, moved);
+      orderRef.current = next;
+      dragRef.current.currentIndex = target;
+      Haptics.selectionAsync();
+      setCategories(next);
+    }
+    // The row has already moved in the layout; only the leftover offset is animated
+    translateY.setValue(dy - (dragRef.current.currentIndex - startIndex) * ROW_SLOT);
+  };
+
+  const handleDragEnd = async () => {
+    const { startIndex, currentIndex } = dragRef.current;
+    dragRef.current = { startIndex: -1, currentIndex: -1 };
+    Animated.spring(translateY, { toValue: 0, useNativeDriver: true }).start(() => setDraggingId(null));
+
+    if (startIndex < 0 || startIndex === currentIndex) return;
+    const ordered = orderRef.current.map((category, index) => ({ ...category, sort_order: index + 1 }));
+    setCategories(ordered);
+    try {
+      await kitchenAPI.reorderCategories(ordered.map(category => category.id));
+      invalidateCategories();
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to save order');
+      fetchCategories();
+    }
+  };
+
+  const openAddModal = () => {
+    setEditingCategory(null);
+    setName('');
+    setDescription('');
+    setIcon(CATEGORY_ICON_OPTIONS[0]);
+    setColor(CATEGORY_COLOR_OPTIONS[0]);
+    setShowModal(true);
+  };
+
+  const openEditModal = (category: Category) => {
+    setEditingCategory(category);
+    setName(category.name);
+    setDescription(category.description || '');
+    setIcon(category.icon || CATEGORY_ICON_OPTIONS[0]);
+    setColor(category.color || CATEGORY_COLOR_OPTIONS[0]);
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a category name');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const categoryData = {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        icon,
+        color,
+      };
+
+      if (editingCategory) {
+        await kitchenAPI.updateCategory(editingCategory.id, {
+          ...categoryData,
+          sort_order: editingCategory.sort_order,
+        });
+      } else {
+        await kitchenAPI.createCategory({ ...categoryData, sort_order: categories.length + 1 });
+      }
+
+      invalidateCategories();
+      setShowModal(false);
+      fetchCategories();
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to save category');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = (category: Category) => {
+    Alert.alert('Delete Category', `Are you sure you want to delete "${category.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await kitchenAPI.deleteCategory(category.id);
+            invalidateCategories();
+            fetchCategories();
+          } catch (error: any) {
+            Alert.alert('Error', error.response?.data?.detail || 'Failed to delete category');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.title}>Categories</Text>
+          <Text style={styles.subtitle}>Drag to set the menu order</Text>
+        </View>
+        <TouchableOpacity style={styles.addButton} onPress={openAddModal}>
+          <Ionicons name="add" size={24} color={COLORS.card} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        scrollEnabled={!draggingId}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+      >
+        {categories.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="pricetags-outline" size={64} color={COLORS.textLight} />
+            <Text style={styles.emptyText}>No categories yet</Text>
+            <Text style={styles.emptySubtext}>Add one to start grouping your items</Text>
+          </View>
+        ) : (
+          categories.map((category, index) => (
+            <CategoryRow
+              key={category.id}
+              category={category}
+              index={index}
+              isDragging={draggingId === category.id}
+              translateY={translateY}
+              onDragStart={handleDragStart}
+              onDragMove={handleDragMove}
+              onDragEnd={handleDragEnd}
+              onEdit={() => openEditModal(category)}
+              onDelete={() => handleDelete(category)}
+            />
+          ))
+        )}
+      </ScrollView>
+
+      {/* Add/Edit Modal */}
+      <Modal visible={showModal} animationType="slide" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {editingCategory ? 'Edit Category' : 'Add Category'}
+              </Text>
+              <TouchableOpacity onPress={() => setShowModal(false)}>
+                <Ionicons name="close" size={28} color={COLORS.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {/* Preview */}
+              <View style={styles.preview}>
+                <View style={[styles.categoryIcon, { backgroundColor: tintColor(color) }]}>
+                  <Ionicons name={icon as any} size={20} color={color} />
+                </View>
+                <Text style={styles.previewText}>{name.trim() || 'Category name'}</Text>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Name</Text>
+                <TextInput
+                  style={styles.input}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="e.g., Farsan"
+                  placeholderTextColor={COLORS.textLight}
+                />
+                {editingCategory && (editingCategory.dish_count || 0) > 0 && name.trim() !== editingCategory.name && (
+                  <Text style={styles.hint}>
+                    {editingCategory.dish_count} items will move to the new name
+                  </Text>
+                )}
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Description</Text>
+                <TextInput
+                  style={styles.input}
+                  value={description}
+                  onChangeText={setDescription}
+                  placeholder="Optional"
+                  placeholderTextColor={COLORS.textLight}
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Icon</Text>
+                <View style={styles.iconGrid}>
+                  {CATEGORY_ICON_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.iconOption, icon === option && { borderColor: color, backgroundColor: tintColor(color) }]}
+                      onPress={() => setIcon(option)}
+                    >
+                      <Ionicons name={option as any} size={22} color={icon === option ? color : COLORS.textLight} />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Color</Text>
+                <View style={styles.colorRow}>
+                  {CATEGORY_COLOR_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.colorOption, { backgroundColor: option }, color === option && styles.colorOptionActive]}
+                      onPress={() => setColor(option)}
+                    >
+                      {color === option && <Ionicons name="checkmark" size={16} color={COLORS.card} />}
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator color={COLORS.card} />
+                ) : (
+                  <Text style={styles.saveButtonText}>
+                    {editingCategory ? 'Update Category' : 'Add Category'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: COLORS.maroon,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginTop: 8,
+  },
+  categoryRow: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    paddingRight: 12,
+    marginBottom: ROW_GAP,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    gap: 8,
+  },
+  categoryRowDragging: {
+    zIndex: 10,
+    borderColor: COLORS.gold,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  dragHandle: {
+    height: '100%',
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+  },
+  categoryIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  categoryInfo: {
+    flex: 1,
+  },
+  categoryName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  categoryMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  actionBtn: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: COLORS.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: COLORS.card,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  preview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+    gap: 12,
+  },
+  previewText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: COLORS.background,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: COLORS.text,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.info,
+    marginTop: 6,
+  },
+  iconGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  iconOption: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  colorOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  colorOptionActive: {
+    borderWidth: 3,
+    borderColor: COLORS.gold,
+  },
+  saveButton: {
+    backgroundColor: COLORS.maroon,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.card,
+  },
+});
@@ -0,0 +1,496 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import * as ScreenOrientation from 'expo-screen-orientation';
+import { useKeepAwake } from 'expo-keep-awake';
+import { router, useFocusEffect } from 'expo-router';
+import { kitchenAPI } from '../../src/services/api';
+import { useRealtimeEvent, useRealtimeStatus } from '../../src/services/realtime';
+
+const COLORS = {
+  background: '#1A1A1A',
+  card: '#242424',
+  cardLight: '#2E2E2E',
+  primary: '#C41E3A',
+  gold: '#D4AF37',
+  cream: '#F5F5DC',
+  text: '#FFFFFF',
+  textLight: '#A0A0A0',
+  border: '#333333',
+  success: '#10B981',
+  warning: '#F59E0B',
+};
+
+interface Batch {
+  index: number;
+  quantity: number;
+  done: boolean;
+  done_at: string | null;
+}
+
+interface CookItem {
+  id: string;
+  name: string;
+  category: string;
+  per_tiffin: number;
+  unit: string;
+  total_quantity: number;
+  batch_capacity: number;
+  batches: Batch[];
+  completed_quantity: number;
+  progress: number;
+}
+
+interface CookSheet {
+  date: string;
+  total_dinners: number;
+  items: CookItem[];
+  total_batches: number;
+  completed_batches: number;
+  error?: string;
+}
+
+interface BatchTotals {
+  total_orders: number;
+  skipped_orders: number;
+  plan_breakdown: Record<string, number>;
+}
+
+// Cooks think in kg and litres, not grams and ml
+const formatQuantity = (quantity: number, unit: string) => {
+  if (unit === 'grams' && quantity >= 1000) return `${+(quantity / 1000).toFixed(1)} kg`;
+  if (unit === 'ml' && quantity >= 1000) return `${+(quantity / 1000).toFixed(1)} L`;
+  if (unit === 'pieces') return `${quantity} pcs`;
+  return `${+quantity.toFixed(1)} ${unit}`;
+};
+
+export default function CookSheetScreen() {
+  useKeepAwake();
+  const { width, height } = useWindowDimensions();
+  const isLive = useRealtimeStatus();
+  const [sheet, setSheet] = useState<CookSheet | null>(null);
+  const [totals, setTotals] = useState<BatchTotals | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const isLandscape = width > height;
+  const columns = width >= 1100 ? 3 : isLandscape || width >= 700 ? 2 : 1;
+
+  const fetchSheet = useCallback(async () => {
+    try {
+      const [sheetRes, totalsRes] = await Promise.all([
+        kitchenAPI.getCookSheet(),
+        kitchenAPI.getBatchTotals(),
+      ]);
+      setSheet(sheetRes.data);
+      setTotals(totalsRes.data);
+    } catch (error) {
+      console.error('Error fetching cook sheet:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  // Allow rotation only while the sheet is on screen, and refresh on return
+  useFocusEffect(
+    useCallback(() => {
+      fetchSheet();
+      ScreenOrientation.unlockAsync().catch(() => {});
+      return () => {
+        ScreenOrientation.lockAsync(ScreenOrientation.OrientationLock.PORTRAIT_UP).catch(() => {});
+      };
+    }, [fetchSheet])
+  );
+
+  useRealtimeEvent('cook_sheet_update', ({ item_id, batch_index, done }) => {
+    setSheet(prev => prev && applyBatch(prev, item_id, batch_index, done));
+  });
+  useRealtimeEvent('menu_update', () => fetchSheet());
+  useRealtimeEvent('manifest_update', () => fetchSheet());
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchSheet();
+  }, [fetchSheet]);
+
+  const toggleBatch = async (item: CookItem, batch: Batch) => {
+    const done = !batch.done;
+    Haptics.impactAsync(done ? Haptics.ImpactFeedbackStyle.Heavy : Haptics.ImpactFeedbackStyle.Light);
+    // Optimistic - tablets on the wall shouldn't wait on the network
+    setSheet(prev => prev && applyBatch(prev, item.id, batch.index, done));
+    try {
+      await kitchenAPI.updateCookBatch({ item_id: item.id, batch_index: batch.index, done });
+    } catch (error: any) {
+      setSheet(prev => prev && applyBatch(prev, item.id, batch.index, !done));
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to update batch');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.gold} />
+          <Text style={styles.loadingText}>Loading cook sheet...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const overall = sheet?.total_batches ? sheet.completed_batches / sheet.total_batches : 0;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.cream} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>Cook Sheet</Text>
+          <View style={styles.dateRow}>
+            <Text style={styles.dateText}>{sheet?.date}</Text>
+            <View style={[styles.liveDot, { backgroundColor: isLive ? COLORS.success : COLORS.textLight }]} />
+            <Text style={styles.liveText}>{isLive ? 'Live' : 'Pull to refresh'}</Text>
+          </View>
+        </View>
+        <View style={styles.overall}>
+          <Text style={styles.overallValue}>{sheet?.completed_batches || 0}/{sheet?.total_batches || 0}</Text>
+          <Text style={styles.overallLabel}>batches</Text>
+        </View>
+      </View>
+      <View style={styles.overallTrack}>
+        <View style={[styles.overallFill, { width: `${overall * 100}%` }]} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.gold} />}
+      >
+        {/* Batch totals */}
+        {totals && (
+          <View style={styles.totalsRow}>
+            <View style={styles.totalCard}>
+              <Text style={styles.totalValue}>{totals.total_orders}</Text>
+              <Text style={styles.totalLabel}>Dabbas</Text>
+            </View>
+            <View style={styles.totalCard}>
+              <Text style={[styles.totalValue, { color: COLORS.warning }]}>{totals.skipped_orders}</Text>
+              <Text style={styles.totalLabel}>Skipped</Text>
+            </View>
+            {Object.entries(totals.plan_breakdown).map(([plan, count]) => (
+              <View key={plan} style={styles.totalCard}>
+                <Text style={styles.totalValue}>{count}</Text>
+                <Text style={styles.totalLabel}>{plan.charAt(0).toUpperCase() + plan.slice(1)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {sheet?.error || !sheet?.items.length ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="flame-outline" size={56} color={COLORS.textLight} />
+            <Text style={styles.emptyText}>{sheet?.error || 'Nothing to cook today'}</Text>
+          </View>
+        ) : (
+          <View style={styles.grid}>
+            {sheet.items.map(item => {
+              const isComplete = item.batches.every(batch => batch.done);
+              return (
+                <View key={item.id} style={[styles.itemCell, { width: `${100 / columns}%` }]}>
+                  <View style={[styles.itemCard, isComplete && styles.itemCardComplete]}>
+                    <View style={styles.itemHeader}>
+                      <View style={styles.itemTitle}>
+                        <Text style={styles.itemName}>{item.name}</Text>
+                        <Text style={styles.itemMeta}>
+                          {item.category} · {formatQuantity(item.per_tiffin, item.unit)} per dabba
+                        </Text>
+                      </View>
+                      {isComplete && <Ionicons name="checkmark-circle" size={32} color={COLORS.success} />}
+                    </View>
+
+                    <View style={styles.quantityRow}>
+                      <Text style={styles.quantityDone}>{formatQuantity(item.completed_quantity, item.unit)}</Text>
+                      <Text style={styles.quantityTotal}> / {formatQuantity(item.total_quantity, item.unit)}</Text>
+                    </View>
+                    <View style={styles.progressTrack}>
+                      <View style={[styles.progressFill, { width: `${item.progress * 100}%` }]} />
+                    </View>
+
+                    <View style={styles.batchGrid}>
+                      {item.batches.map(batch => (
+                        <TouchableOpacity
+                          key={batch.index}
+                          style={[styles.batchChip, batch.done && styles.batchChipDone]}
+                          onPress={() => toggleBatch(item, batch)}
+                        >
+                          <Ionicons
+                            name={batch.done ? 'checkbox' : 'square-outline'}
+                            size={24}
+                            color={batch.done ? COLORS.background : COLORS.gold}
+                          />
+                          <View>
+                            <Text style={[styles.batchLabel, batch.done && styles.batchTextDone]}>
+                              Batch {batch.index + 1}
+                            </Text>
+                            <Text style={[styles.batchQuantity, batch.done && styles.batchTextDone]}>
+                              {formatQuantity(batch.quantity, item.unit)}
+                            </Text>
+                          </View>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function applyBatch(sheet: CookSheet, itemId: string, batchIndex: number, done: boolean): CookSheet {
+  let completedDelta = 0;
+  const items = sheet.items.map(item => {
+    if (item.id !== itemId) return item;
+    const batches = item.batches.map(batch => {
+      if (batch.index !== batchIndex || batch.done === done) return batch;
+      completedDelta += done ? 1 : -1;
+      return { ...batch, done, done_at: done ? new Date().toISOString() : null };
+    });
+    const completed = batches.filter(batch => batch.done).reduce((sum, batch) => sum + batch.quantity, 0);
+    return {
+      ...item,
+      batches,
+      completed_quantity: completed,
+      progress: item.total_quantity ? completed / item.total_quantity : 1,
+    };
+  });
+  return { ...sheet, items, completed_batches: sheet.completed_batches + completedDelta };
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: COLORS.textLight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    gap: 14,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: COLORS.cream,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  dateText: {
+    fontSize: 14,
+    color: COLORS.gold,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: 12,
+    marginRight: 6,
+  },
+  liveText: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  overall: {
+    alignItems: 'flex-end',
+  },
+  overallValue: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: COLORS.gold,
+  },
+  overallLabel: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  overallTrack: {
+    height: 6,
+    backgroundColor: COLORS.border,
+  },
+  overallFill: {
+    height: '100%',
+    backgroundColor: COLORS.success,
+  },
+  scrollContent: {
+    padding: 14,
+    paddingBottom: 40,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  totalCard: {
+    flexGrow: 1,
+    minWidth: 100,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    padding: 12,
+    margin: 6,
+    alignItems: 'center',
+  },
+  totalValue: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.text,
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: COLORS.textLight,
+    marginTop: 12,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  itemCell: {
+    padding: 6,
+  },
+  itemCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+  },
+  itemCardComplete: {
+    borderColor: COLORS.success,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  itemTitle: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+    textTransform: 'capitalize',
+  },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    marginTop: 12,
+  },
+  quantityDone: {
+    fontSize: 30,
+    fontWeight: '800',
+    color: COLORS.gold,
+  },
+  quantityTotal: {
+    fontSize: 18,
+    color: COLORS.textLight,
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: COLORS.border,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: COLORS.success,
+  },
+  batchGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 14,
+  },
+  batchChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    minWidth: 140,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: COLORS.gold,
+    backgroundColor: COLORS.cardLight,
+  },
+  batchChipDone: {
+    backgroundColor: COLORS.success,
+    borderColor: COLORS.success,
+  },
+  batchLabel: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  batchQuantity: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  batchTextDone: {
+    color: COLORS.background,
+  },
+});
@@ -16,6 +16,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { kitchenAPI } from '../../src/services/api';
 import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import { Category, getCategoryStyle } from '../../src/services/categories';
+import SoldOutBoard, { useSoldOut } from '../../src/components/SoldOutBoard';
 
 const COLORS = {
   ...BRAND_COLORS,
@@ -43,6 +45,8 @@ interface Dish {
 
 export default function DishesManagement() {
   const [dishes, setDishes] = useState<Dish[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const soldOut = useSoldOut();
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [showModal, setShowModal] = useState(false);
@@ -59,8 +63,12 @@ export default function DishesManagement() {
 
   const fetchDishes = useCallback(async () => {
     try {
-      const response = await kitchenAPI.getDishes();
-      setDishes(response.data.dishes || []);
+      const [dishesRes, categoriesRes] = await Promise.all([
+        kitchenAPI.getDishes(),
+        kitchenAPI.getCategories(),
+      ]);
+      setDishes(dishesRes.data.dishes || []);
+      setCategories(categoriesRes.data.categories || []);
     } catch (error) {
       console.error('Error fetching dishes:', error);
     } finally {
@@ -73,17 +81,19 @@ export default function DishesManagement() {
     fetchDishes();
   }, [fetchDishes]);
 
+  const refreshSoldOut = soldOut.refresh;
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     fetchDishes();
-  }, [fetchDishes]);
+    refreshSoldOut();
+  }, [fetchDishes, refreshSoldOut]);
 
   const openAddModal = () => {
     setEditingDish(null);
     setName('');
     setDescription('');
     setType('vegetarian');
-    setCategory('Main Dishes');
+    setCategory(categories[0]?.name || 'Main Dishes');
     setQuantity('1');
     setUnit('portion');
     setShowModal(true);
@@ -94,7 +104,7 @@ export default function DishesManagement() {
     setName(dish.name);
     setDescription(dish.description);
     setType(dish.type);
-    setCategory(dish.category || 'Main Dishes');
+    setCategory(dish.category || categories[0]?.name || 'Main Dishes');
     setQuantity((dish.quantity_per_tiffin || 1).toString());
     setUnit(dish.unit || 'portion');
     setShowModal(true);
@@ -217,37 +227,52 @@ export default function DishesManagement() {
             </TouchableOpacity>
           </View>
         ) : (
-          dishes.map((dish) => (
-            <View key={dish.id} style={styles.dishCard}>
-              <View style={styles.dishHeader}>
-                <View style={styles.dishInfo}>
-                  <Text style={styles.dishName}>{dish.name}</Text>
-                  <View style={styles.dishMeta}>
-                    <View style={styles.typeBadge}>
-                      <Ionicons name="leaf" size={12} color={COLORS.success} />
-                      <Text style={styles.typeText}>{dish.type}</Text>
+          <>
+            <SoldOutBoard items={soldOut.items} pending={soldOut.pending} onRestock={soldOut.toggle} />
+            {dishes.map((dish) => {
+              const catStyle = getCategoryStyle(categories, dish.category);
+              const isSoldOut = soldOut.isSoldOut(dish.name);
+              return (
+                <View key={dish.id} style={[styles.dishCard, isSoldOut && styles.dishCardSoldOut]}>
+                  <View style={styles.dishHeader}>
+                    <View style={styles.dishInfo}>
+                      <Text style={styles.dishName}>{dish.name}</Text>
+                      <View style={styles.dishMeta}>
+                        <View style={styles.typeBadge}>
+                          <Ionicons name="leaf" size={12} color={COLORS.success} />
+                          <Text style={styles.typeText}>{dish.type}</Text>
+                        </View>
+                        <View style={[styles.typeBadge, { backgroundColor: catStyle.bgColor }]}>
+                          <Ionicons name={catStyle.icon as any} size={12} color={catStyle.color} />
+                          <Text style={[styles.typeText, { color: catStyle.color }]}>{dish.category || 'Uncategorized'}</Text>
+                        </View>
+                      </View>
+                      {dish.quantity_per_tiffin && (
+                        <Text style={styles.quantityText}>{dish.quantity_per_tiffin} {dish.unit || 'portion'} per tiffin</Text>
+                      )}
                     </View>
-                    <View style={[styles.typeBadge, { backgroundColor: '#E3F2FD' }]}>
-                      <Ionicons name="folder" size={12} color={COLORS.info} />
-                      <Text style={[styles.typeText, { color: COLORS.info }]}>{dish.category || 'Uncategorized'}</Text>
+                    <View style={styles.dishActions}>
+                      <TouchableOpacity
+                        style={[styles.actionBtn, isSoldOut && styles.actionBtnSoldOut]}
+                        onPress={() => soldOut.toggle(dish.name)}
+                        disabled={soldOut.pending === dish.name}
+                      >
+                        <Ionicons name="ban" size={18} color={isSoldOut ? COLORS.card : COLORS.textLight} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.actionBtn} onPress={() => openEditModal(dish)}>
+                        <Ionicons name="pencil" size={18} color={COLORS.info} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.actionBtn} onPress={() => handleDelete(dish)}>
+                        <Ionicons name="trash" size={18} color={COLORS.error} />
+                      </TouchableOpacity>
                     </View>
                   </View>
-                  {dish.quantity_per_tiffin && (
-                    <Text style={styles.quantityText}>{dish.quantity_per_tiffin} {dish.unit || 'portion'} per tiffin</Text>
-                  )}
-                </View>
-                <View style={styles.dishActions}>
-                  <TouchableOpacity style={styles.actionBtn} onPress={() => openEditModal(dish)}>
-                    <Ionicons name="pencil" size={18} color={COLORS.info} />
-                  </TouchableOpacity>
-                  <TouchableOpacity style={styles.actionBtn} onPress={() => handleDelete(dish)}>
-                    <Ionicons name="trash" size={18} color={COLORS.error} />
-                  </TouchableOpacity>
+                  <Text style={styles.dishDescription}>{dish.description}</Text>
+                  {isSoldOut && <Text style={styles.soldOutLabel}>Sold out today</Text>}
                 </View>
-              </View>
-              <Text style={styles.dishDescription}>{dish.description}</Text>
-            </View>
-          ))
+              );
+            })}
+          </>
         )}
       </ScrollView>
 
@@ -315,8 +340,8 @@ export default function DishesManagement() {
 
               <View style={styles.inputGroup}>
                 <Text style={styles.label}>Category</Text>
-                <View style={styles.typeSelector}>
-                  {['Breads', 'Main Dishes', 'Dals & Kathol', 'Rice & Grains', 'Sides & Drinks', 'Desserts'].map((cat) => (
+                <View style={[styles.typeSelector, { flexWrap: 'wrap' }]}>
+                  {categories.map(({ name: cat }) => (
                     <TouchableOpacity
                       key={cat}
                       style={[styles.categoryChip, category === cat && styles.categoryChipActive]}
@@ -520,6 +545,19 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  actionBtnSoldOut: {
+    backgroundColor: COLORS.error,
+  },
+  dishCardSoldOut: {
+    borderColor: COLORS.error,
+    opacity: 0.85,
+  },
+  soldOutLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: COLORS.error,
+    marginTop: 6,
+  },
   dishDescription: {
     fontSize: 13,
     color: COLORS.textLight,
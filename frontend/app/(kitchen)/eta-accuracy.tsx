@@ -0,0 +1,432 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { kitchenIntelAPI } from '../../src/services/api';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  good: '#2E7D32',
+  warning: '#F9A825',
+  late: '#C62828',
+  early: '#1565C0',
+};
+
+const PERIOD_OPTIONS = [7, 14, 30];
+
+interface EtaSummary {
+  stops: number;
+  // Actual minus predicted: positive means drivers got there later than promised
+  avg_error_minutes: number;
+  avg_abs_error_minutes: number;
+  within_5_min_rate: number;
+  late_rate: number;
+}
+
+interface EtaBreakdown extends EtaSummary {
+  key: string;
+  label: string;
+}
+
+interface EtaAccuracyData {
+  days: number;
+  overall: EtaSummary;
+  by_driver: EtaBreakdown[];
+  by_neighbourhood: EtaBreakdown[];
+  by_time_of_day: EtaBreakdown[];
+  corrections: Record<string, number>;
+}
+
+const formatError = (minutes: number) => `${minutes > 0 ? '+' : ''}${minutes} min`;
+
+const errorColor = (minutes: number) =>
+  Math.abs(minutes) <= 2 ? COLORS.good : minutes > 0 ? COLORS.late : COLORS.early;
+
+const accuracyColor = (rate: number) => (rate >= 80 ? COLORS.good : rate >= 60 ? COLORS.warning : COLORS.late);
+
+const BreakdownSection = ({ title, rows }: { title: string; rows: EtaBreakdown[] }) => (
+  <>
+    <Text style={styles.sectionTitle}>{title}</Text>
+    <View style={styles.card}>
+      {rows.map((row, index) => (
+        <View key={row.key} style={[styles.row, index > 0 && styles.rowBorder]}>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowLabel} numberOfLines={1}>{row.label}</Text>
+            <Text style={styles.rowMeta}>
+              {row.stops} {row.stops === 1 ? 'stop' : 'stops'} · ±{row.avg_abs_error_minutes} min typical
+            </Text>
+          </View>
+          <View style={styles.rowStats}>
+            <Text style={[styles.rowError, { color: errorColor(row.avg_error_minutes) }]}>
+              {formatError(row.avg_error_minutes)}
+            </Text>
+            <Text style={[styles.rowAccuracy, { color: accuracyColor(row.within_5_min_rate) }]}>
+              {row.within_5_min_rate}% on time
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  </>
+);
+
+export default function EtaAccuracyScreen() {
+  const [days, setDays] = useState(14);
+  const [data, setData] = useState<EtaAccuracyData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchAccuracy = useCallback(async () => {
+    try {
+      const response = await kitchenIntelAPI.getEtaAccuracy(days);
+      setData(response.data);
+    } catch (error) {
+      console.error('Error fetching ETA accuracy:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchAccuracy();
+  }, [fetchAccuracy]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchAccuracy();
+  }, [fetchAccuracy]);
+
+  const overall = data?.overall;
+  const corrections = Object.entries(data?.corrections || {}).filter(([, minutes]) => minutes !== 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.maroon} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>ETA Accuracy</Text>
+          <Text style={styles.subtitle}>Promised vs actual arrival at each stop</Text>
+        </View>
+      </View>
+
+      <View style={styles.periodRow}>
+        {PERIOD_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.periodChip, days === option && styles.periodChipActive]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setDays(option);
+            }}
+          >
+            <Text style={[styles.periodText, days === option && styles.periodTextActive]}>Last {option} days</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+        >
+          {!overall || overall.stops === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="timer-outline" size={56} color={COLORS.border} />
+              <Text style={styles.emptyText}>No stop timings yet</Text>
+              <Text style={styles.emptySubtext}>
+                Drivers&apos; start and arrival times show up here once their stops sync
+              </Text>
+            </View>
+          ) : (
+            <>
+              {/* Summary */}
+              <View style={styles.card}>
+                <View style={styles.summaryTop}>
+                  <View>
+                    <Text style={[styles.summaryValue, { color: accuracyColor(overall.within_5_min_rate) }]}>
+                      {overall.within_5_min_rate}%
+                    </Text>
+                    <Text style={styles.summaryLabel}>within 5 min · {overall.stops} stops</Text>
+                  </View>
+                  <View style={styles.summaryStats}>
+                    <View style={styles.summaryStat}>
+                      <Text style={[styles.summaryStatValue, { color: errorColor(overall.avg_error_minutes) }]}>
+                        {formatError(overall.avg_error_minutes)}
+                      </Text>
+                      <Text style={styles.summaryStatLabel}>avg error</Text>
+                    </View>
+                    <View style={styles.summaryStat}>
+                      <Text style={[styles.summaryStatValue, { color: COLORS.late }]}>{overall.late_rate}%</Text>
+                      <Text style={styles.summaryStatLabel}>over 5 min late</Text>
+                    </View>
+                  </View>
+                </View>
+                <Text style={styles.legend}>
+                  + means drivers arrived later than the ETA they were shown, − means earlier
+                </Text>
+              </View>
+
+              {/* What the manifest is now adjusting for */}
+              <View style={[styles.card, styles.correctionsCard]}>
+                <View style={styles.correctionsHeader}>
+                  <Ionicons name="sparkles" size={18} color={COLORS.maroon} />
+                  <Text style={styles.correctionsTitle}>Driver ETAs now adjusted</Text>
+                </View>
+                {corrections.length === 0 ? (
+                  <Text style={styles.correctionsEmpty}>
+                    No adjustments yet - each area needs at least 5 timed stops
+                  </Text>
+                ) : (
+                  corrections.map(([area, minutes]) => (
+                    <View key={area} style={styles.correctionRow}>
+                      <Text style={styles.correctionArea}>{area === '*' ? 'All other areas' : area}</Text>
+                      <Text style={[styles.correctionValue, { color: minutes > 0 ? COLORS.late : COLORS.early }]}>
+                        {formatError(minutes)}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </View>
+
+              <BreakdownSection title="By Time of Day" rows={data?.by_time_of_day || []} />
+              <BreakdownSection title="By Neighbourhood" rows={data?.by_neighbourhood || []} />
+              <BreakdownSection title="By Driver" rows={data?.by_driver || []} />
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  periodChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  periodChipActive: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  periodText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  periodTextActive: {
+    color: COLORS.card,
+    fontWeight: '600',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingTop: 4,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  summaryTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  summaryValue: {
+    fontSize: 36,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  summaryStats: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  summaryStat: {
+    alignItems: 'center',
+  },
+  summaryStatValue: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  summaryStatLabel: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  legend: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 12,
+  },
+  correctionsCard: {
+    borderColor: COLORS.goldLight,
+  },
+  correctionsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  correctionsTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.maroon,
+  },
+  correctionsEmpty: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  correctionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  correctionArea: {
+    fontSize: 14,
+    color: COLORS.text,
+  },
+  correctionValue: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  rowStats: {
+    alignItems: 'flex-end',
+  },
+  rowError: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  rowAccuracy: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,524 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+  Image,
+  Modal,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { kitchenAPI } from '../../src/services/api';
+import { useRealtimeEvent } from '../../src/services/realtime';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  error: '#C62828',
+  info: '#1565C0',
+};
+
+const REASON_LABELS: Record<string, string> = {
+  customer_unavailable: 'Customer unavailable',
+  wrong_address: 'Wrong address',
+  access_issue: 'No building access',
+  refused: 'Refused',
+  other: 'Other',
+};
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  redeliver: 'Redelivered',
+  refund: 'Refunded',
+  credit: 'Wallet credit',
+  left_with: 'Left with someone',
+};
+
+type Filter = 'open' | 'resolved';
+
+interface FailedDelivery {
+  id: string;
+  delivery_id: string;
+  delivery_date?: string;
+  customer_name: string;
+  customer_phone?: string;
+  address: string;
+  driver_name: string;
+  reason: string;
+  notes?: string;
+  has_photo: boolean;
+  left_with?: string | null;
+  left_with_name?: string | null;
+  failed_at: string;
+  status: 'open' | 'resolved';
+  resolution?: string | null;
+  resolution_note?: string;
+  redeliver_date?: string;
+  amount?: number;
+  resolved_by_name?: string;
+  resolved_at?: string;
+}
+
+// Server times are naive UTC
+const formatTime = (iso: string) =>
+  new Date(/Z|[+-]\d\d:\d\d$/.test(iso) ? iso : `${iso}Z`).toLocaleString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const dateOffset = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+export default function FailedDeliveriesScreen() {
+  const [filter, setFilter] = useState<Filter>('open');
+  const [failures, setFailures] = useState<FailedDelivery[]>([]);
+  const [openCount, setOpenCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [photo, setPhoto] = useState<string | null>(null);
+
+  const fetchFailures = useCallback(async () => {
+    try {
+      const response = await kitchenAPI.getFailedDeliveries(filter);
+      setFailures(response.data.failures || []);
+      setOpenCount(response.data.open || 0);
+    } catch (error) {
+      console.error('Error fetching failed deliveries:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchFailures();
+  }, [fetchFailures]);
+
+  // A driver just reported a stop they couldn't hand over
+  useRealtimeEvent('delivery_update', ({ status }) => {
+    if (status === 'failed' || status === 'delivered') fetchFailures();
+  });
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchFailures();
+  }, [fetchFailures]);
+
+  const resolve = async (
+    failure: FailedDelivery,
+    data: { action: 'redeliver' | 'refund' | 'credit'; redeliver_date?: string }
+  ) => {
+    setResolvingId(failure.id);
+    try {
+      const response = await kitchenAPI.resolveFailedDelivery(failure.id, data);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setFailures(prev => prev.filter(f => f.id !== failure.id));
+      setOpenCount(prev => Math.max(0, prev - 1));
+      Alert.alert('Done', response.data.message);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Could not resolve this delivery');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleRedeliver = (failure: FailedDelivery) => {
+    Alert.alert('Redeliver', `Put ${failure.customer_name} back on a route as a priority stop?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Today', onPress: () => resolve(failure, { action: 'redeliver', redeliver_date: dateOffset(0) }) },
+      { text: 'Tomorrow', onPress: () => resolve(failure, { action: 'redeliver', redeliver_date: dateOffset(1) }) },
+    ]);
+  };
+
+  const handleMoney = (failure: FailedDelivery, action: 'refund' | 'credit') => {
+    Alert.alert(
+      action === 'refund' ? 'Refund Meal?' : 'Credit Wallet?',
+      action === 'refund'
+        ? `Refund one meal to ${failure.customer_name}'s original payment method.`
+        : `Add one meal credit to ${failure.customer_name}'s wallet.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: action === 'refund' ? 'Refund' : 'Credit', onPress: () => resolve(failure, { action }) },
+      ]
+    );
+  };
+
+  const viewPhoto = async (failure: FailedDelivery) => {
+    try {
+      const response = await kitchenAPI.getFailedDeliveryPhoto(failure.id);
+      setPhoto(`data:image/jpeg;base64,${response.data.photo_base64}`);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Could not load the photo');
+    }
+  };
+
+  const renderFailure = (failure: FailedDelivery) => {
+    const isResolving = resolvingId === failure.id;
+    return (
+      <View key={failure.id} style={styles.card}>
+        <View style={styles.cardTop}>
+          <View style={styles.flex}>
+            <Text style={styles.customerName}>{failure.customer_name}</Text>
+            <Text style={styles.address} numberOfLines={2}>{failure.address}</Text>
+          </View>
+          <View style={[styles.reasonBadge, failure.left_with && styles.leftWithBadge]}>
+            <Text style={[styles.reasonBadgeText, failure.left_with && styles.leftWithBadgeText]}>
+              {failure.left_with ? `Left with ${failure.left_with}` : REASON_LABELS[failure.reason] || failure.reason}
+            </Text>
+          </View>
+        </View>
+
+        {failure.left_with && failure.left_with_name && (
+          <Text style={styles.detail}>Handed to {failure.left_with_name}</Text>
+        )}
+        {failure.notes && (
+          <View style={styles.notes}>
+            <Ionicons name="chatbox-ellipses-outline" size={14} color={COLORS.textLight} />
+            <Text style={styles.notesText}>{failure.notes}</Text>
+          </View>
+        )}
+
+        <View style={styles.metaRow}>
+          <Text style={styles.meta}>
+            {failure.driver_name} · {formatTime(failure.failed_at)}
+          </Text>
+          {failure.has_photo && (
+            <TouchableOpacity style={styles.photoLink} onPress={() => viewPhoto(failure)}>
+              <Ionicons name="image-outline" size={14} color={COLORS.info} />
+              <Text style={styles.photoLinkText}>Photo</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {failure.status === 'open' ? (
+          <View style={styles.actionRow}>
+            {isResolving ? (
+              <ActivityIndicator color={COLORS.maroon} style={styles.flex} />
+            ) : (
+              <>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleRedeliver(failure)}>
+                  <Ionicons name="refresh" size={16} color={COLORS.maroon} />
+                  <Text style={styles.actionText}>Redeliver</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleMoney(failure, 'credit')}>
+                  <Ionicons name="wallet-outline" size={16} color={COLORS.maroon} />
+                  <Text style={styles.actionText}>Credit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleMoney(failure, 'refund')}>
+                  <Ionicons name="card-outline" size={16} color={COLORS.maroon} />
+                  <Text style={styles.actionText}>Refund</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        ) : (
+          <View style={styles.resolution}>
+            <Ionicons name="checkmark-circle" size={16} color={COLORS.success} />
+            <Text style={styles.resolutionText}>
+              {RESOLUTION_LABELS[failure.resolution || ''] || 'Resolved'}
+              {failure.redeliver_date ? ` for ${failure.redeliver_date}` : ''}
+              {failure.amount ? ` · $${failure.amount.toFixed(2)}` : ''}
+              {failure.resolved_by_name ? ` · ${failure.resolved_by_name}` : ''}
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.maroon} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>Failed Deliveries</Text>
+          <Text style={styles.subtitle}>
+            {openCount === 0 ? 'Nothing waiting on the kitchen' : `${openCount} waiting for a decision`}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.filterRow}>
+        {(['open', 'resolved'] as Filter[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.filterChip, filter === option && styles.filterChipActive]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setFilter(option);
+            }}
+          >
+            <Text style={[styles.filterText, filter === option && styles.filterTextActive]}>
+              {option === 'open' ? `Open${openCount ? ` (${openCount})` : ''}` : 'Resolved'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+        >
+          {failures.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-done-circle" size={56} color={COLORS.success} />
+              <Text style={styles.emptyText}>
+                {filter === 'open' ? 'No failed deliveries to follow up' : 'No resolved deliveries yet'}
+              </Text>
+            </View>
+          ) : (
+            failures.map(renderFailure)
+          )}
+        </ScrollView>
+      )}
+
+      <Modal visible={!!photo} transparent animationType="fade" onRequestClose={() => setPhoto(null)}>
+        <TouchableOpacity style={styles.photoOverlay} activeOpacity={1} onPress={() => setPhoto(null)}>
+          {photo && <Image source={{ uri: photo }} style={styles.photo} resizeMode="contain" />}
+        </TouchableOpacity>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  filterChipActive: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  filterTextActive: {
+    color: COLORS.card,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  cardTop: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  customerName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  address: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  reasonBadge: {
+    backgroundColor: '#FFEBEE',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  reasonBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.error,
+  },
+  leftWithBadge: {
+    backgroundColor: '#E8F5E9',
+  },
+  leftWithBadgeText: {
+    color: COLORS.success,
+    textTransform: 'capitalize',
+  },
+  detail: {
+    fontSize: 13,
+    color: COLORS.text,
+    marginTop: 8,
+  },
+  notes: {
+    flexDirection: 'row',
+    gap: 6,
+    backgroundColor: COLORS.background,
+    borderRadius: 10,
+    padding: 10,
+    marginTop: 10,
+  },
+  notesText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  meta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  photoLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  photoLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.info,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.maroon,
+  },
+  resolution: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  resolutionText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.success,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 80,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: COLORS.textLight,
+  },
+  photoOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.85)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photo: {
+    width: '90%',
+    height: '70%',
+  },
+});
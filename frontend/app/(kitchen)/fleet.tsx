@@ -0,0 +1,508 @@
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Linking,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { kitchenAPI } from '../../src/services/api';
+import { useRealtimeEvent, useRealtimeStatus } from '../../src/services/realtime';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import FleetMap, { FleetDriver, FleetStop } from '../../src/components/FleetMap';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  warning: '#E65100',
+  muted: '#9E9E9E',
+};
+
+interface Stop {
+  delivery_id: string;
+  delivery_number: number;
+  customer_name: string;
+  address: string;
+  status: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface DriverLocation {
+  driver_id: string;
+  driver_name: string;
+  phone: string;
+  latitude: number | null;
+  longitude: number | null;
+  last_updated: string | null;
+  active_deliveries: number;
+  completed_deliveries: number;
+  current_stop: Stop | null;
+  next_stop: Stop | null;
+  remaining_stops: Stop[];
+  is_online: boolean;
+  on_shift: boolean;
+}
+
+// Poll this often when the socket is down
+const POLL_INTERVAL_MS = 30000;
+// A driver who hasn't reported for this long is shown greyed out
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+// Server timestamps are naive UTC
+const parseTimestamp = (value: string) => new Date(/[Z+]/.test(value.slice(-6)) ? value : `${value}Z`).getTime();
+
+const formatAgo = (value: string | null, now: number) => {
+  if (!value) return 'Never reported';
+  const seconds = Math.max(0, Math.round((now - parseTimestamp(value)) / 1000));
+  if (seconds < 60) return 'Just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  return hours < 24 ? `${hours} h ago` : 'Over a day ago';
+};
+
+export default function FleetScreen() {
+  const [drivers, setDrivers] = useState<DriverLocation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showOffShift, setShowOffShift] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const isLive = useRealtimeStatus();
+
+  const fetchDrivers = useCallback(async () => {
+    try {
+      const response = await kitchenAPI.getDriverLocations();
+      setDrivers(response.data.drivers || []);
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error fetching driver locations:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDrivers();
+    if (isLive) return;
+    const interval = setInterval(fetchDrivers, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchDrivers, isLive]);
+
+  // Keeps the "last reported" labels ticking between updates
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useRealtimeEvent('driver_location', ({ driver_id, latitude, longitude, timestamp }) => {
+    if (!drivers.some(driver => driver.driver_id === driver_id)) {
+      fetchDrivers();
+      return;
+    }
+    setDrivers(prev => prev.map(driver =>
+      driver.driver_id === driver_id
+        ? { ...driver, latitude, longitude, last_updated: timestamp, is_online: true, on_shift: true }
+        : driver
+    ));
+    setNow(Date.now());
+  });
+
+  // Stops move between drivers as they start and close deliveries
+  useRealtimeEvent('delivery_update', () => fetchDrivers());
+  useRealtimeEvent('manifest_update', () => fetchDrivers());
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchDrivers();
+  }, [fetchDrivers]);
+
+  const visibleDrivers = useMemo(
+    () => drivers.filter(driver => showOffShift || driver.on_shift),
+    [drivers, showOffShift]
+  );
+  const offShiftCount = drivers.length - drivers.filter(driver => driver.on_shift).length;
+  const selected = drivers.find(driver => driver.driver_id === selectedId) || null;
+
+  const mapDrivers = useMemo<FleetDriver[]>(
+    () => visibleDrivers
+      .filter(driver => driver.latitude != null && driver.longitude != null)
+      .map(driver => ({
+        id: driver.driver_id,
+        label: driver.driver_name.split(' ')[0],
+        latitude: driver.latitude!,
+        longitude: driver.longitude!,
+        stale: !driver.last_updated || now - parseTimestamp(driver.last_updated) > STALE_AFTER_MS,
+      })),
+    [visibleDrivers, now]
+  );
+
+  const mapStops = useMemo<FleetStop[]>(
+    () => (selected?.remaining_stops || [])
+      .filter(stop => stop.latitude != null && stop.longitude != null)
+      .map(stop => ({ label: String(stop.delivery_number), latitude: stop.latitude!, longitude: stop.longitude! })),
+    [selected]
+  );
+
+  const selectDriver = (id: string) => {
+    Haptics.selectionAsync();
+    setSelectedId(prev => (prev === id ? null : id));
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const renderStop = (stop: Stop, label?: string) => (
+    <View style={styles.stopRow}>
+      <View style={styles.stopBadge}>
+        <Text style={styles.stopBadgeText}>#{stop.delivery_number}</Text>
+      </View>
+      <View style={styles.stopInfo}>
+        {label && <Text style={styles.stopLabel}>{label}</Text>}
+        <Text style={styles.stopName} numberOfLines={1}>{stop.customer_name}</Text>
+        <Text style={styles.stopAddress} numberOfLines={1}>{stop.address}</Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.maroon} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>Fleet</Text>
+          <View style={styles.liveRow}>
+            <View style={[styles.liveDot, { backgroundColor: isLive ? COLORS.success : COLORS.muted }]} />
+            <Text style={styles.subtitle}>
+              {drivers.filter(driver => driver.on_shift).length} on shift · {isLive ? 'Live' : 'Refreshing every 30s'}
+            </Text>
+          </View>
+        </View>
+        <TouchableOpacity style={styles.planButton} onPress={() => router.push('/(kitchen)/routes')}>
+          <Ionicons name="git-network-outline" size={16} color={COLORS.card} />
+          <Text style={styles.planButtonText}>Plan Routes</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+      >
+        <FleetMap drivers={mapDrivers} selectedId={selectedId} stops={mapStops} onSelectDriver={selectDriver} />
+
+        {visibleDrivers.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="car-outline" size={48} color={COLORS.border} />
+            <Text style={styles.emptyText}>No drivers on shift</Text>
+          </View>
+        ) : (
+          visibleDrivers.map(driver => {
+            const isSelected = driver.driver_id === selectedId;
+            const isStale = !driver.last_updated || now - parseTimestamp(driver.last_updated) > STALE_AFTER_MS;
+            return (
+              <TouchableOpacity
+                key={driver.driver_id}
+                style={[styles.driverCard, isSelected && styles.driverCardSelected]}
+                onPress={() => selectDriver(driver.driver_id)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.driverHeader}>
+                  <View style={[styles.avatar, { backgroundColor: isStale ? COLORS.muted : COLORS.saffron }]}>
+                    <Ionicons name="bicycle" size={20} color={COLORS.card} />
+                  </View>
+                  <View style={styles.driverInfo}>
+                    <Text style={styles.driverName}>{driver.driver_name}</Text>
+                    <Text style={[styles.lastSeen, isStale && { color: COLORS.warning }]}>
+                      {formatAgo(driver.last_updated, now)}
+                      {driver.latitude == null ? ' · no position' : ''}
+                    </Text>
+                  </View>
+                  <View style={styles.counts}>
+                    <Text style={styles.countValue}>{driver.active_deliveries}</Text>
+                    <Text style={styles.countLabel}>left</Text>
+                  </View>
+                  {!!driver.phone && (
+                    <TouchableOpacity style={styles.callButton} onPress={() => Linking.openURL(`tel:${driver.phone}`)}>
+                      <Ionicons name="call" size={16} color={COLORS.success} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                {driver.current_stop ? (
+                  <View style={styles.stops}>
+                    {renderStop(driver.current_stop, 'Current')}
+                    {driver.next_stop && renderStop(driver.next_stop, 'Next')}
+                  </View>
+                ) : (
+                  <Text style={styles.idleText}>
+                    {driver.completed_deliveries > 0
+                      ? `Run finished · ${driver.completed_deliveries} delivered`
+                      : 'No stops assigned'}
+                  </Text>
+                )}
+
+                {isSelected && driver.remaining_stops.length > 2 && (
+                  <View style={styles.manifest}>
+                    <Text style={styles.manifestTitle}>Remaining manifest</Text>
+                    {driver.remaining_stops.slice(2).map(stop => (
+                      <View key={stop.delivery_id}>{renderStop(stop)}</View>
+                    ))}
+                  </View>
+                )}
+                {!isSelected && driver.remaining_stops.length > 2 && (
+                  <Text style={styles.moreText}>+{driver.remaining_stops.length - 2} more stops · tap to view</Text>
+                )}
+              </TouchableOpacity>
+            );
+          })
+        )}
+
+        {offShiftCount > 0 && (
+          <TouchableOpacity style={styles.offShiftToggle} onPress={() => setShowOffShift(prev => !prev)}>
+            <Text style={styles.offShiftText}>
+              {showOffShift ? 'Hide' : 'Show'} {offShiftCount} off-shift driver{offShiftCount === 1 ? '' : 's'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  planButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: COLORS.maroon,
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  planButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.card,
+  },
+  liveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: COLORS.textLight,
+    marginTop: 8,
+  },
+  driverCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  driverCardSelected: {
+    borderColor: COLORS.maroon,
+    borderWidth: 2,
+  },
+  driverHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  driverInfo: {
+    flex: 1,
+  },
+  driverName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  lastSeen: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  counts: {
+    alignItems: 'center',
+  },
+  countValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.maroon,
+  },
+  countLabel: {
+    fontSize: 11,
+    color: COLORS.textLight,
+  },
+  callButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#E8F5E9',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stops: {
+    marginTop: 12,
+    gap: 8,
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stopBadge: {
+    minWidth: 40,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: COLORS.cream,
+    alignItems: 'center',
+  },
+  stopBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: COLORS.maroon,
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: COLORS.saffron,
+    textTransform: 'uppercase',
+  },
+  stopName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  stopAddress: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  idleText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 10,
+  },
+  manifest: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    gap: 8,
+  },
+  manifestTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  moreText: {
+    fontSize: 12,
+    color: COLORS.maroon,
+    marginTop: 10,
+  },
+  offShiftToggle: {
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  offShiftText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.maroon,
+  },
+});
@@ -0,0 +1,580 @@
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Platform,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { kitchenIntelAPI } from '../../src/services/api';
+import { shareShoppingList, ShoppingListFormat, ShoppingListItem } from '../../src/services/shoppingList';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  warning: '#E65100',
+};
+
+const DAY_OPTIONS = [3, 7, 14];
+
+// On-hand counts survive between visits; they are this device's stock take
+const ON_HAND_STORAGE_KEY = 'kitchenForecastOnHand';
+
+interface RawIngredient {
+  name: string;
+  unit: string;
+  quantity: number;
+  used_in: string[];
+}
+
+interface UnmappedItem {
+  name: string;
+  unit: string;
+  total: number;
+}
+
+interface DayBreakdown {
+  date: string;
+  day: string;
+  menu_set: boolean;
+  active_orders?: number;
+}
+
+interface Forecast {
+  period: string;
+  days: number;
+  total_active_subscriptions: number;
+  raw_ingredients: RawIngredient[];
+  unmapped_items: UnmappedItem[];
+  daily_breakdown: DayBreakdown[];
+}
+
+const formatQuantity = (value: number) => String(Math.round(value * 100) / 100);
+
+// Dish quantities come back in grams/ml; show them in kg/L like the rest of the list
+const toBulkUnit = (total: number, unit: string) => {
+  if (unit === 'grams') return { quantity: total / 1000, unit: 'kg' };
+  if (unit === 'ml') return { quantity: total / 1000, unit: 'L' };
+  return { quantity: total, unit };
+};
+
+export default function ForecastScreen() {
+  const [days, setDays] = useState(7);
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [onHand, setOnHand] = useState<Record<string, string>>({});
+  const [onlyToBuy, setOnlyToBuy] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const fetchForecast = useCallback(async () => {
+    try {
+      const response = await kitchenIntelAPI.getIngredientForecast(days);
+      setForecast(response.data);
+    } catch (error) {
+      console.error('Error fetching ingredient forecast:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchForecast();
+  }, [fetchForecast]);
+
+  useEffect(() => {
+    AsyncStorage.getItem(ON_HAND_STORAGE_KEY)
+      .then(stored => stored && setOnHand(JSON.parse(stored)))
+      .catch(error => console.error('Error loading on-hand stock:', error));
+  }, []);
+
+  const updateOnHand = (name: string, value: string) => {
+    const next = { ...onHand, [name]: value.replace(/[^0-9.]/g, '') };
+    setOnHand(next);
+    AsyncStorage.setItem(ON_HAND_STORAGE_KEY, JSON.stringify(next)).catch(() => {});
+  };
+
+  const clearOnHand = () => {
+    Alert.alert('Clear stock counts?', 'All on-hand quantities will be reset to zero.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => {
+          setOnHand({});
+          AsyncStorage.removeItem(ON_HAND_STORAGE_KEY).catch(() => {});
+        },
+      },
+    ]);
+  };
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchForecast();
+  }, [fetchForecast]);
+
+  const items = useMemo<ShoppingListItem[]>(() => {
+    const raw = (forecast?.raw_ingredients || []).map(item => ({ name: item.name, unit: item.unit, needed: item.quantity }));
+    const unmapped = (forecast?.unmapped_items || []).map(item => {
+      const bulk = toBulkUnit(item.total, item.unit);
+      return { name: item.name, unit: bulk.unit, needed: bulk.quantity };
+    });
+    return [...raw, ...unmapped].map(item => {
+      const stock = parseFloat(onHand[item.name] || '') || 0;
+      return { ...item, onHand: stock, toBuy: Math.max(0, item.needed - stock) };
+    });
+  }, [forecast, onHand]);
+
+  const rawCount = forecast?.raw_ingredients.length || 0;
+  const visibleItems = items
+    .map((item, index) => ({ item, isRaw: index < rawCount }))
+    .filter(({ item }) => !onlyToBuy || item.toBuy > 0);
+  const toBuyCount = items.filter(item => item.toBuy > 0).length;
+  const missingMenus = (forecast?.daily_breakdown || []).filter(day => !day.menu_set);
+
+  const exportList = async (format: ShoppingListFormat) => {
+    if (!forecast) return;
+    setIsExporting(true);
+    try {
+      await shareShoppingList({ period: forecast.period, items }, format);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export shopping list');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExport = () => {
+    Alert.alert('Export Shopping List', `${toBuyCount} item${toBuyCount === 1 ? '' : 's'} to buy for ${forecast?.period}`, [
+      { text: 'CSV', onPress: () => exportList('csv') },
+      { text: 'Text', onPress: () => exportList('text') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const renderItem = (item: ShoppingListItem, isRaw: boolean) => {
+    const usedIn = isRaw ? forecast?.raw_ingredients.find(raw => raw.name === item.name)?.used_in : null;
+    return (
+      <View key={`${isRaw ? 'raw' : 'dish'}-${item.name}`} style={styles.itemRow}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName}>{item.name}</Text>
+          <Text style={styles.itemMeta} numberOfLines={1}>
+            Need {formatQuantity(item.needed)} {item.unit}
+            {usedIn?.length ? ` · ${usedIn.join(', ')}` : ''}
+          </Text>
+        </View>
+        <View style={styles.onHandBox}>
+          <TextInput
+            style={styles.onHandInput}
+            value={onHand[item.name] || ''}
+            onChangeText={value => updateOnHand(item.name, value)}
+            placeholder="0"
+            placeholderTextColor={COLORS.border}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.onHandUnit}>{item.unit}</Text>
+        </View>
+        <View style={styles.toBuyBox}>
+          <Text style={[styles.toBuyValue, item.toBuy === 0 && styles.toBuyDone]}>
+            {item.toBuy === 0 ? '✓' : formatQuantity(item.toBuy)}
+          </Text>
+          {item.toBuy > 0 && <Text style={styles.toBuyUnit}>{item.unit}</Text>}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.maroon} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>Shopping Forecast</Text>
+          <Text style={styles.subtitle}>{forecast?.period || 'Raw ingredients for upcoming menus'}</Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.exportButton, (!forecast || isExporting) && styles.buttonDisabled]}
+          onPress={handleExport}
+          disabled={!forecast || isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color={COLORS.card} />
+          ) : (
+            <Ionicons name="share-outline" size={20} color={COLORS.card} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.controls}>
+        <View style={styles.segment}>
+          {DAY_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segmentButton, days === option && styles.segmentButtonActive]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setDays(option);
+              }}
+            >
+              <Text style={[styles.segmentText, days === option && styles.segmentTextActive]}>{option} days</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity style={styles.filterToggle} onPress={() => setOnlyToBuy(prev => !prev)}>
+          <Ionicons name={onlyToBuy ? 'checkbox' : 'square-outline'} size={18} color={COLORS.maroon} />
+          <Text style={styles.filterText}>To buy only</Text>
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      ) : (
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+          >
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryValue}>{forecast?.total_active_subscriptions || 0}</Text>
+                <Text style={styles.summaryLabel}>Active plans</Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryValue}>{items.length}</Text>
+                <Text style={styles.summaryLabel}>Ingredients</Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={[styles.summaryValue, { color: toBuyCount ? COLORS.warning : COLORS.success }]}>{toBuyCount}</Text>
+                <Text style={styles.summaryLabel}>To buy</Text>
+              </View>
+            </View>
+
+            {missingMenus.length > 0 && (
+              <View style={styles.warningCard}>
+                <Ionicons name="alert-circle" size={18} color={COLORS.warning} />
+                <Text style={styles.warningText}>
+                  No menu set for {missingMenus.map(day => day.day.slice(0, 3)).join(', ')} - those days are not counted.
+                </Text>
+              </View>
+            )}
+
+            {items.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="basket-outline" size={56} color={COLORS.border} />
+                <Text style={styles.emptyText}>Nothing to forecast</Text>
+                <Text style={styles.emptySubtext}>Set menus for the coming days to build a shopping list</Text>
+              </View>
+            ) : (
+              <View style={styles.listCard}>
+                <View style={styles.listHeader}>
+                  <Text style={[styles.listHeaderText, styles.itemInfo]}>Ingredient</Text>
+                  <Text style={[styles.listHeaderText, styles.onHandHeader]}>On hand</Text>
+                  <Text style={[styles.listHeaderText, styles.toBuyHeader]}>To buy</Text>
+                </View>
+                {visibleItems.filter(({ isRaw }) => isRaw).map(({ item }) => renderItem(item, true))}
+                {visibleItems.some(({ isRaw }) => !isRaw) && (
+                  <Text style={styles.sectionLabel}>Bought ready-made (no recipe on file)</Text>
+                )}
+                {visibleItems.filter(({ isRaw }) => !isRaw).map(({ item }) => renderItem(item, false))}
+              </View>
+            )}
+
+            {Object.keys(onHand).length > 0 && (
+              <TouchableOpacity style={styles.clearButton} onPress={clearOnHand}>
+                <Text style={styles.clearText}>Clear stock counts</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  exportButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: COLORS.maroon,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  segment: {
+    flexDirection: 'row',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+    overflow: 'hidden',
+  },
+  segmentButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+  },
+  segmentButtonActive: {
+    backgroundColor: COLORS.maroon,
+  },
+  segmentText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  segmentTextActive: {
+    color: COLORS.card,
+    fontWeight: '600',
+  },
+  filterToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  filterText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingTop: 4,
+    paddingBottom: 40,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 12,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    padding: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF3E0',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.warning,
+  },
+  listCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    overflow: 'hidden',
+  },
+  listHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    backgroundColor: COLORS.cream,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  listHeaderText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.textLight,
+    textTransform: 'uppercase',
+  },
+  onHandHeader: {
+    width: 96,
+    textAlign: 'center',
+  },
+  toBuyHeader: {
+    width: 64,
+    textAlign: 'right',
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.textLight,
+    textTransform: 'uppercase',
+    paddingHorizontal: 14,
+    paddingTop: 14,
+    paddingBottom: 4,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  onHandBox: {
+    width: 96,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  onHandInput: {
+    width: 56,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    textAlign: 'right',
+    color: COLORS.text,
+    backgroundColor: COLORS.background,
+  },
+  onHandUnit: {
+    fontSize: 11,
+    color: COLORS.textLight,
+  },
+  toBuyBox: {
+    width: 64,
+    alignItems: 'flex-end',
+  },
+  toBuyValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.warning,
+  },
+  toBuyDone: {
+    color: COLORS.success,
+  },
+  toBuyUnit: {
+    fontSize: 11,
+    color: COLORS.textLight,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  clearButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.maroon,
+  },
+});
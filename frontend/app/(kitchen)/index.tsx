@@ -25,7 +25,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
 import { useAuth } from '../../src/context/AuthContext';
-import { kitchenAPI } from '../../src/services/api';
+import { kitchenAPI, kitchenIntelAPI } from '../../src/services/api';
 import DabbaLogo, { BRAND_COLORS } from '../../src/components/DabbaLogo';
 import { AnimatedCard, AnimatedCounter, PulsingDot, Skeleton } from '../../src/components/AnimatedComponents';
 
@@ -50,6 +50,14 @@ interface DashboardStats {
   pending_today: number;
 }
 
+interface QualityAlert {
+  type: 'quality' | 'handover';
+  severity: 'urgent' | 'high' | 'medium';
+  message: string;
+}
+
+const SEVERITY_ORDER = ['urgent', 'high', 'medium'];
+
 // Animated stat card
 const StatCard = ({ icon, value, label, bgColor, iconColor, index }: any) => {
   const scale = useSharedValue(1);
@@ -127,13 +135,21 @@ export default function KitchenDashboard() {
   const { user, logout } = useAuth();
   const router = useRouter();
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [alerts, setAlerts] = useState<QualityAlert[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const fetchDashboard = useCallback(async () => {
     try {
-      const response = await kitchenAPI.getDashboard();
+      const [response, alertsRes] = await Promise.all([
+        kitchenAPI.getDashboard(),
+        kitchenIntelAPI.getQualityAlerts().catch(() => null),
+      ]);
       setStats(response.data);
+      const sortedAlerts = [...(alertsRes?.data.alerts || [])].sort(
+        (a: QualityAlert, b: QualityAlert) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+      );
+      setAlerts(sortedAlerts);
     } catch (error: any) {
       console.error('Dashboard error:', error);
     } finally {
@@ -189,8 +205,12 @@ export default function KitchenDashboard() {
     { icon: 'calendar', label: 'Set Dabba', bgColor: '#FFF3E0', iconColor: COLORS.warning, route: '/(kitchen)/menu' },
     { icon: 'pricetags', label: 'Plans', bgColor: '#E3F2FD', iconColor: COLORS.info, route: '/(kitchen)/plans' },
     { icon: 'receipt', label: 'Orders', bgColor: '#FCE4EC', iconColor: COLORS.maroon, route: '/(kitchen)/orders' },
-    { icon: 'navigate', label: 'Track Driver', bgColor: '#E0F7FA', iconColor: '#00838F', route: '/(kitchen)/orders' },
+    { icon: 'navigate', label: 'Track Driver', bgColor: '#E0F7FA', iconColor: '#00838F', route: '/(kitchen)/fleet' },
     { icon: 'people', label: 'Customers', bgColor: '#F3E5F5', iconColor: '#7B1FA2', route: '/(kitchen)/customers' },
+    { icon: 'star', label: 'Ratings', bgColor: '#FFF8E1', iconColor: '#F9A825', route: '/(kitchen)/ratings' },
+    { icon: 'cloudy', label: 'Service Status', bgColor: '#ECEFF1', iconColor: '#546E7A', route: '/(kitchen)/weather' },
+    { icon: 'alert-circle', label: 'Failed Deliveries', bgColor: '#FFEBEE', iconColor: '#C62828', route: '/(kitchen)/failed' },
+    { icon: 'timer', label: 'ETA Accuracy', bgColor: '#E3F2FD', iconColor: '#1565C0', route: '/(kitchen)/eta-accuracy' },
   ];
 
   // Get current time greeting
@@ -224,6 +244,32 @@ export default function KitchenDashboard() {
           </TouchableOpacity>
         </Animated.View>
 
+        {/* Quality Alerts Banner */}
+        {alerts.length > 0 && (
+          <Animated.View entering={FadeInDown.delay(120).springify()}>
+            <TouchableOpacity
+              style={[styles.alertBanner, alerts[0].severity === 'medium' && styles.alertBannerMedium]}
+              onPress={() => router.push('/(kitchen)/ratings' as any)}
+              activeOpacity={0.8}
+            >
+              <Ionicons
+                name={alerts[0].type === 'handover' ? 'chatbubble-ellipses' : 'warning'}
+                size={22}
+                color={alerts[0].severity === 'medium' ? COLORS.warning : '#C62828'}
+              />
+              <View style={styles.alertContent}>
+                <Text style={styles.alertTitle}>
+                  {alerts.length === 1 ? 'Quality alert' : `${alerts.length} quality alerts`}
+                </Text>
+                {alerts.slice(0, 2).map((alert, index) => (
+                  <Text key={index} style={styles.alertMessage} numberOfLines={1}>{alert.message}</Text>
+                ))}
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={COLORS.textLight} />
+            </TouchableOpacity>
+          </Animated.View>
+        )}
+
         {/* Hero Card - Today's Overview */}
         <Animated.View entering={FadeInUp.delay(150).springify()} style={styles.heroCard}>
           <View style={styles.heroGradient}>
@@ -333,6 +379,22 @@ export default function KitchenDashboard() {
           </View>
         </AnimatedCard>
 
+        {/* Shopping Forecast Card */}
+        <AnimatedCard index={10} style={styles.customersCard} onPress={() => router.push('/(kitchen)/forecast' as any)}>
+          <View style={styles.customersContent}>
+            <View style={styles.customersLeft}>
+              <View style={styles.customersIconContainer}>
+                <Ionicons name="basket" size={24} color={COLORS.success} />
+              </View>
+              <View>
+                <Text style={styles.customersTitle}>Shopping Forecast</Text>
+                <Text style={styles.customersCount}>Raw ingredients to buy</Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={22} color={COLORS.textLight} />
+          </View>
+        </AnimatedCard>
+
         {/* Footer */}
         <Animated.View entering={FadeIn.delay(700)} style={styles.footer}>
           <View style={styles.footerDivider}>
@@ -497,6 +559,35 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontWeight: '500',
   },
+  // Alert Banner
+  alertBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFEBEE',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#FFCDD2',
+    padding: 14,
+    marginBottom: 16,
+  },
+  alertBannerMedium: {
+    backgroundColor: '#FFF3E0',
+    borderColor: '#FFE0B2',
+  },
+  alertContent: {
+    flex: 1,
+  },
+  alertTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginBottom: 2,
+  },
+  alertMessage: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
   // Stats Row
   statsRow: {
     flexDirection: 'row',
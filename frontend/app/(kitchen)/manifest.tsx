@@ -0,0 +1,586 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { kitchenAPI } from '../../src/services/api';
+import { useRealtimeEvent } from '../../src/services/realtime';
+import { toDateKey, parseDateKey } from '../../src/components/DateRangePicker';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import SpiceChip from '../../src/components/SpiceChip';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  warning: '#E65100',
+  blue: '#1976D2',
+};
+
+const PLAN_FILTERS = [
+  { key: '', label: 'All' },
+  { key: 'daily', label: 'Daily' },
+  { key: 'weekly', label: 'Weekly' },
+  { key: 'monthly', label: 'Monthly' },
+];
+
+const PLAN_COLORS: Record<string, string> = {
+  daily: '#1565C0',
+  weekly: '#2E7D32',
+  monthly: '#7B1FA2',
+};
+
+type GroupBy = 'route' | 'driver';
+
+interface ManifestEntry {
+  sequence: number | null;
+  customer_name: string;
+  address: string;
+  phone: string;
+  plan_type: string;
+  items: (string | { name: string; quantity?: number })[];
+  spice_level: string;
+  special_instructions: string;
+  dabba_ready: boolean;
+  delivery_id: string;
+  driver_id: string | null;
+  driver_name: string | null;
+}
+
+interface Manifest {
+  date: string;
+  total: number;
+  ready: number;
+  by_plan: Record<string, number>;
+  manifest: ManifestEntry[];
+}
+
+const shiftDate = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+const formatDateLabel = (key: string) =>
+  parseDateKey(key).toLocaleDateString('en-CA', { weekday: 'long', month: 'short', day: 'numeric' });
+
+const formatItem = (item: ManifestEntry['items'][number]) =>
+  typeof item === 'string' ? item : item.quantity && item.quantity > 1 ? `${item.name} ×${item.quantity}` : item.name;
+
+export default function ManifestScreen() {
+  const today = toDateKey(new Date());
+  const tomorrow = shiftDate(today, 1);
+  const [date, setDate] = useState(today);
+  const [planFilter, setPlanFilter] = useState('');
+  const [groupBy, setGroupBy] = useState<GroupBy>('route');
+  const [manifest, setManifest] = useState<Manifest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchManifest = useCallback(async () => {
+    try {
+      const response = await kitchenAPI.getCleanManifest(date, planFilter || undefined);
+      setManifest(response.data);
+    } catch (error) {
+      console.error('Error fetching manifest:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [date, planFilter]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchManifest();
+  }, [fetchManifest]);
+
+  // Skips reindex the route and packers tick dabbas from other screens
+  useRealtimeEvent('manifest_update', () => fetchManifest());
+  useRealtimeEvent('dabba_ready', ({ delivery_id }) => {
+    setManifest(prev => {
+      if (!prev) return prev;
+      const entries = prev.manifest.map(entry =>
+        entry.delivery_id === delivery_id ? { ...entry, dabba_ready: true } : entry
+      );
+      return { ...prev, manifest: entries, ready: entries.filter(entry => entry.dabba_ready).length };
+    });
+  });
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchManifest();
+  }, [fetchManifest]);
+
+  const changeDate = (next: string) => {
+    Haptics.selectionAsync();
+    setDate(next);
+  };
+
+  const groups = useMemo(() => {
+    const entries = manifest?.manifest || [];
+    if (groupBy === 'route') {
+      return [{ key: 'route', title: null as string | null, entries }];
+    }
+    const byDriver = new Map<string, ManifestEntry[]>();
+    entries.forEach(entry => {
+      const key = entry.driver_id || '';
+      byDriver.set(key, [...(byDriver.get(key) || []), entry]);
+    });
+    // Unassigned stops last so they stand out as the remaining work
+    return Array.from(byDriver.entries())
+      .sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : 0))
+      .map(([key, driverEntries]) => ({
+        key: key || 'unassigned',
+        title: key ? driverEntries[0].driver_name || 'Unknown driver' : 'Unassigned',
+        entries: driverEntries,
+      }));
+  }, [manifest, groupBy]);
+
+  const renderEntry = (entry: ManifestEntry) => (
+    <View key={entry.delivery_id} style={[styles.entryCard, entry.dabba_ready && styles.entryCardReady]}>
+      <View style={styles.sequenceBadge}>
+        <Text style={styles.sequenceText}>{entry.sequence ?? '–'}</Text>
+      </View>
+      <View style={styles.entryInfo}>
+        <View style={styles.entryHeader}>
+          <Text style={styles.customerName} numberOfLines={1}>{entry.customer_name}</Text>
+          <View style={[styles.planPill, { backgroundColor: (PLAN_COLORS[entry.plan_type] || COLORS.textLight) + '1F' }]}>
+            <Text style={[styles.planPillText, { color: PLAN_COLORS[entry.plan_type] || COLORS.textLight }]}>
+              {entry.plan_type}
+            </Text>
+          </View>
+        </View>
+        <Text style={styles.address} numberOfLines={2}>{entry.address || 'No address on file'}</Text>
+        {entry.items.length > 0 && (
+          <Text style={styles.items}>{entry.items.map(formatItem).join(' · ')}</Text>
+        )}
+        <View style={styles.metaRow}>
+          <SpiceChip level={entry.spice_level} />
+          {groupBy === 'route' && entry.driver_name && (
+            <View style={styles.metaItem}>
+              <Ionicons name="car-outline" size={13} color={COLORS.textLight} />
+              <Text style={styles.metaText}>{entry.driver_name}</Text>
+            </View>
+          )}
+          {entry.dabba_ready && (
+            <View style={styles.metaItem}>
+              <Ionicons name="checkmark-circle" size={13} color={COLORS.success} />
+              <Text style={[styles.metaText, { color: COLORS.success }]}>Packed</Text>
+            </View>
+          )}
+        </View>
+        {!!entry.special_instructions && (
+          <View style={styles.instructions}>
+            <Ionicons name="information-circle-outline" size={14} color={COLORS.maroon} />
+            <Text style={styles.instructionsText}>{entry.special_instructions}</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Manifest</Text>
+        <Text style={styles.subtitle}>Packing & route view · no pricing</Text>
+
+        {/* Date picker */}
+        <View style={styles.dateRow}>
+          <TouchableOpacity style={styles.dateArrow} onPress={() => changeDate(shiftDate(date, -1))}>
+            <Ionicons name="chevron-back" size={20} color={COLORS.maroon} />
+          </TouchableOpacity>
+          <Text style={styles.dateLabel}>{formatDateLabel(date)}</Text>
+          <TouchableOpacity style={styles.dateArrow} onPress={() => changeDate(shiftDate(date, 1))}>
+            <Ionicons name="chevron-forward" size={20} color={COLORS.maroon} />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chipRow}>
+          {[{ key: today, label: 'Today' }, { key: tomorrow, label: 'Tomorrow' }].map(option => (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.chip, date === option.key && styles.chipActive]}
+              onPress={() => changeDate(option.key)}
+            >
+              <Text style={[styles.chipText, date === option.key && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+          <View style={styles.chipSpacer} />
+          <View style={styles.segment}>
+            {(['route', 'driver'] as GroupBy[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.segmentButton, groupBy === option && styles.segmentButtonActive]}
+                onPress={() => setGroupBy(option)}
+              >
+                <Ionicons
+                  name={option === 'route' ? 'git-commit-outline' : 'car-outline'}
+                  size={14}
+                  color={groupBy === option ? COLORS.card : COLORS.textLight}
+                />
+                <Text style={[styles.segmentText, groupBy === option && styles.segmentTextActive]}>
+                  {option === 'route' ? 'Route' : 'Driver'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+
+      {/* Plan filters */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterBar} contentContainerStyle={styles.filterContent}>
+        {PLAN_FILTERS.map(filter => {
+          const count = filter.key
+            ? manifest?.by_plan[filter.key] ?? 0
+            : Object.values(manifest?.by_plan || {}).reduce((sum, n) => sum + n, 0);
+          const isActive = planFilter === filter.key;
+          return (
+            <TouchableOpacity
+              key={filter.label}
+              style={[styles.filterChip, isActive && styles.filterChipActive]}
+              onPress={() => setPlanFilter(filter.key)}
+            >
+              <Text style={[styles.filterText, isActive && styles.filterTextActive]}>
+                {filter.label} ({count})
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+        >
+          {manifest && manifest.total > 0 && (
+            <View style={styles.summary}>
+              <Text style={styles.summaryText}>
+                <Text style={styles.summaryValue}>{manifest.total}</Text> dabbas ·{' '}
+                <Text style={[styles.summaryValue, { color: COLORS.success }]}>{manifest.ready}</Text> packed
+              </Text>
+            </View>
+          )}
+
+          {!manifest || manifest.total === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="document-text-outline" size={56} color={COLORS.border} />
+              <Text style={styles.emptyTitle}>No deliveries</Text>
+              <Text style={styles.emptyText}>Nothing on the manifest for this date{planFilter ? ' and plan' : ''}</Text>
+            </View>
+          ) : (
+            groups.map(group => (
+              <View key={group.key} style={styles.group}>
+                {group.title && (
+                  <View style={styles.groupHeader}>
+                    <Ionicons
+                      name={group.key === 'unassigned' ? 'help-circle-outline' : 'car'}
+                      size={16}
+                      color={group.key === 'unassigned' ? COLORS.warning : COLORS.maroon}
+                    />
+                    <Text style={styles.groupTitle}>{group.title}</Text>
+                    <Text style={styles.groupCount}>{group.entries.length} stops</Text>
+                  </View>
+                )}
+                {group.entries.map(renderEntry)}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 4,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 14,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  dateArrow: {
+    padding: 10,
+  },
+  dateLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  chipActive: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  chipTextActive: {
+    color: COLORS.card,
+    fontWeight: '600',
+  },
+  chipSpacer: {
+    flex: 1,
+  },
+  segment: {
+    flexDirection: 'row',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+    overflow: 'hidden',
+  },
+  segmentButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  segmentButtonActive: {
+    backgroundColor: COLORS.maroon,
+  },
+  segmentText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  segmentTextActive: {
+    color: COLORS.card,
+    fontWeight: '600',
+  },
+  filterBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  filterContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  filterChipActive: {
+    backgroundColor: COLORS.gold + '33',
+    borderColor: COLORS.gold,
+  },
+  filterText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  filterTextActive: {
+    color: COLORS.text,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  summary: {
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+  },
+  summaryValue: {
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  group: {
+    marginBottom: 8,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  groupCount: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  entryCard: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.card,
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  entryCardReady: {
+    borderColor: COLORS.success + '66',
+  },
+  sequenceBadge: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: COLORS.maroon,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  sequenceText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: COLORS.card,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  customerName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  planPill: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  planPillText: {
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  address: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 4,
+  },
+  items: {
+    fontSize: 13,
+    color: COLORS.text,
+    marginTop: 6,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    textTransform: 'capitalize',
+  },
+  instructions: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: COLORS.cream,
+  },
+  instructionsText: {
+    flex: 1,
+    fontSize: 12,
+    color: COLORS.maroon,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginTop: 4,
+  },
+});
@@ -22,6 +22,7 @@ import Animated, {
 import * as Haptics from 'expo-haptics';
 import { kitchenAPI } from '../../src/services/api';
 import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import { useSoldOut } from '../../src/components/SoldOutBoard';
 
 const COLORS = {
   ...BRAND_COLORS,
@@ -32,6 +33,7 @@ const COLORS = {
   border: '#E8DED1',
   success: '#2E7D32',
   warning: '#E65100',
+  danger: '#C41E3A',
 };
 
 const CATEGORY_ICONS: Record<string, string> = {
@@ -119,6 +121,7 @@ export default function MenuManagement() {
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   const [activeCategory, setActiveCategory] = useState('roti');
   const [isSaving, setIsSaving] = useState(false);
+  const soldOut = useSoldOut();
 
   const fetchMenu = useCallback(async () => {
     try {
@@ -138,11 +141,13 @@ export default function MenuManagement() {
     fetchMenu();
   }, [fetchMenu]);
 
+  const refreshSoldOut = soldOut.refresh;
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     fetchMenu();
-  }, [fetchMenu]);
+    refreshSoldOut();
+  }, [fetchMenu, refreshSoldOut]);
 
   const generateNext14Days = () => {
     const days = [];
@@ -222,6 +227,7 @@ export default function MenuManagement() {
   }
 
   const next14Days = generateNext14Days();
+  const todayItems = getMenuForDate(next14Days[0])?.dinner_items || [];
 
   // If a date is selected, show the menu builder
   if (selectedDate) {
@@ -341,6 +347,39 @@ export default function MenuManagement() {
         }
         showsVerticalScrollIndicator={false}
       >
+        {/* Today's stock - mark dabba items sold out or back in stock */}
+        {todayItems.length > 0 && (
+          <Animated.View entering={FadeInDown.delay(120).springify()} style={styles.stockCard}>
+            <Text style={styles.stockTitle}>Today&apos;s Dabba Stock</Text>
+            {todayItems.map(item => {
+              const soldOutItem = soldOut.items.find(entry => entry.item_name === item.name);
+              return (
+                <View key={item.id} style={styles.stockRow}>
+                  <View style={styles.stockInfo}>
+                    <Text style={[styles.stockName, soldOutItem && styles.stockNameSoldOut]}>{item.name}</Text>
+                    {soldOutItem && (
+                      <Text style={styles.stockImpact}>{soldOutItem.affected_customers} customers affected</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.stockToggle, soldOutItem && styles.stockToggleSoldOut]}
+                    onPress={() => soldOut.toggle(item.name)}
+                    disabled={soldOut.pending === item.name}
+                  >
+                    {soldOut.pending === item.name ? (
+                      <ActivityIndicator size="small" color={soldOutItem ? '#FFF' : COLORS.success} />
+                    ) : (
+                      <Text style={[styles.stockToggleText, soldOutItem && styles.stockToggleTextSoldOut]}>
+                        {soldOutItem ? 'Sold out' : 'In stock'}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </Animated.View>
+        )}
+
         {next14Days.map((date, index) => {
           const formatted = formatDate(date);
           const dayMenu = getMenuForDate(date);
@@ -416,6 +455,65 @@ const styles = StyleSheet.create({
     color: COLORS.textLight,
     marginTop: 4,
   },
+  stockCard: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: COLORS.gold,
+  },
+  stockTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  stockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  stockInfo: {
+    flex: 1,
+  },
+  stockName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  stockNameSoldOut: {
+    color: COLORS.textLight,
+    textDecorationLine: 'line-through',
+  },
+  stockImpact: {
+    fontSize: 12,
+    color: COLORS.danger,
+    marginTop: 2,
+  },
+  stockToggle: {
+    minWidth: 84,
+    alignItems: 'center',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.success,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  stockToggleSoldOut: {
+    backgroundColor: COLORS.danger,
+    borderColor: COLORS.danger,
+  },
+  stockToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.success,
+  },
+  stockToggleTextSoldOut: {
+    color: '#FFF',
+  },
   scrollContent: {
     paddingHorizontal: 20,
     paddingBottom: 24,
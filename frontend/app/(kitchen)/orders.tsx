@@ -16,6 +16,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { kitchenAPI } from '../../src/services/api';
 import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import SpiceChip from '../../src/components/SpiceChip';
+import QrCode from '../../src/components/QrCode';
+import { LABEL_LAYOUTS, LabelFormat, PackingLabel, buildLabelQrValue, shareLabels } from '../../src/services/labels';
 
 const COLORS = {
   ...BRAND_COLORS,
@@ -42,14 +45,6 @@ interface Order {
   skipped: boolean;
 }
 
-interface PrintLabel {
-  delivery_number: number;
-  customer_name: string;
-  address: string;
-  plan: string;
-  phone: string;
-}
-
 export default function OrdersManagement() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [date, setDate] = useState('');
@@ -58,7 +53,9 @@ export default function OrdersManagement() {
   const [selectedOrders, setSelectedOrders] = useState<string[]>([]);
   const [isMarkingReady, setIsMarkingReady] = useState(false);
   const [showPrintModal, setShowPrintModal] = useState(false);
-  const [printLabels, setPrintLabels] = useState<PrintLabel[]>([]);
+  const [printLabels, setPrintLabels] = useState<PackingLabel[]>([]);
+  const [labelLayout, setLabelLayout] = useState(LABEL_LAYOUTS[0]);
+  const [exportingFormat, setExportingFormat] = useState<LabelFormat | null>(null);
 
   const fetchOrders = useCallback(async () => {
     try {
@@ -145,6 +142,17 @@ export default function OrdersManagement() {
     }
   };
 
+  const handleExportLabels = async (format: LabelFormat) => {
+    setExportingFormat(format);
+    try {
+      await shareLabels(printLabels, format, labelLayout);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export labels');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'delivered': return COLORS.success;
@@ -357,18 +365,61 @@ export default function OrdersManagement() {
                 </View>
                 <View style={styles.labelContent}>
                   <Text style={styles.labelName}>{label.customer_name}</Text>
-                  <Text style={styles.labelPlan}>{label.plan} Plan</Text>
+                  <View style={styles.labelPlanRow}>
+                    <Text style={styles.labelPlan}>{label.plan} Plan</Text>
+                    <SpiceChip level={label.spice_level} />
+                  </View>
                   <View style={styles.labelDivider} />
                   <Text style={styles.labelAddress}>{label.address}</Text>
                   <Text style={styles.labelPhone}>{label.phone}</Text>
+                  {label.delivery_id && (
+                    <View style={styles.labelQr}>
+                      <QrCode value={buildLabelQrValue(label.delivery_id)} size={104} />
+                    </View>
+                  )}
                 </View>
               </View>
             ))}
           </ScrollView>
 
           <View style={styles.modalActions}>
+            <Text style={styles.exportLabel}>Label sheet (PDF)</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.layoutRow}>
+              {LABEL_LAYOUTS.map(layout => (
+                <TouchableOpacity
+                  key={layout.id}
+                  style={[styles.layoutChip, labelLayout.id === layout.id && styles.layoutChipActive]}
+                  onPress={() => setLabelLayout(layout)}
+                >
+                  <Text style={[styles.layoutChipText, labelLayout.id === layout.id && styles.layoutChipTextActive]}>
+                    {layout.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <View style={styles.exportRow}>
+              {([
+                { format: 'pdf', label: 'PDF', icon: 'document' },
+                { format: 'zpl', label: 'ZPL', icon: 'barcode' },
+                { format: 'escpos', label: 'ESC/POS', icon: 'receipt' },
+              ] as const).map(option => (
+                <TouchableOpacity
+                  key={option.format}
+                  style={[styles.exportButton, exportingFormat !== null && styles.exportButtonDisabled]}
+                  onPress={() => handleExportLabels(option.format)}
+                  disabled={exportingFormat !== null || printLabels.length === 0}
+                >
+                  {exportingFormat === option.format ? (
+                    <ActivityIndicator size="small" color={COLORS.maroon} />
+                  ) : (
+                    <Ionicons name={option.icon} size={18} color={COLORS.maroon} />
+                  )}
+                  <Text style={styles.exportButtonText}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
             <Text style={styles.printInstructions}>
-              Take a screenshot or use screen print (Ctrl+P / Cmd+P) to print labels
+              ZPL and ESC/POS files go straight to thermal label printers
             </Text>
             <TouchableOpacity 
               style={styles.closeModalButton}
@@ -648,11 +699,16 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     textAlign: 'center',
   },
+  labelPlanRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
   labelPlan: {
     fontSize: 16,
     color: COLORS.maroon,
     fontWeight: '600',
-    marginTop: 4,
     textTransform: 'uppercase',
   },
   labelDivider: {
@@ -678,6 +734,70 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: COLORS.border,
   },
+  labelQr: {
+    marginTop: 16,
+    padding: 6,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  exportLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: COLORS.textLight,
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  layoutRow: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  layoutChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  layoutChipActive: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  layoutChipText: {
+    fontSize: 12,
+    color: COLORS.text,
+  },
+  layoutChipTextActive: {
+    color: COLORS.card,
+    fontWeight: '600',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.maroon,
+    backgroundColor: COLORS.card,
+  },
+  exportButtonDisabled: {
+    opacity: 0.5,
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: COLORS.maroon,
+  },
   printInstructions: {
     fontSize: 13,
     color: COLORS.textLight,
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -11,7 +11,10 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { kitchenAPI } from '../../src/services/api';
+import { router } from 'expo-router';
+import { kitchenAPI, kitchenIntelAPI } from '../../src/services/api';
+import { useRealtimeEvent, useRealtimeStatus } from '../../src/services/realtime';
+import SpiceChip, { SPICE_LEVELS, SPICE_META, SpiceLevel, toSpiceLevel } from '../../src/components/SpiceChip';
 import * as Haptics from 'expo-haptics';
 
 const COLORS = {
@@ -50,6 +53,26 @@ interface CustomerItem {
   expected_delivery?: string;
   dabba_ready?: boolean;
   delivery_id?: string;
+  has_override?: boolean;
+}
+
+interface TasteProfile {
+  customer_id: string;
+  spice_level: string;
+  allergies: string[];
+  dietary_notes: string;
+}
+
+type PortionKey = 'roti' | 'sabji' | 'dal' | 'rice' | 'salad' | 'bread';
+type PortionScope = 'today' | 'default';
+
+interface AuditEntry {
+  id: string;
+  scope: PortionScope | 'reset';
+  before: Partial<Record<PortionKey, number>>;
+  after: Partial<Record<PortionKey, number>>;
+  changed_by_name: string;
+  created_at: string;
 }
 
 interface Totals {
@@ -66,6 +89,42 @@ interface Totals {
   total_bread: number;
 }
 
+const PORTION_FIELDS: { key: PortionKey; label: string }[] = [
+  { key: 'roti', label: 'Roti' },
+  { key: 'sabji', label: 'Sabji' },
+  { key: 'dal', label: 'Dal' },
+  { key: 'rice', label: 'Rice' },
+  { key: 'salad', label: 'Salad' },
+  { key: 'bread', label: 'Bread' },
+];
+
+const MAX_PORTIONS = 20;
+// Stepper taps are batched into one save (and one audit entry) per burst
+const SAVE_DELAY_MS = 800;
+
+// Mirrors the server's totals so edits show up before the save lands
+const computeTotals = (list: CustomerItem[]): Totals => {
+  const sum = (key: PortionKey) => list.reduce((total, customer) => total + customer[key], 0);
+  return {
+    total_customers: list.length,
+    total_roti: sum('roti'),
+    total_sabji_portions: sum('sabji'),
+    total_sabji_grams: sum('sabji') * 227,
+    total_sabji_kg: Math.round(sum('sabji') * 227 / 10) / 100,
+    total_dal_portions: sum('dal'),
+    total_dal_grams: sum('dal') * 340,
+    total_dal_kg: Math.round(sum('dal') * 340 / 10) / 100,
+    total_rice_portions: sum('rice'),
+    total_salad_portions: sum('salad'),
+    total_bread: sum('bread'),
+  };
+};
+
+const describeAudit = (entry: AuditEntry) =>
+  Object.keys(entry.after)
+    .map(key => `${key} ${entry.before[key as PortionKey] ?? '–'}→${entry.after[key as PortionKey]}`)
+    .join(', ');
+
 export default function PreparationScreen() {
   const [prepList, setPrepList] = useState<CustomerItem[]>([]);
   const [totals, setTotals] = useState<Totals | null>(null);
@@ -73,10 +132,32 @@ export default function PreparationScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [readyDabbas, setReadyDabbas] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editScope, setEditScope] = useState<PortionScope>('today');
+  const [audit, setAudit] = useState<Record<string, AuditEntry[]>>({});
+  const [tasteProfiles, setTasteProfiles] = useState<Record<string, TasteProfile>>({});
+
+  // Unsaved stepper changes per customer, flushed after SAVE_DELAY_MS
+  const pendingChanges = useRef<Record<string, Partial<Record<PortionKey, number>>>>({});
+  const pendingScopes = useRef<Record<string, PortionScope>>({});
+  const saveTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  // Latest list for save callbacks that resolve after further edits
+  const prepListRef = useRef(prepList);
+  prepListRef.current = prepList;
 
   const fetchPrepList = useCallback(async () => {
     try {
-      const response = await kitchenAPI.getPreparationList();
+      const [response, prefsRes] = await Promise.all([
+        kitchenAPI.getPreparationList(),
+        kitchenIntelAPI.getCustomerPreferences().catch(() => null),
+      ]);
+      if (prefsRes) {
+        const profiles: Record<string, TasteProfile> = {};
+        (prefsRes.data.preferences || []).forEach((pref: TasteProfile) => {
+          profiles[pref.customer_id] = pref;
+        });
+        setTasteProfiles(profiles);
+      }
       const list = response.data.preparation_list || [];
       // Add sequence numbers dynamically
       const numberedList = list.map((item: CustomerItem, idx: number) => ({
@@ -94,18 +175,142 @@ export default function PreparationScreen() {
     }
   }, []);
 
+  const isLive = useRealtimeStatus();
+
   useEffect(() => {
     fetchPrepList();
-    // Auto-refresh every 30 seconds
+    // Live updates arrive over the socket; only poll while it is down
+    if (isLive) return;
     const interval = setInterval(fetchPrepList, 30000);
     return () => clearInterval(interval);
-  }, [fetchPrepList]);
+  }, [fetchPrepList, isLive]);
+
+  // Another kitchen screen marked a dabba ready
+  useRealtimeEvent('dabba_ready', ({ delivery_id }) => {
+    setPrepList(prev => prev.map(item =>
+      item.delivery_id === delivery_id ? { ...item, dabba_ready: true } : item
+    ));
+  });
+
+  // Skips, reindexing and menu edits change counts and totals
+  useRealtimeEvent('manifest_update', () => {
+    fetchPrepList();
+  });
+  useRealtimeEvent('menu_update', () => {
+    fetchPrepList();
+  });
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     fetchPrepList();
   }, [fetchPrepList]);
 
+  // Today's batch split by spice level so sabji and dal can go into separate pots
+  const spiceSplit = useMemo(() => {
+    const split = Object.fromEntries(
+      SPICE_LEVELS.map(level => [level, { customers: 0, sabji: 0, dal: 0 }])
+    ) as Record<SpiceLevel, { customers: number; sabji: number; dal: number }>;
+    prepList.forEach(customer => {
+      const bucket = split[toSpiceLevel(tasteProfiles[customer.customer_id]?.spice_level)];
+      bucket.customers += 1;
+      bucket.sabji += customer.sabji;
+      bucket.dal += customer.dal;
+    });
+    return split;
+  }, [prepList, tasteProfiles]);
+
+  const fetchAudit = useCallback(async (customerId: string) => {
+    try {
+      const response = await kitchenAPI.getPortionAudit(customerId, 5);
+      setAudit(prev => ({ ...prev, [customerId]: response.data.entries || [] }));
+    } catch (error) {
+      console.error('Error fetching portion history:', error);
+    }
+  }, []);
+
+  const flushChanges = useCallback(async (customerId: string, scope: PortionScope) => {
+    clearTimeout(saveTimers.current[customerId]);
+    const changes = pendingChanges.current[customerId];
+    delete pendingChanges.current[customerId];
+    if (!changes) return;
+    try {
+      const response = await kitchenAPI.updateCustomerItems(customerId, changes, scope);
+      // Show what today actually resolves to - a new default doesn't beat today's override.
+      // Steps made while this save was in flight stay on screen until their own save.
+      const next = prepListRef.current.map(item =>
+        item.customer_id === customerId
+          ? { ...item, ...response.data.items, ...pendingChanges.current[customerId], has_override: response.data.has_override }
+          : item
+      );
+      setPrepList(next);
+      setTotals(computeTotals(next));
+      fetchAudit(customerId);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to save portions');
+      fetchPrepList();
+    }
+  }, [fetchAudit, fetchPrepList]);
+
+  // Save anything still pending when leaving the screen
+  useEffect(() => {
+    const timers = saveTimers.current;
+    const pending = pendingChanges.current;
+    const scopes = pendingScopes.current;
+    return () => {
+      Object.values(timers).forEach(clearTimeout);
+      Object.entries(pending).forEach(([customerId, changes]) => {
+        kitchenAPI.updateCustomerItems(customerId, changes, scopes[customerId]).catch(() => {});
+      });
+    };
+  }, []);
+
+  const toggleExpanded = (customerId: string) => {
+    Haptics.selectionAsync();
+    if (expandedId) flushChanges(expandedId, editScope);
+    if (expandedId === customerId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(customerId);
+    setEditScope('today');
+    fetchAudit(customerId);
+  };
+
+  const changeScope = (scope: PortionScope) => {
+    if (expandedId) flushChanges(expandedId, editScope);
+    setEditScope(scope);
+  };
+
+  const adjustPortion = (customer: CustomerItem, key: PortionKey, delta: number) => {
+    const value = Math.max(0, Math.min(MAX_PORTIONS, customer[key] + delta));
+    if (value === customer[key]) return;
+    Haptics.selectionAsync();
+
+    const next = prepList.map(item => (item.customer_id === customer.customer_id ? { ...item, [key]: value } : item));
+    setPrepList(next);
+    setTotals(computeTotals(next));
+
+    const customerId = customer.customer_id;
+    pendingChanges.current[customerId] = { ...pendingChanges.current[customerId], [key]: value };
+    pendingScopes.current[customerId] = editScope;
+    clearTimeout(saveTimers.current[customerId]);
+    const scope = editScope;
+    saveTimers.current[customerId] = setTimeout(() => flushChanges(customerId, scope), SAVE_DELAY_MS);
+  };
+
+  const resetOverride = async (customer: CustomerItem) => {
+    clearTimeout(saveTimers.current[customer.customer_id]);
+    delete pendingChanges.current[customer.customer_id];
+    try {
+      await kitchenAPI.clearCustomerItemsOverride(customer.customer_id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await fetchPrepList();
+      fetchAudit(customer.customer_id);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || "Failed to reset today's portions");
+    }
+  };
+
   const handleMarkReady = async (customerId: string, deliveryId?: string) => {
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -169,8 +374,18 @@ export default function PreparationScreen() {
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>Preparation List</Text>
-        <Text style={styles.dateText}>{formatDate(date)}</Text>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>Preparation List</Text>
+          <View style={styles.dateRow}>
+            <Text style={styles.dateText}>{formatDate(date)}</Text>
+            <View style={[styles.liveDot, { backgroundColor: isLive ? COLORS.success : COLORS.textLight }]} />
+            <Text style={styles.liveText}>{isLive ? 'Live' : 'Auto-refresh'}</Text>
+          </View>
+        </View>
+        <TouchableOpacity style={styles.cookSheetButton} onPress={() => router.push('/(kitchen)/cook-sheet')}>
+          <Ionicons name="flame" size={16} color={COLORS.background} />
+          <Text style={styles.cookSheetText}>Cook Sheet</Text>
+        </TouchableOpacity>
       </View>
 
       <ScrollView
@@ -252,6 +467,27 @@ export default function PreparationScreen() {
                 </View>
               </View>
             </View>
+
+            <View style={styles.divider} />
+
+            <Text style={styles.spiceTitle}>Spice Split</Text>
+            <View style={styles.spiceRow}>
+              {SPICE_LEVELS.map(level => (
+                <View key={level} style={[styles.spiceColumn, { borderTopColor: SPICE_META[level].color }]}>
+                  <Text style={[styles.spiceLabel, { color: SPICE_META[level].color }]}>
+                    {SPICE_META[level].label} {SPICE_META[level].chillies}
+                  </Text>
+                  <Text style={styles.spiceCount}>{spiceSplit[level].customers}</Text>
+                  <Text style={styles.totalSubtext}>dabbas</Text>
+                  <Text style={styles.spiceDetail}>
+                    Sabji {spiceSplit[level].sabji} · {Math.round(spiceSplit[level].sabji * 227 / 100) / 10} kg
+                  </Text>
+                  <Text style={styles.spiceDetail}>
+                    Dal {spiceSplit[level].dal} · {Math.round(spiceSplit[level].dal * 340 / 100) / 10} kg
+                  </Text>
+                </View>
+              ))}
+            </View>
           </View>
         )}
 
@@ -279,63 +515,148 @@ export default function PreparationScreen() {
           ) : (
             prepList.map((customer, index) => {
               const isReady = readyDabbas.has(customer.customer_id) || customer.dabba_ready;
+              const isExpanded = expandedId === customer.customer_id;
+              const profile = tasteProfiles[customer.customer_id];
               return (
-                <View
-                  key={customer.customer_id}
-                  style={[
-                    styles.tableRow,
-                    index % 2 === 0 ? styles.rowEven : styles.rowOdd,
-                    isReady && styles.rowReady,
-                  ]}
-                >
-                  {/* Sequence Number */}
-                  <View style={[styles.seqCell, styles.seqBadge]}>
-                    <Text style={styles.seqText}>{customer.sequence_number || index + 1}</Text>
-                  </View>
-                  
-                  {/* Ready Checkbox */}
-                  <TouchableOpacity 
-                    style={styles.checkCell}
-                    onPress={() => handleMarkReady(customer.customer_id, customer.delivery_id)}
+                <View key={customer.customer_id}>
+                  <View
+                    style={[
+                      styles.tableRow,
+                      index % 2 === 0 ? styles.rowEven : styles.rowOdd,
+                      isReady && styles.rowReady,
+                    ]}
                   >
-                    <View style={[styles.checkbox, isReady && styles.checkboxChecked]}>
-                      {isReady && <Ionicons name="checkmark" size={16} color="#FFF" />}
+                    {/* Sequence Number */}
+                    <View style={[styles.seqCell, styles.seqBadge]}>
+                      <Text style={styles.seqText}>{customer.sequence_number || index + 1}</Text>
                     </View>
-                  </TouchableOpacity>
                   
-                  {/* Customer Info */}
-                  <View style={[styles.nameCell]}>
-                    <Text style={styles.customerName} numberOfLines={1}>
-                      {customer.customer_name}
-                    </Text>
-                    <View style={{ flexDirection: 'row', gap: 4, alignItems: 'center', flexWrap: 'wrap' }}>
-                      <View style={[styles.planBadge, { backgroundColor: customer.plan_type === 'daily' ? '#FFF3E0' : customer.plan_type === 'yearly' ? '#E8F5E9' : '#E3F2FD' }]}>
-                        <Text style={[styles.planBadgeText, { color: customer.plan_type === 'daily' ? '#E65100' : customer.plan_type === 'yearly' ? '#2E7D32' : '#1565C0' }]}>
-                          {(customer.plan_type || 'W').charAt(0).toUpperCase()}
+                    {/* Ready Checkbox */}
+                    <TouchableOpacity 
+                      style={styles.checkCell}
+                      onPress={() => handleMarkReady(customer.customer_id, customer.delivery_id)}
+                    >
+                      <View style={[styles.checkbox, isReady && styles.checkboxChecked]}>
+                        {isReady && <Ionicons name="checkmark" size={16} color="#FFF" />}
+                      </View>
+                    </TouchableOpacity>
+                  
+                    {/* Customer Info - tap to edit portions */}
+                    <TouchableOpacity style={[styles.nameCell]} onPress={() => toggleExpanded(customer.customer_id)}>
+                      <View style={styles.nameRow}>
+                        <Text style={styles.customerName} numberOfLines={1}>
+                          {customer.customer_name}
                         </Text>
+                        <Ionicons name={isExpanded ? 'chevron-up' : 'create-outline'} size={12} color={COLORS.gold} />
                       </View>
-                      <Text style={styles.customerPlan}>{customer.plan}</Text>
-                      {customer.total_skips > 0 && (
-                        <View style={styles.skipBadge}>
-                          <Text style={styles.skipBadgeText}>{customer.recent_skips} skip{customer.recent_skips !== 1 ? 's' : ''}</Text>
+                      <View style={{ flexDirection: 'row', gap: 4, alignItems: 'center', flexWrap: 'wrap' }}>
+                        <View style={[styles.planBadge, { backgroundColor: customer.plan_type === 'daily' ? '#FFF3E0' : customer.plan_type === 'yearly' ? '#E8F5E9' : '#E3F2FD' }]}>
+                          <Text style={[styles.planBadgeText, { color: customer.plan_type === 'daily' ? '#E65100' : customer.plan_type === 'yearly' ? '#2E7D32' : '#1565C0' }]}>
+                            {(customer.plan_type || 'W').charAt(0).toUpperCase()}
+                          </Text>
+                        </View>
+                        <SpiceChip level={profile?.spice_level} compact />
+                        <Text style={styles.customerPlan}>{customer.plan}</Text>
+                        {customer.total_skips > 0 && (
+                          <View style={styles.skipBadge}>
+                            <Text style={styles.skipBadgeText}>{customer.recent_skips} skip{customer.recent_skips !== 1 ? 's' : ''}</Text>
+                          </View>
+                        )}
+                        {customer.has_override && (
+                          <View style={styles.overrideBadge}>
+                            <Text style={styles.overrideBadgeText}>today only</Text>
+                          </View>
+                        )}
+                        {(profile?.allergies || []).length > 0 && (
+                          <View style={styles.allergyBadge}>
+                            <Text style={styles.allergyBadgeText} numberOfLines={1}>⚠ {profile.allergies.join(', ')}</Text>
+                          </View>
+                        )}
+                      </View>
+                    </TouchableOpacity>
+                  
+                    {/* Item Counts */}
+                    <Text style={[styles.cell, styles.numCell, { fontWeight: '600', color: COLORS.cream }]}>
+                      {customer.roti}
+                    </Text>
+                    <Text style={[styles.cell, styles.numCell, { fontWeight: '600', color: COLORS.cream }]}>
+                      {customer.sabji}
+                    </Text>
+                    <Text style={[styles.cell, styles.numCell, { fontWeight: '600', color: COLORS.cream }]}>
+                      {customer.dal}
+                    </Text>
+                    <Text style={[styles.cell, styles.numCell, { fontWeight: '600', color: COLORS.cream }]}>
+                      {customer.rice}
+                    </Text>
+                  </View>
+
+                  {/* Inline portion editor */}
+                  {isExpanded && (
+                    <View style={styles.editor}>
+                      <View style={styles.scopeToggle}>
+                        {(['today', 'default'] as PortionScope[]).map(scope => (
+                          <TouchableOpacity
+                            key={scope}
+                            style={[styles.scopeOption, editScope === scope && styles.scopeOptionActive]}
+                            onPress={() => changeScope(scope)}
+                          >
+                            <Text style={[styles.scopeText, editScope === scope && styles.scopeTextActive]}>
+                              {scope === 'today' ? 'Today only' : 'Every day'}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+
+                      <View style={styles.stepperGrid}>
+                        {PORTION_FIELDS.map(field => (
+                          <View key={field.key} style={styles.stepper}>
+                            <Text style={styles.stepperLabel}>{field.label}</Text>
+                            <View style={styles.stepperControls}>
+                              <TouchableOpacity
+                                style={styles.stepperButton}
+                                onPress={() => adjustPortion(customer, field.key, -1)}
+                                disabled={customer[field.key] <= 0}
+                              >
+                                <Ionicons name="remove" size={16} color={customer[field.key] <= 0 ? COLORS.border : COLORS.cream} />
+                              </TouchableOpacity>
+                              <Text style={styles.stepperValue}>{customer[field.key]}</Text>
+                              <TouchableOpacity
+                                style={styles.stepperButton}
+                                onPress={() => adjustPortion(customer, field.key, 1)}
+                                disabled={customer[field.key] >= MAX_PORTIONS}
+                              >
+                                <Ionicons name="add" size={16} color={COLORS.cream} />
+                              </TouchableOpacity>
+                            </View>
+                          </View>
+                        ))}
+                      </View>
+
+                      {customer.has_override && editScope === 'default' && (
+                        <Text style={styles.scopeHint}>Today keeps its one-off portions until you reset them</Text>
+                      )}
+
+                      {customer.has_override && (
+                        <TouchableOpacity style={styles.resetButton} onPress={() => resetOverride(customer)}>
+                          <Ionicons name="refresh" size={14} color={COLORS.warning} />
+                          <Text style={styles.resetText}>Reset today to defaults</Text>
+                        </TouchableOpacity>
+                      )}
+
+                      {(audit[customer.customer_id] || []).length > 0 && (
+                        <View style={styles.auditList}>
+                          <Text style={styles.auditTitle}>Recent changes</Text>
+                          {audit[customer.customer_id].map(entry => (
+                            <Text key={entry.id} style={styles.auditEntry}>
+                              {new Date(entry.created_at.endsWith('Z') ? entry.created_at : `${entry.created_at}Z`).toLocaleString('en-CA', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                              {' · '}{entry.changed_by_name} · {entry.scope === 'default' ? 'every day' : entry.scope === 'reset' ? 'reset' : 'today'}
+                              {' · '}{describeAudit(entry)}
+                            </Text>
+                          ))}
                         </View>
                       )}
                     </View>
-                  </View>
-                  
-                  {/* Item Counts */}
-                  <Text style={[styles.cell, styles.numCell, { fontWeight: '600', color: COLORS.cream }]}>
-                    {customer.roti}
-                  </Text>
-                  <Text style={[styles.cell, styles.numCell, { fontWeight: '600', color: COLORS.cream }]}>
-                    {customer.sabji}
-                  </Text>
-                  <Text style={[styles.cell, styles.numCell, { fontWeight: '600', color: COLORS.cream }]}>
-                    {customer.dal}
-                  </Text>
-                  <Text style={[styles.cell, styles.numCell, { fontWeight: '600', color: COLORS.cream }]}>
-                    {customer.rice}
-                  </Text>
+                  )}
                 </View>
               );
             })
@@ -395,20 +716,54 @@ const styles = StyleSheet.create({
     fontSize: 14,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingHorizontal: 20,
     paddingVertical: 16,
     borderBottomWidth: 1,
     borderBottomColor: COLORS.border,
   },
+  headerInfo: {
+    flex: 1,
+  },
+  cookSheetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: COLORS.gold,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  cookSheetText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: COLORS.background,
+  },
   title: {
     fontSize: 24,
     fontWeight: '700',
     color: COLORS.cream,
   },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
   dateText: {
     fontSize: 14,
     color: COLORS.gold,
-    marginTop: 4,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: 12,
+    marginRight: 6,
+  },
+  liveText: {
+    fontSize: 12,
+    color: COLORS.textLight,
   },
   scrollView: {
     flex: 1,
@@ -574,7 +929,13 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: COLORS.text,
   },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   customerName: {
+    flexShrink: 1,
     fontSize: 13,
     fontWeight: '500',
     color: COLORS.cream,
@@ -606,6 +967,163 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.warning,
   },
+  spiceTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: COLORS.cream,
+    marginBottom: 8,
+  },
+  spiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  spiceColumn: {
+    flex: 1,
+    backgroundColor: COLORS.cardLight,
+    borderRadius: 8,
+    borderTopWidth: 3,
+    padding: 10,
+    alignItems: 'center',
+  },
+  spiceLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  spiceCount: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 4,
+  },
+  spiceDetail: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    marginTop: 4,
+  },
+  allergyBadge: {
+    backgroundColor: 'rgba(196, 30, 58, 0.25)',
+    paddingHorizontal: 5,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginTop: 2,
+    maxWidth: '100%',
+  },
+  allergyBadgeText: {
+    fontSize: 9,
+    fontWeight: '600',
+    color: '#FF8A80',
+  },
+  overrideBadge: {
+    backgroundColor: 'rgba(212, 175, 55, 0.2)',
+    paddingHorizontal: 5,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginTop: 2,
+  },
+  overrideBadgeText: {
+    fontSize: 9,
+    fontWeight: '600',
+    color: COLORS.gold,
+  },
+  editor: {
+    backgroundColor: COLORS.background,
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  scopeToggle: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.cardLight,
+    borderRadius: 8,
+    padding: 3,
+    marginBottom: 12,
+  },
+  scopeOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  scopeOptionActive: {
+    backgroundColor: COLORS.gold,
+  },
+  scopeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textLight,
+  },
+  scopeTextActive: {
+    color: COLORS.background,
+  },
+  stepperGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  stepper: {
+    width: '31%',
+    flexGrow: 1,
+    backgroundColor: COLORS.card,
+    borderRadius: 8,
+    padding: 8,
+    alignItems: 'center',
+  },
+  stepperLabel: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    marginBottom: 6,
+  },
+  stepperControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: COLORS.cardLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.cream,
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  resetText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.warning,
+  },
+  scopeHint: {
+    marginTop: 10,
+    fontSize: 11,
+    color: COLORS.textLight,
+  },
+  auditList: {
+    marginTop: 12,
+    gap: 4,
+  },
+  auditTitle: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.textLight,
+    textTransform: 'uppercase',
+  },
+  auditEntry: {
+    fontSize: 11,
+    color: COLORS.textLight,
+  },
   numValue: {
     fontWeight: '600',
     color: COLORS.cream,
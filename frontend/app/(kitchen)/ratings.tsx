@@ -0,0 +1,614 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { kitchenIntelAPI } from '../../src/services/api';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+import { parseDateKey } from '../../src/components/DateRangePicker';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  yummy: '#2E7D32',
+  good: '#F9A825',
+  bad: '#C62828',
+};
+
+const PERIOD_OPTIONS = [7, 30, 90];
+const TREND_BAR_HEIGHT = 110;
+
+const RATING_META: Record<string, { emoji: string; label: string; color: string }> = {
+  yummy: { emoji: '😋', label: 'Yummy', color: COLORS.yummy },
+  good: { emoji: '👍', label: 'Good', color: COLORS.good },
+  bad: { emoji: '👎', label: 'Not Great', color: COLORS.bad },
+};
+
+interface RatingCounts {
+  yummy: number;
+  good: number;
+  bad: number;
+  total: number;
+  satisfaction_rate: number;
+}
+
+interface DayTrend extends RatingCounts {
+  date: string;
+  dishes: string[];
+}
+
+interface DishStat extends RatingCounts {
+  dish_id: string;
+  name: string;
+  category?: string;
+  days_served: number;
+  last_served: string;
+}
+
+interface FeedbackEntry {
+  id: string;
+  date: string;
+  rating: string;
+  feedback: string;
+  customer_name: string;
+  dishes: string[];
+}
+
+interface RatingsData {
+  days: number;
+  summary: RatingCounts;
+  daily_trend: DayTrend[];
+  dish_stats: DishStat[];
+  low_rated_dishes: DishStat[];
+  feedback: FeedbackEntry[];
+}
+
+const formatDay = (dateKey: string) =>
+  parseDateKey(dateKey).toLocaleDateString('en-CA', { month: 'short', day: 'numeric' });
+
+const satisfactionColor = (rate: number) => (rate >= 80 ? COLORS.yummy : rate >= 60 ? COLORS.good : COLORS.bad);
+
+// Yummy/good/bad split as one horizontal bar
+const RatingSplitBar = ({ counts }: { counts: RatingCounts }) => (
+  <View style={styles.splitBar}>
+    {(['yummy', 'good', 'bad'] as const).map(key =>
+      counts[key] > 0 ? <View key={key} style={{ flex: counts[key], backgroundColor: RATING_META[key].color }} /> : null
+    )}
+  </View>
+);
+
+export default function RatingsScreen() {
+  const [days, setDays] = useState(30);
+  const [data, setData] = useState<RatingsData | null>(null);
+  const [feedbackFilter, setFeedbackFilter] = useState<'all' | 'bad'>('all');
+  const [showAllDishes, setShowAllDishes] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchRatings = useCallback(async () => {
+    try {
+      const response = await kitchenIntelAPI.getMealRatings(days);
+      setData(response.data);
+    } catch (error) {
+      console.error('Error fetching meal ratings:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchRatings();
+  }, [fetchRatings]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchRatings();
+  }, [fetchRatings]);
+
+  const summary = data?.summary;
+  const trend = data?.daily_trend || [];
+  const maxDayTotal = Math.max(1, ...trend.map(day => day.total));
+  const dishStats = data?.dish_stats || [];
+  const visibleDishes = showAllDishes ? dishStats : dishStats.slice(0, 8);
+  const feedback = (data?.feedback || []).filter(entry => feedbackFilter === 'all' || entry.rating === 'bad');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.maroon} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>Meal Ratings</Text>
+          <Text style={styles.subtitle}>What customers thought of dinner</Text>
+        </View>
+      </View>
+
+      <View style={styles.periodRow}>
+        {PERIOD_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.periodChip, days === option && styles.periodChipActive]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setDays(option);
+            }}
+          >
+            <Text style={[styles.periodText, days === option && styles.periodTextActive]}>Last {option} days</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+        >
+          {!summary || summary.total === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="happy-outline" size={56} color={COLORS.border} />
+              <Text style={styles.emptyText}>No ratings yet</Text>
+              <Text style={styles.emptySubtext}>Customers are asked to rate yesterday&apos;s dinner when they open the app</Text>
+            </View>
+          ) : (
+            <>
+              {/* Summary */}
+              <View style={styles.card}>
+                <View style={styles.summaryTop}>
+                  <View>
+                    <Text style={[styles.satisfactionValue, { color: satisfactionColor(summary.satisfaction_rate) }]}>
+                      {summary.satisfaction_rate}%
+                    </Text>
+                    <Text style={styles.satisfactionLabel}>satisfied · {summary.total} ratings</Text>
+                  </View>
+                  <View style={styles.summaryCounts}>
+                    {(['yummy', 'good', 'bad'] as const).map(key => (
+                      <View key={key} style={styles.summaryCount}>
+                        <Text style={styles.summaryEmoji}>{RATING_META[key].emoji}</Text>
+                        <Text style={styles.summaryCountValue}>{summary[key]}</Text>
+                      </View>
+                    ))}
+                  </View>
+                </View>
+                <RatingSplitBar counts={summary} />
+              </View>
+
+              {/* Daily trend */}
+              <Text style={styles.sectionTitle}>Daily Trend</Text>
+              <View style={styles.card}>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.trendRow}>
+                  {trend.map(day => (
+                    <View key={day.date} style={styles.trendColumn}>
+                      <Text style={[styles.trendRate, { color: satisfactionColor(day.satisfaction_rate) }]}>
+                        {Math.round(day.satisfaction_rate)}%
+                      </Text>
+                      <View style={styles.trendTrack}>
+                        <View style={[styles.trendStack, { height: (day.total / maxDayTotal) * TREND_BAR_HEIGHT }]}>
+                          {(['bad', 'good', 'yummy'] as const).map(key =>
+                            day[key] > 0 ? (
+                              <View key={key} style={{ flex: day[key], backgroundColor: RATING_META[key].color }} />
+                            ) : null
+                          )}
+                        </View>
+                      </View>
+                      <Text style={styles.trendDate}>{formatDay(day.date)}</Text>
+                    </View>
+                  ))}
+                </ScrollView>
+                <View style={styles.legend}>
+                  {(['yummy', 'good', 'bad'] as const).map(key => (
+                    <View key={key} style={styles.legendItem}>
+                      <View style={[styles.legendDot, { backgroundColor: RATING_META[key].color }]} />
+                      <Text style={styles.legendText}>{RATING_META[key].label}</Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+
+              {/* Low-rated leaderboard */}
+              <Text style={styles.sectionTitle}>Needs Attention</Text>
+              <View style={styles.card}>
+                {(data?.low_rated_dishes || []).length === 0 ? (
+                  <Text style={styles.mutedText}>Not enough ratings per dish to rank yet</Text>
+                ) : (
+                  data?.low_rated_dishes.map((dish, index) => (
+                    <View key={dish.dish_id} style={[styles.leaderRow, index > 0 && styles.rowDivider]}>
+                      <Text style={styles.leaderRank}>{index + 1}</Text>
+                      <View style={styles.flex}>
+                        <Text style={styles.dishName}>{dish.name}</Text>
+                        <Text style={styles.dishMeta}>
+                          {dish.bad} of {dish.total} not great · served {dish.days_served}x
+                        </Text>
+                      </View>
+                      <Text style={[styles.dishRate, { color: satisfactionColor(dish.satisfaction_rate) }]}>
+                        {Math.round(dish.satisfaction_rate)}%
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </View>
+
+              {/* Per dish */}
+              <Text style={styles.sectionTitle}>By Dish</Text>
+              <View style={styles.card}>
+                {visibleDishes.map((dish, index) => (
+                  <View key={dish.dish_id} style={[styles.dishRow, index > 0 && styles.rowDivider]}>
+                    <View style={styles.dishRowTop}>
+                      <Text style={[styles.dishName, styles.flex]} numberOfLines={1}>{dish.name}</Text>
+                      <Text style={styles.dishMeta}>{dish.total} ratings</Text>
+                    </View>
+                    <RatingSplitBar counts={dish} />
+                  </View>
+                ))}
+                {dishStats.length > 8 && (
+                  <TouchableOpacity style={styles.showMore} onPress={() => setShowAllDishes(prev => !prev)}>
+                    <Text style={styles.showMoreText}>{showAllDishes ? 'Show less' : `Show all ${dishStats.length} dishes`}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {/* Feedback stream */}
+              <View style={styles.feedbackHeader}>
+                <Text style={styles.sectionTitle}>Customer Feedback</Text>
+                <View style={styles.filterRow}>
+                  {(['all', 'bad'] as const).map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.filterChip, feedbackFilter === option && styles.filterChipActive]}
+                      onPress={() => setFeedbackFilter(option)}
+                    >
+                      <Text style={[styles.filterText, feedbackFilter === option && styles.filterTextActive]}>
+                        {option === 'all' ? 'All' : '👎 Only'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              {feedback.length === 0 ? (
+                <View style={styles.card}>
+                  <Text style={styles.mutedText}>No written feedback in this period</Text>
+                </View>
+              ) : (
+                feedback.map(entry => (
+                  <View key={entry.id} style={[styles.card, styles.feedbackCard, { borderLeftColor: RATING_META[entry.rating]?.color || COLORS.border }]}>
+                    <View style={styles.feedbackTop}>
+                      <Text style={styles.feedbackName}>
+                        {RATING_META[entry.rating]?.emoji} {entry.customer_name}
+                      </Text>
+                      <Text style={styles.dishMeta}>{formatDay(entry.date)}</Text>
+                    </View>
+                    <Text style={styles.feedbackText}>{entry.feedback}</Text>
+                    {entry.dishes.length > 0 && (
+                      <Text style={styles.feedbackDishes} numberOfLines={1}>{entry.dishes.join(' · ')}</Text>
+                    )}
+                  </View>
+                ))
+              )}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  periodChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  periodChipActive: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  periodText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  periodTextActive: {
+    color: COLORS.card,
+    fontWeight: '600',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingTop: 4,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  summaryTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  satisfactionValue: {
+    fontSize: 36,
+    fontWeight: '700',
+  },
+  satisfactionLabel: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  summaryCounts: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+  summaryCount: {
+    alignItems: 'center',
+  },
+  summaryEmoji: {
+    fontSize: 22,
+  },
+  summaryCountValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 2,
+  },
+  splitBar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: COLORS.border,
+  },
+  trendRow: {
+    gap: 10,
+    paddingBottom: 4,
+  },
+  trendColumn: {
+    alignItems: 'center',
+    width: 40,
+  },
+  trendRate: {
+    fontSize: 11,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  trendTrack: {
+    height: TREND_BAR_HEIGHT,
+    width: 18,
+    justifyContent: 'flex-end',
+  },
+  trendStack: {
+    width: 18,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  trendDate: {
+    fontSize: 10,
+    color: COLORS.textLight,
+    marginTop: 6,
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    textAlign: 'center',
+  },
+  leaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  rowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  leaderRank: {
+    width: 24,
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    textAlign: 'center',
+  },
+  dishName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  dishMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  dishRate: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  dishRow: {
+    paddingVertical: 10,
+    gap: 8,
+  },
+  dishRowTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  showMore: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  showMoreText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.maroon,
+  },
+  feedbackHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  filterChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  filterChipActive: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  filterText: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  filterTextActive: {
+    color: COLORS.card,
+    fontWeight: '600',
+  },
+  feedbackCard: {
+    borderLeftWidth: 4,
+  },
+  feedbackTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  feedbackName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  feedbackText: {
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+  },
+  feedbackDishes: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,804 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  Platform,
+  Animated,
+  PanResponder,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { kitchenAPI } from '../../src/services/api';
+import { useRealtimeEvent } from '../../src/services/realtime';
+import { toDateKey, parseDateKey } from '../../src/components/DateRangePicker';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+  warning: '#E65100',
+  info: '#1565C0',
+};
+
+// Row height plus gap; drag distance is converted to positions with it
+const ROW_HEIGHT = 64;
+const ROW_GAP = 8;
+const ROW_SLOT = ROW_HEIGHT + ROW_GAP;
+
+// Routes start and end at the kitchen (Halifax downtown)
+const KITCHEN = { latitude: 44.6488, longitude: -63.5752 };
+
+const UNASSIGNED = 'unassigned';
+
+interface Stop {
+  delivery_id: string;
+  customer_name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  status: string;
+  is_priority: boolean;
+}
+
+interface Route {
+  driver_id: string | null;
+  driver_name: string;
+  stops: Stop[];
+}
+
+interface RouteSuggestion {
+  id: string;
+  type: string;
+  address: string;
+  avg_delay_percent: number;
+  suggestion: string;
+}
+
+type PlanStatus = 'suggested' | 'draft' | 'published';
+
+const STATUS_LABELS: Record<PlanStatus, { label: string; color: string }> = {
+  suggested: { label: 'Suggested', color: COLORS.info },
+  draft: { label: 'Draft', color: COLORS.warning },
+  published: { label: 'Published', color: COLORS.success },
+};
+
+const distanceKm = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+const routeKm = (stops: Stop[]) =>
+  stops.reduce((total, stop, index) => total + distanceKm(index === 0 ? KITCHEN : stops[index - 1], stop), 0);
+
+const routeKey = (route: Route) => route.driver_id || UNASSIGNED;
+
+const shiftDate = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+interface StopRowProps {
+  stop: Stop;
+  index: number;
+  isDragging: boolean;
+  translateY: Animated.Value;
+  onDragStart: (index: number) => void;
+  onDragMove: (dy: number) => void;
+  onDragEnd: () => void;
+  onMove: () => void;
+}
+
+const StopRow = (props: StopRowProps) => {
+  const { stop, index, isDragging, translateY, onMove } = props;
+
+  // The responder is created once, so it reads the latest props through a ref
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => propsRef.current.onDragStart(propsRef.current.index),
+      onPanResponderMove: (_, gesture) => propsRef.current.onDragMove(gesture.dy),
+      onPanResponderRelease: () => propsRef.current.onDragEnd(),
+      onPanResponderTerminate: () => propsRef.current.onDragEnd(),
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      style={[
+        styles.stopRow,
+        isDragging && styles.stopRowDragging,
+        isDragging && { transform: [{ translateY }] },
+      ]}
+    >
+      <View {...panResponder.panHandlers} style={styles.dragHandle}>
+        <Ionicons name="reorder-three" size={24} color={COLORS.textLight} />
+      </View>
+      <View style={styles.sequenceBadge}>
+        <Text style={styles.sequenceText}>{index + 1}</Text>
+      </View>
+      <View style={styles.stopInfo}>
+        <View style={styles.stopNameRow}>
+          <Text style={styles.stopName} numberOfLines={1}>{stop.customer_name}</Text>
+          {stop.is_priority && <Ionicons name="star" size={12} color={COLORS.gold} />}
+        </View>
+        <Text style={styles.stopAddress} numberOfLines={1}>{stop.address}</Text>
+      </View>
+      <TouchableOpacity style={styles.moveButton} onPress={onMove}>
+        <Ionicons name="swap-horizontal" size={18} color={COLORS.info} />
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+export default function RoutePlannerScreen() {
+  const today = toDateKey(new Date());
+  const [date, setDate] = useState(today);
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [status, setStatus] = useState<PlanStatus>('suggested');
+  const [publishedAt, setPublishedAt] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string>(UNASSIGNED);
+  const [suggestions, setSuggestions] = useState<RouteSuggestion[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [movingStop, setMovingStop] = useState<Stop | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  // Drag state lives in refs so moves don't wait on re-renders
+  const translateY = useRef(new Animated.Value(0)).current;
+  const orderRef = useRef<Stop[]>([]);
+  const dragRef = useRef({ startIndex: -1, currentIndex: -1 });
+
+  const selectedRoute = routes.find(route => routeKey(route) === selectedKey) || routes[0];
+
+  useEffect(() => {
+    orderRef.current = selectedRoute?.stops || [];
+  }, [selectedRoute]);
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      const [planRes, suggestionsRes] = await Promise.all([
+        kitchenAPI.getRoutePlan(date),
+        kitchenAPI.getRouteSuggestions(),
+      ]);
+      const plan = planRes.data;
+      const nextRoutes: Route[] = [
+        ...plan.routes.map((route: Route) => ({ driver_id: route.driver_id, driver_name: route.driver_name, stops: route.stops })),
+        { driver_id: null, driver_name: 'Unassigned', stops: plan.unassigned },
+      ];
+      setRoutes(nextRoutes);
+      setStatus(plan.status);
+      setPublishedAt(plan.published_at);
+      setIsDirty(false);
+      setSelectedKey(prev => (nextRoutes.some(route => routeKey(route) === prev) ? prev : routeKey(nextRoutes[0])));
+      setSuggestions(suggestionsRes.data.suggestions || []);
+    } catch (error) {
+      console.error('Error fetching route plan:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchPlan();
+  }, [fetchPlan]);
+
+  // A skip elsewhere changes the stop list; don't clobber unsaved edits
+  useRealtimeEvent('manifest_update', () => {
+    if (!isDirty) fetchPlan();
+  });
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchPlan();
+  }, [fetchPlan]);
+
+  const changeDate = (next: string) => {
+    const apply = () => {
+      Haptics.selectionAsync();
+      setDate(next);
+    };
+    if (!isDirty) return apply();
+    Alert.alert('Discard changes?', 'Your route edits for this date have not been saved.', [
+      { text: 'Keep editing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: apply },
+    ]);
+  };
+
+  const updateSelectedStops = (stops: Stop[]) => {
+    setRoutes(prev => prev.map(route => (routeKey(route) === selectedKey ? { ...route, stops } : route)));
+  };
+
+  const handleDragStart = (index: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    dragRef.current = { startIndex: index, currentIndex: index };
+    translateY.setValue(0);
+    setDraggingId(orderRef.current[index]?.delivery_id || null);
+  };
+
+  const handleDragMove = (dy: number) => {
+    const { startIndex, currentIndex } = dragRef.current;
+    if (startIndex < 0) return;
+
+    const target = Math.max(0, Math.min(orderRef.current.length - 1, Math.round(startIndex + dy / ROW_SLOT)));
+    if (target !== currentIndex) {
+      const next = [...orderRef.current];
+      const [moved] = next.splice(currentIndex, 1);
+      next.splice(target, 0, moved);
+      orderRef.current = next;
+      dragRef.current.currentIndex = target;
+      Haptics.selectionAsync();
+      updateSelectedStops(next);
+    }
+    // The row has already moved in the layout; only the leftover offset is animated
+    translateY.setValue(dy - (dragRef.current.currentIndex - startIndex) * ROW_SLOT);
+  };
+
+  const handleDragEnd = () => {
+    const { startIndex, currentIndex } = dragRef.current;
+    dragRef.current = { startIndex: -1, currentIndex: -1 };
+    Animated.spring(translateY, { toValue: 0, useNativeDriver: true }).start(() => setDraggingId(null));
+    if (startIndex >= 0 && startIndex !== currentIndex) setIsDirty(true);
+  };
+
+  const moveStop = (stop: Stop, targetKey: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setRoutes(prev => prev.map(route => {
+      const key = routeKey(route);
+      if (key === targetKey) return { ...route, stops: [...route.stops.filter(s => s.delivery_id !== stop.delivery_id), stop] };
+      return { ...route, stops: route.stops.filter(s => s.delivery_id !== stop.delivery_id) };
+    }));
+    setIsDirty(true);
+    setMovingStop(null);
+  };
+
+  const toPayload = () => ({
+    date,
+    routes: routes.map(route => ({
+      driver_id: route.driver_id,
+      delivery_ids: route.stops.map(stop => stop.delivery_id),
+    })),
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await kitchenAPI.saveRoutePlan(toPayload());
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await fetchPlan();
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to save routes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePublish = () => {
+    const unassigned = routes.find(route => !route.driver_id)?.stops.length || 0;
+    const warning = unassigned
+      ? `${unassigned} stop${unassigned === 1 ? ' is' : 's are'} still unassigned and won't reach any driver.`
+      : 'Drivers will see the new stop order straight away.';
+    Alert.alert('Publish routes?', warning, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Publish',
+        onPress: async () => {
+          setIsSaving(true);
+          try {
+            const response = await kitchenAPI.publishRoutePlan(toPayload());
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            Alert.alert('Published', response.data.message);
+            await fetchPlan();
+          } catch (error: any) {
+            Alert.alert('Error', error.response?.data?.detail || 'Failed to publish routes');
+          } finally {
+            setIsSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const dismissSuggestion = async (suggestion: RouteSuggestion) => {
+    setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+    try {
+      await kitchenAPI.reviewRouteSuggestion(suggestion.id);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to dismiss suggestion');
+      fetchPlan();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const statusInfo = STATUS_LABELS[status];
+  const totalStops = routes.reduce((sum, route) => sum + route.stops.length, 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Ionicons name="arrow-back" size={22} color={COLORS.maroon} />
+          </TouchableOpacity>
+          <View style={styles.headerInfo}>
+            <Text style={styles.title}>Route Planner</Text>
+            <Text style={styles.subtitle}>
+              {totalStops} stops
+              {publishedAt ? ` · published ${new Date(publishedAt.endsWith('Z') ? publishedAt : `${publishedAt}Z`).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}` : ''}
+            </Text>
+          </View>
+          <View style={[styles.statusPill, { backgroundColor: statusInfo.color + '1F' }]}>
+            <Text style={[styles.statusText, { color: statusInfo.color }]}>
+              {isDirty ? 'Unsaved' : statusInfo.label}
+            </Text>
+          </View>
+        </View>
+        <View style={styles.dateRow}>
+          <TouchableOpacity style={styles.dateArrow} onPress={() => changeDate(shiftDate(date, -1))}>
+            <Ionicons name="chevron-back" size={20} color={COLORS.maroon} />
+          </TouchableOpacity>
+          <Text style={styles.dateLabel}>
+            {date === today ? 'Today' : date === shiftDate(today, 1) ? 'Tomorrow' : parseDateKey(date).toLocaleDateString('en-CA', { weekday: 'short', month: 'short', day: 'numeric' })}
+          </Text>
+          <TouchableOpacity style={styles.dateArrow} onPress={() => changeDate(shiftDate(date, 1))}>
+            <Ionicons name="chevron-forward" size={20} color={COLORS.maroon} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        scrollEnabled={!draggingId}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+      >
+        {/* Delay-pattern suggestions from delivery metrics */}
+        {suggestions.map(suggestion => (
+          <View key={suggestion.id} style={styles.suggestionCard}>
+            <Ionicons name="bulb" size={18} color={COLORS.warning} />
+            <View style={styles.suggestionInfo}>
+              <Text style={styles.suggestionText}>{suggestion.suggestion}</Text>
+              {suggestion.avg_delay_percent != null && (
+                <Text style={styles.suggestionMeta}>Avg. {suggestion.avg_delay_percent}% late over 3 days</Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={() => dismissSuggestion(suggestion)}>
+              <Ionicons name="close" size={18} color={COLORS.textLight} />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        {/* Route selector */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.routeTabs}>
+          {routes.map(route => {
+            const key = routeKey(route);
+            const isActive = key === routeKey(selectedRoute);
+            if (!route.driver_id && route.stops.length === 0 && !isActive) return null;
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[styles.routeTab, isActive && styles.routeTabActive, !route.driver_id && styles.routeTabUnassigned]}
+                onPress={() => setSelectedKey(key)}
+              >
+                <Text style={[styles.routeTabName, isActive && styles.routeTabTextActive]}>{route.driver_name}</Text>
+                <Text style={[styles.routeTabMeta, isActive && styles.routeTabTextActive]}>
+                  {route.stops.length} stops{route.driver_id ? ` · ${routeKm(route.stops).toFixed(1)} km` : ''}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        {!selectedRoute || selectedRoute.stops.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="map-outline" size={56} color={COLORS.border} />
+            <Text style={styles.emptyText}>No stops on this route</Text>
+            <Text style={styles.emptySubtext}>Use the swap button on a stop to move it here</Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.hint}>Drag to reorder · tap ⇄ to move a stop to another driver</Text>
+            {selectedRoute.stops.map((stop, index) => (
+              <StopRow
+                key={stop.delivery_id}
+                stop={stop}
+                index={index}
+                isDragging={draggingId === stop.delivery_id}
+                translateY={translateY}
+                onDragStart={handleDragStart}
+                onDragMove={handleDragMove}
+                onDragEnd={handleDragEnd}
+                onMove={() => setMovingStop(stop)}
+              />
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.footerButton, styles.saveButton, (!isDirty || isSaving) && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!isDirty || isSaving}
+        >
+          <Ionicons name="save-outline" size={18} color={COLORS.maroon} />
+          <Text style={styles.saveText}>Save Draft</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.footerButton, styles.publishButton, isSaving && styles.buttonDisabled]}
+          onPress={handlePublish}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color={COLORS.card} />
+          ) : (
+            <>
+              <Ionicons name="paper-plane" size={18} color={COLORS.card} />
+              <Text style={styles.publishText}>Publish</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* Reassign modal */}
+      <Modal visible={!!movingStop} animationType="slide" transparent onRequestClose={() => setMovingStop(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Move {movingStop?.customer_name}</Text>
+              <TouchableOpacity onPress={() => setMovingStop(null)}>
+                <Ionicons name="close" size={28} color={COLORS.text} />
+              </TouchableOpacity>
+            </View>
+            {routes.filter(route => routeKey(route) !== routeKey(selectedRoute)).map(route => (
+              <TouchableOpacity
+                key={routeKey(route)}
+                style={styles.driverOption}
+                onPress={() => movingStop && moveStop(movingStop, routeKey(route))}
+              >
+                <Ionicons
+                  name={route.driver_id ? 'bicycle' : 'help-circle-outline'}
+                  size={20}
+                  color={route.driver_id ? COLORS.maroon : COLORS.warning}
+                />
+                <Text style={styles.driverOptionName}>{route.driver_name}</Text>
+                <Text style={styles.driverOptionMeta}>{route.stops.length} stops</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  statusPill: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  dateArrow: {
+    padding: 10,
+  },
+  dateLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 24,
+  },
+  suggestionCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    backgroundColor: '#FFF3E0',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  suggestionInfo: {
+    flex: 1,
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  suggestionMeta: {
+    fontSize: 11,
+    color: COLORS.warning,
+    marginTop: 2,
+  },
+  routeTabs: {
+    gap: 8,
+    paddingVertical: 4,
+    marginBottom: 12,
+  },
+  routeTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  routeTabActive: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  routeTabUnassigned: {
+    borderStyle: 'dashed',
+    borderColor: COLORS.warning,
+  },
+  routeTabName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  routeTabMeta: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  routeTabTextActive: {
+    color: COLORS.card,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginBottom: 8,
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: ROW_HEIGHT,
+    marginBottom: ROW_GAP,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingRight: 8,
+  },
+  stopRowDragging: {
+    zIndex: 10,
+    borderColor: COLORS.gold,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  dragHandle: {
+    height: '100%',
+    paddingHorizontal: 10,
+    justifyContent: 'center',
+  },
+  sequenceBadge: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: COLORS.maroon,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  sequenceText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: COLORS.card,
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  stopName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  stopAddress: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  moveButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#E3F2FD',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 4,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  footerButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  saveButton: {
+    borderWidth: 1,
+    borderColor: COLORS.maroon,
+  },
+  saveText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.maroon,
+  },
+  publishButton: {
+    backgroundColor: COLORS.maroon,
+  },
+  publishText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.card,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: COLORS.card,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 36,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  driverOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  driverOptionName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  driverOptionMeta: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+});
@@ -0,0 +1,625 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { weatherAPI, kitchenIntelAPI } from '../../src/services/api';
+import { useRealtimeEvent } from '../../src/services/realtime';
+import { BRAND_COLORS } from '../../src/components/DabbaLogo';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  background: '#FDF8F3',
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  success: '#2E7D32',
+};
+
+// Matches the banner customers see on their dashboard
+const LEVELS: { value: string; label: string; bg: string; text: string; icon: string }[] = [
+  { value: 'normal', label: 'Normal', bg: '#E8F5E9', text: '#2E7D32', icon: 'checkmark-circle' },
+  { value: 'caution', label: 'Caution', bg: '#FFF3E0', text: '#F57C00', icon: 'alert-circle' },
+  { value: 'warning', label: 'Warning', bg: '#FFE0B2', text: '#E65100', icon: 'snow' },
+  { value: 'severe', label: 'Severe', bg: '#FFEBEE', text: '#C62828', icon: 'warning' },
+];
+
+const REVERT_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: 'Never', hours: null },
+  { label: '1 hr', hours: 1 },
+  { label: '2 hrs', hours: 2 },
+  { label: '4 hrs', hours: 4 },
+  { label: '8 hrs', hours: 8 },
+];
+
+const DELAY_STEP = 15;
+const MAX_DELAY = 240;
+
+interface WeatherStatus {
+  condition: string;
+  status: string;
+  message: string;
+  delay_minutes: number;
+  revert_at: string | null;
+  updated_at: string;
+}
+
+interface WeatherPreset {
+  condition: string;
+  status: string;
+  message: string;
+  delay_minutes: number;
+}
+
+const levelMeta = (status: string) => LEVELS.find(level => level.value === status) || LEVELS[1];
+
+// Server times are naive UTC
+const formatTime = (iso: string) =>
+  new Date(iso.endsWith('Z') ? iso : `${iso}Z`).toLocaleTimeString('en-CA', { hour: 'numeric', minute: '2-digit' });
+
+const describeDelay = (minutes: number) =>
+  minutes < 0 ? 'Deliveries paused' : minutes === 0 ? 'No delay' : `+${minutes} min on ETAs`;
+
+export default function WeatherControlScreen() {
+  const [current, setCurrent] = useState<WeatherStatus | null>(null);
+  const [presets, setPresets] = useState<WeatherPreset[]>([]);
+  const [status, setStatus] = useState('caution');
+  const [condition, setCondition] = useState<string | undefined>(undefined);
+  const [message, setMessage] = useState('');
+  const [delay, setDelay] = useState(30);
+  const [paused, setPaused] = useState(false);
+  const [revertHours, setRevertHours] = useState<number | null>(2);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const [statusRes, presetsRes] = await Promise.all([
+        weatherAPI.getStatus(),
+        kitchenIntelAPI.getWeatherPresets().catch(() => null),
+      ]);
+      setCurrent(statusRes.data);
+      if (presetsRes) setPresets(presetsRes.data.presets || []);
+    } catch (error) {
+      console.error('Error fetching service status:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Another kitchen device changed it, or the auto-revert fired
+  useRealtimeEvent('weather_update', (data) => {
+    setCurrent(prev => ({ ...data, updated_at: prev?.updated_at || data.timestamp }));
+  });
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const applyPreset = (preset: WeatherPreset) => {
+    Haptics.selectionAsync();
+    setCondition(preset.condition);
+    setStatus(preset.status);
+    setMessage(preset.message);
+    setPaused(preset.delay_minutes < 0);
+    setDelay(Math.max(0, preset.delay_minutes));
+  };
+
+  const publish = async (update: { status: string; condition?: string; message?: string; delay_minutes: number; revert_at?: string | null }) => {
+    setIsSaving(true);
+    try {
+      const response = await kitchenIntelAPI.setWeatherStatus(update);
+      setCurrent(prev => ({ ...response.data.alert, updated_at: response.data.alert.updated_at || prev?.updated_at }));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to update service status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePublish = () => {
+    if (status !== 'normal' && !message.trim()) {
+      Alert.alert('Add a message', 'Customers will see this message on their dashboard.');
+      return;
+    }
+    const revertAt = revertHours ? new Date(Date.now() + revertHours * 3600 * 1000).toISOString() : null;
+    Alert.alert(
+      'Publish Status?',
+      'Customers and drivers will see the change immediately.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Publish',
+          onPress: () => publish({
+            status,
+            condition,
+            message: message.trim(),
+            delay_minutes: paused ? -1 : delay,
+            revert_at: status === 'normal' ? null : revertAt,
+          }),
+        },
+      ]
+    );
+  };
+
+  const handleBackToNormal = () => {
+    Alert.alert('Back to Normal?', 'Clears the banner and the ETA delay for everyone.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Back to Normal', onPress: () => publish({ status: 'normal', delay_minutes: 0 }) },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.maroon} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const currentMeta = levelMeta(current?.status || 'normal');
+  const draftMeta = levelMeta(status);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={COLORS.maroon} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>Service Status</Text>
+          <Text style={styles.subtitle}>Weather delays shown to customers and drivers</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.maroon} />}
+      >
+        {/* Live status */}
+        <Text style={styles.sectionLabel}>Live now</Text>
+        <View style={[styles.currentCard, { backgroundColor: currentMeta.bg, borderColor: currentMeta.text }]}>
+          <View style={styles.currentTop}>
+            <Ionicons name={currentMeta.icon as any} size={28} color={currentMeta.text} />
+            <View style={styles.flex}>
+              <Text style={[styles.currentLevel, { color: currentMeta.text }]}>{currentMeta.label}</Text>
+              <Text style={styles.currentMessage}>{current?.message}</Text>
+            </View>
+          </View>
+          <View style={styles.currentMetaRow}>
+            <Text style={styles.currentMeta}>{describeDelay(current?.delay_minutes || 0)}</Text>
+            {current?.revert_at && (
+              <Text style={styles.currentMeta}>Back to normal at {formatTime(current.revert_at)}</Text>
+            )}
+          </View>
+          {current && current.status !== 'normal' && (
+            <TouchableOpacity style={styles.normalButton} onPress={handleBackToNormal} disabled={isSaving}>
+              <Ionicons name="sunny" size={16} color={COLORS.success} />
+              <Text style={styles.normalButtonText}>Back to normal now</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Presets */}
+        {presets.length > 0 && (
+          <>
+            <Text style={styles.sectionLabel}>Start from a preset</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.presetRow}>
+              {presets.filter(preset => preset.condition !== 'normal').map(preset => (
+                <TouchableOpacity
+                  key={preset.condition}
+                  style={[styles.presetChip, condition === preset.condition && styles.presetChipActive]}
+                  onPress={() => applyPreset(preset)}
+                >
+                  <Text style={[styles.presetText, condition === preset.condition && styles.presetTextActive]}>
+                    {preset.condition.replace('_', ' ')}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </>
+        )}
+
+        {/* Level */}
+        <Text style={styles.sectionLabel}>Level</Text>
+        <View style={styles.levelRow}>
+          {LEVELS.map(level => (
+            <TouchableOpacity
+              key={level.value}
+              style={[
+                styles.levelOption,
+                status === level.value && { backgroundColor: level.bg, borderColor: level.text },
+              ]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setStatus(level.value);
+                setCondition(undefined);
+              }}
+            >
+              <Ionicons name={level.icon as any} size={20} color={status === level.value ? level.text : COLORS.textLight} />
+              <Text style={[styles.levelText, status === level.value && { color: level.text }]}>{level.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {status !== 'normal' && (
+          <>
+            {/* Message */}
+            <Text style={styles.sectionLabel}>Message for customers</Text>
+            <TextInput
+              style={styles.messageInput}
+              value={message}
+              onChangeText={setMessage}
+              placeholder="e.g. Heavy snow - deliveries running about 45 mins late"
+              placeholderTextColor={COLORS.textLight}
+              multiline
+              maxLength={160}
+            />
+            <Text style={styles.charCount}>{message.length}/160</Text>
+
+            {/* Delay */}
+            <Text style={styles.sectionLabel}>Delivery delay</Text>
+            <View style={styles.card}>
+              <View style={styles.delayRow}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setDelay(prev => Math.max(0, prev - DELAY_STEP))}
+                  disabled={paused || delay <= 0}
+                >
+                  <Ionicons name="remove" size={20} color={paused || delay <= 0 ? COLORS.border : COLORS.maroon} />
+                </TouchableOpacity>
+                <View style={styles.delayValueBox}>
+                  <Text style={[styles.delayValue, paused && styles.delayValueMuted]}>{delay}</Text>
+                  <Text style={styles.delayUnit}>minutes added to ETAs</Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setDelay(prev => Math.min(MAX_DELAY, prev + DELAY_STEP))}
+                  disabled={paused || delay >= MAX_DELAY}
+                >
+                  <Ionicons name="add" size={20} color={paused || delay >= MAX_DELAY ? COLORS.border : COLORS.maroon} />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.pauseRow}>
+                <View style={styles.flex}>
+                  <Text style={styles.pauseTitle}>Pause deliveries</Text>
+                  <Text style={styles.pauseSubtitle}>Customers are told deliveries are on hold</Text>
+                </View>
+                <Switch
+                  value={paused}
+                  onValueChange={setPaused}
+                  trackColor={{ false: COLORS.border, true: COLORS.maroon }}
+                />
+              </View>
+            </View>
+
+            {/* Auto-revert */}
+            <Text style={styles.sectionLabel}>Back to normal automatically</Text>
+            <View style={styles.levelRow}>
+              {REVERT_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.revertChip, revertHours === option.hours && styles.presetChipActive]}
+                  onPress={() => setRevertHours(option.hours)}
+                >
+                  <Text style={[styles.presetText, revertHours === option.hours && styles.presetTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Preview */}
+            <Text style={styles.sectionLabel}>Customer banner preview</Text>
+            <View style={[styles.preview, { backgroundColor: draftMeta.bg }]}>
+              <Ionicons name={draftMeta.icon as any} size={20} color={draftMeta.text} />
+              <Text style={[styles.previewText, { color: draftMeta.text }]}>
+                {message.trim() || 'Your message appears here'}
+              </Text>
+            </View>
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.publishButton, isSaving && styles.buttonDisabled]}
+          onPress={handlePublish}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color={COLORS.card} />
+          ) : (
+            <>
+              <Ionicons name="megaphone" size={18} color={COLORS.card} />
+              <Text style={styles.publishText}>Publish to Customers & Drivers</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.maroon,
+    fontFamily: Platform.OS === 'ios' ? 'Georgia' : 'serif',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: COLORS.textLight,
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  currentCard: {
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+  },
+  currentTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  currentLevel: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  currentMessage: {
+    fontSize: 14,
+    color: COLORS.text,
+    marginTop: 2,
+  },
+  currentMetaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  currentMeta: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textLight,
+  },
+  normalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    paddingVertical: 10,
+    marginTop: 12,
+  },
+  normalButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.success,
+  },
+  presetRow: {
+    gap: 8,
+  },
+  presetChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  presetChipActive: {
+    backgroundColor: COLORS.maroon,
+    borderColor: COLORS.maroon,
+  },
+  presetText: {
+    fontSize: 13,
+    color: COLORS.text,
+    textTransform: 'capitalize',
+  },
+  presetTextActive: {
+    color: COLORS.card,
+    fontWeight: '600',
+  },
+  levelRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  levelOption: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  levelText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textLight,
+  },
+  messageInput: {
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 12,
+    minHeight: 72,
+    fontSize: 15,
+    color: COLORS.text,
+    textAlignVertical: 'top',
+  },
+  charCount: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  delayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepperButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  delayValueBox: {
+    alignItems: 'center',
+  },
+  delayValue: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: COLORS.maroon,
+  },
+  delayValueMuted: {
+    color: COLORS.border,
+  },
+  delayUnit: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  pauseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  pauseTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  pauseSubtitle: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  revertChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  preview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 12,
+    padding: 14,
+  },
+  previewText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  publishButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: COLORS.maroon,
+    borderRadius: 14,
+    paddingVertical: 16,
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  publishText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.card,
+  },
+});
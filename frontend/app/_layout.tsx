@@ -3,6 +3,10 @@ import { StatusBar } from 'expo-status-bar';
 import { AuthProvider } from '../src/context/AuthContext';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { StyleSheet } from 'react-native';
+import * as ScreenOrientation from 'expo-screen-orientation';
+
+// Portrait everywhere; screens built for wall tablets unlock rotation themselves
+ScreenOrientation.lockAsync(ScreenOrientation.OrientationLock.PORTRAIT_UP).catch(() => {});
 
 export default function RootLayout() {
   return (
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+
+/**
+ * Inlines the installed Leaflet build into src/generated/leafletAssets.ts so the map
+ * WebViews ship with it instead of loading it from a CDN at runtime.
+ * Runs on postinstall; the generated file is git-ignored.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const dist = path.dirname(require.resolve("leaflet/dist/leaflet.js"));
+const { version } = require("leaflet/package.json");
+const js = fs.readFileSync(path.join(dist, "leaflet.js"), "utf8");
+const css = fs.readFileSync(path.join(dist, "leaflet.css"), "utf8");
+
+// Both end up inside <script>/<style> tags of the map page
+if (/<\/(script|style)/i.test(js + css)) {
+  throw new Error(`leaflet@${version} contains a closing script or style tag and can't be inlined`);
+}
+
+const out = path.join(__dirname, "..", "src", "generated", "leafletAssets.ts");
+fs.mkdirSync(path.dirname(out), { recursive: true });
+fs.writeFileSync(
+  out,
+  `// Generated by scripts/bundle-leaflet.js from leaflet@${version} - do not edit\n\n` +
+    `export const LEAFLET_JS = ${JSON.stringify(js)};\n\n` +
+    `export const LEAFLET_CSS = ${JSON.stringify(css)};\n`
+);
+console.log(`Bundled leaflet@${version} into ${path.relative(process.cwd(), out)}`);
@@ -0,0 +1,266 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
+import { parseLabelQr } from '../services/labels';
+
+const COLORS = {
+  background: '#000000',
+  surface: '#1C1C1E',
+  primary: '#06C167',
+  error: '#FF3B30',
+  text: '#FFFFFF',
+  textSecondary: '#8E8E93',
+};
+
+// The camera fires many times a second while a code is in frame
+const REPEAT_SCAN_MS = 2500;
+
+export interface ScanResult {
+  ok: boolean;
+  message: string;
+}
+
+interface DabbaScannerProps {
+  visible: boolean;
+  title: string;
+  subtitle?: string;
+  // Shown as "done of total" under the viewfinder, e.g. dabbas loaded so far
+  progress?: { done: number; total: number };
+  onScan: (deliveryId: string) => Promise<ScanResult>;
+  onClose: () => void;
+}
+
+export default function DabbaScanner({ visible, title, subtitle, progress, onScan, onClose }: DabbaScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const busy = useRef(false);
+  const lastScan = useRef<{ value: string; at: number } | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setResult(null);
+      lastScan.current = null;
+    }
+  }, [visible]);
+
+  const handleBarcode = async ({ data }: BarcodeScanningResult) => {
+    const now = Date.now();
+    if (busy.current) return;
+    if (lastScan.current && lastScan.current.value === data && now - lastScan.current.at < REPEAT_SCAN_MS) return;
+    lastScan.current = { value: data, at: now };
+
+    const deliveryId = parseLabelQr(data);
+    if (!deliveryId) {
+      setResult({ ok: false, message: 'Not a dabba label' });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    busy.current = true;
+    setIsChecking(true);
+    try {
+      const outcome = await onScan(deliveryId);
+      setResult(outcome);
+      Haptics.notificationAsync(
+        outcome.ok ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Error
+      );
+    } finally {
+      busy.current = false;
+      setIsChecking(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (!permission) {
+      return <ActivityIndicator size="large" color={COLORS.primary} />;
+    }
+    if (!permission.granted) {
+      return (
+        <View style={styles.permission}>
+          <Ionicons name="camera-outline" size={48} color={COLORS.textSecondary} />
+          <Text style={styles.permissionText}>Camera access is needed to scan dabba labels</Text>
+          <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+            <Text style={styles.permissionButtonText}>Allow Camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    return (
+      <View style={styles.cameraWrap}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={handleBarcode}
+        />
+        <View style={styles.viewfinder} pointerEvents="none" />
+        {isChecking && (
+          <View style={styles.checking}>
+            <ActivityIndicator color={COLORS.text} />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{title}</Text>
+            {subtitle ? <Text style={styles.subtitle} numberOfLines={2}>{subtitle}</Text> : null}
+          </View>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={28} color={COLORS.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.body}>{renderBody()}</View>
+
+        <View style={styles.footer}>
+          {result ? (
+            <View style={[styles.result, { backgroundColor: result.ok ? COLORS.primary : COLORS.error }]}>
+              <Ionicons name={result.ok ? 'checkmark-circle' : 'close-circle'} size={22} color={COLORS.text} />
+              <Text style={styles.resultText}>{result.message}</Text>
+            </View>
+          ) : (
+            <Text style={styles.hint}>Point the camera at the QR code on the dabba label</Text>
+          )}
+          {progress && (
+            <View style={styles.progress}>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` },
+                  ]}
+                />
+              </View>
+              <Text style={styles.progressText}>{progress.done} of {progress.total} loaded</Text>
+            </View>
+          )}
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+  },
+  body: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cameraWrap: {
+    width: '100%',
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  viewfinder: {
+    width: 240,
+    height: 240,
+    borderRadius: 20,
+    borderWidth: 3,
+    borderColor: COLORS.primary,
+  },
+  checking: {
+    position: 'absolute',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  permission: {
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  permissionText: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  permissionButton: {
+    marginTop: 20,
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+  },
+  permissionButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.background,
+  },
+  footer: {
+    padding: 20,
+    backgroundColor: COLORS.surface,
+  },
+  hint: {
+    fontSize: 15,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+  },
+  resultText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  progress: {
+    marginTop: 16,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#3A3A3C',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: COLORS.primary,
+  },
+  progressText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BRAND_COLORS } from './DabbaLogo';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  textMuted: '#C4B5A5',
+  border: '#E8DED1',
+  rangeBg: '#F6E3E9',
+  marked: '#1565C0',
+};
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+interface DateRangePickerProps {
+  startDate: string | null;
+  endDate: string | null;
+  onChange: (startDate: string | null, endDate: string | null) => void;
+  minDate?: string;
+  // Dates already booked (e.g. existing vacations), shown with a dot
+  markedDates?: string[];
+}
+
+/** YYYY-MM-DD in local time (toISOString would shift to UTC) */
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export default function DateRangePicker({
+  startDate,
+  endDate,
+  onChange,
+  minDate,
+  markedDates = [],
+}: DateRangePickerProps) {
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const base = startDate ? parseDateKey(startDate) : minDate ? parseDateKey(minDate) : new Date();
+    return new Date(base.getFullYear(), base.getMonth(), 1);
+  });
+
+  const marked = useMemo(() => new Set(markedDates), [markedDates]);
+
+  const cells = useMemo(() => {
+    const year = visibleMonth.getFullYear();
+    const month = visibleMonth.getMonth();
+    const leading = new Date(year, month, 1).getDay();
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const result: (string | null)[] = Array(leading).fill(null);
+    for (let day = 1; day <= daysInMonth; day++) {
+      result.push(toDateKey(new Date(year, month, day)));
+    }
+    return result;
+  }, [visibleMonth]);
+
+  const changeMonth = (offset: number) => {
+    setVisibleMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const handleDayPress = (key: string) => {
+    // First tap (or a tap after a full range) starts a new range
+    if (!startDate || endDate) {
+      onChange(key, null);
+    } else if (key < startDate) {
+      onChange(key, null);
+    } else {
+      onChange(startDate, key);
+    }
+  };
+
+  const canGoBack = !minDate || toDateKey(visibleMonth) > minDate.slice(0, 8) + '01';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.monthHeader}>
+        <TouchableOpacity
+          onPress={() => changeMonth(-1)}
+          disabled={!canGoBack}
+          style={styles.monthButton}
+        >
+          <Ionicons name="chevron-back" size={20} color={canGoBack ? COLORS.maroon : COLORS.textMuted} />
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>
+          {visibleMonth.toLocaleDateString('en-CA', { month: 'long', year: 'numeric' })}
+        </Text>
+        <TouchableOpacity onPress={() => changeMonth(1)} style={styles.monthButton}>
+          <Ionicons name="chevron-forward" size={20} color={COLORS.maroon} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.weekRow}>
+        {WEEKDAYS.map((day, index) => (
+          <Text key={index} style={styles.weekday}>{day}</Text>
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {cells.map((key, index) => {
+          if (!key) {
+            return <View key={`empty-${index}`} style={styles.cell} />;
+          }
+
+          const isDisabled = !!minDate && key < minDate;
+          const isWeekend = [0, 6].includes(parseDateKey(key).getDay());
+          const isEdge = key === startDate || key === endDate;
+          const inRange = !!startDate && !!endDate && key > startDate && key < endDate;
+
+          return (
+            <TouchableOpacity
+              key={key}
+              style={styles.cell}
+              disabled={isDisabled}
+              onPress={() => handleDayPress(key)}
+            >
+              <View style={[
+                styles.day,
+                inRange && styles.dayInRange,
+                isEdge && styles.daySelected,
+              ]}>
+                <Text style={[
+                  styles.dayText,
+                  isWeekend && styles.dayTextWeekend,
+                  isDisabled && styles.dayTextDisabled,
+                  inRange && styles.dayTextInRange,
+                  isEdge && styles.dayTextSelected,
+                ]}>
+                  {parseDateKey(key).getDate()}
+                </Text>
+                {marked.has(key) && !isEdge && <View style={styles.markedDot} />}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  monthButton: {
+    padding: 6,
+  },
+  monthTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textLight,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  day: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 10,
+  },
+  dayInRange: {
+    backgroundColor: COLORS.rangeBg,
+  },
+  daySelected: {
+    backgroundColor: COLORS.maroon,
+  },
+  dayText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: COLORS.text,
+  },
+  dayTextWeekend: {
+    color: COLORS.textLight,
+  },
+  dayTextDisabled: {
+    color: COLORS.textMuted,
+  },
+  dayTextInRange: {
+    color: COLORS.maroon,
+    fontWeight: '600',
+  },
+  dayTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  markedDot: {
+    position: 'absolute',
+    bottom: 4,
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: COLORS.marked,
+  },
+});
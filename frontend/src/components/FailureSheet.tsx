@@ -0,0 +1,361 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { DeliveryFailureDetails, FailureReason } from '../services/deliveryQueue';
+
+const COLORS = {
+  overlay: 'rgba(0,0,0,0.7)',
+  surface: '#1C1C1E',
+  surfaceLight: '#2C2C2E',
+  primary: '#06C167',
+  error: '#FF3B30',
+  warning: '#FF9500',
+  text: '#FFFFFF',
+  textSecondary: '#8E8E93',
+  border: '#3A3A3C',
+};
+
+const REASONS: { value: FailureReason; label: string; icon: string }[] = [
+  { value: 'customer_unavailable', label: 'Customer unavailable', icon: 'person-remove' },
+  { value: 'wrong_address', label: 'Wrong address', icon: 'location' },
+  { value: 'access_issue', label: 'No building access', icon: 'lock-closed' },
+  { value: 'refused', label: 'Refused', icon: 'hand-left' },
+  { value: 'other', label: 'Other', icon: 'ellipsis-horizontal' },
+];
+
+const LEFT_WITH: { value: DeliveryFailureDetails['leftWith']; label: string }[] = [
+  { value: undefined, label: 'Not left' },
+  { value: 'neighbour', label: 'Neighbour' },
+  { value: 'concierge', label: 'Concierge' },
+];
+
+interface FailureSheetProps {
+  visible: boolean;
+  // e.g. "Stop #4 · Priya Shah"
+  stopLabel?: string;
+  onSubmit: (details: DeliveryFailureDetails, photoUri?: string) => void;
+  onClose: () => void;
+}
+
+export default function FailureSheet({ visible, stopLabel, onSubmit, onClose }: FailureSheetProps) {
+  const [reason, setReason] = useState<FailureReason | null>(null);
+  const [notes, setNotes] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [leftWith, setLeftWith] = useState<DeliveryFailureDetails['leftWith']>(undefined);
+  const [leftWithName, setLeftWithName] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setNotes('');
+      setPhotoUri(null);
+      setLeftWith(undefined);
+      setLeftWithName('');
+    }
+  }, [visible]);
+
+  const takePhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Camera access needed for a photo of the door');
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: false,
+      quality: 0.5,
+    });
+    if (!result.canceled && result.assets[0]) {
+      setPhotoUri(result.assets[0].uri);
+    }
+  };
+
+  const needsNotes = reason === 'other' && !notes.trim();
+  const canSubmit = !!reason && !needsNotes;
+
+  const handleSubmit = () => {
+    if (!reason) return;
+    onSubmit(
+      {
+        reason,
+        notes: notes.trim() || undefined,
+        leftWith,
+        leftWithName: leftWith ? leftWithName.trim() || undefined : undefined,
+      },
+      photoUri || undefined
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Unable to Deliver</Text>
+              {stopLabel ? <Text style={styles.subtitle}>{stopLabel}</Text> : null}
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={26} color={COLORS.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            <Text style={styles.label}>What happened?</Text>
+            {REASONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.reasonRow, reason === option.value && styles.reasonRowActive]}
+                onPress={() => setReason(option.value)}
+              >
+                <Ionicons
+                  name={option.icon as any}
+                  size={20}
+                  color={reason === option.value ? COLORS.primary : COLORS.textSecondary}
+                />
+                <Text style={styles.reasonText}>{option.label}</Text>
+                {reason === option.value && <Ionicons name="checkmark-circle" size={20} color={COLORS.primary} />}
+              </TouchableOpacity>
+            ))}
+
+            <Text style={styles.label}>Left the dabba with someone?</Text>
+            <View style={styles.segment}>
+              {LEFT_WITH.map(option => (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.segmentOption, leftWith === option.value && styles.segmentOptionActive]}
+                  onPress={() => setLeftWith(option.value)}
+                >
+                  <Text style={[styles.segmentText, leftWith === option.value && styles.segmentTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {leftWith && (
+              <TextInput
+                style={styles.input}
+                value={leftWithName}
+                onChangeText={setLeftWithName}
+                placeholder={leftWith === 'neighbour' ? 'Neighbour name or unit' : 'Concierge / front desk name'}
+                placeholderTextColor={COLORS.textSecondary}
+              />
+            )}
+
+            <Text style={styles.label}>Notes{reason === 'other' ? ' (required)' : ''}</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Buzzer code didn't work, called twice..."
+              placeholderTextColor={COLORS.textSecondary}
+              multiline
+              maxLength={300}
+            />
+
+            <Text style={styles.label}>Photo (optional)</Text>
+            {photoUri ? (
+              <View style={styles.photoRow}>
+                <Image source={{ uri: photoUri }} style={styles.photo} />
+                <TouchableOpacity style={styles.photoAction} onPress={takePhoto}>
+                  <Text style={styles.photoActionText}>Retake</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.photoAction} onPress={() => setPhotoUri(null)}>
+                  <Text style={[styles.photoActionText, { color: COLORS.error }]}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.photoButton} onPress={takePhoto}>
+                <Ionicons name="camera" size={20} color={COLORS.text} />
+                <Text style={styles.photoButtonText}>Take Photo</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, leftWith && styles.submitButtonLeft, !canSubmit && styles.submitDisabled]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            <Text style={styles.submitText}>
+              {leftWith ? `Left with ${leftWith}` : 'Mark as Failed'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: COLORS.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 34,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: COLORS.border,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  reasonRowActive: {
+    borderColor: COLORS.primary,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 16,
+    color: COLORS.text,
+    marginLeft: 12,
+  },
+  segment: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: 12,
+    padding: 4,
+  },
+  segmentOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  segmentOptionActive: {
+    backgroundColor: COLORS.primary,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  segmentTextActive: {
+    color: COLORS.text,
+  },
+  input: {
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 15,
+    color: COLORS.text,
+    marginTop: 8,
+  },
+  notesInput: {
+    minHeight: 80,
+    marginTop: 0,
+    textAlignVertical: 'top',
+  },
+  photoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  photoButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginLeft: 8,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: 12,
+    marginRight: 12,
+  },
+  photoAction: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  photoActionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  submitButton: {
+    backgroundColor: COLORS.error,
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  submitButtonLeft: {
+    backgroundColor: COLORS.primary,
+  },
+  submitDisabled: {
+    opacity: 0.4,
+  },
+  submitText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import LeafletMap, { MapPoint } from './LeafletMap';
+import { BRAND_COLORS } from './DabbaLogo';
+
+export interface FleetDriver extends MapPoint {
+  id: string;
+  label: string;
+  stale: boolean;
+}
+
+export interface FleetStop extends MapPoint {
+  label: string;
+}
+
+interface FleetMapProps {
+  drivers: FleetDriver[];
+  selectedId: string | null;
+  // Remaining stops for the selected driver
+  stops: FleetStop[];
+  onSelectDriver: (id: string) => void;
+  height?: number;
+}
+
+// One marker per driver; marker taps are posted back to React Native as the driver id
+const MAP_CSS = `
+  .driver { display: flex; align-items: center; gap: 4px; white-space: nowrap; padding: 4px 8px;
+            border-radius: 14px; border: 2px solid #fff; box-shadow: 0 2px 6px rgba(0,0,0,0.35);
+            background: ${BRAND_COLORS.saffron}; color: #fff; font: 600 12px sans-serif; }
+  .driver.stale { background: #9E9E9E; }
+  .driver.selected { background: ${BRAND_COLORS.maroon}; transform: scale(1.15); }
+  .stop { display: flex; align-items: center; justify-content: center; width: 24px; height: 24px;
+          border-radius: 50%; border: 2px solid #fff; background: ${BRAND_COLORS.maroon};
+          color: #fff; font: 700 11px sans-serif; box-shadow: 0 1px 4px rgba(0,0,0,0.3); }
+`;
+
+const MAP_SCRIPT = `
+  var driverMarkers = {};
+  var stopLayer = L.layerGroup().addTo(map);
+  var routeLine = null;
+  var lastFocus = null;
+
+  var driverIcon = function (d, selected) {
+    var cls = 'driver' + (d.stale ? ' stale' : '') + (selected ? ' selected' : '');
+    return textIcon(cls, '🛵 ' + d.label, { iconSize: null, iconAnchor: [20, 14] });
+  };
+
+  window.updateFleet = function (drivers, selectedId, stops) {
+    var seen = {};
+    drivers.forEach(function (d) {
+      seen[d.id] = true;
+      var marker = driverMarkers[d.id];
+      if (!marker) {
+        marker = L.marker([d.latitude, d.longitude]).addTo(map);
+        marker.on('click', function () { window.ReactNativeWebView.postMessage(d.id); });
+        driverMarkers[d.id] = marker;
+      } else {
+        marker.setLatLng([d.latitude, d.longitude]);
+      }
+      marker.setIcon(driverIcon(d, d.id === selectedId));
+      marker.setZIndexOffset(d.id === selectedId ? 1000 : 0);
+    });
+    Object.keys(driverMarkers).forEach(function (id) {
+      if (!seen[id]) { map.removeLayer(driverMarkers[id]); delete driverMarkers[id]; }
+    });
+
+    stopLayer.clearLayers();
+    if (routeLine) { map.removeLayer(routeLine); routeLine = null; }
+    var selected = drivers.filter(function (d) { return d.id === selectedId; })[0];
+    var points = [];
+    if (selected) {
+      points.push([selected.latitude, selected.longitude]);
+      stops.forEach(function (s) {
+        L.marker([s.latitude, s.longitude], {
+          icon: textIcon('stop', String(s.label), { iconSize: [24, 24], iconAnchor: [12, 12] })
+        }).addTo(stopLayer);
+        points.push([s.latitude, s.longitude]);
+      });
+      if (points.length > 1) {
+        routeLine = L.polyline(points, { color: '${BRAND_COLORS.maroon}', weight: 3, dashArray: '6 8' }).addTo(map);
+      }
+    } else {
+      points = drivers.map(function (d) { return [d.latitude, d.longitude]; });
+    }
+
+    // Only re-frame when the selection changes so pans aren't undone by position updates
+    var focus = selectedId || '*';
+    if (focus !== lastFocus && points.length) {
+      lastFocus = focus;
+      if (points.length === 1) map.setView(points[0], 15);
+      else map.fitBounds(points, { padding: [40, 40], maxZoom: 15 });
+    }
+  };
+`;
+
+export default function FleetMap({ drivers, selectedId, stops, onSelectDriver, height = 320 }: FleetMapProps) {
+  return (
+    <LeafletMap
+      css={MAP_CSS}
+      script={MAP_SCRIPT}
+      update={`window.updateFleet(${JSON.stringify(drivers)}, ${JSON.stringify(selectedId)}, ${JSON.stringify(stops)})`}
+      zoom={12}
+      height={height}
+      backgroundColor="#E8DED1"
+      onMessage={onSelectDriver}
+    />
+  );
+}
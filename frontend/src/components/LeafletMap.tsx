@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { WebView } from 'react-native-webview';
+import { LEAFLET_CSS, LEAFLET_JS } from '../generated/leafletAssets';
+
+export interface MapPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Halifax downtown, used until real coordinates arrive
+export const DEFAULT_CENTER: MapPoint = { latitude: 44.6488, longitude: -63.5752 };
+
+// Both tile sets are OpenStreetMap data, so the attribution control always stays on
+const TILES = {
+  light: {
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; OpenStreetMap contributors',
+  },
+  dark: {
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png',
+    attribution: '&copy; OpenStreetMap contributors &copy; CARTO',
+  },
+};
+
+interface LeafletMapProps {
+  // Marker styles for the page
+  css: string;
+  // Runs once the map exists, with `map` and `textIcon` in scope; defines the function `update` calls
+  script: string;
+  // Run in the page after load and again whenever it changes, e.g. `window.updateMarkers(...)`
+  update: string;
+  center?: MapPoint;
+  zoom?: number;
+  tiles?: keyof typeof TILES;
+  height: number;
+  backgroundColor: string;
+  // Messages the page posts back through window.ReactNativeWebView
+  onMessage?: (data: string) => void;
+}
+
+interface MapPage {
+  css: string;
+  script: string;
+  center: MapPoint;
+  zoom: number;
+  tiles: keyof typeof TILES;
+  backgroundColor: string;
+}
+
+// Self-contained page with Leaflet inlined from the app bundle; state is pushed in via injectJavaScript
+const buildMapHtml = ({ css, script, center, zoom, tiles, backgroundColor }: MapPage) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />
+  <style>${LEAFLET_CSS}</style>
+  <style>
+    html, body, #map { margin: 0; padding: 0; height: 100%; width: 100%; background: ${backgroundColor}; }
+    ${css}
+  </style>
+</head>
+<body>
+  <div id="map"></div>
+  <script>${LEAFLET_JS}</script>
+  <script>
+    var map = L.map('map', { zoomControl: false })
+      .setView([${center.latitude}, ${center.longitude}], ${zoom});
+    map.attributionControl.setPrefix(false);
+    L.tileLayer('${TILES[tiles].url}', { maxZoom: 19, attribution: '${TILES[tiles].attribution}' }).addTo(map);
+
+    // Labels carry driver and customer data, so they are set as text and never parsed as HTML
+    var textIcon = function (cls, text, options) {
+      var el = document.createElement('div');
+      el.className = cls;
+      el.textContent = text;
+      return L.divIcon(Object.assign({ className: '', html: el }, options));
+    };
+
+    ${script}
+  </script>
+</body>
+</html>`;
+
+export default function LeafletMap({
+  css,
+  script,
+  update,
+  center = DEFAULT_CENTER,
+  zoom = 13,
+  tiles = 'light',
+  height,
+  backgroundColor,
+  onMessage,
+}: LeafletMapProps) {
+  const webViewRef = useRef<WebView>(null);
+  const isReady = useRef(false);
+
+  // Build the page once; later changes only go through `update`
+  const page = useRef<MapPage>({ css, script, center, zoom, tiles, backgroundColor }).current;
+  const html = useMemo(() => buildMapHtml(page), [page]);
+
+  const updateScript = `${update}; true;`;
+
+  useEffect(() => {
+    if (isReady.current) {
+      webViewRef.current?.injectJavaScript(updateScript);
+    }
+  }, [updateScript]);
+
+  return (
+    <View style={[styles.container, { height, backgroundColor }]}>
+      <WebView
+        ref={webViewRef}
+        originWhitelist={['*']}
+        source={{ html }}
+        onLoadEnd={() => {
+          isReady.current = true;
+          webViewRef.current?.injectJavaScript(updateScript);
+        }}
+        onMessage={onMessage ? event => onMessage(event.nativeEvent.data) : undefined}
+        scrollEnabled={false}
+        javaScriptEnabled
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+});
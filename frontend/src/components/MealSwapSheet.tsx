@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { menuAPI, kitchenAPI, subscriptionAPI } from '../services/api';
+import { BRAND_COLORS } from './DabbaLogo';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  swap: '#6A1B9A',
+  swapLight: '#F3E5F5',
+  overlay: 'rgba(0,0,0,0.4)',
+};
+
+interface Dish {
+  id: string;
+  name: string;
+  category: string;
+  description?: string;
+}
+
+interface MealSwapSheetProps {
+  visible: boolean;
+  date: string;
+  // The item as scheduled by the kitchen
+  item: { name: string; category: string } | null;
+  // Current replacement, if this item was already swapped
+  currentReplacement?: string | null;
+  // Other items on the day's menu, never offered as replacements
+  menuItemNames?: string[];
+  onClose: () => void;
+  onSwapped: () => void;
+}
+
+export default function MealSwapSheet({
+  visible,
+  date,
+  item,
+  currentReplacement,
+  menuItemNames = [],
+  onClose,
+  onSwapped,
+}: MealSwapSheetProps) {
+  const [options, setOptions] = useState<Dish[]>([]);
+  const [soldOutCount, setSoldOutCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [submitting, setSubmitting] = useState<string | null>(null);
+
+  const category = item?.category;
+  const menuKey = menuItemNames.join('|');
+
+  useEffect(() => {
+    if (!visible || !category) return;
+    let cancelled = false;
+    setIsLoading(true);
+
+    Promise.all([
+      menuAPI.getDishes(category),
+      kitchenAPI.getSoldOutItems(date).catch(() => ({ data: { sold_out: [] } })),
+    ])
+      .then(([dishesRes, soldOutRes]) => {
+        if (cancelled) return;
+        const soldOut = new Set<string>(soldOutRes.data.sold_out || []);
+        const onMenu = new Set(menuKey.split('|'));
+        const sameCategory: Dish[] = (dishesRes.data.dishes || [])
+          .filter((dish: Dish) => !onMenu.has(dish.name));
+        setSoldOutCount(sameCategory.filter(dish => soldOut.has(dish.name)).length);
+        setOptions(sameCategory.filter(dish => !soldOut.has(dish.name)));
+      })
+      .catch(error => {
+        console.error('Error loading swap options:', error);
+        if (!cancelled) setOptions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, category, date, menuKey]);
+
+  const submitSwap = async (replacement: string) => {
+    if (!item) return;
+    setSubmitting(replacement);
+    try {
+      await subscriptionAPI.swapMeal({
+        date,
+        original_meal: item.name,
+        replacement_meal: replacement,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onSwapped();
+      onClose();
+    } catch (error: any) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to swap meal');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Swap {item?.name}</Text>
+              <Text style={styles.subtitle}>Pick another {category} for this dinner</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={22} color={COLORS.text} />
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator color={COLORS.maroon} style={styles.loader} />
+          ) : (
+            <ScrollView style={styles.list}>
+              {currentReplacement && item && (
+                <TouchableOpacity
+                  style={[styles.option, styles.restoreOption]}
+                  onPress={() => submitSwap(item.name)}
+                  disabled={!!submitting}
+                >
+                  <Ionicons name="arrow-undo" size={18} color={COLORS.maroon} />
+                  <Text style={styles.optionName}>Keep original ({item.name})</Text>
+                  {submitting === item.name && <ActivityIndicator size="small" color={COLORS.maroon} />}
+                </TouchableOpacity>
+              )}
+
+              {options.map(dish => {
+                const isCurrent = dish.name === currentReplacement;
+                return (
+                  <TouchableOpacity
+                    key={dish.id}
+                    style={[styles.option, isCurrent && styles.optionCurrent]}
+                    onPress={() => submitSwap(dish.name)}
+                    disabled={isCurrent || !!submitting}
+                  >
+                    <View style={styles.optionInfo}>
+                      <Text style={styles.optionName}>{dish.name}</Text>
+                      {!!dish.description && (
+                        <Text style={styles.optionDescription} numberOfLines={1}>{dish.description}</Text>
+                      )}
+                    </View>
+                    {submitting === dish.name ? (
+                      <ActivityIndicator size="small" color={COLORS.swap} />
+                    ) : isCurrent ? (
+                      <Ionicons name="checkmark-circle" size={20} color={COLORS.swap} />
+                    ) : (
+                      <Ionicons name="swap-horizontal" size={18} color={COLORS.textLight} />
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+
+              {options.length === 0 && (
+                <Text style={styles.emptyText}>No other {category} dishes are available right now.</Text>
+              )}
+              {soldOutCount > 0 && (
+                <Text style={styles.soldOutNote}>
+                  {soldOutCount} sold-out {soldOutCount === 1 ? 'dish is' : 'dishes are'} hidden
+                </Text>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: COLORS.card,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+    maxHeight: '70%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: COLORS.border,
+    marginTop: 10,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  loader: {
+    marginVertical: 32,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: 8,
+    gap: 10,
+  },
+  optionCurrent: {
+    borderColor: COLORS.swap,
+    backgroundColor: COLORS.swapLight,
+  },
+  restoreOption: {
+    backgroundColor: COLORS.cream,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+  soldOutNote: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,243 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BRAND_COLORS } from './DabbaLogo';
+import { toDateKey, parseDateKey } from './DateRangePicker';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  textMuted: '#C4B5A5',
+  border: '#E8DED1',
+};
+
+export interface CalendarDay {
+  date: string;
+  day: string;
+  status: string;
+  is_weekend: boolean;
+  is_skipped: boolean;
+  skip_reason?: string | null;
+  delivery_status?: string | null;
+  swaps?: { original_meal: string; replacement_meal: string }[];
+  dinner_items?: { id: string; name: string; category: string }[];
+  can_skip: boolean;
+}
+
+// Per-status look, also used by the legend
+export const DAY_STATUS: Record<string, { label: string; color: string; bg: string; icon: string }> = {
+  scheduled: { label: 'Scheduled', color: BRAND_COLORS.maroon, bg: '#F6E3E9', icon: 'restaurant' },
+  delivered: { label: 'Delivered', color: '#2E7D32', bg: '#E8F5E9', icon: 'checkmark-circle' },
+  failed: { label: 'Not delivered', color: '#C41E3A', bg: '#FFEBEE', icon: 'alert-circle' },
+  skipped: { label: 'Skipped', color: '#E65100', bg: '#FFF3E0', icon: 'close-circle' },
+  vacation: { label: 'Vacation', color: '#1565C0', bg: '#E3F2FD', icon: 'airplane' },
+  swapped: { label: 'Swapped', color: '#6A1B9A', bg: '#F3E5F5', icon: 'swap-horizontal' },
+};
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+interface MonthCalendarProps {
+  month: Date;
+  days: CalendarDay[];
+  selectedDate?: string | null;
+  onDayPress: (date: string, day?: CalendarDay) => void;
+  onMonthChange: (offset: number) => void;
+}
+
+export default function MonthCalendar({
+  month,
+  days,
+  selectedDate,
+  onDayPress,
+  onMonthChange,
+}: MonthCalendarProps) {
+  const dayMap = useMemo(() => {
+    const map: Record<string, CalendarDay> = {};
+    days.forEach(day => {
+      map[day.date] = day;
+    });
+    return map;
+  }, [days]);
+
+  const cells = useMemo(() => {
+    const year = month.getFullYear();
+    const monthIndex = month.getMonth();
+    const leading = new Date(year, monthIndex, 1).getDay();
+    const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+    const result: (string | null)[] = Array(leading).fill(null);
+    for (let day = 1; day <= daysInMonth; day++) {
+      result.push(toDateKey(new Date(year, monthIndex, day)));
+    }
+    return result;
+  }, [month]);
+
+  const today = toDateKey(new Date());
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.monthHeader}>
+        <TouchableOpacity onPress={() => onMonthChange(-1)} style={styles.monthButton}>
+          <Ionicons name="chevron-back" size={20} color={COLORS.maroon} />
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>
+          {month.toLocaleDateString('en-CA', { month: 'long', year: 'numeric' })}
+        </Text>
+        <TouchableOpacity onPress={() => onMonthChange(1)} style={styles.monthButton}>
+          <Ionicons name="chevron-forward" size={20} color={COLORS.maroon} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.weekRow}>
+        {WEEKDAYS.map((day, index) => (
+          <Text key={index} style={styles.weekday}>{day}</Text>
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {cells.map((key, index) => {
+          if (!key) {
+            return <View key={`empty-${index}`} style={styles.cell} />;
+          }
+
+          const day = dayMap[key];
+          const status = day ? DAY_STATUS[day.status] : undefined;
+          const isSelected = key === selectedDate;
+
+          return (
+            <TouchableOpacity
+              key={key}
+              style={styles.cell}
+              onPress={() => onDayPress(key, day)}
+            >
+              <View style={[
+                styles.day,
+                status && { backgroundColor: status.bg },
+                key === today && styles.dayToday,
+                isSelected && styles.daySelected,
+              ]}>
+                <Text style={[
+                  styles.dayText,
+                  status && { color: status.color },
+                  (!day || day.is_weekend) && styles.dayTextMuted,
+                ]}>
+                  {parseDateKey(key).getDate()}
+                </Text>
+                {status && day?.status !== 'scheduled' && (
+                  <Ionicons name={status.icon as any} size={10} color={status.color} style={styles.statusIcon} />
+                )}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {Object.values(DAY_STATUS).map(status => (
+          <View key={status.label} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: status.bg, borderColor: status.color }]} />
+            <Text style={styles.legendText}>{status.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  monthButton: {
+    padding: 6,
+  },
+  monthTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textLight,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  day: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  dayToday: {
+    borderColor: COLORS.gold,
+  },
+  daySelected: {
+    borderColor: COLORS.maroon,
+  },
+  dayText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  dayTextMuted: {
+    color: COLORS.textMuted,
+    fontWeight: '400',
+  },
+  statusIcon: {
+    position: 'absolute',
+    bottom: 3,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '33%',
+    marginBottom: 8,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 4,
+    borderWidth: 1,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 11,
+    color: COLORS.textLight,
+  },
+});
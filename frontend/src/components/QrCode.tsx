@@ -0,0 +1,23 @@
+import React, { useMemo } from 'react';
+import Svg, { Path, Rect } from 'react-native-svg';
+import { buildQrSvgPath, getQrMatrix } from '../services/labels';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  color?: string;
+  backgroundColor?: string;
+}
+
+// Same matrix the printed labels use, so what's on screen scans the same
+export default function QrCode({ value, size = 96, color = '#000000', backgroundColor = '#FFFFFF' }: QrCodeProps) {
+  const matrix = useMemo(() => getQrMatrix(value), [value]);
+  const viewSize = matrix.length + 4;
+
+  return (
+    <Svg width={size} height={size} viewBox={`0 0 ${viewSize} ${viewSize}`}>
+      <Rect width={viewSize} height={viewSize} fill={backgroundColor} />
+      <Path d={buildQrSvgPath(matrix, 2)} fill={color} />
+    </Svg>
+  );
+}
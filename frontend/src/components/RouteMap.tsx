@@ -0,0 +1,86 @@
+import React from 'react';
+import LeafletMap, { MapPoint } from './LeafletMap';
+
+export interface RouteMapStop extends MapPoint {
+  label: string;
+  priority?: boolean;
+}
+
+interface RouteMapProps {
+  driver: MapPoint | null;
+  // Remaining stops in driving order
+  stops: RouteMapStop[];
+  // Road geometry when the router answered; otherwise stops are joined with straight lines
+  path?: [number, number][] | null;
+  height?: number;
+}
+
+// Styled for the driver app's dark theme
+const MAP_CSS = `
+  .driver { width: 30px; height: 30px; border-radius: 50%; border: 3px solid #fff; background: #3B82F6;
+            box-shadow: 0 2px 6px rgba(0,0,0,0.5); display: flex; align-items: center; justify-content: center; font-size: 14px; }
+  .stop { display: flex; align-items: center; justify-content: center; width: 26px; height: 26px;
+          border-radius: 50%; border: 2px solid #fff; background: #000; color: #fff;
+          font: 700 12px sans-serif; box-shadow: 0 1px 4px rgba(0,0,0,0.4); }
+  .stop.next { background: #06C167; width: 32px; height: 32px; font-size: 14px; }
+  .stop.priority { background: #FF9500; }
+`;
+
+const MAP_SCRIPT = `
+  var driverMarker = null;
+  var stopLayer = L.layerGroup().addTo(map);
+  var routeLine = null;
+  var lastFrame = null;
+
+  window.updateRoute = function (driver, stops, path) {
+    if (driver) {
+      if (!driverMarker) {
+        driverMarker = L.marker([driver.latitude, driver.longitude], {
+          icon: textIcon('driver', '🛵', { iconSize: [30, 30], iconAnchor: [15, 15] }),
+          zIndexOffset: 1000
+        }).addTo(map);
+      } else {
+        driverMarker.setLatLng([driver.latitude, driver.longitude]);
+      }
+    }
+
+    stopLayer.clearLayers();
+    var points = driver ? [[driver.latitude, driver.longitude]] : [];
+    stops.forEach(function (s, i) {
+      var cls = 'stop' + (i === 0 ? ' next' : s.priority ? ' priority' : '');
+      var size = i === 0 ? 32 : 26;
+      L.marker([s.latitude, s.longitude], {
+        icon: textIcon(cls, String(s.label), { iconSize: [size, size], iconAnchor: [size / 2, size / 2] }),
+        zIndexOffset: stops.length - i
+      }).addTo(stopLayer);
+      points.push([s.latitude, s.longitude]);
+    });
+
+    if (routeLine) { map.removeLayer(routeLine); routeLine = null; }
+    var line = path && path.length > 1 ? path : points;
+    if (line.length > 1) {
+      routeLine = L.polyline(line, path ? { color: '#06C167', weight: 5, opacity: 0.9 } : { color: '#06C167', weight: 3, dashArray: '6 8' }).addTo(map);
+    }
+
+    // Re-frame only when the stop order changes so the driver's own pans stick
+    var frame = stops.map(function (s) { return s.label; }).join(',');
+    if (frame !== lastFrame && points.length) {
+      lastFrame = frame;
+      if (points.length === 1) map.setView(points[0], 15);
+      else map.fitBounds(points, { padding: [40, 40], maxZoom: 15 });
+    }
+  };
+`;
+
+export default function RouteMap({ driver, stops, path, height = 300 }: RouteMapProps) {
+  return (
+    <LeafletMap
+      css={MAP_CSS}
+      script={MAP_SCRIPT}
+      update={`window.updateRoute(${JSON.stringify(driver)}, ${JSON.stringify(stops)}, ${JSON.stringify(path || null)})`}
+      tiles="dark"
+      height={height}
+      backgroundColor="#1C1C1E"
+    />
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { kitchenAPI } from '../services/api';
+import { useRealtimeEvent } from '../services/realtime';
+import { BRAND_COLORS } from './DabbaLogo';
+
+const COLORS = {
+  ...BRAND_COLORS,
+  card: '#FFFFFF',
+  text: '#3D2914',
+  textLight: '#8B7355',
+  border: '#E8DED1',
+  soldOut: '#C41E3A',
+  soldOutLight: '#FFEBEE',
+  success: '#2E7D32',
+};
+
+export interface SoldOutItem {
+  item_name: string;
+  marked_at: string;
+  affected_customers: number;
+  dabbas: number;
+  swaps: number;
+  extras: number;
+}
+
+/**
+ * Today's sold-out list for kitchen screens. Stays in sync with other
+ * kitchen devices through the sold_out_update event.
+ */
+export const useSoldOut = () => {
+  const [items, setItems] = useState<SoldOutItem[]>([]);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await kitchenAPI.getSoldOutItems();
+      setItems(response.data.items || []);
+    } catch (error) {
+      console.error('Error fetching sold-out items:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useRealtimeEvent('sold_out_update', refresh);
+
+  const isSoldOut = useCallback(
+    (name: string) => items.some(item => item.item_name === name),
+    [items]
+  );
+
+  const toggle = async (name: string) => {
+    const soldOut = isSoldOut(name);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setPending(name);
+    try {
+      if (soldOut) {
+        await kitchenAPI.restockItem(name);
+      } else {
+        await kitchenAPI.markSoldOut(name);
+      }
+      await refresh();
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.detail || 'Failed to update stock');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return { items, isSoldOut, toggle, pending, refresh };
+};
+
+interface SoldOutBoardProps {
+  items: SoldOutItem[];
+  pending: string | null;
+  onRestock: (name: string) => void;
+}
+
+const impactText = (item: SoldOutItem) => {
+  const parts = [
+    item.dabbas && `${item.dabbas} dabba${item.dabbas === 1 ? '' : 's'}`,
+    item.swaps && `${item.swaps} swap${item.swaps === 1 ? '' : 's'}`,
+    item.extras && `${item.extras} extra${item.extras === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'Not on any order today';
+};
+
+export default function SoldOutBoard({ items, pending, onRestock }: SoldOutBoardProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <View style={styles.board}>
+      <View style={styles.boardHeader}>
+        <Ionicons name="alert-circle" size={18} color={COLORS.soldOut} />
+        <Text style={styles.boardTitle}>Sold out today</Text>
+        <Text style={styles.boardCount}>{items.length}</Text>
+      </View>
+      {items.map(item => (
+        <View key={item.item_name} style={styles.row}>
+          <View style={styles.rowInfo}>
+            <Text style={styles.itemName}>{item.item_name}</Text>
+            <Text style={styles.impact}>
+              <Text style={styles.impactCount}>{item.affected_customers} affected</Text> · {impactText(item)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.restockButton}
+            onPress={() => onRestock(item.item_name)}
+            disabled={pending === item.item_name}
+          >
+            {pending === item.item_name ? (
+              <ActivityIndicator size="small" color={COLORS.success} />
+            ) : (
+              <>
+                <Ionicons name="refresh" size={14} color={COLORS.success} />
+                <Text style={styles.restockText}>Restock</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  board: {
+    backgroundColor: COLORS.soldOutLight,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: COLORS.soldOut + '40',
+  },
+  boardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  boardTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: COLORS.soldOut,
+  },
+  boardCount: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: COLORS.card,
+    backgroundColor: COLORS.soldOut,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  impact: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  impactCount: {
+    fontWeight: '700',
+    color: COLORS.soldOut,
+  },
+  restockButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.success,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 84,
+    justifyContent: 'center',
+  },
+  restockText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.success,
+  },
+});
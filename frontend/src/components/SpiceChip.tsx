@@ -0,0 +1,47 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+export type SpiceLevel = 'mild' | 'medium' | 'spicy';
+
+export const SPICE_LEVELS: SpiceLevel[] = ['mild', 'medium', 'spicy'];
+
+// Same colours customers see when they pick their level
+export const SPICE_META: Record<SpiceLevel, { label: string; chillies: string; color: string }> = {
+  mild: { label: 'Mild', chillies: '🌶️', color: '#4CAF50' },
+  medium: { label: 'Medium', chillies: '🌶️🌶️', color: '#FF9800' },
+  spicy: { label: 'Spicy', chillies: '🌶️🌶️🌶️', color: '#F44336' },
+};
+
+export const toSpiceLevel = (level?: string | null): SpiceLevel =>
+  SPICE_LEVELS.includes(level as SpiceLevel) ? (level as SpiceLevel) : 'medium';
+
+interface SpiceChipProps {
+  level?: string | null;
+  // Compact chips drop the label for dense tables
+  compact?: boolean;
+}
+
+export default function SpiceChip({ level, compact = false }: SpiceChipProps) {
+  const meta = SPICE_META[toSpiceLevel(level)];
+  return (
+    <View style={[styles.chip, { borderColor: meta.color, backgroundColor: `${meta.color}22` }]}>
+      <Text style={[styles.text, { color: meta.color }]}>
+        {compact ? meta.label.charAt(0) : meta.label}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  text: {
+    fontSize: 10,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+});
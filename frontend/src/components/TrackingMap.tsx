@@ -0,0 +1,62 @@
+import React, { useRef } from 'react';
+import LeafletMap, { DEFAULT_CENTER, MapPoint } from './LeafletMap';
+import { BRAND_COLORS } from './DabbaLogo';
+
+interface TrackingMapProps {
+  driver: MapPoint | null;
+  destination: MapPoint | null;
+  height?: number;
+}
+
+const MAP_CSS = `
+  .pin { display: flex; align-items: center; justify-content: center; border-radius: 50%;
+         border: 3px solid #fff; box-shadow: 0 2px 6px rgba(0,0,0,0.35); font-size: 16px; }
+  .driver { background: ${BRAND_COLORS.saffron}; width: 34px; height: 34px; }
+  .home { background: ${BRAND_COLORS.maroon}; width: 30px; height: 30px; }
+`;
+
+// Markers are moved from React Native via updateMarkers
+const MAP_SCRIPT = `
+  var icon = function (cls, emoji) {
+    return textIcon('pin ' + cls, emoji, { iconSize: [34, 34], iconAnchor: [17, 17] });
+  };
+  var driverMarker = null;
+  var homeMarker = null;
+  var routeLine = null;
+
+  window.updateMarkers = function (driver, home) {
+    if (home) {
+      if (!homeMarker) homeMarker = L.marker([home.latitude, home.longitude], { icon: icon('home', '🏠') }).addTo(map);
+      else homeMarker.setLatLng([home.latitude, home.longitude]);
+    }
+    if (driver) {
+      if (!driverMarker) driverMarker = L.marker([driver.latitude, driver.longitude], { icon: icon('driver', '🛵') }).addTo(map);
+      else driverMarker.setLatLng([driver.latitude, driver.longitude]);
+    }
+    if (driver && home) {
+      var points = [[driver.latitude, driver.longitude], [home.latitude, home.longitude]];
+      if (!routeLine) routeLine = L.polyline(points, { color: '${BRAND_COLORS.maroon}', weight: 3, dashArray: '6 8' }).addTo(map);
+      else routeLine.setLatLngs(points);
+      map.fitBounds(points, { padding: [48, 48], maxZoom: 16 });
+    } else if (driver || home) {
+      var p = driver || home;
+      map.setView([p.latitude, p.longitude], 15);
+    }
+  };
+`;
+
+export default function TrackingMap({ driver, destination, height = 280 }: TrackingMapProps) {
+  const initialCenter = useRef(destination || driver || DEFAULT_CENTER).current;
+
+  return (
+    <LeafletMap
+      css={MAP_CSS}
+      script={MAP_SCRIPT}
+      update={`window.updateMarkers(${JSON.stringify(driver)}, ${JSON.stringify(destination)})`}
+      center={initialCenter}
+      zoom={14}
+      height={height}
+      backgroundColor="#E8DED1"
+    />
+  );
+}
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { authAPI } from '../services/api';
+import { realtimeService, getRealtimeRole } from '../services/realtime';
 
 interface User {
   id: string;
@@ -31,6 +32,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     loadStoredAuth();
   }, []);
 
+  // Keep the realtime socket tied to the signed-in user; torn down on logout
+  const userId = user?.id;
+  const userRole = user?.role;
+  useEffect(() => {
+    if (!userId || !userRole || !token) return;
+    realtimeService.connect(userId, getRealtimeRole(userRole), token);
+    return () => {
+      realtimeService.disconnect();
+    };
+  }, [userId, userRole, token]);
+
   const loadStoredAuth = async () => {
     try {
       const storedToken = await AsyncStorage.getItem('authToken');
@@ -55,6 +55,8 @@ export const menuAPI = {
     const response = await api.get('/menu');
     return response;
   },
+  // NEW: Dish catalogue for customers (swap candidates)
+  getDishes: (category?: string) => api.get('/menu/dishes', { params: { category } }),
 };
 
 // Subscription APIs with Smart Planner & Dynamic Reindexing
@@ -69,16 +71,28 @@ export const subscriptionAPI = {
     api.post('/subscription/skip-with-reindex', data),
   setVacationMode: (data: { start_date: string; end_date: string; active?: boolean }) =>
     api.post('/subscription/vacation', data),
-  getCalendar: () => api.get('/subscription/calendar'),
+  // Replaces a booked window in one step - the old days come back only if the new range is paused
+  updateVacation: (data: { old_start_date: string; old_end_date: string; start_date: string; end_date: string }) =>
+    api.put('/subscription/vacation', data),
+  // NEW: Meals skipped and credit earned for a range, before confirming
+  previewVacation: (startDate: string, endDate: string) =>
+    api.get('/subscription/vacation/preview', { params: { start_date: startDate, end_date: endDate } }),
+  // NEW: days defaults to 7; start (YYYY-MM-DD) defaults to today, past days carry delivery outcomes
+  getCalendar: (days?: number, start?: string) =>
+    api.get('/subscription/calendar', { params: { days, start } }),
   swapMeal: (data: { date: string; original_meal: string; replacement_meal: string }) =>
     api.post('/subscription/swap-meal', data),
 };
 
 // Wallet APIs - Trust Engine
 export const walletAPI = {
-  getWallet: () => api.get('/wallet'),
+  // NEW: Optional filters by transaction type and month (YYYY-MM)
+  getWallet: (params?: { type?: string; month?: string }) => api.get('/wallet', { params }),
   creditWallet: (data: { amount: number; reason: string; reference_id?: string }) =>
     api.post('/wallet/credit', data),
+  // NEW: Top up with a token from a payment provider (see services/payments)
+  topUp: (data: { amount: number; payment_token: string; provider: string }) =>
+    api.post('/wallet/top-up', data),
 };
 
 // Kitchen Portal APIs
@@ -88,8 +102,16 @@ export const kitchenAPI = {
   
   // Preparation List
   getPreparationList: () => api.get('/kitchen/preparation-list'),
-  updateCustomerItems: (customerId: string, items: { roti?: number; sabji?: number; dal?: number; rice?: number; salad?: number; bread?: number }) =>
-    api.put(`/kitchen/customer-items/${customerId}`, items),
+  updateCustomerItems: (
+    customerId: string,
+    items: { roti?: number; sabji?: number; dal?: number; rice?: number; salad?: number; bread?: number },
+    scope: 'today' | 'default' = 'default',
+    note?: string
+  ) => api.put(`/kitchen/customer-items/${customerId}`, { ...items, scope, note }),
+  // NEW: Drop today's one-off portions and fall back to the customer's defaults
+  clearCustomerItemsOverride: (customerId: string) => api.delete(`/kitchen/customer-items/${customerId}/today`),
+  getPortionAudit: (customerId?: string, limit?: number) =>
+    api.get('/kitchen/portion-audit', { params: { customer_id: customerId, limit } }),
   
   // NEW: Clean Manifest (NO PRICES - pure logistics view)
   getCleanManifest: (date?: string, filterPlan?: string) => {
@@ -105,14 +127,34 @@ export const kitchenAPI = {
   
   // NEW: Route Suggestions (AI-generated)
   getRouteSuggestions: () => api.get('/admin/route-suggestions'),
+  reviewRouteSuggestion: (suggestionId: string) =>
+    api.post(`/admin/route-suggestions/${suggestionId}/review`),
+  
+  // NEW: Route planning - suggested groupings, drafts and publishing
+  getRoutePlan: (date?: string) => api.get('/kitchen/route-plan', { params: { date } }),
+  saveRoutePlan: (data: { date: string; routes: { driver_id: string | null; delivery_ids: string[] }[] }) =>
+    api.put('/kitchen/route-plan', data),
+  publishRoutePlan: (data: { date: string; routes: { driver_id: string | null; delivery_ids: string[] }[] }) =>
+    api.post('/kitchen/route-plan/publish', data),
   
   // NEW: Driver Location Tracking
   getDriverLocations: () => api.get('/kitchen/driver-locations'),
   
+  // NEW: Failed deliveries - status is open, resolved or all
+  getFailedDeliveries: (status: 'open' | 'resolved' | 'all' = 'open') =>
+    api.get('/kitchen/failed-deliveries', { params: { status } }),
+  getFailedDeliveryPhoto: (failureId: string) => api.get(`/kitchen/failed-deliveries/${failureId}/photo`),
+  resolveFailedDelivery: (
+    failureId: string,
+    data: { action: 'redeliver' | 'refund' | 'credit'; note?: string; redeliver_date?: string; amount?: number }
+  ) => api.post(`/kitchen/failed-deliveries/${failureId}/resolve`, data),
+  
   // Batch Totals
   getBatchTotals: () => api.get('/kitchen/batch-totals'),
-  markSoldOut: (itemName: string) => api.post('/kitchen/mark-sold-out', { item_name: itemName }),
-  getSoldOutItems: () => api.get('/kitchen/sold-out'),
+  markSoldOut: (itemName: string, date?: string) => api.post('/kitchen/mark-sold-out', { item_name: itemName, date }),
+  // NEW: Clear the sold-out flag again
+  restockItem: (itemName: string, date?: string) => api.post('/kitchen/restock', { item_name: itemName, date }),
+  getSoldOutItems: (date?: string) => api.get('/kitchen/sold-out', { params: { date } }),
   
   // Items (was Dishes)
   getDishes: () => api.get('/kitchen/dishes'),
@@ -125,11 +167,14 @@ export const kitchenAPI = {
   
   // Categories
   getCategories: () => api.get('/kitchen/categories'),
-  createCategory: (data: { name: string; description?: string; icon?: string; sort_order?: number }) =>
+  createCategory: (data: { name: string; description?: string; icon?: string; color?: string; sort_order?: number }) =>
     api.post('/kitchen/categories', data),
-  updateCategory: (id: string, data: { name: string; description?: string; icon?: string; sort_order?: number }) =>
+  updateCategory: (id: string, data: { name: string; description?: string; icon?: string; color?: string; sort_order?: number }) =>
     api.put(`/kitchen/categories/${id}`, data),
   deleteCategory: (id: string) => api.delete(`/kitchen/categories/${id}`),
+  // NEW: Persist drag-to-sort order (ids in display order)
+  reorderCategories: (categoryIds: string[]) =>
+    api.put('/kitchen/categories/reorder', { category_ids: categoryIds }),
   
   // Subscription Plans
   getPlans: () => api.get('/kitchen/plans'),
@@ -146,6 +191,10 @@ export const kitchenAPI = {
   
   // Modular Prep List
   getModularPrepList: () => api.get('/kitchen/modular-prep-list'),
+  // NEW: Cook sheet - today's batches with completion ticks
+  getCookSheet: () => api.get('/kitchen/cook-sheet'),
+  updateCookBatch: (data: { item_id: string; batch_index: number; done: boolean }) =>
+    api.post('/kitchen/cook-sheet/batch', data),
   
   // Halifax Test Data
   seedHalifaxData: () => api.post('/kitchen/seed-halifax-data'),
@@ -186,28 +235,80 @@ export const driverAPI = {
     }
     return api.get('/driver/full-manifest', { params });
   },
-  getOptimizedRoute: (lat: number, lon: number) => 
-    api.get('/driver/optimized-route', { params: { lat, lon } }),
+  // Keeps the driver's saved order unless reoptimize is set
+  getOptimizedRoute: (lat: number, lon: number, reoptimize = false) =>
+    api.get('/driver/optimized-route', { params: { lat, lon, reoptimize } }),
+  // NEW: Save the driver's own stop order (remaining stops, first stop first)
+  saveRouteOrder: (deliveryIds: string[]) =>
+    api.put('/driver/route-order', { delivery_ids: deliveryIds }),
   updateLocation: (latitude: number, longitude: number) =>
     api.post('/driver/update-location', { latitude, longitude }),
   startDelivery: (deliveryId: string) =>
     api.put(`/driver/start-delivery/${deliveryId}`),
+  arriveDelivery: (deliveryId: string) =>
+    api.put(`/driver/arrive/${deliveryId}`),
+  // NEW: Shift lifecycle - clock in, pick up, clock out (returns the end-of-shift summary)
+  getShift: () => api.get('/driver/shift'),
+  clockIn: () => api.post('/driver/shift/clock-in'),
+  confirmPickup: (loadedDeliveryIds: string[]) =>
+    api.post('/driver/shift/pickup', { loaded_delivery_ids: loadedDeliveryIds }),
+  clockOut: () => api.post('/driver/shift/clock-out'),
   // NEW: Complete with photo - instant sync
   completeWithPhoto: (deliveryId: string, status: string, photoBase64?: string) =>
     api.post(`/driver/delivery/${deliveryId}/complete`, { status, photo_base64: photoBase64 }),
   completeDelivery: (deliveryId: string, status: string, photoBase64?: string) =>
     api.put(`/driver/complete-delivery/${deliveryId}`, { status, photo_base64: photoBase64 }),
-  failDelivery: (deliveryId: string, reason: string = 'customer_unavailable') =>
-    api.put(`/driver/fail-delivery/${deliveryId}`, null, { params: { reason } }),
-  updateDeliveryStatus: (id: string, status: string, photoBase64?: string) =>
+  failDelivery: (
+    deliveryId: string,
+    data: {
+      reason: string;
+      notes?: string;
+      photo_base64?: string;
+      left_with?: 'neighbour' | 'concierge';
+      left_with_name?: string;
+      occurred_at?: string;
+    },
+    idempotencyKey?: string
+  ) =>
+    api.put(`/driver/fail-delivery/${deliveryId}`, data, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+    }),
+  // options come from the offline queue: the key makes a replay safe, occurredAt is when the driver acted
+  updateDeliveryStatus: (
+    id: string,
+    status: string,
+    photoBase64?: string,
+    scannedDeliveryId?: string,
+    options?: { idempotencyKey?: string; occurredAt?: string }
+  ) =>
     api.put(`/driver/delivery/${id}/status`, { 
       status,
-      photo_base64: photoBase64 
+      photo_base64: photoBase64,
+      scanned_delivery_id: scannedDeliveryId,
+      occurred_at: options?.occurredAt
+    }, {
+      headers: options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined
     }),
+  // Label QR scans: 'load' at pickup, 'deliver' at the door
+  scanDabba: (deliveryId: string, stage: 'load' | 'deliver') =>
+    api.post('/driver/scan', { delivery_id: deliveryId, stage }),
   // NEW: Log delivery metrics for AI learning
-  logMetrics: (deliveryId: string, predictedEta: number, actualTime: number) =>
+  logMetrics: (
+    deliveryId: string,
+    predictedEta: number,
+    actualTime: number,
+    timings?: { startedAt?: string; arrivedAt?: string; completedAt?: string; etaAdjustment?: number }
+  ) =>
     api.post('/metrics/delivery-completed', null, { 
-      params: { delivery_id: deliveryId, predicted_eta: predictedEta, actual_time: actualTime }
+      params: {
+        delivery_id: deliveryId,
+        predicted_eta: predictedEta,
+        actual_time: actualTime,
+        started_at: timings?.startedAt,
+        arrived_at: timings?.arrivedAt,
+        completed_at: timings?.completedAt,
+        eta_adjustment: timings?.etaAdjustment
+      }
     }),
 };
 
@@ -215,8 +316,9 @@ export const driverAPI = {
 export const customerAPI = {
   getDeliveryStatus: () => api.get('/customer/delivery-status'),
   trackDriver: () => api.get('/customer/track-driver'),
-  reportIssue: (data: { issue_type: string; description?: string; date?: string }) =>
+  reportIssue: (data: { issue_type: string; description?: string; date?: string; photo_base64?: string }) =>
     api.post('/customer/report-issue', data),
+  getIssues: () => api.get('/customer/issues'),
   
   // Platinum Tiffin Features
   getPreferences: () => api.get('/customer/preferences'),
@@ -246,10 +348,20 @@ export const chatAPI = {
 
 // Kitchen Intelligence APIs
 export const kitchenIntelAPI = {
-  getIngredientForecast: () => api.get('/kitchen/ingredient-forecast'),
+  getIngredientForecast: (days?: number) => api.get('/kitchen/ingredient-forecast', { params: { days } }),
   getCustomerPreferences: () => api.get('/kitchen/customer-preferences'),
-  getMealRatings: () => api.get('/kitchen/meal-ratings'),
-  setWeatherStatus: (status: string) => api.put('/kitchen/weather-status', null, { params: { status } }),
+  getMealRatings: (days?: number) => api.get('/kitchen/meal-ratings', { params: { days } }),
+  getQualityAlerts: () => api.get('/kitchen/quality-alerts'),
+  setWeatherStatus: (data: {
+    status: string;
+    condition?: string;
+    message?: string;
+    delay_minutes: number;
+    revert_at?: string | null;
+  }) => api.put('/kitchen/weather-status', data),
+  getWeatherPresets: () => api.get('/kitchen/weather-presets'),
+  // NEW: Predicted vs actual stop times by driver, neighbourhood and time of day
+  getEtaAccuracy: (days?: number) => api.get('/kitchen/eta-accuracy', { params: { days } }),
 };
 
 export default api;
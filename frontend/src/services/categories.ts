@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from 'react';
+import { publicAPI } from './api';
+
+export interface Category {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  sort_order?: number;
+  dish_count?: number;
+}
+
+export interface CategoryStyle {
+  icon: string;
+  color: string;
+  bgColor: string;
+  label: string;
+}
+
+// Choices offered by the kitchen category editor
+export const CATEGORY_ICON_OPTIONS = [
+  'restaurant', 'pizza', 'leaf', 'flame', 'water', 'nutrition',
+  'cafe', 'beer', 'ice-cream', 'fish', 'egg', 'add-circle',
+  'basket', 'flower', 'sunny', 'star',
+];
+
+export const CATEGORY_COLOR_OPTIONS = [
+  '#E65100', '#2E7D32', '#1565C0', '#7B1FA2', '#00838F', '#C41E3A', '#8B1538', '#B8860B',
+];
+
+const DEFAULT_COLOR = '#8B7355';
+
+// 8-digit hex gives a light tint of the category color for icon backgrounds
+export const tintColor = (color: string) => `${color}1F`;
+
+export const getCategoryStyle = (categories: Category[], name?: string): CategoryStyle => {
+  const key = (name || '').toLowerCase();
+  const category = categories.find(c => c.name.toLowerCase() === key || c.id === name);
+  const color = category?.color || DEFAULT_COLOR;
+  return {
+    icon: `${category?.icon || 'restaurant'}-outline`,
+    color,
+    bgColor: tintColor(color),
+    label: category?.name || (name ? name.charAt(0).toUpperCase() + name.slice(1) : 'Other'),
+  };
+};
+
+// Shared across screens so the list is fetched once per session
+let cachedCategories: Category[] | null = null;
+let pendingRequest: Promise<Category[]> | null = null;
+
+const loadCategories = () => {
+  if (!pendingRequest) {
+    pendingRequest = publicAPI.getCategories()
+      .then(response => {
+        cachedCategories = response.data.categories || [];
+        return cachedCategories!;
+      })
+      .finally(() => {
+        pendingRequest = null;
+      });
+  }
+  return pendingRequest;
+};
+
+export const useCategories = () => {
+  const [categories, setCategories] = useState<Category[]>(cachedCategories || []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCategories(await loadCategories());
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!cachedCategories) refresh();
+  }, [refresh]);
+
+  return { categories, refresh };
+};
+
+// Call after the kitchen edits categories so other screens pick up the change
+export const invalidateCategories = () => {
+  cachedCategories = null;
+};
@@ -0,0 +1,338 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { driverAPI } from './api';
+
+const QUEUE_STORAGE_KEY = 'driverDeliveryQueue';
+const MANIFEST_STORAGE_KEY = 'driverManifestCache';
+const TIMINGS_STORAGE_KEY = 'driverStopTimings';
+const PHOTO_DIRECTORY = 'delivery-queue';
+
+export type QueuedDeliveryStatus = 'delivered' | 'failed';
+
+export type FailureReason = 'customer_unavailable' | 'wrong_address' | 'access_issue' | 'refused' | 'other';
+
+export interface DeliveryFailureDetails {
+  reason: FailureReason;
+  notes?: string;
+  // Handed to someone else at the address - the server records the stop as delivered
+  leftWith?: 'neighbour' | 'concierge';
+  leftWithName?: string;
+}
+
+// Recorded on the phone as the driver starts and reaches each stop, uploaded with the completion
+export interface StopTimings {
+  startedAt?: string;
+  arrivedAt?: string;
+  // ETA shown when the stop was started, and the learned correction already inside it
+  predictedEta?: number;
+  etaAdjustment?: number;
+}
+
+export interface QueuedDeliveryAction {
+  // Doubles as the Idempotency-Key header, so a replay the server already applied is a no-op
+  key: string;
+  deliveryId: string;
+  status: QueuedDeliveryStatus;
+  scannedDeliveryId?: string;
+  failure?: DeliveryFailureDetails;
+  timings?: StopTimings;
+  // Proof photo copied into app storage; base64 is only read back when the action is sent
+  photoPath?: string;
+  stopNumber?: number;
+  customerName?: string;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type NewDeliveryAction = Omit<QueuedDeliveryAction, 'key' | 'timings' | 'photoPath' | 'queuedAt' | 'attempts' | 'lastError'>;
+
+export interface RejectedDeliveryAction {
+  action: QueuedDeliveryAction;
+  message: string;
+}
+
+export interface FlushResult {
+  synced: QueuedDeliveryAction[];
+  rejected: RejectedDeliveryAction[];
+  remaining: QueuedDeliveryAction[];
+}
+
+export interface CachedManifest<T> {
+  date: string; // YYYY-MM-DD, a cache from another day is ignored
+  deliveries: T[];
+  completed: number;
+  savedAt: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const createKey = (deliveryId: string, status: QueuedDeliveryStatus) =>
+  `${deliveryId}:${status}:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const readQueue = async (): Promise<QueuedDeliveryAction[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Every read-modify-write goes through one chain so an enqueue can't clobber a replay in progress
+let queueLock: Promise<unknown> = Promise.resolve();
+
+const updateQueue = (mutate: (queue: QueuedDeliveryAction[]) => QueuedDeliveryAction[]) => {
+  const next = queueLock.then(async () => {
+    const queue = mutate(await readQueue());
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    return queue;
+  });
+  queueLock = next.catch(() => {});
+  return next;
+};
+
+const readTimings = async (): Promise<Record<string, StopTimings>> => {
+  try {
+    const stored = await AsyncStorage.getItem(TIMINGS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+let timingsLock: Promise<unknown> = Promise.resolve();
+
+const updateTimings = <T>(mutate: (timings: Record<string, StopTimings>) => T) => {
+  const next = timingsLock.then(async () => {
+    const timings = await readTimings();
+    const result = mutate(timings);
+    await AsyncStorage.setItem(TIMINGS_STORAGE_KEY, JSON.stringify(timings));
+    return result;
+  });
+  timingsLock = next.catch(() => {});
+  return next;
+};
+
+export const recordStopStart = (deliveryId: string, predictedEta?: number, etaAdjustment?: number) =>
+  updateTimings(timings => {
+    // A second tap after a detour keeps the original start
+    if (!timings[deliveryId]?.startedAt) {
+      timings[deliveryId] = { startedAt: new Date().toISOString(), predictedEta, etaAdjustment };
+    }
+  }).catch(e => console.log('Could not record stop start:', e));
+
+export const recordStopArrival = (deliveryId: string) =>
+  updateTimings(timings => {
+    if (timings[deliveryId] && !timings[deliveryId].arrivedAt) {
+      timings[deliveryId].arrivedAt = new Date().toISOString();
+    }
+  }).catch(e => console.log('Could not record stop arrival:', e));
+
+const takeStopTimings = (deliveryId: string) =>
+  updateTimings(timings => {
+    const taken = timings[deliveryId];
+    delete timings[deliveryId];
+    // Drop anything left from earlier days so the map can't grow forever
+    Object.keys(timings).forEach(id => {
+      if (!timings[id].startedAt?.startsWith(today())) delete timings[id];
+    });
+    return taken;
+  }).catch(() => undefined);
+
+const storePhoto = (key: string, photoUri: string) => {
+  const directory = new Directory(Paths.document, PHOTO_DIRECTORY);
+  if (!directory.exists) directory.create({ idempotent: true });
+  const file = new File(directory, `${key.replace(/[^a-zA-Z0-9-]/g, '_')}.jpg`);
+  if (file.exists) file.delete();
+  new File(photoUri).copy(file);
+  return file.uri;
+};
+
+const removePhoto = (action: QueuedDeliveryAction) => {
+  if (!action.photoPath) return;
+  try {
+    const file = new File(action.photoPath);
+    if (file.exists) file.delete();
+  } catch (e) {
+    console.log('Could not remove queued photo:', e);
+  }
+};
+
+// No response at all means no signal; 5xx, 408 and 429 are worth another try later
+const isRetryable = (error: any) => {
+  const status = error?.response?.status;
+  return !status || status >= 500 || status === 408 || status === 429;
+};
+
+export const getQueuedActions = () => readQueue();
+
+export const enqueueDeliveryAction = async (action: NewDeliveryAction, photoUri?: string) => {
+  const key = createKey(action.deliveryId, action.status);
+  const timings = await takeStopTimings(action.deliveryId);
+  let photoPath: string | undefined;
+  if (photoUri) {
+    try {
+      photoPath = storePhoto(key, photoUri);
+    } catch (e) {
+      console.log('Could not keep delivery photo for sync:', e);
+    }
+  }
+  const queued: QueuedDeliveryAction = {
+    ...action,
+    key,
+    timings,
+    photoPath,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  return updateQueue(queue => [...queue, queued]);
+};
+
+// Start to arrival (or to completion when the driver never tapped arrive), in whole minutes
+const logStopMetrics = async (action: QueuedDeliveryAction) => {
+  const { startedAt, arrivedAt, predictedEta, etaAdjustment } = action.timings || {};
+  if (!startedAt || predictedEta === undefined) return;
+  const endedAt = arrivedAt || action.queuedAt;
+  const actualMinutes = Math.max(1, Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / 60000));
+  try {
+    await driverAPI.logMetrics(action.deliveryId, predictedEta, actualMinutes, {
+      startedAt,
+      arrivedAt,
+      completedAt: action.queuedAt,
+      etaAdjustment,
+    });
+  } catch (e) {
+    // Timings only tune future ETAs; never hold the queue up for them
+    console.log('Stop timings not recorded:', e);
+  }
+};
+
+const sendAction = async (action: QueuedDeliveryAction) => {
+  let photoBase64: string | undefined;
+  if (action.photoPath) {
+    const file = new File(action.photoPath);
+    photoBase64 = file.exists ? await file.base64() : undefined;
+  }
+  if (action.failure) {
+    await driverAPI.failDelivery(action.deliveryId, {
+      reason: action.failure.reason,
+      notes: action.failure.notes,
+      photo_base64: photoBase64,
+      left_with: action.failure.leftWith,
+      left_with_name: action.failure.leftWithName,
+      occurred_at: action.queuedAt,
+    }, action.key);
+    return;
+  }
+  await driverAPI.updateDeliveryStatus(
+    action.deliveryId,
+    action.status,
+    photoBase64,
+    action.scannedDeliveryId,
+    { idempotencyKey: action.key, occurredAt: action.queuedAt }
+  );
+};
+
+let flushing: Promise<FlushResult> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+type FlushListener = (result: FlushResult) => void;
+const flushListeners = new Set<FlushListener>();
+
+// Every flush is reported here, including the retries the queue schedules for itself
+export const subscribeToQueueFlush = (listener: FlushListener) => {
+  flushListeners.add(listener);
+  return () => {
+    flushListeners.delete(listener);
+  };
+};
+
+// A 5xx leaves the signal as it was, so no NetInfo change would ever trigger the next attempt
+const scheduleRetry = (delay: number) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushDeliveryQueue().catch(e => console.log('Queued delivery retry failed:', e));
+  }, delay);
+};
+
+/**
+ * Replay queued actions oldest first, re-reading the stored queue after each one so actions
+ * queued mid-flush go out in the same run. Stops at the first one that can't get through yet
+ * so later actions never overtake it, and retries that with backoff; actions the server
+ * refuses are dropped and reported.
+ */
+export const flushDeliveryQueue = (): Promise<FlushResult> => {
+  if (flushing) return flushing;
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  flushing = (async () => {
+    const synced: QueuedDeliveryAction[] = [];
+    const rejected: RejectedDeliveryAction[] = [];
+    let stalled = false;
+
+    let action: QueuedDeliveryAction | undefined;
+    while (!stalled && (action = (await readQueue())[0])) {
+      const current = action;
+      try {
+        await sendAction(current);
+        await logStopMetrics(current);
+        synced.push(current);
+        removePhoto(current);
+        await updateQueue(queue => queue.filter(a => a.key !== current.key));
+      } catch (error: any) {
+        const message = error?.response?.data?.detail || error?.message || 'Could not sync';
+        if (isRetryable(error)) {
+          await updateQueue(queue => queue.map(a =>
+            a.key === current.key ? { ...a, attempts: a.attempts + 1, lastError: message } : a
+          ));
+          stalled = true;
+        } else {
+          rejected.push({ action: current, message });
+          removePhoto(current);
+          await updateQueue(queue => queue.filter(a => a.key !== current.key));
+        }
+      }
+    }
+
+    const remaining = await readQueue();
+    if (remaining.length > 0) {
+      // Anything still here either failed just now or was queued after the last read
+      scheduleRetry(stalled ? Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (remaining[0].attempts - 1)) : 0);
+    }
+    const result = { synced, rejected, remaining };
+    flushListeners.forEach(listener => listener(result));
+    return result;
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+};
+
+export const saveCachedManifest = async <T>(deliveries: T[], completed: number) => {
+  const cache: CachedManifest<T> = { date: today(), deliveries, completed, savedAt: new Date().toISOString() };
+  try {
+    await AsyncStorage.setItem(MANIFEST_STORAGE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.log('Could not cache manifest:', e);
+  }
+};
+
+export const loadCachedManifest = async <T>(): Promise<CachedManifest<T> | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(MANIFEST_STORAGE_KEY);
+    if (!stored) return null;
+    const cache: CachedManifest<T> = JSON.parse(stored);
+    return cache.date === today() ? cache : null;
+  } catch {
+    return null;
+  }
+};
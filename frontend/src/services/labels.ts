@@ -0,0 +1,228 @@
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import QRCode from 'qrcode';
+
+export interface PackingLabel {
+  delivery_id?: string;
+  delivery_number: number;
+  customer_name: string;
+  address: string;
+  plan: string;
+  phone?: string;
+  spice_level?: string;
+}
+
+export type LabelFormat = 'pdf' | 'zpl' | 'escpos';
+
+export interface LabelSheetLayout {
+  id: string;
+  name: string;
+  // All measurements in inches on US Letter
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  top: number;
+  left: number;
+  columnGap: number;
+  // Small labels drop the phone line and shrink the text
+  compact: boolean;
+}
+
+export const LABEL_LAYOUTS: LabelSheetLayout[] = [
+  { id: '5163', name: 'Avery 5163 · 2" x 4" (10/sheet)', columns: 2, rows: 5, width: 4, height: 2, top: 0.5, left: 0.15625, columnGap: 0.1875, compact: false },
+  { id: '5164', name: 'Avery 5164 · 3⅓" x 4" (6/sheet)', columns: 2, rows: 3, width: 4, height: 3.3333, top: 0.5, left: 0.15625, columnGap: 0.1875, compact: false },
+  { id: '5160', name: 'Avery 5160 · 1" x 2⅝" (30/sheet)', columns: 3, rows: 10, width: 2.625, height: 1, top: 0.5, left: 0.1875, columnGap: 0.125, compact: true },
+];
+
+const QR_PREFIX = 'dabba://delivery/';
+
+/** What the label QR encodes; the driver app scans it to confirm a drop-off */
+export const buildLabelQrValue = (deliveryId: string) => `${QR_PREFIX}${deliveryId}`;
+
+/** Delivery id from a scanned label, or null for any other QR code */
+export const parseLabelQr = (value: string): string | null =>
+  value.startsWith(QR_PREFIX) && value.length > QR_PREFIX.length ? value.slice(QR_PREFIX.length) : null;
+
+/** Dark modules of the QR code as rows of booleans */
+export const getQrMatrix = (value: string): boolean[][] => {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => modules.get(row, col) === 1)
+  );
+};
+
+// One path for the whole code keeps the PDF small
+export const buildQrSvgPath = (matrix: boolean[][], offset = 0) =>
+  matrix
+    .flatMap((cells, row) => cells.map((dark, col) => (dark ? `M${col + offset},${row + offset}h1v1h-1z` : '')))
+    .join('');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const titleCase = (value?: string) => (value ? value.charAt(0).toUpperCase() + value.slice(1) : '');
+
+const qrSvg = (deliveryId?: string) => {
+  if (!deliveryId) return '';
+  const matrix = getQrMatrix(buildLabelQrValue(deliveryId));
+  const size = matrix.length + 4;
+  return `<svg class="qr" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">
+    <rect width="${size}" height="${size}" fill="#fff"/><path d="${buildQrSvgPath(matrix, 2)}" fill="#000"/></svg>`;
+};
+
+export const buildLabelsHtml = (labels: PackingLabel[], layout: LabelSheetLayout) => {
+  const perPage = layout.columns * layout.rows;
+  const pages: PackingLabel[][] = [];
+  for (let i = 0; i < labels.length; i += perPage) pages.push(labels.slice(i, i + perPage));
+
+  const renderLabel = (label: PackingLabel, index: number) => {
+    const col = index % layout.columns;
+    const row = Math.floor(index / layout.columns);
+    const left = layout.left + col * (layout.width + layout.columnGap);
+    const top = layout.top + row * layout.height;
+    return `
+      <div class="label" style="left:${left}in;top:${top}in;width:${layout.width}in;height:${layout.height}in">
+        <div class="info">
+          <div class="number">#${label.delivery_number}</div>
+          <div class="name">${escapeHtml(label.customer_name || '')}</div>
+          <div class="address">${escapeHtml(label.address || '')}</div>
+          <div class="tags">
+            <span class="tag">${escapeHtml(titleCase(label.plan))}</span>
+            ${label.spice_level ? `<span class="tag spice-${label.spice_level}">${escapeHtml(titleCase(label.spice_level))}</span>` : ''}
+          </div>
+          ${!layout.compact && label.phone ? `<div class="phone">${escapeHtml(label.phone)}</div>` : ''}
+        </div>
+        ${qrSvg(label.delivery_id)}
+      </div>`;
+  };
+
+  const scale = layout.compact ? 0.55 : 1;
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <style>
+    @page { size: letter; margin: 0; }
+    body { margin: 0; font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; }
+    .page { position: relative; width: 8.5in; height: 11in; page-break-after: always; overflow: hidden; }
+    .page:last-child { page-break-after: auto; }
+    .label { position: absolute; box-sizing: border-box; padding: ${0.12 * scale}in ${0.16 * scale}in;
+             display: flex; align-items: center; gap: ${0.1 * scale}in; overflow: hidden; }
+    .info { flex: 1; min-width: 0; }
+    .number { font-size: ${28 * scale}pt; font-weight: 800; line-height: 1; }
+    .name { font-size: ${13 * scale}pt; font-weight: 700; margin-top: ${4 * scale}pt;
+            white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    .address { font-size: ${9.5 * scale}pt; margin-top: ${2 * scale}pt; max-height: 2.5em; overflow: hidden; }
+    .tags { margin-top: ${4 * scale}pt; }
+    .tag { display: inline-block; font-size: ${8 * scale}pt; font-weight: 700; text-transform: uppercase;
+           border: 1px solid #111; border-radius: 3pt; padding: 0 ${3 * scale}pt; margin-right: 3pt; }
+    .spice-spicy { background: #111; color: #fff; }
+    .phone { font-size: ${9 * scale}pt; margin-top: ${3 * scale}pt; color: #444; }
+    .qr { height: 88%; aspect-ratio: 1; flex-shrink: 0; }
+  </style>
+</head>
+<body>
+  ${pages.map(page => `<div class="page">${page.map(renderLabel).join('')}</div>`).join('')}
+</body>
+</html>`;
+};
+
+// Thermal printers only get plain ASCII
+const toAscii = (value: string) =>
+  (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, '?');
+
+// ^ and ~ start ZPL commands inside field data
+const zplText = (value: string) => toAscii(value).replace(/[\^~]/g, ' ');
+
+/** ZPL II for 4" x 2" direct-thermal labels at 203 dpi */
+export const buildLabelsZpl = (labels: PackingLabel[]) =>
+  labels
+    .map(label => [
+      '^XA',
+      '^PW812',
+      '^LL406',
+      `^FO30,24^A0N,72,72^FD#${label.delivery_number}^FS`,
+      `^FO30,104^A0N,38,38^FB540,1,0,L^FD${zplText(label.customer_name)}^FS`,
+      `^FO30,150^A0N,26,26^FB540,3,4,L^FD${zplText(label.address)}^FS`,
+      `^FO30,262^A0N,28,28^FD${zplText(titleCase(label.plan))}${label.spice_level ? ` - ${zplText(titleCase(label.spice_level))}` : ''}^FS`,
+      label.phone ? `^FO30,302^A0N,24,24^FD${zplText(label.phone)}^FS` : '',
+      label.delivery_id ? `^FO590,36^BQN,2,6^FDMA,${buildLabelQrValue(label.delivery_id)}^FS` : '',
+      '^XZ',
+    ].filter(Boolean).join('\n'))
+    .join('\n');
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/** ESC/POS byte stream for 80mm receipt-style thermal printers, one cut per label */
+export const buildLabelsEscPos = (labels: PackingLabel[]) => {
+  const bytes: number[] = [ESC, 0x40];
+  const text = (value: string) => {
+    for (const char of toAscii(value)) bytes.push(char.charCodeAt(0));
+    bytes.push(0x0a);
+  };
+
+  labels.forEach(label => {
+    bytes.push(ESC, 0x61, 0x01); // centre
+    bytes.push(GS, 0x21, 0x22); // triple size
+    text(`#${label.delivery_number}`);
+    bytes.push(GS, 0x21, 0x00, ESC, 0x45, 0x01); // normal size, bold
+    text(label.customer_name);
+    bytes.push(ESC, 0x45, 0x00);
+    text(label.address);
+    text(`${titleCase(label.plan)}${label.spice_level ? ` - ${titleCase(label.spice_level)}` : ''}`);
+    if (label.phone) text(label.phone);
+
+    if (label.delivery_id) {
+      const data = Array.from(toAscii(buildLabelQrValue(label.delivery_id)), char => char.charCodeAt(0));
+      const storeLength = data.length + 3;
+      bytes.push(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00); // model 2
+      bytes.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 0x06); // module size
+      bytes.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31); // error correction M
+      bytes.push(GS, 0x28, 0x6b, storeLength % 256, Math.floor(storeLength / 256), 0x31, 0x50, 0x30, ...data);
+      bytes.push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30); // print
+    }
+
+    bytes.push(ESC, 0x64, 0x03); // feed
+    bytes.push(GS, 0x56, 0x42, 0x00); // partial cut
+  });
+
+  return new Uint8Array(bytes);
+};
+
+// Writes the labels to a temporary file and opens the OS share sheet
+export const shareLabels = async (labels: PackingLabel[], format: LabelFormat, layout: LabelSheetLayout = LABEL_LAYOUTS[0]) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const fileName = `dabba-labels-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'pdf') {
+    const { uri } = await Print.printToFileAsync({
+      html: buildLabelsHtml(labels, layout),
+      width: 612,
+      height: 792,
+      margins: { left: 0, top: 0, right: 0, bottom: 0 },
+    });
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `${fileName}.pdf`,
+    });
+    return;
+  }
+
+  const extension = format === 'zpl' ? 'zpl' : 'bin';
+  const file = new File(Paths.cache, `${fileName}.${extension}`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(format === 'zpl' ? buildLabelsZpl(labels) : buildLabelsEscPos(labels));
+  await Sharing.shareAsync(file.uri, {
+    mimeType: format === 'zpl' ? 'text/plain' : 'application/octet-stream',
+    UTI: format === 'zpl' ? 'public.plain-text' : 'public.data',
+    dialogTitle: `${fileName}.${extension}`,
+  });
+};
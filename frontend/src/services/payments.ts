@@ -0,0 +1,51 @@
+// Payment providers for wallet top-ups.
+// A provider collects payment details on the device and hands back a one-time
+// token; the backend charges that token with its matching provider.
+
+export interface PaymentResult {
+  provider: string;
+  token: string;
+}
+
+export interface PaymentProvider {
+  id: string;
+  label: string;
+  // Resolves with a token, or null if the customer backed out
+  requestPayment: (amount: number, currency: string) => Promise<PaymentResult | null>;
+}
+
+// Local provider for development - no card entry, always returns an approvable token
+const fakeProvider: PaymentProvider = {
+  id: 'fake',
+  label: 'Test card (dev)',
+  requestPayment: async () => {
+    await new Promise(resolve => setTimeout(resolve, 600));
+    return { provider: 'fake', token: `fake_tok_${Date.now()}` };
+  },
+};
+
+const providers: Record<string, PaymentProvider> = {
+  fake: fakeProvider,
+};
+
+export const registerPaymentProvider = (provider: PaymentProvider) => {
+  providers[provider.id] = provider;
+};
+
+const findPaymentProvider = (): PaymentProvider | undefined => {
+  const id = process.env.EXPO_PUBLIC_PAYMENT_PROVIDER;
+  return id ? providers[id] : undefined;
+};
+
+export const isPaymentConfigured = () => !!findPaymentProvider();
+
+// Provider is picked per build via EXPO_PUBLIC_PAYMENT_PROVIDER; there is no default,
+// so a build that forgets it cannot quietly fall back to the fake provider
+export const getPaymentProvider = (): PaymentProvider => {
+  const provider = findPaymentProvider();
+  if (!provider) {
+    const id = process.env.EXPO_PUBLIC_PAYMENT_PROVIDER;
+    throw new Error(id ? `Payment provider '${id}' is not available` : 'Payments are not configured for this build');
+  }
+  return provider;
+};
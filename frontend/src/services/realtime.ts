@@ -1,3 +1,4 @@
+import { useEffect, useRef, useState } from 'react';
 import Constants from 'expo-constants';
 
 // Get WebSocket URL from config
@@ -23,10 +24,49 @@ interface WebSocketMessage {
   data: any;
 }
 
+/**
+ * Events pushed by the backend ConnectionManager, keyed by event name.
+ * Connection lifecycle events are emitted locally by RealtimeService.
+ */
+export type RealtimeEventMap = {
+  dabba_ready: { delivery_id: string; timestamp: string };
+  delivery_update: { delivery_id: string; status: string; timestamp: string };
+  driver_location: { driver_id: string; latitude: number; longitude: number; timestamp: string };
+  menu_update: { date: string; timestamp: string };
+  manifest_update: { action: string; timestamp: string };
+  sold_out_update: { date: string; item_name: string; sold_out: boolean; timestamp: string };
+  cook_sheet_update: { item_id: string; batch_index: number; done: boolean; timestamp: string };
+  weather_update: {
+    condition: string;
+    status: string;
+    message: string;
+    delay_minutes: number;
+    revert_at: string | null;
+    timestamp: string;
+  };
+  connected: { userId: string; role: string };
+  disconnected: { code: number; reason: string };
+  error: unknown;
+  max_reconnects: { attempts: number };
+};
+
+export type RealtimeEventName = keyof RealtimeEventMap;
+
+/** Discriminated union of every event, handy for handlers that switch on `event` */
+export type RealtimeEvent = {
+  [K in RealtimeEventName]: { event: K; data: RealtimeEventMap[K] };
+}[RealtimeEventName];
+
+/** The WebSocket route only knows customer, driver and kitchen; admins share the kitchen channel */
+export const getRealtimeRole = (role: string): string => {
+  return role === 'admin' ? 'kitchen' : role;
+};
+
 class RealtimeService {
   private ws: WebSocket | null = null;
   private userId: string = '';
   private role: string = '';
+  private token: string = '';
   private listeners: Map<string, EventCallback[]> = new Map();
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
@@ -38,8 +78,9 @@ class RealtimeService {
    * Connect to WebSocket for real-time updates
    * @param userId - User ID
    * @param role - User role (customer, driver, kitchen)
+   * @param token - Login JWT; the server only accepts it for this user and role
    */
-  connect(userId: string, role: string): void {
+  connect(userId: string, role: string, token: string): void {
     if (this.ws?.readyState === WebSocket.OPEN || this.isConnecting) {
       console.log('[WS] Already connected or connecting');
       return;
@@ -47,13 +88,14 @@ class RealtimeService {
 
     this.userId = userId;
     this.role = role;
+    this.token = token;
     this.isConnecting = true;
 
     const wsUrl = `${getWsUrl()}/ws/${role}/${userId}`;
     console.log('[WS] Connecting to:', wsUrl);
 
     try {
-      this.ws = new WebSocket(wsUrl);
+      this.ws = new WebSocket(`${wsUrl}?token=${encodeURIComponent(token)}`);
 
       this.ws.onopen = () => {
         console.log('[WS] Connected successfully');
@@ -103,9 +145,16 @@ class RealtimeService {
       this.reconnectTimeout = null;
     }
     if (this.ws) {
+      // Detach before closing so a deliberate disconnect doesn't trigger a reconnect
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
+      this.emit('disconnected', { code: 1000, reason: 'Client disconnected' });
     }
+    this.userId = '';
+    this.role = '';
+    this.token = '';
+    this.isConnecting = false;
     this.reconnectAttempts = 0;
   }
 
@@ -115,6 +164,8 @@ class RealtimeService {
    * @param callback - Callback function
    * @returns Unsubscribe function
    */
+  on<K extends RealtimeEventName>(event: K, callback: (data: RealtimeEventMap[K]) => void): () => void;
+  on(event: string, callback: EventCallback): () => void;
   on(event: string, callback: EventCallback): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, []);
@@ -195,8 +246,8 @@ class RealtimeService {
     console.log(`[WS] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
 
     this.reconnectTimeout = setTimeout(() => {
-      if (this.userId && this.role) {
-        this.connect(this.userId, this.role);
+      if (this.userId && this.role && this.token) {
+        this.connect(this.userId, this.role, this.token);
       }
     }, delay);
   }
@@ -217,4 +268,35 @@ export const useRealtime = () => {
   return realtimeService;
 };
 
+/**
+ * Subscribe a component to a realtime event for as long as it is mounted.
+ * The latest handler is always called, so callers don't need to memoize it.
+ */
+export function useRealtimeEvent<K extends RealtimeEventName>(
+  eventName: K,
+  handler: (data: RealtimeEventMap[K]) => void
+): void {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    return realtimeService.on(eventName, (data) => handlerRef.current(data));
+  }, [eventName]);
+}
+
+/**
+ * Track whether the socket is currently open, e.g. to fall back to polling while offline.
+ */
+export function useRealtimeStatus(): boolean {
+  const [connected, setConnected] = useState(realtimeService.isConnected());
+
+  useRealtimeEvent('connected', () => setConnected(true));
+  useRealtimeEvent('disconnected', () => setConnected(false));
+
+  return connected;
+}
+
 export default realtimeService;
@@ -0,0 +1,105 @@
+import { MapPoint } from '../components/LeafletMap';
+
+// OSRM-compatible router we run or license ourselves, e.g. https://routing.example.com/route/v1/driving.
+// Stops are customer addresses, so they never go to a public router; without one the route
+// view falls back to straight lines and server ETAs.
+const OSRM_URL = process.env.EXPO_PUBLIC_ROUTING_URL?.replace(/\/+$/, '');
+const REQUEST_TIMEOUT_MS = 8000;
+
+export interface RouteStep {
+  instruction: string;
+  distanceM: number;
+}
+
+export interface RouteLeg {
+  distanceKm: number;
+  durationMinutes: number;
+  steps: RouteStep[];
+}
+
+export interface RoadRoute {
+  // [latitude, longitude] pairs, ready for a Leaflet polyline
+  path: [number, number][];
+  distanceKm: number;
+  durationMinutes: number;
+  legs: RouteLeg[];
+}
+
+const describeStep = (step: any): string => {
+  const { type, modifier } = step.maneuver || {};
+  const road = step.name ? ` onto ${step.name}` : '';
+  switch (type) {
+    case 'depart':
+      return step.name ? `Head out on ${step.name}` : 'Head out';
+    case 'arrive':
+      return 'Arrive at the stop';
+    case 'roundabout':
+    case 'rotary':
+      return `At the roundabout, take exit ${step.maneuver.exit || 1}${road}`;
+    case 'merge':
+      return `Merge${road}`;
+    case 'fork':
+      return `Keep ${modifier || 'straight'} at the fork${road}`;
+    case 'on ramp':
+      return `Take the ramp${road}`;
+    case 'off ramp':
+      return `Take the exit${road}`;
+    case 'end of road':
+      return `At the end of the road, turn ${modifier || 'right'}${road}`;
+    default:
+      if (!modifier || modifier === 'straight') return `Continue${road}`;
+      if (modifier === 'uturn') return `Make a U-turn${road}`;
+      return `Turn ${modifier}${road}`;
+  }
+};
+
+/**
+ * Driving route through every point in order. Returns null when no router is
+ * configured or it can't be reached, so callers fall back to straight lines and server ETAs.
+ */
+export const fetchRoadRoute = async (points: MapPoint[]): Promise<RoadRoute | null> => {
+  if (!OSRM_URL || points.length < 2) return null;
+  const coords = points.map(p => `${p.longitude},${p.latitude}`).join(';');
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(
+      `${OSRM_URL}/${coords}?overview=full&geometries=geojson&steps=true`,
+      { signal: controller.signal }
+    );
+    const data = await response.json();
+    const route = data.routes?.[0];
+    if (data.code !== 'Ok' || !route) return null;
+    return {
+      path: route.geometry.coordinates.map(([lon, lat]: [number, number]) => [lat, lon]),
+      distanceKm: Math.round(route.distance / 100) / 10,
+      durationMinutes: Math.round(route.duration / 60),
+      legs: route.legs.map((leg: any) => ({
+        distanceKm: Math.round(leg.distance / 100) / 10,
+        durationMinutes: Math.round(leg.duration / 60),
+        steps: leg.steps
+          .filter((step: any) => step.distance > 0 || step.maneuver?.type === 'arrive')
+          .map((step: any) => ({ instruction: describeStep(step), distanceM: Math.round(step.distance) })),
+      })),
+    };
+  } catch (error) {
+    console.log('Road route unavailable:', error);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+export const formatStepDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters / 10) * 10} m`;
+
+// Mirrors the server's calculate_distance_km / calculate_eta_minutes for reordered stops
+export const straightLineKm = (a: MapPoint, b: MapPoint) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return Math.round(6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h)) * 100) / 100;
+};
+
+export const estimateLegMinutes = (km: number) => Math.floor((km / 30) * 60 + 5);
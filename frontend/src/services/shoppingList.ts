@@ -0,0 +1,64 @@
+import { Share } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface ShoppingListItem {
+  name: string;
+  unit: string;
+  needed: number;
+  onHand: number;
+  toBuy: number;
+}
+
+export interface ShoppingListData {
+  period: string;
+  items: ShoppingListItem[];
+}
+
+export type ShoppingListFormat = 'csv' | 'text';
+
+const qty = (value: number) => String(Math.round(value * 100) / 100);
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const buildShoppingListCsv = (data: ShoppingListData) => {
+  const rows = [
+    ['Ingredient', 'Unit', 'Needed', 'On hand', 'To buy'],
+    ...data.items.map(item => [item.name, item.unit, qty(item.needed), qty(item.onHand), qty(item.toBuy)]),
+  ];
+  return rows.map(row => row.map(cell => csvCell(cell)).join(',')).join('\n');
+};
+
+// Short enough to paste into a text or WhatsApp message to the supplier
+export const buildShoppingListText = (data: ShoppingListData) => {
+  const lines = data.items
+    .filter(item => item.toBuy > 0)
+    .map(item => `• ${item.name}: ${qty(item.toBuy)} ${item.unit}`);
+  return [
+    'The Dabba - Order',
+    data.period,
+    '',
+    ...(lines.length ? lines : ['Nothing needed this period']),
+  ].join('\n');
+};
+
+export const shareShoppingList = async (data: ShoppingListData, format: ShoppingListFormat) => {
+  if (format === 'text') {
+    await Share.share({ message: buildShoppingListText(data) });
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const fileName = `dabba-shopping-${data.period.slice(0, 10)}`;
+  const file = new File(Paths.cache, `${fileName}.csv`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(buildShoppingListCsv(data));
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: `${fileName}.csv`,
+  });
+};
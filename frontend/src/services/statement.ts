@@ -0,0 +1,139 @@
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+export interface StatementTransaction {
+  id: string;
+  type: string;
+  amount: number;
+  description: string;
+  date: string;
+  balance_after?: number;
+}
+
+export interface StatementData {
+  month: string; // YYYY-MM
+  customerName?: string;
+  currency: string;
+  transactions: StatementTransaction[];
+  summary: {
+    credits: number;
+    debits: number;
+    opening_balance: number | null;
+    closing_balance: number | null;
+  };
+}
+
+export type StatementFormat = 'csv' | 'pdf';
+
+const money = (value: number | null | undefined) => (value ?? 0).toFixed(2);
+
+const monthLabel = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-CA', { month: 'long', year: 'numeric' });
+};
+
+// Oldest first reads better on paper
+const chronological = (transactions: StatementTransaction[]) =>
+  [...transactions].sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const buildStatementCsv = (data: StatementData) => {
+  const rows = [
+    ['Date', 'Description', 'Type', `Amount (${data.currency})`, `Balance (${data.currency})`],
+    ...chronological(data.transactions).map(tx => [
+      (tx.date || '').slice(0, 10),
+      tx.description,
+      tx.type,
+      money(tx.amount),
+      money(tx.balance_after),
+    ]),
+    [],
+    ['Opening balance', '', '', '', money(data.summary.opening_balance)],
+    ['Total credits', '', '', money(data.summary.credits), ''],
+    ['Total debits', '', '', money(-data.summary.debits), ''],
+    ['Closing balance', '', '', '', money(data.summary.closing_balance)],
+  ];
+  return rows.map(row => row.map(cell => csvCell(String(cell))).join(',')).join('\n');
+};
+
+export const buildStatementHtml = (data: StatementData) => {
+  const rows = chronological(data.transactions)
+    .map(tx => `
+      <tr>
+        <td>${(tx.date || '').slice(0, 10)}</td>
+        <td>${escapeHtml(tx.description)}</td>
+        <td class="num ${tx.amount < 0 ? 'debit' : 'credit'}">${tx.amount < 0 ? '-' : '+'}$${money(Math.abs(tx.amount))}</td>
+        <td class="num">$${money(tx.balance_after)}</td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1F2937; padding: 32px; }
+    h1 { color: #8B1538; margin: 0; }
+    .meta { color: #6B7280; margin: 4px 0 24px; }
+    .summary { display: flex; gap: 24px; margin-bottom: 24px; }
+    .summary div { flex: 1; border: 1px solid #E5E7EB; border-radius: 8px; padding: 12px; }
+    .summary span { display: block; font-size: 12px; color: #6B7280; }
+    .summary strong { font-size: 18px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th { text-align: left; border-bottom: 2px solid #1F2937; padding: 8px 4px; }
+    td { border-bottom: 1px solid #E5E7EB; padding: 8px 4px; }
+    .num { text-align: right; }
+    .credit { color: #10B981; }
+    .debit { color: #DC2626; }
+  </style>
+</head>
+<body>
+  <h1>The Dabba - Wallet Statement</h1>
+  <p class="meta">${monthLabel(data.month)}${data.customerName ? ` · ${escapeHtml(data.customerName)}` : ''} · ${data.currency}</p>
+  <div class="summary">
+    <div><span>Opening balance</span><strong>$${money(data.summary.opening_balance)}</strong></div>
+    <div><span>Credits</span><strong class="credit">+$${money(data.summary.credits)}</strong></div>
+    <div><span>Debits</span><strong class="debit">-$${money(data.summary.debits)}</strong></div>
+    <div><span>Closing balance</span><strong>$${money(data.summary.closing_balance)}</strong></div>
+  </div>
+  <table>
+    <thead><tr><th>Date</th><th>Description</th><th class="num">Amount</th><th class="num">Balance</th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="4">No transactions this month</td></tr>'}</tbody>
+  </table>
+</body>
+</html>`;
+};
+
+// Writes the statement to a temporary file and opens the OS share sheet
+export const shareStatement = async (data: StatementData, format: StatementFormat) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const fileName = `dabba-wallet-${data.month}`;
+
+  if (format === 'pdf') {
+    const { uri } = await Print.printToFileAsync({ html: buildStatementHtml(data) });
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `${fileName}.pdf`,
+    });
+    return;
+  }
+
+  const file = new File(Paths.cache, `${fileName}.csv`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(buildStatementCsv(data));
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: `${fileName}.csv`,
+  });
+};